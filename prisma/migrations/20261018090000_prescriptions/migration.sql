@@ -0,0 +1,140 @@
+-- CreateTable
+CREATE TABLE "public"."prescriptions" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "prescriberId" TEXT NOT NULL,
+    "encounterId" TEXT,
+    "status" "public"."PrescriptionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "notes" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "cancelledReason" TEXT,
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prescriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."prescription_items" (
+    "id" TEXT NOT NULL,
+    "prescriptionId" TEXT NOT NULL,
+    "medicationName" TEXT NOT NULL,
+    "dose" TEXT NOT NULL,
+    "route" TEXT,
+    "frequency" TEXT NOT NULL,
+    "durationDays" INTEGER,
+    "quantity" TEXT,
+    "refillsAllowed" INTEGER NOT NULL DEFAULT 0,
+    "refillsRemaining" INTEGER NOT NULL DEFAULT 0,
+    "instructions" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prescription_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prescriptions_patientId_idx" ON "public"."prescriptions"("patientId");
+
+-- CreateIndex
+CREATE INDEX "prescriptions_prescriberId_idx" ON "public"."prescriptions"("prescriberId");
+
+-- CreateIndex
+CREATE INDEX "prescriptions_encounterId_idx" ON "public"."prescriptions"("encounterId");
+
+-- CreateIndex
+CREATE INDEX "prescriptions_status_idx" ON "public"."prescriptions"("status");
+
+-- CreateIndex
+CREATE INDEX "prescriptions_expiresAt_idx" ON "public"."prescriptions"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "prescription_items_prescriptionId_idx" ON "public"."prescription_items"("prescriptionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."prescriptions" ADD CONSTRAINT "prescriptions_encounterId_fkey" FOREIGN KEY ("encounterId") REFERENCES "public"."encounters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prescriptions" ADD CONSTRAINT "prescriptions_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prescriptions" ADD CONSTRAINT "prescriptions_prescriberId_fkey" FOREIGN KEY ("prescriberId") REFERENCES "public"."users"("healthId") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prescription_items" ADD CONSTRAINT "prescription_items_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "public"."prescriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate legacy prescriptions
+-- Prescriptions used to be stored as observations with code 'PRESCRIPTION' and unit 'prescription',
+-- the medication details living in the JSON value. Each one becomes a single-item prescription that
+-- keeps the observation id, so links handed out before this migration still resolve.
+CREATE TEMP TABLE "legacy_prescriptions" AS
+SELECT
+    o."id",
+    o."patientId",
+    COALESCE(o."value"->>'prescribedBy', o."providerId") AS "prescriberId",
+    o."encounterId",
+    o."recordedAt",
+    o."createdAt",
+    o."value"->>'medicationName' AS "medicationName",
+    o."value"->>'dosage' AS "dose",
+    o."value"->>'frequency' AS "frequency",
+    o."value"->>'duration' AS "duration",
+    o."value"->>'instructions' AS "instructions",
+    CASE
+        WHEN o."value"->>'status' IN ('ACTIVE', 'COMPLETED', 'CANCELLED', 'EXPIRED') THEN o."value"->>'status'
+        ELSE 'ACTIVE'
+    END AS "status",
+    CASE
+        WHEN o."value"->>'duration' ~* '^\s*\d+\s*(d|day|days)\s*$' THEN substring(o."value"->>'duration' from '\d+')::INTEGER
+        WHEN o."value"->>'duration' ~* '^\s*\d+\s*(w|wk|week|weeks)\s*$' THEN substring(o."value"->>'duration' from '\d+')::INTEGER * 7
+        WHEN o."value"->>'duration' ~* '^\s*\d+\s*(m|mo|month|months)\s*$' THEN substring(o."value"->>'duration' from '\d+')::INTEGER * 30
+        WHEN o."value"->>'duration' ~ '^\s*\d+\s*$' THEN substring(o."value"->>'duration' from '\d+')::INTEGER
+        ELSE NULL
+    END AS "durationDays"
+FROM "public"."observations" o
+WHERE o."code" = 'PRESCRIPTION'
+  AND o."unit" = 'prescription'
+  AND o."value"->>'medicationName' IS NOT NULL;
+
+INSERT INTO "public"."prescriptions" ("id", "patientId", "prescriberId", "encounterId", "status", "issuedAt", "expiresAt", "completedAt", "cancelledAt", "createdAt", "updatedAt")
+SELECT
+    l."id",
+    l."patientId",
+    l."prescriberId",
+    l."encounterId",
+    l."status"::"public"."PrescriptionStatus",
+    l."recordedAt",
+    l."recordedAt" + make_interval(days => COALESCE(l."durationDays", 30)),
+    CASE WHEN l."status" = 'COMPLETED' THEN CURRENT_TIMESTAMP ELSE NULL END,
+    CASE WHEN l."status" = 'CANCELLED' THEN CURRENT_TIMESTAMP ELSE NULL END,
+    l."createdAt",
+    CURRENT_TIMESTAMP
+FROM "legacy_prescriptions" l
+WHERE EXISTS (SELECT 1 FROM "public"."users" u WHERE u."healthId" = l."prescriberId");
+
+INSERT INTO "public"."prescription_items" ("id", "prescriptionId", "medicationName", "dose", "frequency", "durationDays", "instructions", "createdAt", "updatedAt")
+SELECT
+    l."id" || '-item',
+    l."id",
+    l."medicationName",
+    COALESCE(l."dose", ''),
+    COALESCE(l."frequency", ''),
+    l."durationDays",
+    CASE
+        WHEN l."durationDays" IS NULL AND l."duration" IS NOT NULL
+            THEN concat_ws(E'\n', l."instructions", 'Duration: ' || l."duration")
+        ELSE l."instructions"
+    END,
+    l."createdAt",
+    CURRENT_TIMESTAMP
+FROM "legacy_prescriptions" l
+WHERE EXISTS (SELECT 1 FROM "public"."prescriptions" p WHERE p."id" = l."id");
+
+DELETE FROM "public"."observations" o
+WHERE EXISTS (SELECT 1 FROM "public"."prescriptions" p WHERE p."id" = o."id");
+
+DROP TABLE "legacy_prescriptions";
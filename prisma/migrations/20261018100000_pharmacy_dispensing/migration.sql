@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "public"."prescriptions" ADD COLUMN     "fullyDispensedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."prescription_items" ADD COLUMN     "fillsDispensed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "partialFillOpen" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."prescription_dispensations" (
+    "id" TEXT NOT NULL,
+    "prescriptionId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "pharmacyId" TEXT NOT NULL,
+    "quantity" TEXT,
+    "isPartial" BOOLEAN NOT NULL DEFAULT false,
+    "isRefill" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "dispensedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prescription_dispensations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prescription_dispensations_prescriptionId_idx" ON "public"."prescription_dispensations"("prescriptionId");
+
+-- CreateIndex
+CREATE INDEX "prescription_dispensations_itemId_idx" ON "public"."prescription_dispensations"("itemId");
+
+-- CreateIndex
+CREATE INDEX "prescription_dispensations_pharmacyId_idx" ON "public"."prescription_dispensations"("pharmacyId");
+
+-- CreateIndex
+CREATE INDEX "prescription_dispensations_dispensedAt_idx" ON "public"."prescription_dispensations"("dispensedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."prescription_dispensations" ADD CONSTRAINT "prescription_dispensations_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "public"."prescriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prescription_dispensations" ADD CONSTRAINT "prescription_dispensations_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "public"."prescription_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prescription_dispensations" ADD CONSTRAINT "prescription_dispensations_pharmacyId_fkey" FOREIGN KEY ("pharmacyId") REFERENCES "public"."users"("healthId") ON DELETE RESTRICT ON UPDATE CASCADE;
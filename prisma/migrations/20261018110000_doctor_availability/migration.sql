@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "public"."AvailabilityExceptionType" AS ENUM ('LEAVE', 'HOLIDAY', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "public"."doctor_availability" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "slotMinutes" INTEGER NOT NULL DEFAULT 30,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "doctor_availability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."doctor_availability_exceptions" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "type" "public"."AvailabilityExceptionType" NOT NULL DEFAULT 'LEAVE',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "doctor_availability_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "doctor_availability_doctorId_idx" ON "public"."doctor_availability"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "doctor_availability_doctorId_dayOfWeek_idx" ON "public"."doctor_availability"("doctorId", "dayOfWeek");
+
+-- CreateIndex
+CREATE INDEX "doctor_availability_exceptions_doctorId_idx" ON "public"."doctor_availability_exceptions"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "doctor_availability_exceptions_startsAt_endsAt_idx" ON "public"."doctor_availability_exceptions"("startsAt", "endsAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."doctor_availability" ADD CONSTRAINT "doctor_availability_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."doctor_availability_exceptions" ADD CONSTRAINT "doctor_availability_exceptions_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "public"."appointments" ADD COLUMN     "occurrenceIndex" INTEGER,
+ADD COLUMN     "originalStartTime" TIMESTAMP(3),
+ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."appointment_series" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "frequency" "public"."RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "count" INTEGER,
+    "until" TIMESTAMP(3),
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL DEFAULT 30,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+
+    CONSTRAINT "appointment_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_series_patientId_idx" ON "public"."appointment_series"("patientId");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_doctorId_idx" ON "public"."appointment_series"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "appointments_seriesId_idx" ON "public"."appointments"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "public"."appointments" ADD CONSTRAINT "appointments_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "public"."appointment_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."appointment_series" ADD CONSTRAINT "appointment_series_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."appointment_series" ADD CONSTRAINT "appointment_series_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- AlterEnum
+ALTER TYPE "public"."AppointmentNotificationType" ADD VALUE 'WAITLIST_SLOT_OFFERED';
+
+-- CreateEnum
+CREATE TYPE "public"."WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'BOOKED', 'EXPIRED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "public"."WaitlistOfferStatus" AS ENUM ('PENDING', 'CLAIMED', 'DECLINED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."appointment_waitlist" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "preferredFrom" TIMESTAMP(3) NOT NULL,
+    "preferredTo" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL DEFAULT 30,
+    "reasonForVisit" TEXT,
+    "appointmentType" TEXT,
+    "status" "public"."WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "bookedAppointmentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_waitlist_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."waitlist_offers" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "slotStart" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "sourceAppointmentId" TEXT NOT NULL,
+    "status" "public"."WaitlistOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "waitlist_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_waitlist_doctorId_status_idx" ON "public"."appointment_waitlist"("doctorId", "status");
+
+-- CreateIndex
+CREATE INDEX "appointment_waitlist_patientId_idx" ON "public"."appointment_waitlist"("patientId");
+
+-- CreateIndex
+CREATE INDEX "appointment_waitlist_preferredTo_idx" ON "public"."appointment_waitlist"("preferredTo");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_entryId_idx" ON "public"."waitlist_offers"("entryId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_doctorId_slotStart_idx" ON "public"."waitlist_offers"("doctorId", "slotStart");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_status_expiresAt_idx" ON "public"."waitlist_offers"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."appointment_waitlist" ADD CONSTRAINT "appointment_waitlist_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."appointment_waitlist" ADD CONSTRAINT "appointment_waitlist_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."waitlist_offers" ADD CONSTRAINT "waitlist_offers_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."appointment_waitlist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."waitlist_offers" ADD CONSTRAINT "waitlist_offers_sourceAppointmentId_fkey" FOREIGN KEY ("sourceAppointmentId") REFERENCES "public"."appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
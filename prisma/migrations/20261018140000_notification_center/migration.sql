@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "public"."NotificationCategory" AS ENUM ('APPOINTMENT', 'CONSENT', 'EMERGENCY_ACCESS', 'CRITICAL_OBSERVATION', 'VERIFICATION', 'SECURITY', 'PRESCRIPTION', 'RECORD_UPDATE', 'SYSTEM');
+
+-- CreateEnum
+CREATE TYPE "public"."NotificationChannel" AS ENUM ('IN_APP', 'EMAIL', 'SMS');
+
+-- CreateEnum
+CREATE TYPE "public"."NotificationPriority" AS ENUM ('LOW', 'NORMAL', 'HIGH', 'CRITICAL');
+
+-- CreateEnum
+CREATE TYPE "public"."NotificationDeliveryStatus" AS ENUM ('PENDING', 'DEFERRED', 'SENT', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "public"."notifications" (
+    "id" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+    "category" "public"."NotificationCategory" NOT NULL,
+    "priority" "public"."NotificationPriority" NOT NULL DEFAULT 'NORMAL',
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "data" JSONB,
+    "resourceType" TEXT,
+    "resourceId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."notification_deliveries" (
+    "id" TEXT NOT NULL,
+    "notificationId" TEXT NOT NULL,
+    "channel" "public"."NotificationChannel" NOT NULL,
+    "status" "public"."NotificationDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "scheduledFor" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_recipientId_readAt_idx" ON "public"."notifications"("recipientId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_category_idx" ON "public"."notifications"("category");
+
+-- CreateIndex
+CREATE INDEX "notifications_createdAt_idx" ON "public"."notifications"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_scheduledFor_idx" ON "public"."notification_deliveries"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_notificationId_idx" ON "public"."notification_deliveries"("notificationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."notification_deliveries" ADD CONSTRAINT "notification_deliveries_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "public"."notifications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
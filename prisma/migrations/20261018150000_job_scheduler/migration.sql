@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "public"."JobTrigger" AS ENUM ('SCHEDULE', 'RETRY', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "public"."scheduled_jobs" (
+    "name" TEXT NOT NULL,
+    "intervalSeconds" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "failureCount" INTEGER NOT NULL DEFAULT 0,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastSuccessAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_jobs_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "public"."job_runs" (
+    "id" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "status" "public"."JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "trigger" "public"."JobTrigger" NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "instanceId" TEXT NOT NULL,
+    "triggeredBy" TEXT,
+    "result" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_jobs_nextRunAt_idx" ON "public"."scheduled_jobs"("nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "job_runs_jobName_startedAt_idx" ON "public"."job_runs"("jobName", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "job_runs_status_idx" ON "public"."job_runs"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."job_runs" ADD CONSTRAINT "job_runs_jobName_fkey" FOREIGN KEY ("jobName") REFERENCES "public"."scheduled_jobs"("name") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "public"."CriticalAlertStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "public"."AlertRecipientType" AS ENUM ('PROVIDER', 'EMERGENCY_CONTACT');
+
+-- CreateTable
+CREATE TABLE "public"."critical_alerts" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "observationId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "unit" TEXT,
+    "source" "public"."ObservationSource" NOT NULL,
+    "status" "public"."CriticalAlertStatus" NOT NULL DEFAULT 'OPEN',
+    "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+    "lastNotifiedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledgedById" TEXT,
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgementNote" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "critical_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."critical_alert_recipients" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "recipientType" "public"."AlertRecipientType" NOT NULL,
+    "providerId" TEXT,
+    "emergencyContactId" TEXT,
+    "accessLevel" "public"."AccessLevel",
+    "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+    "notifiedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "critical_alert_recipients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "critical_alerts_patientId_idx" ON "public"."critical_alerts"("patientId");
+
+-- CreateIndex
+CREATE INDEX "critical_alerts_status_lastNotifiedAt_idx" ON "public"."critical_alerts"("status", "lastNotifiedAt");
+
+-- CreateIndex
+CREATE INDEX "critical_alerts_observationId_idx" ON "public"."critical_alerts"("observationId");
+
+-- CreateIndex
+CREATE INDEX "critical_alert_recipients_providerId_idx" ON "public"."critical_alert_recipients"("providerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "critical_alert_recipients_alertId_providerId_key" ON "public"."critical_alert_recipients"("alertId", "providerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "critical_alert_recipients_alertId_emergencyContactId_key" ON "public"."critical_alert_recipients"("alertId", "emergencyContactId");
+
+-- AddForeignKey
+ALTER TABLE "public"."critical_alerts" ADD CONSTRAINT "critical_alerts_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."critical_alerts" ADD CONSTRAINT "critical_alerts_observationId_fkey" FOREIGN KEY ("observationId") REFERENCES "public"."observations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."critical_alerts" ADD CONSTRAINT "critical_alerts_acknowledgedById_fkey" FOREIGN KEY ("acknowledgedById") REFERENCES "public"."users"("healthId") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."critical_alert_recipients" ADD CONSTRAINT "critical_alert_recipients_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "public"."critical_alerts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."critical_alert_recipients" ADD CONSTRAINT "critical_alert_recipients_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."critical_alert_recipients" ADD CONSTRAINT "critical_alert_recipients_emergencyContactId_fkey" FOREIGN KEY ("emergencyContactId") REFERENCES "public"."emergency_contacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
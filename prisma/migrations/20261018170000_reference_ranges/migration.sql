@@ -0,0 +1,101 @@
+-- CreateEnum
+CREATE TYPE "public"."BiologicalSex" AS ENUM ('MALE', 'FEMALE');
+
+-- CreateTable
+CREATE TABLE "public"."observation_definitions" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "subcategory" TEXT,
+    "canonicalUnit" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "components" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "observation_definitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."reference_ranges" (
+    "id" TEXT NOT NULL,
+    "definitionId" TEXT NOT NULL,
+    "component" TEXT,
+    "sex" "public"."BiologicalSex",
+    "ageMinYears" INTEGER,
+    "ageMaxYears" INTEGER,
+    "normalLow" DOUBLE PRECISION,
+    "normalHigh" DOUBLE PRECISION,
+    "criticalLow" DOUBLE PRECISION,
+    "criticalHigh" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reference_ranges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."unit_conversions" (
+    "id" TEXT NOT NULL,
+    "definitionId" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "factor" DOUBLE PRECISION NOT NULL,
+    "offset" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "unit_conversions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "observation_definitions_code_key" ON "public"."observation_definitions"("code");
+
+-- CreateIndex
+CREATE INDEX "observation_definitions_isActive_idx" ON "public"."observation_definitions"("isActive");
+
+-- CreateIndex
+CREATE INDEX "reference_ranges_definitionId_idx" ON "public"."reference_ranges"("definitionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "unit_conversions_definitionId_unit_key" ON "public"."unit_conversions"("definitionId", "unit");
+
+-- AddForeignKey
+ALTER TABLE "public"."reference_ranges" ADD CONSTRAINT "reference_ranges_definitionId_fkey" FOREIGN KEY ("definitionId") REFERENCES "public"."observation_definitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."unit_conversions" ADD CONSTRAINT "unit_conversions_definitionId_fkey" FOREIGN KEY ("definitionId") REFERENCES "public"."observation_definitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- SeedData: default catalog matching the thresholds previously hard-coded in the observation controllers
+INSERT INTO "public"."observation_definitions" ("id", "code", "displayName", "category", "subcategory", "canonicalUnit", "aliases", "components", "updatedAt") VALUES
+    ('obsdef_blood_pressure', 'blood-pressure', 'Blood Pressure', 'VITALS', 'Blood Pressure', 'mmHg', ARRAY['blood pressure', 'bp'], ARRAY['systolic', 'diastolic'], CURRENT_TIMESTAMP),
+    ('obsdef_heart_rate', 'heart-rate', 'Heart Rate', 'VITALS', 'Heart Rate', 'bpm', ARRAY['heart rate', 'pulse', 'pulse rate'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+    ('obsdef_body_temperature', 'body-temperature', 'Body Temperature', 'VITALS', 'Body Temperature', '°F', ARRAY['temperature', 'body temperature', 'temp'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+    ('obsdef_oxygen_saturation', 'oxygen-saturation', 'Oxygen Saturation', 'VITALS', 'Oxygen Saturation', '%', ARRAY['spo2', 'oxygen saturation', 'o2 saturation'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+    ('obsdef_respiratory_rate', 'respiratory-rate', 'Respiratory Rate', 'VITALS', 'Respiratory Rate', 'breaths/min', ARRAY['respiratory rate', 'breathing rate'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+    ('obsdef_blood_glucose', 'blood-glucose', 'Blood Glucose', 'LABORATORY', 'Blood Glucose', 'mg/dL', ARRAY['glucose', 'blood glucose', 'blood sugar', 'sugar'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+    ('obsdef_hemoglobin', 'hemoglobin', 'Hemoglobin', 'LABORATORY', 'Complete Blood Count', 'g/dL', ARRAY['hemoglobin', 'haemoglobin', 'hb', 'hgb'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP);
+
+INSERT INTO "public"."reference_ranges" ("id", "definitionId", "component", "sex", "ageMinYears", "ageMaxYears", "normalLow", "normalHigh", "criticalLow", "criticalHigh", "updatedAt") VALUES
+    ('refrange_bp_systolic', 'obsdef_blood_pressure', 'systolic', NULL, NULL, NULL, 90, 139, 70, 180, CURRENT_TIMESTAMP),
+    ('refrange_bp_diastolic', 'obsdef_blood_pressure', 'diastolic', NULL, NULL, NULL, 60, 89, 40, 120, CURRENT_TIMESTAMP),
+    ('refrange_hr_adult', 'obsdef_heart_rate', NULL, NULL, NULL, NULL, 60, 100, 40, 150, CURRENT_TIMESTAMP),
+    ('refrange_hr_child', 'obsdef_heart_rate', NULL, NULL, NULL, 13, 70, 120, 50, 180, CURRENT_TIMESTAMP),
+    ('refrange_temperature', 'obsdef_body_temperature', NULL, NULL, NULL, NULL, 97, 100.4, 95, 104, CURRENT_TIMESTAMP),
+    ('refrange_spo2', 'obsdef_oxygen_saturation', NULL, NULL, NULL, NULL, 95, 100, 88, NULL, CURRENT_TIMESTAMP),
+    ('refrange_respiratory_rate', 'obsdef_respiratory_rate', NULL, NULL, NULL, NULL, 12, 20, 8, 30, CURRENT_TIMESTAMP),
+    ('refrange_glucose', 'obsdef_blood_glucose', NULL, NULL, NULL, NULL, 70, 199, 40, 400, CURRENT_TIMESTAMP),
+    ('refrange_hemoglobin_male', 'obsdef_hemoglobin', NULL, 'MALE', 18, NULL, 13.5, 17.5, 7, 20, CURRENT_TIMESTAMP),
+    ('refrange_hemoglobin_female', 'obsdef_hemoglobin', NULL, 'FEMALE', 18, NULL, 12, 15.5, 7, 20, CURRENT_TIMESTAMP),
+    ('refrange_hemoglobin_any', 'obsdef_hemoglobin', NULL, NULL, NULL, NULL, 11, 16, 7, 20, CURRENT_TIMESTAMP);
+
+INSERT INTO "public"."unit_conversions" ("id", "definitionId", "unit", "factor", "offset") VALUES
+    ('unitconv_bp_kpa', 'obsdef_blood_pressure', 'kPa', 7.50062, 0),
+    ('unitconv_hr_per_min', 'obsdef_heart_rate', '/min', 1, 0),
+    ('unitconv_temp_f', 'obsdef_body_temperature', 'F', 1, 0),
+    ('unitconv_temp_degf', 'obsdef_body_temperature', 'degF', 1, 0),
+    ('unitconv_temp_c', 'obsdef_body_temperature', '°C', 1.8, 32),
+    ('unitconv_temp_c_plain', 'obsdef_body_temperature', 'C', 1.8, 32),
+    ('unitconv_temp_degc', 'obsdef_body_temperature', 'degC', 1.8, 32),
+    ('unitconv_rr_per_min', 'obsdef_respiratory_rate', '/min', 1, 0),
+    ('unitconv_glucose_mmol', 'obsdef_blood_glucose', 'mmol/L', 18.016, 0),
+    ('unitconv_hemoglobin_gl', 'obsdef_hemoglobin', 'g/L', 0.1, 0);
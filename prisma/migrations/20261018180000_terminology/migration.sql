@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "public"."TerminologySystem" AS ENUM ('LOINC', 'SNOMED_CT');
+
+-- AlterTable
+ALTER TABLE "public"."observations" ADD COLUMN     "codingCode" TEXT,
+ADD COLUMN     "codingSystem" "public"."TerminologySystem";
+
+-- CreateTable
+CREATE TABLE "public"."terminology_concepts" (
+    "id" TEXT NOT NULL,
+    "system" "public"."TerminologySystem" NOT NULL,
+    "code" TEXT NOT NULL,
+    "display" TEXT NOT NULL,
+    "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "category" TEXT,
+    "subcategory" TEXT,
+    "defaultUnit" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "version" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "terminology_concepts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "observations_codingSystem_codingCode_idx" ON "public"."observations"("codingSystem", "codingCode");
+
+-- CreateIndex
+CREATE INDEX "terminology_concepts_system_isActive_idx" ON "public"."terminology_concepts"("system", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "terminology_concepts_system_code_key" ON "public"."terminology_concepts"("system", "code");
+
+-- SeedData: bundled LOINC subset for common vitals and labs, SNOMED CT subset for common diagnoses.
+-- Full releases can be loaded with `npm run terminology:import`.
+INSERT INTO "public"."terminology_concepts" ("id", "system", "code", "display", "synonyms", "category", "subcategory", "defaultUnit", "updatedAt") VALUES
+    ('loinc_85354_9', 'LOINC', '85354-9', 'Blood pressure panel with all children optional', ARRAY['blood pressure', 'bp'], 'VITALS', 'Blood Pressure', 'mm[Hg]', CURRENT_TIMESTAMP),
+    ('loinc_8480_6', 'LOINC', '8480-6', 'Systolic blood pressure', ARRAY['systolic blood pressure', 'systolic bp'], 'VITALS', 'Blood Pressure', 'mm[Hg]', CURRENT_TIMESTAMP),
+    ('loinc_8462_4', 'LOINC', '8462-4', 'Diastolic blood pressure', ARRAY['diastolic blood pressure', 'diastolic bp'], 'VITALS', 'Blood Pressure', 'mm[Hg]', CURRENT_TIMESTAMP),
+    ('loinc_8867_4', 'LOINC', '8867-4', 'Heart rate', ARRAY['heart rate', 'pulse', 'pulse rate'], 'VITALS', 'Heart Rate', '/min', CURRENT_TIMESTAMP),
+    ('loinc_8310_5', 'LOINC', '8310-5', 'Body temperature', ARRAY['body temperature', 'temperature', 'temp'], 'VITALS', 'Body Temperature', 'Cel', CURRENT_TIMESTAMP),
+    ('loinc_9279_1', 'LOINC', '9279-1', 'Respiratory rate', ARRAY['respiratory rate', 'breathing rate'], 'VITALS', 'Respiratory Rate', '/min', CURRENT_TIMESTAMP),
+    ('loinc_59408_5', 'LOINC', '59408-5', 'Oxygen saturation in Arterial blood by Pulse oximetry', ARRAY['spo2', 'oxygen saturation', 'pulse oximetry'], 'VITALS', 'Oxygen Saturation', '%', CURRENT_TIMESTAMP),
+    ('loinc_29463_7', 'LOINC', '29463-7', 'Body weight', ARRAY['body weight', 'weight'], 'VITALS', 'Body Weight', 'kg', CURRENT_TIMESTAMP),
+    ('loinc_8302_2', 'LOINC', '8302-2', 'Body height', ARRAY['body height', 'height'], 'VITALS', 'Height', 'cm', CURRENT_TIMESTAMP),
+    ('loinc_39156_5', 'LOINC', '39156-5', 'Body mass index (BMI) [Ratio]', ARRAY['bmi', 'body mass index'], 'VITALS', 'Body Mass Index', 'kg/m2', CURRENT_TIMESTAMP),
+    ('loinc_2339_0', 'LOINC', '2339-0', 'Glucose [Mass/volume] in Blood', ARRAY['blood glucose', 'glucose', 'blood sugar', 'sugar'], 'LABORATORY', 'Blood Glucose', 'mg/dL', CURRENT_TIMESTAMP),
+    ('loinc_2345_7', 'LOINC', '2345-7', 'Glucose [Mass/volume] in Serum or Plasma', ARRAY['serum glucose', 'plasma glucose'], 'LABORATORY', 'Blood Glucose', 'mg/dL', CURRENT_TIMESTAMP),
+    ('loinc_4548_4', 'LOINC', '4548-4', 'Hemoglobin A1c/Hemoglobin.total in Blood', ARRAY['hba1c', 'hemoglobin a1c', 'a1c'], 'LABORATORY', 'Blood Glucose', '%', CURRENT_TIMESTAMP),
+    ('loinc_718_7', 'LOINC', '718-7', 'Hemoglobin [Mass/volume] in Blood', ARRAY['hemoglobin', 'haemoglobin', 'hb', 'hgb'], 'LABORATORY', 'Complete Blood Count', 'g/dL', CURRENT_TIMESTAMP),
+    ('loinc_6690_2', 'LOINC', '6690-2', 'Leukocytes [#/volume] in Blood by Automated count', ARRAY['wbc', 'white blood cell count', 'leukocytes'], 'LABORATORY', 'Complete Blood Count', '10*3/uL', CURRENT_TIMESTAMP),
+    ('loinc_777_3', 'LOINC', '777-3', 'Platelets [#/volume] in Blood by Automated count', ARRAY['platelets', 'platelet count'], 'LABORATORY', 'Complete Blood Count', '10*3/uL', CURRENT_TIMESTAMP),
+    ('loinc_2093_3', 'LOINC', '2093-3', 'Cholesterol [Mass/volume] in Serum or Plasma', ARRAY['cholesterol', 'total cholesterol'], 'LABORATORY', 'Lipid Profile', 'mg/dL', CURRENT_TIMESTAMP),
+    ('loinc_2085_9', 'LOINC', '2085-9', 'Cholesterol in HDL [Mass/volume] in Serum or Plasma', ARRAY['hdl', 'hdl cholesterol'], 'LABORATORY', 'Lipid Profile', 'mg/dL', CURRENT_TIMESTAMP),
+    ('loinc_13457_7', 'LOINC', '13457-7', 'Cholesterol in LDL [Mass/volume] in Serum or Plasma by calculation', ARRAY['ldl', 'ldl cholesterol'], 'LABORATORY', 'Lipid Profile', 'mg/dL', CURRENT_TIMESTAMP),
+    ('loinc_2571_8', 'LOINC', '2571-8', 'Triglyceride [Mass/volume] in Serum or Plasma', ARRAY['triglycerides', 'triglyceride'], 'LABORATORY', 'Lipid Profile', 'mg/dL', CURRENT_TIMESTAMP),
+    ('loinc_2160_0', 'LOINC', '2160-0', 'Creatinine [Mass/volume] in Serum or Plasma', ARRAY['creatinine', 'serum creatinine'], 'LABORATORY', 'Kidney Function', 'mg/dL', CURRENT_TIMESTAMP),
+    ('loinc_3016_3', 'LOINC', '3016-3', 'Thyrotropin [Units/volume] in Serum or Plasma', ARRAY['tsh', 'thyrotropin', 'thyroid stimulating hormone'], 'LABORATORY', 'Thyroid Function', 'm[IU]/L', CURRENT_TIMESTAMP),
+    ('loinc_1742_6', 'LOINC', '1742-6', 'Alanine aminotransferase [Enzymatic activity/volume] in Serum or Plasma', ARRAY['alt', 'alanine aminotransferase', 'sgpt'], 'LABORATORY', 'Liver Function', 'U/L', CURRENT_TIMESTAMP),
+    ('loinc_72166_2', 'LOINC', '72166-2', 'Tobacco smoking status', ARRAY['smoking status', 'smoking', 'tobacco use'], 'LIFESTYLE', 'General', NULL, CURRENT_TIMESTAMP),
+    ('loinc_44249_1', 'LOINC', '44249-1', 'PHQ-9 quick depression assessment panel', ARRAY['phq-9', 'phq9', 'depression screening'], 'MENTAL_HEALTH', 'General', NULL, CURRENT_TIMESTAMP),
+    ('loinc_70274_6', 'LOINC', '70274-6', 'Generalized anxiety disorder 7 item (GAD-7) total score [Reported.PHQ]', ARRAY['gad-7', 'gad7', 'anxiety screening'], 'MENTAL_HEALTH', 'General', '{score}', CURRENT_TIMESTAMP),
+    ('snomed_38341003', 'SNOMED_CT', '38341003', 'Hypertensive disorder, systemic arterial', ARRAY['hypertension', 'high blood pressure'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_44054006', 'SNOMED_CT', '44054006', 'Diabetes mellitus type 2', ARRAY['type 2 diabetes', 't2dm', 'diabetes type 2'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_46635009', 'SNOMED_CT', '46635009', 'Diabetes mellitus type 1', ARRAY['type 1 diabetes', 't1dm', 'diabetes type 1'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_195967001', 'SNOMED_CT', '195967001', 'Asthma', ARRAY['asthma'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_13645005', 'SNOMED_CT', '13645005', 'Chronic obstructive lung disease', ARRAY['copd', 'chronic obstructive pulmonary disease'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_49436004', 'SNOMED_CT', '49436004', 'Atrial fibrillation', ARRAY['atrial fibrillation', 'afib', 'af'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_22298006', 'SNOMED_CT', '22298006', 'Myocardial infarction', ARRAY['heart attack', 'mi', 'myocardial infarction'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_84114007', 'SNOMED_CT', '84114007', 'Heart failure', ARRAY['heart failure', 'chf', 'cardiac failure'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_35489007', 'SNOMED_CT', '35489007', 'Depressive disorder', ARRAY['depression', 'depressive disorder'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_197480006', 'SNOMED_CT', '197480006', 'Anxiety disorder', ARRAY['anxiety', 'anxiety disorder'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_55822004', 'SNOMED_CT', '55822004', 'Hyperlipidemia', ARRAY['hyperlipidemia', 'high cholesterol'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_40930008', 'SNOMED_CT', '40930008', 'Hypothyroidism', ARRAY['hypothyroidism', 'underactive thyroid'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_414916001', 'SNOMED_CT', '414916001', 'Obesity', ARRAY['obesity'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_709044004', 'SNOMED_CT', '709044004', 'Chronic kidney disease', ARRAY['ckd', 'chronic kidney disease'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_233604007', 'SNOMED_CT', '233604007', 'Pneumonia', ARRAY['pneumonia'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_68566005', 'SNOMED_CT', '68566005', 'Urinary tract infectious disease', ARRAY['uti', 'urinary tract infection'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_840539006', 'SNOMED_CT', '840539006', 'Disease caused by severe acute respiratory syndrome coronavirus 2', ARRAY['covid-19', 'covid', 'sars-cov-2 infection'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_37796009', 'SNOMED_CT', '37796009', 'Migraine', ARRAY['migraine'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_271737000', 'SNOMED_CT', '271737000', 'Anemia', ARRAY['anemia', 'anaemia'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP),
+    ('snomed_386661006', 'SNOMED_CT', '386661006', 'Fever', ARRAY['fever', 'pyrexia'], 'DIAGNOSIS', NULL, NULL, CURRENT_TIMESTAMP);
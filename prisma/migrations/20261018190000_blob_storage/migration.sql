@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."file_uploads" ADD COLUMN     "storageDriver" TEXT,
+ADD COLUMN     "storageKey" TEXT,
+ALTER COLUMN "fileData" DROP NOT NULL;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."file_uploads" ADD COLUMN     "bytesReceived" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."upload_chunks" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "offset" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "upload_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_chunks_uploadId_offset_key" ON "public"."upload_chunks"("uploadId", "offset");
+
+-- AddForeignKey
+ALTER TABLE "public"."upload_chunks" ADD CONSTRAINT "upload_chunks_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "public"."file_uploads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
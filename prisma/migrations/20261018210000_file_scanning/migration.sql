@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "public"."FileUploadStatus" ADD VALUE 'QUARANTINED';
+
+-- CreateEnum
+CREATE TYPE "public"."FileScanStatus" AS ENUM ('PENDING', 'CLEAN', 'INFECTED');
+
+-- AlterTable
+ALTER TABLE "public"."file_uploads" ADD COLUMN     "scanEngine" TEXT,
+ADD COLUMN     "scanResult" TEXT,
+ADD COLUMN     "scanStatus" "public"."FileScanStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "scannedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "file_uploads_scanStatus_idx" ON "public"."file_uploads"("scanStatus");
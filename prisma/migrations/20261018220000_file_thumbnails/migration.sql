@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."file_uploads" ADD COLUMN     "thumbnailKey" TEXT;
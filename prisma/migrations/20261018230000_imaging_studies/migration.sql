@@ -0,0 +1,89 @@
+-- CreateTable
+CREATE TABLE "public"."imaging_studies" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "encounterId" TEXT,
+    "studyInstanceUid" TEXT NOT NULL,
+    "accessionNumber" TEXT,
+    "studyDate" TIMESTAMP(3),
+    "description" TEXT,
+    "dicomPatientId" TEXT,
+    "dicomPatientName" TEXT,
+    "uploadedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "imaging_studies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."imaging_series" (
+    "id" TEXT NOT NULL,
+    "studyId" TEXT NOT NULL,
+    "seriesInstanceUid" TEXT NOT NULL,
+    "modality" TEXT,
+    "bodyPart" TEXT,
+    "seriesNumber" INTEGER,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "imaging_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."imaging_instances" (
+    "id" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "sopInstanceUid" TEXT NOT NULL,
+    "sopClassUid" TEXT,
+    "instanceNumber" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "imaging_instances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "imaging_studies_studyInstanceUid_key" ON "public"."imaging_studies"("studyInstanceUid");
+
+-- CreateIndex
+CREATE INDEX "imaging_studies_patientId_idx" ON "public"."imaging_studies"("patientId");
+
+-- CreateIndex
+CREATE INDEX "imaging_studies_encounterId_idx" ON "public"."imaging_studies"("encounterId");
+
+-- CreateIndex
+CREATE INDEX "imaging_studies_studyDate_idx" ON "public"."imaging_studies"("studyDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "imaging_series_seriesInstanceUid_key" ON "public"."imaging_series"("seriesInstanceUid");
+
+-- CreateIndex
+CREATE INDEX "imaging_series_studyId_idx" ON "public"."imaging_series"("studyId");
+
+-- CreateIndex
+CREATE INDEX "imaging_series_modality_idx" ON "public"."imaging_series"("modality");
+
+-- CreateIndex
+CREATE INDEX "imaging_series_bodyPart_idx" ON "public"."imaging_series"("bodyPart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "imaging_instances_fileId_key" ON "public"."imaging_instances"("fileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "imaging_instances_sopInstanceUid_key" ON "public"."imaging_instances"("sopInstanceUid");
+
+-- CreateIndex
+CREATE INDEX "imaging_instances_seriesId_idx" ON "public"."imaging_instances"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "public"."imaging_studies" ADD CONSTRAINT "imaging_studies_encounterId_fkey" FOREIGN KEY ("encounterId") REFERENCES "public"."encounters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."imaging_series" ADD CONSTRAINT "imaging_series_studyId_fkey" FOREIGN KEY ("studyId") REFERENCES "public"."imaging_studies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."imaging_instances" ADD CONSTRAINT "imaging_instances_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "public"."imaging_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."imaging_instances" ADD CONSTRAINT "imaging_instances_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "public"."file_uploads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
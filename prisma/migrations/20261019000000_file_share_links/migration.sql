@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "public"."file_access" ADD COLUMN     "shareLinkId" TEXT,
+ALTER COLUMN "accessorId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."file_share_links" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "recipient" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "singleUse" BOOLEAN NOT NULL DEFAULT false,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "file_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "file_access_shareLinkId_idx" ON "public"."file_access"("shareLinkId");
+
+-- CreateIndex
+CREATE INDEX "file_share_links_fileId_idx" ON "public"."file_share_links"("fileId");
+
+-- CreateIndex
+CREATE INDEX "file_share_links_expiresAt_idx" ON "public"."file_share_links"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."file_access" ADD CONSTRAINT "file_access_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "public"."file_share_links"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."file_share_links" ADD CONSTRAINT "file_share_links_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "public"."file_uploads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
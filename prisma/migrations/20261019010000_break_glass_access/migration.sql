@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."BreakGlassReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'FLAGGED');
+
+-- CreateTable
+CREATE TABLE "public"."break_glass_accesses" (
+    "id" TEXT NOT NULL,
+    "clinicianId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "accessCount" INTEGER NOT NULL DEFAULT 0,
+    "lastAccessedAt" TIMESTAMP(3),
+    "contactsNotified" INTEGER NOT NULL DEFAULT 0,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "reviewStatus" "public"."BreakGlassReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+
+    CONSTRAINT "break_glass_accesses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "break_glass_accesses_clinicianId_patientId_expiresAt_idx" ON "public"."break_glass_accesses"("clinicianId", "patientId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "break_glass_accesses_patientId_idx" ON "public"."break_glass_accesses"("patientId");
+
+-- CreateIndex
+CREATE INDEX "break_glass_accesses_reviewStatus_idx" ON "public"."break_glass_accesses"("reviewStatus");
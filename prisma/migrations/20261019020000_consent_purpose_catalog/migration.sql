@@ -0,0 +1,90 @@
+-- AlterTable
+ALTER TABLE "public"."consents" ADD COLUMN     "purposeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."consent_requests" ADD COLUMN     "purposeId" TEXT,
+ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."consent_purposes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "defaultScopes" "public"."ConsentScope"[] DEFAULT ARRAY[]::"public"."ConsentScope"[],
+    "defaultDurationDays" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "consent_purposes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."consent_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "purposeId" TEXT NOT NULL,
+    "scopes" "public"."ConsentScope"[] DEFAULT ARRAY[]::"public"."ConsentScope"[],
+    "durationDays" INTEGER,
+    "message" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "consent_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "consent_purposes_code_key" ON "public"."consent_purposes"("code");
+
+-- CreateIndex
+CREATE INDEX "consent_purposes_isActive_idx" ON "public"."consent_purposes"("isActive");
+
+-- CreateIndex
+CREATE INDEX "consent_templates_purposeId_idx" ON "public"."consent_templates"("purposeId");
+
+-- CreateIndex
+CREATE INDEX "consent_templates_isActive_idx" ON "public"."consent_templates"("isActive");
+
+-- CreateIndex
+CREATE INDEX "consents_purposeId_idx" ON "public"."consents"("purposeId");
+
+-- CreateIndex
+CREATE INDEX "consent_requests_purposeId_idx" ON "public"."consent_requests"("purposeId");
+
+-- AddForeignKey
+ALTER TABLE "public"."consents" ADD CONSTRAINT "consents_purposeId_fkey" FOREIGN KEY ("purposeId") REFERENCES "public"."consent_purposes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."consent_requests" ADD CONSTRAINT "consent_requests_purposeId_fkey" FOREIGN KEY ("purposeId") REFERENCES "public"."consent_purposes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."consent_requests" ADD CONSTRAINT "consent_requests_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "public"."consent_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."consent_templates" ADD CONSTRAINT "consent_templates_purposeId_fkey" FOREIGN KEY ("purposeId") REFERENCES "public"."consent_purposes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- SeedData: default purpose-of-use catalog and request templates
+INSERT INTO "public"."consent_purposes" ("id", "code", "name", "description", "defaultScopes", "defaultDurationDays", "updatedAt") VALUES
+    ('purpose_treatment', 'treatment', 'Treatment', 'Ongoing care by the treating clinician', ARRAY['READ_BASIC', 'READ_MEDICAL', 'READ_LAB', 'READ_RADIOLOGY', 'WRITE_NOTES', 'WRITE_PRESCRIPTION']::"public"."ConsentScope"[], 90, CURRENT_TIMESTAMP),
+    ('purpose_second_opinion', 'second-opinion', 'Second opinion', 'Review of existing records by another clinician', ARRAY['READ_BASIC', 'READ_MEDICAL', 'READ_LAB', 'READ_RADIOLOGY']::"public"."ConsentScope"[], 30, CURRENT_TIMESTAMP),
+    ('purpose_insurance', 'insurance', 'Insurance', 'Claims and coverage review', ARRAY['READ_BASIC', 'READ_MEDICAL']::"public"."ConsentScope"[], 14, CURRENT_TIMESTAMP),
+    ('purpose_research', 'research', 'Research', 'Participation in an approved research study', ARRAY['READ_BASIC', 'READ_LAB']::"public"."ConsentScope"[], 365, CURRENT_TIMESTAMP);
+
+INSERT INTO "public"."consent_templates" ("id", "name", "description", "purposeId", "scopes", "durationDays", "message", "updatedAt") VALUES
+    ('consent_template_routine_care', 'Routine care', 'Full record access for the treating clinician', 'purpose_treatment', ARRAY['READ_BASIC', 'READ_MEDICAL', 'READ_LAB', 'READ_RADIOLOGY', 'WRITE_NOTES', 'WRITE_PRESCRIPTION']::"public"."ConsentScope"[], 90, 'I would like access to your records to provide your ongoing care.', CURRENT_TIMESTAMP),
+    ('consent_template_lab_review', 'Lab results review', 'Read-only access to lab results', 'purpose_treatment', ARRAY['READ_BASIC', 'READ_LAB']::"public"."ConsentScope"[], 30, 'I would like to review your recent lab results.', CURRENT_TIMESTAMP),
+    ('consent_template_second_opinion', 'Specialist second opinion', 'Read-only access for a second opinion', 'purpose_second_opinion', ARRAY['READ_BASIC', 'READ_MEDICAL', 'READ_LAB', 'READ_RADIOLOGY']::"public"."ConsentScope"[], 30, 'I have been asked to give a second opinion on your case.', CURRENT_TIMESTAMP),
+    ('consent_template_insurance_claim', 'Insurance claim review', 'Records needed to process a claim', 'purpose_insurance', ARRAY['READ_BASIC', 'READ_MEDICAL']::"public"."ConsentScope"[], 14, 'Your records are needed to process an insurance claim.', CURRENT_TIMESTAMP),
+    ('consent_template_research', 'Research study enrolment', 'Lab data for an approved study', 'purpose_research', ARRAY['READ_BASIC', 'READ_LAB']::"public"."ConsentScope"[], 365, 'You are invited to share lab data with an approved research study.', CURRENT_TIMESTAMP);
+
+-- Link existing free-text purposes that match the catalog
+UPDATE "public"."consents" AS c SET "purposeId" = p."id"
+FROM "public"."consent_purposes" AS p
+WHERE LOWER(TRIM(c."purpose")) IN (p."code", LOWER(p."name"));
+
+UPDATE "public"."consent_requests" AS r SET "purposeId" = p."id"
+FROM "public"."consent_purposes" AS p
+WHERE LOWER(TRIM(r."purpose")) IN (p."code", LOWER(p."name"));
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."DelegationScope" AS ENUM ('VIEW_RECORDS', 'MANAGE_CONSENTS', 'MANAGE_APPOINTMENTS');
+
+-- CreateEnum
+CREATE TYPE "public"."DelegationRelationship" AS ENUM ('PARENT', 'GUARDIAN', 'CAREGIVER', 'POWER_OF_ATTORNEY', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "public"."delegations" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "relationship" "public"."DelegationRelationship" NOT NULL,
+    "scopes" "public"."DelegationScope"[] DEFAULT ARRAY[]::"public"."DelegationScope"[],
+    "grantedById" TEXT NOT NULL,
+    "grantedByRole" TEXT NOT NULL,
+    "notes" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revokedById" TEXT,
+    "revokedReason" TEXT,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "delegations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "delegations_patientId_delegateId_idx" ON "public"."delegations"("patientId", "delegateId");
+
+-- CreateIndex
+CREATE INDEX "delegations_delegateId_idx" ON "public"."delegations"("delegateId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."security_settings" ADD COLUMN     "twoFactorEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "twoFactorLastUsedStep" INTEGER;
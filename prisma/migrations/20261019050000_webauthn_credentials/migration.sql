@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "public"."webauthn_credentials" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "credentialId" TEXT NOT NULL,
+    "publicKey" BYTEA NOT NULL,
+    "counter" BIGINT NOT NULL DEFAULT 0,
+    "transports" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "deviceName" TEXT NOT NULL,
+    "deviceType" TEXT NOT NULL,
+    "backedUp" BOOLEAN NOT NULL DEFAULT false,
+    "aaguid" TEXT,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webauthn_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."webauthn_challenges" (
+    "id" TEXT NOT NULL,
+    "challenge" TEXT NOT NULL,
+    "ceremony" TEXT NOT NULL,
+    "userId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webauthn_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webauthn_credentials_credentialId_key" ON "public"."webauthn_credentials"("credentialId");
+
+-- CreateIndex
+CREATE INDEX "webauthn_credentials_userId_idx" ON "public"."webauthn_credentials"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webauthn_challenges_challenge_key" ON "public"."webauthn_challenges"("challenge");
+
+-- CreateIndex
+CREATE INDEX "webauthn_challenges_expiresAt_idx" ON "public"."webauthn_challenges"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."webauthn_credentials" ADD CONSTRAINT "webauthn_credentials_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("healthId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "public"."LockoutScope" AS ENUM ('ACCOUNT', 'IP');
+
+-- CreateTable
+CREATE TABLE "public"."revoked_tokens" (
+    "jti" TEXT NOT NULL,
+    "userId" TEXT,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "revoked_tokens_pkey" PRIMARY KEY ("jti")
+);
+
+-- CreateTable
+CREATE TABLE "public"."login_lockouts" (
+    "id" TEXT NOT NULL,
+    "scope" "public"."LockoutScope" NOT NULL,
+    "key" TEXT NOT NULL,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "windowStartedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastFailedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "login_lockouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "revoked_tokens_expiresAt_idx" ON "public"."revoked_tokens"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "revoked_tokens_userId_idx" ON "public"."revoked_tokens"("userId");
+
+-- CreateIndex
+CREATE INDEX "login_lockouts_lockedUntil_idx" ON "public"."login_lockouts"("lockedUntil");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "login_lockouts_scope_key_key" ON "public"."login_lockouts"("scope", "key");
+
+-- The per-instance blacklist cleanup job is replaced by auth.cleanup-revoked-tokens
+DELETE FROM "public"."scheduled_jobs" WHERE "name" = 'auth.cleanup-token-blacklist';
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."refresh_tokens" ADD COLUMN     "sessionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."user_sessions" ADD COLUMN     "lockedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_sessionId_idx" ON "public"."refresh_tokens"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."refresh_tokens" ADD CONSTRAINT "refresh_tokens_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."user_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."user_sessions" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION,
+ADD COLUMN     "riskLevel" TEXT,
+ADD COLUMN     "riskSignals" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."waitlist_offers" ADD COLUMN     "excludePatientId" TEXT;
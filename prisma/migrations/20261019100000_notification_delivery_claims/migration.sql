@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationDeliveryStatus" ADD VALUE 'SENDING';
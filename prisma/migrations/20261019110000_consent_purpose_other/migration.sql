@@ -0,0 +1,4 @@
+-- Free-text purposes outside the catalog are filed under "other"
+INSERT INTO "public"."consent_purposes" ("id", "code", "name", "description", "defaultScopes", "defaultDurationDays", "updatedAt") VALUES
+    ('purpose_other', 'other', 'Other', 'Purposes not covered by the catalog; the consent keeps the wording the requester gave', ARRAY['READ_BASIC']::"public"."ConsentScope"[], NULL, CURRENT_TIMESTAMP)
+ON CONFLICT ("code") DO NOTHING;
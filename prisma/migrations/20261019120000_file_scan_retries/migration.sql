@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "public"."FileScanStatus" ADD VALUE 'FAILED';
+
+-- AlterTable
+ALTER TABLE "public"."file_uploads" ADD COLUMN     "nextScanAt" TIMESTAMP(3),
+ADD COLUMN     "scanAttempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."file_uploads" ADD COLUMN     "ingestEncounterId" TEXT,
+ADD COLUMN     "ingestPatientId" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."reference_ranges" ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT true;
@@ -54,6 +54,12 @@ export const runtimeConfig = {
   jwtAccessTokenExpiryWeb: requireEnv("JWT_ACCESS_TOKEN_EXPIRY_WEB"),
   jwtAccessTokenExpiryMobile: requireEnv("JWT_ACCESS_TOKEN_EXPIRY_MOBILE"),
   jwtRefreshTokenExpiryDays: requireInt("JWT_REFRESH_TOKEN_EXPIRY_DAYS"),
+  mfaChallengeExpirySeconds: requireInt("MFA_CHALLENGE_EXPIRY_SECONDS"),
+
+  webauthnRpId: requireEnv("WEBAUTHN_RP_ID"),
+  webauthnRpName: requireEnv("WEBAUTHN_RP_NAME"),
+  webauthnOrigins: requireEnv("WEBAUTHN_ORIGINS").split(",").map(origin => origin.trim()).filter(Boolean),
+  webauthnChallengeExpirySeconds: requireInt("WEBAUTHN_CHALLENGE_EXPIRY_SECONDS"),
 
   emailVerificationTokenExpiryHours: requireInt("EMAIL_VERIFICATION_TOKEN_EXPIRY_HOURS"),
   passwordResetTokenExpiryHours: requireInt("PASSWORD_RESET_TOKEN_EXPIRY_HOURS"),
@@ -73,21 +79,46 @@ export const runtimeConfig = {
 
   maxFileSizeBytes: requireInt("MAX_FILE_SIZE_BYTES"),
   maxJsonBodySizeMb: requireInt("MAX_JSON_BODY_SIZE_MB"),
+  uploadSessionMaxBytes: requireInt("UPLOAD_SESSION_MAX_BYTES"),
+  uploadChunkMaxBytes: requireInt("UPLOAD_CHUNK_MAX_BYTES"),
+  uploadSessionTtlMinutes: requireInt("UPLOAD_SESSION_TTL_MINUTES"),
+  thumbnailMaxDimension: requireInt("THUMBNAIL_MAX_DIMENSION"),
+  fileShareDefaultExpirySeconds: requireInt("FILE_SHARE_DEFAULT_EXPIRY_SECONDS"),
+  fileShareMaxExpirySeconds: requireInt("FILE_SHARE_MAX_EXPIRY_SECONDS"),
 
   hstsMaxAge: requireInt("HSTS_MAX_AGE"),
   cookieSameSite: requireSameSite(),
   cookieSecure: requireBoolean("COOKIE_SECURE"),
 
   maxLoginAttempts: requireInt("MAX_LOGIN_ATTEMPTS"),
+  maxLoginAttemptsPerIp: requireInt("MAX_LOGIN_ATTEMPTS_PER_IP"),
   loginAttemptLockoutMinutes: requireInt("LOGIN_ATTEMPT_LOCKOUT_MINUTES"),
+  loginAlertLinkExpiryHours: requireInt("LOGIN_ALERT_LINK_EXPIRY_HOURS"),
+  trustGeoHeaders: requireBoolean("TRUST_GEO_HEADERS"),
 
   emergencyShareMaxExpirySeconds: requireInt("EMERGENCY_SHARE_MAX_EXPIRY_SECONDS"),
   emergencyShareDefaultExpirySeconds: requireInt("EMERGENCY_SHARE_DEFAULT_EXPIRY_SECONDS"),
   sessionTimeoutMinutes: requireInt("SESSION_TIMEOUT_MINUTES"),
   consentExpiryDays: requireInt("CONSENT_EXPIRY_DAYS"),
   emergencyShareExpiryHours: requireInt("EMERGENCY_SHARE_EXPIRY_HOURS"),
+  breakGlassDurationMinutes: requireInt("BREAK_GLASS_DURATION_MINUTES"),
+  delegationMaxDurationDays: requireInt("DELEGATION_MAX_DURATION_DAYS"),
   consentRequestExpiryHoursProd: requireInt("CONSENT_REQUEST_EXPIRY_HOURS"),
   consentRequestExpiryHoursDev: requireInt("CONSENT_REQUEST_EXPIRY_HOURS_DEV"),
+
+  prescriptionDefaultValidityDays: requireInt("PRESCRIPTION_DEFAULT_VALIDITY_DAYS"),
+  waitlistClaimMinutes: requireInt("WAITLIST_CLAIM_MINUTES"),
+
+  jobSchedulerEnabled: requireBoolean("JOB_SCHEDULER_ENABLED"),
+  jobPollIntervalSeconds: requireInt("JOB_POLL_INTERVAL_SECONDS"),
+  jobLockTimeoutMinutes: requireInt("JOB_LOCK_TIMEOUT_MINUTES"),
+  jobMaxRetries: requireInt("JOB_MAX_RETRIES"),
+  jobRetryBaseSeconds: requireInt("JOB_RETRY_BASE_SECONDS"),
+
+  criticalAlertEscalationMinutes: requireInt("CRITICAL_ALERT_ESCALATION_MINUTES"),
+  criticalAlertMaxEscalations: requireInt("CRITICAL_ALERT_MAX_ESCALATIONS"),
+
+  terminologyStrictCodes: requireBoolean("TERMINOLOGY_STRICT_CODES"),
 }
 
 export default runtimeConfig
@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { JobRunStatus } from '@prisma/client';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import JobSchedulerService from '../services/job-scheduler.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+}
+
+export class AdminJobsController {
+  /**
+   * List Jobs
+   * GET /api/admin/jobs
+   * Registered background jobs with schedule, lease and last run
+   */
+  static async listJobs(req: AuthenticatedRequest, res: Response) {
+    try {
+      const jobs = await JobSchedulerService.listJobs();
+
+      res.status(200).json({
+        success: true,
+        data: { jobs }
+      });
+
+    } catch (error) {
+      logger.error('Error listing background jobs', { error });
+      res.status(500).json({ error: 'Failed to list jobs' });
+    }
+  }
+
+  /**
+   * List Job Runs
+   * GET /api/admin/jobs/runs?jobName=&status=&limit=&offset=
+   */
+  static async listRuns(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { jobName, status, limit = 50, offset = 0 } = req.query;
+
+      if (status && !Object.values(JobRunStatus).includes(status as JobRunStatus)) {
+        return res.status(400).json({ error: 'Invalid run status' });
+      }
+
+      const result = await JobSchedulerService.listRuns({
+        jobName: jobName as string | undefined,
+        status: status as JobRunStatus | undefined,
+        limit: Math.min(Number(limit) || 50, 200),
+        offset: Number(offset) || 0
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      logger.error('Error listing job runs', { error });
+      res.status(500).json({ error: 'Failed to list job runs' });
+    }
+  }
+
+  /**
+   * Trigger Job
+   * POST /api/admin/jobs/:name/run
+   * Runs the job now on this instance and returns the recorded run
+   */
+  static async triggerJob(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+      const { name } = req.params;
+
+      const result = await JobSchedulerService.trigger(name, adminId);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'JOB_TRIGGERED',
+        resourceType: 'ScheduledJob',
+        resourceId: name,
+        patientHealthId: adminId,
+        metadata: { runId: result.run!.id, status: result.run!.status },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { run: result.run },
+        message: result.run!.status === 'SUCCEEDED' ? 'Job completed successfully' : 'Job run failed'
+      });
+
+    } catch (error) {
+      logger.error('Error triggering job', { error, job: req.params.name });
+      res.status(500).json({ error: 'Failed to trigger job' });
+    }
+  }
+}
+
+export default AdminJobsController;
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import runtimeConfig from '../config/runtime-config';
+import SystemSettingsService, { SystemSettings } from '../services/system-settings.service';
+import { SUPPORTED_FILE_TYPES, normalizeMimeType } from '../utils/file-type';
 
 const prisma = new PrismaClient();
 
@@ -14,54 +15,6 @@ type AuthenticatedRequest = Request & {
   }
 };
 
-// In-memory settings store (in production, this would be database-backed)
-interface SystemSettings {
-  maintenanceMode: boolean;
-  allowRegistration: boolean;
-  requireEmailVerification: boolean;
-  requireAdminApproval: boolean;
-  maxFileUploadSize: number; // in bytes
-  allowedFileTypes: string[];
-  sessionTimeout: number; // in minutes
-  maxLoginAttempts: number;
-  consentExpiryDays: number;
-  emergencyShareExpiryHours: number;
-  systemMessage: string | null;
-  systemMessageType: 'info' | 'warning' | 'error' | null;
-  enableNotifications: boolean;
-  enableAuditExport: boolean;
-  enableDataExport: boolean;
-}
-
-// Default system settings
-const defaultSettings: SystemSettings = {
-  maintenanceMode: false,
-  allowRegistration: true,
-  requireEmailVerification: true,
-  requireAdminApproval: true, // Require admin approval for doctor accounts
-  maxFileUploadSize: runtimeConfig.maxFileSizeBytes,
-  allowedFileTypes: [
-    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/tiff',
-    'application/pdf', 'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'text/plain', 'text/csv', 'application/dicom'
-  ],
-  sessionTimeout: runtimeConfig.sessionTimeoutMinutes,
-  maxLoginAttempts: runtimeConfig.maxLoginAttempts,
-  consentExpiryDays: runtimeConfig.consentExpiryDays,
-  emergencyShareExpiryHours: runtimeConfig.emergencyShareExpiryHours,
-  systemMessage: null,
-  systemMessageType: null,
-  enableNotifications: true,
-  enableAuditExport: true,
-  enableDataExport: true
-};
-
-// Current settings (would be loaded from database in production)
-let currentSettings: SystemSettings = { ...defaultSettings };
-
 export class AdminSettingsController {
   /**
    * GET /api/admin/settings
@@ -75,7 +28,7 @@ export class AdminSettingsController {
       res.json({
         success: true,
         data: {
-          settings: currentSettings,
+          settings: SystemSettingsService.getSettings(),
           lastUpdated: new Date().toISOString(), // Would be actual timestamp from DB
           environment: process.env.NODE_ENV || 'development'
         }
@@ -91,7 +44,7 @@ export class AdminSettingsController {
   }
 
   /**
-   * POST /api/admin/settings
+   * PUT /api/admin/settings
    * Update system settings (development only for sensitive settings)
    */
   static async updateSettings(req: AuthenticatedRequest, res: Response) {
@@ -160,7 +113,16 @@ export class AdminSettingsController {
             message: 'Allowed file types must be a non-empty array'
           });
         }
-        updatedFields.allowedFileTypes = allowedFileTypes;
+        // Uploads are verified by content, so only types the sniffer recognises can be allowed
+        const normalizedTypes = [...new Set(allowedFileTypes.map((type: unknown) => normalizeMimeType(String(type))))];
+        const unsupported = normalizedTypes.filter(type => !SUPPORTED_FILE_TYPES.includes(type));
+        if (unsupported.length > 0) {
+          return res.status(400).json({
+            success: false,
+            message: `Unsupported file types: ${unsupported.join(', ')}. Supported types: ${SUPPORTED_FILE_TYPES.join(', ')}`
+          });
+        }
+        updatedFields.allowedFileTypes = normalizedTypes;
       }
 
       if (sessionTimeout !== undefined) {
@@ -231,7 +193,7 @@ export class AdminSettingsController {
       }
 
       // Update current settings
-      currentSettings = { ...currentSettings, ...updatedFields };
+      const currentSettings = SystemSettingsService.updateSettings(updatedFields);
 
       // In production, save to database
       // await prisma.systemSettings.upsert({
@@ -288,7 +250,7 @@ export class AdminSettingsController {
         });
       }
 
-      currentSettings = { ...defaultSettings };
+      const currentSettings = SystemSettingsService.resetSettings();
 
       // Log the reset action
       await prisma.healthIdAudit.create({
@@ -329,6 +291,7 @@ export class AdminSettingsController {
    */
   static async getMaintenanceStatus(req: Request, res: Response) {
     try {
+      const currentSettings = SystemSettingsService.getSettings();
       res.json({
         success: true,
         data: {
@@ -355,6 +318,7 @@ export class AdminSettingsController {
    */
   static async getFileUploadSettings(req: Request, res: Response) {
     try {
+      const currentSettings = SystemSettingsService.getSettings();
       res.json({
         success: true,
         data: {
@@ -380,6 +344,7 @@ export class AdminSettingsController {
    */
   static async validateSettings(req: Request, res: Response) {
     try {
+      const currentSettings = SystemSettingsService.getSettings();
       const issues: Array<{ field: string; issue: string; severity: 'warning' | 'error' }> = [];
 
       // Validate file upload settings
@@ -469,12 +434,13 @@ export class AdminSettingsController {
    */
   static async getDefaultSettings(req: Request, res: Response) {
     try {
+      const currentSettings = SystemSettingsService.getSettings();
       res.json({
         success: true,
         data: {
-          defaults: defaultSettings,
+          defaults: SystemSettingsService.getDefaults(),
           current: currentSettings,
-          hasChanges: JSON.stringify(currentSettings) !== JSON.stringify(defaultSettings)
+          hasChanges: JSON.stringify(currentSettings) !== JSON.stringify(SystemSettingsService.getDefaults())
         }
       });
 
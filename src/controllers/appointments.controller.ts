@@ -1,6 +1,12 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import AuditService from '../services/audit.service';
+import AvailabilityService, { AvailabilityWindowInput } from '../services/availability.service';
+import AppointmentSeriesService, { RecurrenceRule } from '../services/appointment-series.service';
+import WaitlistService from '../services/waitlist.service';
+import NotificationService from '../services/notification.service';
+import { auditActor } from '../middlewares/delegationMiddleware';
+import { getTimezoneOffsetMs } from '../utils/timezone';
 
 const prisma = new PrismaClient();
 
@@ -29,7 +35,8 @@ export class AppointmentsController {
         reasonForVisit,
         patientNotes,
         appointmentType = 'consultation',
-        duration = 30
+        duration = 30,
+        recurrence
       } = req.body;
       
       const patientId = req.user?.healthId;
@@ -71,20 +78,22 @@ export class AppointmentsController {
         return res.status(400).json({ error: 'Appointment time must be in the future' });
       }
 
+      if (!Number.isInteger(duration) || duration <= 0) {
+        return res.status(400).json({ error: 'Duration must be a positive number of minutes' });
+      }
+
+      // Reject times outside the doctor's published schedule
+      const availability = await AvailabilityService.isWithinAvailability(doctorId, appointmentTime, duration);
+      if (!availability.available) {
+        return res.status(400).json({ error: availability.reason });
+      }
+
       // Check for conflicting appointments (same doctor, overlapping time)
-      const startTime = appointmentTime;
-      const endTime = new Date(appointmentTime.getTime() + (duration * 60 * 1000));
-      
-      const conflictingAppointment = await prisma.appointment.findFirst({
-        where: {
-          doctorId,
-          status: { in: ['PENDING', 'CONFIRMED'] },
-          requestedTime: {
-            gte: new Date(startTime.getTime() - (60 * 60 * 1000)), // 1 hour buffer
-            lte: new Date(endTime.getTime() + (60 * 60 * 1000))
-          }
-        }
-      });
+      const conflictingAppointment = await AvailabilityService.findConflictingAppointment(
+        doctorId,
+        appointmentTime,
+        duration
+      );
 
       if (conflictingAppointment) {
         return res.status(409).json({ 
@@ -96,43 +105,99 @@ export class AppointmentsController {
         });
       }
 
-      // Create appointment request
-      const appointment = await prisma.appointment.create({
-        data: {
-          patientId,
+      // Recurring follow-ups: every occurrence must be bookable before anything is created
+      let seriesOccurrences: Date[] | null = null;
+      let recurrenceRule: RecurrenceRule | undefined;
+      let seriesTimezone = 'UTC';
+
+      if (recurrence !== undefined) {
+        const parsed = AppointmentSeriesService.parseRecurrence(recurrence);
+        if (!parsed.rule) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        recurrenceRule = parsed.rule;
+        seriesTimezone = await AppointmentSeriesService.resolveTimezone(doctorId);
+
+        seriesOccurrences = AppointmentSeriesService.generateOccurrences(appointmentTime, recurrenceRule, seriesTimezone);
+        if (!seriesOccurrences) {
+          return res.status(400).json({
+            error: `Recurrence cannot produce more than ${AppointmentSeriesService.MAX_OCCURRENCES} occurrences`
+          });
+        }
+
+        const conflicts = await AppointmentSeriesService.findOccurrenceConflicts(
           doctorId,
-          facilityId,
-          requestedTime: appointmentTime,
-          reasonForVisit,
-          patientNotes,
-          appointmentType,
-          duration,
-          status: 'PENDING'
+          seriesOccurrences.slice(1),
+          duration
+        );
+        if (conflicts.length > 0) {
+          return res.status(409).json({
+            error: 'Some occurrences of the series cannot be booked',
+            conflicts
+          });
+        }
+      }
+
+      const appointmentInclude = {
+        patient: {
+          include: { healthProfile: true }
         },
-        include: {
-          patient: {
-            include: { healthProfile: true }
-          },
-          doctor: {
-            include: { healthProfile: true }
-          }
+        doctor: {
+          include: { healthProfile: true }
         }
-      });
+      };
+
+      // Create appointment request (or the whole series, returning its first occurrence)
+      let appointment;
+      if (recurrenceRule && seriesOccurrences) {
+        const series = await AppointmentSeriesService.createSeries({
+          rule: recurrenceRule,
+          timezone: seriesTimezone,
+          occurrences: seriesOccurrences,
+          status: 'PENDING',
+          appointment: {
+            patientId,
+            doctorId,
+            facilityId,
+            reasonForVisit,
+            patientNotes,
+            appointmentType,
+            duration
+          }
+        });
+
+        appointment = await prisma.appointment.findFirstOrThrow({
+          where: { seriesId: series.id, occurrenceIndex: 0 },
+          include: appointmentInclude
+        });
+      } else {
+        appointment = await prisma.appointment.create({
+          data: {
+            patientId,
+            doctorId,
+            facilityId,
+            requestedTime: appointmentTime,
+            reasonForVisit,
+            patientNotes,
+            appointmentType,
+            duration,
+            status: 'PENDING'
+          },
+          include: appointmentInclude
+        });
+      }
 
       // Create notification for doctor
-      await prisma.appointmentNotification.create({
-        data: {
-          appointmentId: appointment.id,
-          recipientId: doctorId,
-          type: 'APPOINTMENT_REQUESTED',
-          message: `New appointment request from ${patient.healthProfile?.firstName} ${patient.healthProfile?.lastName} for ${appointmentTime.toLocaleString()}`
-        }
-      });
+      await NotificationService.createNotification({
+        appointmentId: appointment.id,
+        recipientId: doctorId,
+        type: 'APPOINTMENT_REQUESTED',
+        message: `New appointment request from ${patient.healthProfile?.firstName} ${patient.healthProfile?.lastName} for ${appointmentTime.toLocaleString()}${seriesOccurrences ? ` (recurring, ${seriesOccurrences.length} occurrences)` : ''}`
+      }, true);
 
       // Log the appointment request
       await AuditService.logAction({
-        actorId: patientId,
-        actorRole: 'patient',
+        ...auditActor(req),
         action: 'APPOINTMENT_REQUESTED',
         resourceType: 'Appointment',
         resourceId: appointment.id,
@@ -141,7 +206,12 @@ export class AppointmentsController {
           doctorId,
           requestedTime: appointmentTime.toISOString(),
           reasonForVisit,
-          appointmentType
+          appointmentType,
+          ...(appointment.seriesId && {
+            seriesId: appointment.seriesId,
+            recurrence: AppointmentSeriesService.toRRule(recurrenceRule!),
+            occurrences: seriesOccurrences?.length
+          })
         },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
@@ -166,6 +236,8 @@ export class AppointmentsController {
             confirmedAt: appointment.confirmedAt,
             rejectedAt: appointment.rejectedAt,
             cancelledAt: appointment.cancelledAt,
+            seriesId: appointment.seriesId,
+            occurrenceIndex: appointment.occurrenceIndex,
             // Include nested structures
             doctor: appointment.doctor ? {
               healthId: appointment.doctor.healthId,
@@ -285,6 +357,8 @@ export class AppointmentsController {
             confirmedAt: apt.confirmedAt,
             rejectedAt: apt.rejectedAt,
             cancelledAt: apt.cancelledAt,
+            seriesId: apt.seriesId,
+            occurrenceIndex: apt.occurrenceIndex,
             // Include nested patient structure that frontend expects
             patient: apt.patient ? {
               healthId: apt.patient.healthId,
@@ -331,7 +405,7 @@ export class AppointmentsController {
   static async approveAppointment(req: AuthenticatedRequest, res: Response) {
     try {
       const { id } = req.params;
-      const { doctorNotes } = req.body;
+      const { doctorNotes, recurrence, scope = 'occurrence' } = req.body;
       const doctorId = req.user?.healthId;
 
       if (!doctorId) {
@@ -361,6 +435,48 @@ export class AppointmentsController {
         });
       }
 
+      // Optionally turn a one-off request into a confirmed follow-up series
+      let seriesOccurrences: Date[] | null = null;
+      let recurrenceRule: RecurrenceRule | undefined;
+      let seriesTimezone = 'UTC';
+
+      if (recurrence !== undefined) {
+        if (appointment.seriesId) {
+          return res.status(400).json({ error: 'Appointment is already part of a series' });
+        }
+
+        const parsed = AppointmentSeriesService.parseRecurrence(recurrence);
+        if (!parsed.rule) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        recurrenceRule = parsed.rule;
+        seriesTimezone = await AppointmentSeriesService.resolveTimezone(doctorId);
+
+        seriesOccurrences = AppointmentSeriesService.generateOccurrences(
+          appointment.requestedTime,
+          recurrenceRule,
+          seriesTimezone
+        );
+        if (!seriesOccurrences) {
+          return res.status(400).json({
+            error: `Recurrence cannot produce more than ${AppointmentSeriesService.MAX_OCCURRENCES} occurrences`
+          });
+        }
+
+        const conflicts = await AppointmentSeriesService.findOccurrenceConflicts(
+          doctorId,
+          seriesOccurrences.slice(1),
+          appointment.duration || 30,
+          [id]
+        );
+        if (conflicts.length > 0) {
+          return res.status(409).json({
+            error: 'Some occurrences of the series cannot be booked',
+            conflicts
+          });
+        }
+      }
+
       // Update appointment status
       const updatedAppointment = await prisma.appointment.update({
         where: { id },
@@ -375,15 +491,44 @@ export class AppointmentsController {
         }
       });
 
+      let seriesId = appointment.seriesId;
+      let seriesConfirmed = 0;
+
+      if (recurrenceRule && seriesOccurrences) {
+        const series = await AppointmentSeriesService.createSeries({
+          rule: recurrenceRule,
+          timezone: seriesTimezone,
+          occurrences: seriesOccurrences,
+          status: 'CONFIRMED',
+          baseAppointmentId: id,
+          appointment: {
+            patientId: appointment.patientId,
+            doctorId,
+            facilityId: appointment.facilityId ?? undefined,
+            reasonForVisit: appointment.reasonForVisit ?? undefined,
+            patientNotes: appointment.patientNotes ?? undefined,
+            doctorNotes,
+            appointmentType: appointment.appointmentType ?? undefined,
+            duration: appointment.duration || 30
+          }
+        });
+        seriesId = series.id;
+        seriesConfirmed = seriesOccurrences.length - 1;
+      } else if (scope === 'series' && appointment.seriesId) {
+        seriesConfirmed = (await AppointmentSeriesService.updateSeriesStatus(
+          appointment.seriesId,
+          ['PENDING'],
+          'CONFIRMED'
+        )).length;
+      }
+
       // Create notification for patient
-      await prisma.appointmentNotification.create({
-        data: {
-          appointmentId: id,
-          recipientId: appointment.patientId,
-          type: 'APPOINTMENT_CONFIRMED',
-          message: `Your appointment with Dr. ${appointment.doctor.healthProfile?.firstName} ${appointment.doctor.healthProfile?.lastName} on ${appointment.requestedTime.toLocaleString()} has been confirmed.`
-        }
-      });
+      await NotificationService.createNotification({
+        appointmentId: id,
+        recipientId: appointment.patientId,
+        type: 'APPOINTMENT_CONFIRMED',
+        message: `Your appointment with Dr. ${appointment.doctor.healthProfile?.firstName} ${appointment.doctor.healthProfile?.lastName} on ${appointment.requestedTime.toLocaleString()} has been confirmed.${seriesConfirmed > 0 ? ` ${seriesConfirmed} follow-up appointment(s) in the series were confirmed as well.` : ''}`
+      }, true);
 
       // Log the approval
       await AuditService.logAction({
@@ -395,7 +540,9 @@ export class AppointmentsController {
         patientHealthId: appointment.patientId,
         metadata: {
           appointmentTime: appointment.requestedTime.toISOString(),
-          doctorNotes
+          doctorNotes,
+          ...(seriesId && { seriesId, scope, seriesConfirmed }),
+          ...(recurrenceRule && { recurrence: AppointmentSeriesService.toRRule(recurrenceRule) })
         },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
@@ -420,6 +567,9 @@ export class AppointmentsController {
             confirmedAt: updatedAppointment.confirmedAt,
             rejectedAt: updatedAppointment.rejectedAt,
             cancelledAt: updatedAppointment.cancelledAt,
+            seriesId,
+            occurrenceIndex: seriesId ? (updatedAppointment.occurrenceIndex ?? 0) : null,
+            seriesConfirmed,
             // Include nested structures
             doctor: updatedAppointment.doctor ? {
               healthId: updatedAppointment.doctor.healthId,
@@ -459,7 +609,7 @@ export class AppointmentsController {
   static async rejectAppointment(req: AuthenticatedRequest, res: Response) {
     try {
       const { id } = req.params;
-      const { doctorNotes, reason } = req.body;
+      const { doctorNotes, reason, scope = 'occurrence' } = req.body;
       const doctorId = req.user?.healthId;
 
       if (!doctorId) {
@@ -499,15 +649,29 @@ export class AppointmentsController {
         }
       });
 
+      // Rejecting a series request declines every remaining pending occurrence
+      const rejectedOccurrences = scope === 'series' && appointment.seriesId
+        ? await AppointmentSeriesService.updateSeriesStatus(
+            appointment.seriesId,
+            ['PENDING'],
+            'REJECTED',
+            { doctorNotes: doctorNotes || reason }
+          )
+        : [];
+      const seriesRejected = rejectedOccurrences.length;
+
+      // Offer the freed slot(s) to waitlisted patients
+      for (const freed of [appointment, ...rejectedOccurrences]) {
+        await WaitlistService.backfillFromAppointment(freed);
+      }
+
       // Create notification for patient
-      await prisma.appointmentNotification.create({
-        data: {
-          appointmentId: id,
-          recipientId: appointment.patientId,
-          type: 'APPOINTMENT_REJECTED',
-          message: `Your appointment request with Dr. ${appointment.doctor.healthProfile?.firstName} ${appointment.doctor.healthProfile?.lastName} for ${appointment.requestedTime.toLocaleString()} has been rejected. ${reason ? `Reason: ${reason}` : ''}`
-        }
-      });
+      await NotificationService.createNotification({
+        appointmentId: id,
+        recipientId: appointment.patientId,
+        type: 'APPOINTMENT_REJECTED',
+        message: `Your appointment request with Dr. ${appointment.doctor.healthProfile?.firstName} ${appointment.doctor.healthProfile?.lastName} for ${appointment.requestedTime.toLocaleString()} has been rejected. ${reason ? `Reason: ${reason}` : ''}`
+      }, true);
 
       // Log the rejection
       await AuditService.logAction({
@@ -519,7 +683,8 @@ export class AppointmentsController {
         patientHealthId: appointment.patientId,
         metadata: {
           appointmentTime: appointment.requestedTime.toISOString(),
-          reason: reason || doctorNotes
+          reason: reason || doctorNotes,
+          ...(appointment.seriesId && { seriesId: appointment.seriesId, scope, seriesRejected })
         },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
@@ -532,7 +697,9 @@ export class AppointmentsController {
             id: updatedAppointment.id,
             status: updatedAppointment.status,
             rejectedAt: updatedAppointment.rejectedAt,
-            doctorNotes: updatedAppointment.doctorNotes
+            doctorNotes: updatedAppointment.doctorNotes,
+            seriesId: updatedAppointment.seriesId,
+            seriesRejected
           }
         },
         message: 'Appointment rejected successfully'
@@ -552,7 +719,7 @@ export class AppointmentsController {
   static async cancelAppointment(req: AuthenticatedRequest, res: Response) {
     try {
       const { id } = req.params;
-      const { reason, notes } = req.body;
+      const { reason, notes, scope = 'occurrence' } = req.body;
       const userId = req.user?.healthId;
       const userRole = req.user?.role;
 
@@ -594,6 +761,22 @@ export class AppointmentsController {
         }
       });
 
+      // Cancelling the series cancels every remaining occurrence as well
+      const cancelledOccurrences = scope === 'series' && appointment.seriesId
+        ? await AppointmentSeriesService.updateSeriesStatus(
+            appointment.seriesId,
+            ['PENDING', 'CONFIRMED'],
+            'CANCELLED',
+            { notes: notes || reason }
+          )
+        : [];
+      const seriesCancelled = cancelledOccurrences.length;
+
+      // Offer the freed slot(s) to waitlisted patients
+      for (const freed of [appointment, ...cancelledOccurrences]) {
+        await WaitlistService.backfillFromAppointment(freed);
+      }
+
       // Create notification for the other party
       const notificationRecipientId = userId === appointment.patientId ? appointment.doctorId : appointment.patientId;
       const cancelledBy = userId === appointment.patientId ? 'patient' : 'doctor';
@@ -601,14 +784,12 @@ export class AppointmentsController {
         ? `${appointment.patient.healthProfile?.firstName} ${appointment.patient.healthProfile?.lastName}`
         : `Dr. ${appointment.doctor.healthProfile?.firstName} ${appointment.doctor.healthProfile?.lastName}`;
 
-      await prisma.appointmentNotification.create({
-        data: {
-          appointmentId: id,
-          recipientId: notificationRecipientId,
-          type: 'APPOINTMENT_CANCELLED',
-          message: `Your appointment on ${appointment.requestedTime.toLocaleString()} has been cancelled by ${cancelledByName}. ${reason ? `Reason: ${reason}` : ''}`
-        }
-      });
+      await NotificationService.createNotification({
+        appointmentId: id,
+        recipientId: notificationRecipientId,
+        type: 'APPOINTMENT_CANCELLED',
+        message: `Your appointment on ${appointment.requestedTime.toLocaleString()} has been cancelled by ${cancelledByName}.${seriesCancelled > 0 ? ` ${seriesCancelled} remaining appointment(s) in the series were cancelled as well.` : ''} ${reason ? `Reason: ${reason}` : ''}`
+      }, true);
 
       // Log the cancellation
       await AuditService.logAction({
@@ -621,7 +802,8 @@ export class AppointmentsController {
         metadata: {
           appointmentTime: appointment.requestedTime.toISOString(),
           cancelledBy,
-          reason: reason || notes
+          reason: reason || notes,
+          ...(appointment.seriesId && { seriesId: appointment.seriesId, scope, seriesCancelled })
         },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
@@ -634,7 +816,9 @@ export class AppointmentsController {
             id: updatedAppointment.id,
             status: updatedAppointment.status,
             cancelledAt: updatedAppointment.cancelledAt,
-            notes: updatedAppointment.notes
+            notes: updatedAppointment.notes,
+            seriesId: updatedAppointment.seriesId,
+            seriesCancelled
           }
         },
         message: 'Appointment cancelled successfully'
@@ -705,6 +889,8 @@ export class AppointmentsController {
             confirmedAt: apt.confirmedAt,
             rejectedAt: apt.rejectedAt,
             cancelledAt: apt.cancelledAt,
+            seriesId: apt.seriesId,
+            occurrenceIndex: apt.occurrenceIndex,
             // Include the nested doctor structure that frontend expects
             doctor: apt.doctor ? {
               healthId: apt.doctor.healthId,
@@ -783,7 +969,9 @@ export class AppointmentsController {
             createdAt: appointment.createdAt,
             confirmedAt: appointment.confirmedAt,
             rejectedAt: appointment.rejectedAt,
-            cancelledAt: appointment.cancelledAt
+            cancelledAt: appointment.cancelledAt,
+            seriesId: appointment.seriesId,
+            occurrenceIndex: appointment.occurrenceIndex
           }
         }
       });
@@ -840,14 +1028,7 @@ export class AppointmentsController {
       const patientName = `${appointment.patient.healthProfile?.firstName} ${appointment.patient.healthProfile?.lastName}`;
       const doctorName = `Dr. ${appointment.doctor.healthProfile?.firstName} ${appointment.doctor.healthProfile?.lastName}`;
 
-      const icsContent = [
-        'BEGIN:VCALENDAR',
-        'VERSION:2.0',
-        'PRODID:-//CuraNet//Appointment//EN',
-        'BEGIN:VEVENT',
-        `UID:appointment-${appointment.id}@curanet.com`,
-        `DTSTART:${formatDate(startTime)}`,
-        `DTEND:${formatDate(endTime)}`,
+      const eventDetails = [
         `SUMMARY:Medical Appointment - ${doctorName}`,
         `DESCRIPTION:Appointment between ${patientName} and ${doctorName}\\nReason: ${appointment.reasonForVisit || 'Medical consultation'}\\nType: ${appointment.appointmentType}${appointment.doctorNotes ? '\\nNotes: ' + appointment.doctorNotes : ''}`,
         `ORGANIZER:CN=${doctorName}:MAILTO:${appointment.doctor.email}`,
@@ -859,14 +1040,77 @@ export class AppointmentsController {
         'TRIGGER:-PT15M',
         'ACTION:DISPLAY',
         'DESCRIPTION:Appointment reminder',
-        'END:VALARM',
-        'END:VEVENT',
+        'END:VALARM'
+      ];
+
+      const series = appointment.seriesId
+        ? await AppointmentSeriesService.getSeries(appointment.seriesId)
+        : null;
+
+      let events: string[];
+      if (series) {
+        // Series: one master event with an RRULE, cancelled occurrences as EXDATE
+        // and individually moved occurrences as RECURRENCE-ID overrides
+        const uid = `appointment-series-${series.id}@curanet.com`;
+        const durationMs = series.duration * 60 * 1000;
+        const isUtc = series.timezone === 'UTC';
+        const formatSeriesDate = (date: Date) => isUtc
+          ? formatDate(date)
+          : formatDate(new Date(date.getTime() + getTimezoneOffsetMs(date, series.timezone))).slice(0, -1);
+        const seriesProp = (name: string, date: Date) => isUtc
+          ? `${name}:${formatSeriesDate(date)}`
+          : `${name};TZID=${series.timezone}:${formatSeriesDate(date)}`;
+
+        const excluded = series.appointments.filter(occurrence =>
+          occurrence.originalStartTime && ['CANCELLED', 'REJECTED'].includes(occurrence.status)
+        );
+        const overrides = series.appointments.filter(occurrence =>
+          occurrence.originalStartTime &&
+          !['CANCELLED', 'REJECTED'].includes(occurrence.status) &&
+          occurrence.originalStartTime.getTime() !== occurrence.requestedTime.getTime()
+        );
+
+        events = [
+          'BEGIN:VEVENT',
+          `UID:${uid}`,
+          seriesProp('DTSTART', series.startsAt),
+          seriesProp('DTEND', new Date(series.startsAt.getTime() + durationMs)),
+          `RRULE:${AppointmentSeriesService.toRRule(series)}`,
+          ...excluded.map(occurrence => seriesProp('EXDATE', occurrence.originalStartTime!)),
+          ...eventDetails,
+          'END:VEVENT',
+          ...overrides.flatMap(occurrence => [
+            'BEGIN:VEVENT',
+            `UID:${uid}`,
+            seriesProp('RECURRENCE-ID', occurrence.originalStartTime!),
+            `DTSTART:${formatDate(occurrence.requestedTime)}`,
+            `DTEND:${formatDate(new Date(occurrence.requestedTime.getTime() + (occurrence.duration || series.duration) * 60 * 1000))}`,
+            ...eventDetails,
+            'END:VEVENT'
+          ])
+        ];
+      } else {
+        events = [
+          'BEGIN:VEVENT',
+          `UID:appointment-${appointment.id}@curanet.com`,
+          `DTSTART:${formatDate(startTime)}`,
+          `DTEND:${formatDate(endTime)}`,
+          ...eventDetails,
+          'END:VEVENT'
+        ];
+      }
+
+      const icsContent = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//CuraNet//Appointment//EN',
+        ...events,
         'END:VCALENDAR'
       ].join('\r\n');
 
       // Set headers for file download
       res.setHeader('Content-Type', 'text/calendar');
-      res.setHeader('Content-Disposition', `attachment; filename="appointment-${appointment.id}.ics"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${series ? `appointment-series-${series.id}` : `appointment-${appointment.id}`}.ics"`);
       
       res.status(200).send(icsContent);
 
@@ -1088,7 +1332,7 @@ export class AppointmentsController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      const { requestedTime, notes } = req.body;
+      const { requestedTime, notes, scope = 'occurrence' } = req.body;
 
       if (!requestedTime) {
         return res.status(400).json({ error: 'New appointment time is required' });
@@ -1123,27 +1367,64 @@ export class AppointmentsController {
         return res.status(400).json({ error: 'New appointment time must be in the future' });
       }
 
-      // Check for conflicts with the new time
-      const conflictingAppointment = await prisma.appointment.findFirst({
-        where: {
-          doctorId: appointment.doctorId,
-          status: { in: ['PENDING', 'CONFIRMED'] },
-          id: { not: id }, // Exclude current appointment
-          requestedTime: {
-            gte: new Date(newTime.getTime() - (60 * 60 * 1000)), // 1 hour buffer
-            lte: new Date(newTime.getTime() + ((appointment.duration || 30) * 60 * 1000) + (60 * 60 * 1000))
-          }
+      const duration = appointment.duration || 30;
+      const rescheduleSeries = scope === 'series' && Boolean(appointment.seriesId);
+      const newStatus = userRole === 'patient' ? 'PENDING' : 'CONFIRMED';
+      let seriesRescheduled = 0;
+
+      if (rescheduleSeries) {
+        // Move every remaining occurrence by the same wall-clock change as this one
+        const remaining = await AppointmentSeriesService.getRemainingOccurrences(appointment.seriesId!);
+        if (!remaining.some(occurrence => occurrence.id === id)) {
+          return res.status(400).json({ error: 'Only an upcoming occurrence can be used to reschedule the series' });
         }
-      });
 
-      if (conflictingAppointment) {
-        return res.status(409).json({ 
-          error: 'Doctor has a conflicting appointment at the new time',
-          conflicting_appointment: {
-            id: conflictingAppointment.id,
-            time: conflictingAppointment.requestedTime
-          }
-        });
+        const series = await AppointmentSeriesService.getSeries(appointment.seriesId!);
+        const conflicts = await AppointmentSeriesService.findOccurrenceConflicts(
+          appointment.doctorId,
+          remaining.map(occurrence => AppointmentSeriesService.shiftWallClock(
+            occurrence.requestedTime,
+            appointment.requestedTime,
+            newTime,
+            series!.timezone
+          )),
+          duration,
+          series!.appointments.map(occurrence => occurrence.id)
+        );
+
+        if (conflicts.length > 0) {
+          return res.status(409).json({
+            error: 'Some occurrences of the series cannot be moved',
+            conflicts
+          });
+        }
+
+        await AppointmentSeriesService.shiftSeries(appointment.seriesId!, appointment.requestedTime, newTime, newStatus);
+        seriesRescheduled = remaining.length;
+      } else {
+        // The new time must fall inside the doctor's published schedule
+        const availability = await AvailabilityService.isWithinAvailability(appointment.doctorId, newTime, duration);
+        if (!availability.available) {
+          return res.status(400).json({ error: availability.reason });
+        }
+
+        // Check for conflicts with the new time, excluding the appointment being moved
+        const conflictingAppointment = await AvailabilityService.findConflictingAppointment(
+          appointment.doctorId,
+          newTime,
+          duration,
+          [id]
+        );
+
+        if (conflictingAppointment) {
+          return res.status(409).json({ 
+            error: 'Doctor has a conflicting appointment at the new time',
+            conflicting_appointment: {
+              id: conflictingAppointment.id,
+              time: conflictingAppointment.requestedTime
+            }
+          });
+        }
       }
 
       // Update the appointment with new time
@@ -1186,23 +1467,23 @@ export class AppointmentsController {
         : 'Administrator';
 
       const notificationType = userRole === 'patient' ? 'APPOINTMENT_REQUESTED' : 'APPOINTMENT_CONFIRMED';
+      const seriesNote = seriesRescheduled > 0
+        ? ` (${seriesRescheduled} remaining appointment(s) in the series are moved by the same amount)`
+        : '';
       const notificationMessage = userRole === 'patient' 
-        ? `${rescheduledByName} has requested to reschedule your appointment to ${newTime.toLocaleString()}. Please review and approve.`
-        : `Your appointment has been rescheduled to ${newTime.toLocaleString()} by ${rescheduledByName}`;
+        ? `${rescheduledByName} has requested to reschedule your appointment to ${newTime.toLocaleString()}${seriesNote}. Please review and approve.`
+        : `Your appointment has been rescheduled to ${newTime.toLocaleString()} by ${rescheduledByName}${seriesNote}`;
 
-      await prisma.appointmentNotification.create({
-        data: {
-          appointmentId: id,
-          recipientId: notificationRecipientId,
-          type: notificationType,
-          message: notificationMessage
-        }
-      });
+      await NotificationService.createNotification({
+        appointmentId: id,
+        recipientId: notificationRecipientId,
+        type: notificationType,
+        message: notificationMessage
+      }, true);
 
       // Log the reschedule
       await AuditService.logAction({
-        actorId: userId,
-        actorRole: userRole,
+        ...auditActor(req),
         action: 'APPOINTMENT_RESCHEDULED',
         resourceType: 'Appointment',
         resourceId: id,
@@ -1210,7 +1491,8 @@ export class AppointmentsController {
         metadata: {
           previousTime: appointment.requestedTime.toISOString(),
           newTime: newTime.toISOString(),
-          notes
+          notes,
+          ...(appointment.seriesId && { seriesId: appointment.seriesId, scope, seriesRescheduled })
         },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
@@ -1220,6 +1502,7 @@ export class AppointmentsController {
         success: true,
         data: {
           appointment: updatedAppointment,
+          seriesRescheduled,
           message: 'Appointment rescheduled successfully'
         }
       });
@@ -1229,4 +1512,308 @@ export class AppointmentsController {
       res.status(500).json({ error: 'Failed to reschedule appointment' });
     }
   }
+
+  /**
+   * Get Appointment Series
+   * GET /api/appointments/series/:seriesId
+   * Returns the recurrence rule and every occurrence of a series
+   */
+  static async getAppointmentSeries(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { seriesId } = req.params;
+      const userId = req.user?.healthId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const series = await AppointmentSeriesService.getSeries(seriesId);
+
+      if (!series) {
+        return res.status(404).json({ error: 'Appointment series not found' });
+      }
+
+      if (series.patientId !== userId && series.doctorId !== userId && req.user?.role !== 'admin') {
+        return res.status(403).json({ error: 'You can only view your own appointment series' });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          series: {
+            id: series.id,
+            patientId: series.patientId,
+            doctorId: series.doctorId,
+            frequency: series.frequency,
+            interval: series.interval,
+            count: series.count,
+            until: series.until,
+            startsAt: series.startsAt,
+            duration: series.duration,
+            timezone: series.timezone,
+            rrule: AppointmentSeriesService.toRRule(series),
+            cancelledAt: series.cancelledAt,
+            createdAt: series.createdAt
+          },
+          occurrences: series.appointments.map(occurrence => ({
+            id: occurrence.id,
+            occurrenceIndex: occurrence.occurrenceIndex,
+            requestedTime: occurrence.requestedTime,
+            originalStartTime: occurrence.originalStartTime,
+            status: occurrence.status,
+            duration: occurrence.duration
+          }))
+        }
+      });
+
+    } catch (error) {
+      console.error('Error getting appointment series:', error);
+      res.status(500).json({ error: 'Failed to get appointment series' });
+    }
+  }
+
+  /**
+   * Get Doctor Slots
+   * GET /api/appointments/doctors/:id/slots?from&to
+   * Returns free bookable slots generated from the doctor's published availability
+   */
+  static async getDoctorSlots(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { from, to } = req.query;
+
+      const doctor = await prisma.user.findUnique({
+        where: { healthId: id },
+        select: { healthId: true, role: true, status: true }
+      });
+
+      if (!doctor || doctor.role !== 'doctor' || doctor.status !== 'active') {
+        return res.status(404).json({ error: 'Doctor not found' });
+      }
+
+      const fromDate = from ? new Date(String(from)) : new Date();
+      const toDate = to
+        ? new Date(String(to))
+        : new Date(fromDate.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+        return res.status(400).json({ error: 'from and to must be valid dates' });
+      }
+
+      if (toDate <= fromDate) {
+        return res.status(400).json({ error: 'to must be after from' });
+      }
+
+      const maxRangeMs = AvailabilityService.MAX_RANGE_DAYS * 24 * 60 * 60 * 1000;
+      if (toDate.getTime() - fromDate.getTime() > maxRangeMs) {
+        return res.status(400).json({
+          error: `Slot range cannot exceed ${AvailabilityService.MAX_RANGE_DAYS} days`
+        });
+      }
+
+      const slots = await AvailabilityService.generateSlots(id, fromDate, toDate);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          doctorId: id,
+          from: fromDate,
+          to: toDate,
+          slots
+        }
+      });
+
+    } catch (error) {
+      console.error('Error getting doctor slots:', error);
+      res.status(500).json({ error: 'Failed to get available slots' });
+    }
+  }
+
+  /**
+   * Get My Availability
+   * GET /api/appointments/availability
+   * Returns the authenticated doctor's weekly template and upcoming exceptions
+   */
+  static async getMyAvailability(req: AuthenticatedRequest, res: Response) {
+    try {
+      const doctorId = req.user?.healthId;
+
+      if (!doctorId || req.user?.role !== 'doctor') {
+        return res.status(403).json({ error: 'Only doctors can manage availability' });
+      }
+
+      const availability = await AvailabilityService.getAvailability(doctorId);
+
+      res.status(200).json({
+        success: true,
+        data: availability
+      });
+
+    } catch (error) {
+      console.error('Error getting availability:', error);
+      res.status(500).json({ error: 'Failed to get availability' });
+    }
+  }
+
+  /**
+   * Set Weekly Availability
+   * PUT /api/appointments/availability
+   * Replaces the authenticated doctor's weekly template
+   */
+  static async setAvailability(req: AuthenticatedRequest, res: Response) {
+    try {
+      const doctorId = req.user?.healthId;
+
+      if (!doctorId || req.user?.role !== 'doctor') {
+        return res.status(403).json({ error: 'Only doctors can manage availability' });
+      }
+
+      const { windows, timezone } = req.body;
+
+      if (!Array.isArray(windows)) {
+        return res.status(400).json({ error: 'windows must be an array' });
+      }
+
+      const parsed: AvailabilityWindowInput[] = [];
+      for (const window of windows) {
+        const input: AvailabilityWindowInput = {
+          dayOfWeek: window?.dayOfWeek,
+          startTime: String(window?.startTime ?? ''),
+          endTime: String(window?.endTime ?? ''),
+          slotMinutes: window?.slotMinutes,
+          timezone: window?.timezone ?? timezone
+        };
+
+        const validationError = AvailabilityService.validateWindow(input);
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+        parsed.push(input);
+      }
+
+      const templates = await AvailabilityService.setWeeklyTemplate(doctorId, parsed);
+
+      await AuditService.logAction({
+        actorId: doctorId,
+        actorRole: 'doctor',
+        action: 'AVAILABILITY_UPDATED',
+        resourceType: 'DoctorAvailability',
+        resourceId: doctorId,
+        patientHealthId: doctorId,
+        metadata: { windowCount: templates.length },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { templates },
+        message: 'Availability updated successfully'
+      });
+
+    } catch (error) {
+      console.error('Error setting availability:', error);
+      res.status(500).json({ error: 'Failed to update availability' });
+    }
+  }
+
+  /**
+   * Add Availability Exception
+   * POST /api/appointments/availability/exceptions
+   * Blocks out leave, holidays or other unavailable periods
+   */
+  static async addAvailabilityException(req: AuthenticatedRequest, res: Response) {
+    try {
+      const doctorId = req.user?.healthId;
+
+      if (!doctorId || req.user?.role !== 'doctor') {
+        return res.status(403).json({ error: 'Only doctors can manage availability' });
+      }
+
+      const { type = 'LEAVE', startsAt, endsAt, reason } = req.body;
+
+      if (!startsAt || !endsAt) {
+        return res.status(400).json({ error: 'startsAt and endsAt are required' });
+      }
+
+      if (!['LEAVE', 'HOLIDAY', 'OTHER'].includes(type)) {
+        return res.status(400).json({ error: 'type must be one of LEAVE, HOLIDAY, OTHER' });
+      }
+
+      const start = new Date(startsAt);
+      const end = new Date(endsAt);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+        return res.status(400).json({ error: 'endsAt must be a valid date after startsAt' });
+      }
+
+      const exception = await AvailabilityService.addException(doctorId, {
+        type,
+        startsAt: start,
+        endsAt: end,
+        reason
+      });
+
+      await AuditService.logAction({
+        actorId: doctorId,
+        actorRole: 'doctor',
+        action: 'AVAILABILITY_EXCEPTION_ADDED',
+        resourceType: 'DoctorAvailabilityException',
+        resourceId: exception.id,
+        patientHealthId: doctorId,
+        metadata: { type, startsAt: start.toISOString(), endsAt: end.toISOString() },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { exception },
+        message: 'Availability exception added successfully'
+      });
+
+    } catch (error) {
+      console.error('Error adding availability exception:', error);
+      res.status(500).json({ error: 'Failed to add availability exception' });
+    }
+  }
+
+  /**
+   * Delete Availability Exception
+   * DELETE /api/appointments/availability/exceptions/:exceptionId
+   */
+  static async deleteAvailabilityException(req: AuthenticatedRequest, res: Response) {
+    try {
+      const doctorId = req.user?.healthId;
+      const { exceptionId } = req.params;
+
+      if (!doctorId || req.user?.role !== 'doctor') {
+        return res.status(403).json({ error: 'Only doctors can manage availability' });
+      }
+
+      const removed = await AvailabilityService.removeException(doctorId, exceptionId);
+      if (!removed) {
+        return res.status(404).json({ error: 'Availability exception not found' });
+      }
+
+      await AuditService.logAction({
+        actorId: doctorId,
+        actorRole: 'doctor',
+        action: 'AVAILABILITY_EXCEPTION_REMOVED',
+        resourceType: 'DoctorAvailabilityException',
+        resourceId: exceptionId,
+        patientHealthId: doctorId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Availability exception removed successfully'
+      });
+
+    } catch (error) {
+      console.error('Error deleting availability exception:', error);
+      res.status(500).json({ error: 'Failed to remove availability exception' });
+    }
+  }
 }
\ No newline at end of file
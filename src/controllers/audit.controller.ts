@@ -385,6 +385,8 @@ const getFriendlyActionName = (action: string): string => {
     'CONSENT_REQUEST_REJECTED': 'Consent Request Rejected',
     'PRESCRIPTION_CREATE': 'Prescription Created',
     'PRESCRIPTION_DISPENSE': 'Prescription Dispensed',
+    'PRESCRIPTION_FULLY_DISPENSED': 'Prescription Fully Dispensed',
+    'PRESCRIPTION_LOOKUP': 'Prescriptions Looked Up',
     'LOGIN': 'Account Login',
     'HEALTH_ID_ACCESS': 'Health ID Accessed'
   };
@@ -404,8 +406,14 @@ const getActionDescription = (action: string, details: any): string => {
       return `Access revoked${details.reason ? `: ${details.reason}` : ''}`;
     case 'RECORD_READ':
       return `Viewed ${details.resourceType || 'medical record'}`;
-    case 'PRESCRIPTION_CREATE':
-      return `Created prescription${details.medication ? ` for ${details.medication}` : ''}`;
+    case 'PRESCRIPTION_CREATE': {
+      const medication = details.medication || details.metadata?.medication;
+      return `Created prescription${medication ? ` for ${medication}` : ''}`;
+    }
+    case 'PRESCRIPTION_DISPENSE': {
+      const medication = details.medication || details.metadata?.medication;
+      return `Dispensed ${medication || 'prescription'}`;
+    }
     default:
       return details.reason || details.purpose || '';
   }
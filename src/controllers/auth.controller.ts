@@ -4,9 +4,18 @@ import argon2 from 'argon2';
 import crypto from 'crypto';
 import dotenv from 'dotenv';
 import { EventEmitter } from 'events';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, User } from '@prisma/client';
+import { AuthenticationResponseJSON } from '@simplewebauthn/server';
 import EmailService from '../services/email.service';
 import OtpService from '../services/otp.service';
+import TwoFactorService from '../services/two-factor.service';
+import WebAuthnService from '../services/webauthn.service';
+import LoginLockoutService from '../services/login-lockout.service';
+import TokenRevocationService from '../services/token-revocation.service';
+import SessionService from '../services/session.service';
+import LoginRiskService from '../services/login-risk.service';
+import { getRequestLocation } from '../utils/geo';
+import { revokeToken } from '../middlewares/authMiddleware';
 import runtimeConfig from '../config/runtime-config';
 
 dotenv.config();
@@ -341,16 +350,197 @@ export const verifyEmail = async (req: Request, res: Response): Promise<void> =>
     }
 };
 
+/**
+ * Issue access and refresh tokens once the user has fully authenticated
+ * (password, plus the second factor when 2FA is enabled)
+ */
+const issueSession = async (
+    req: Request,
+    res: Response,
+    user: User,
+    options: { deviceFingerprint?: string; platform?: string; mfaMethod?: string; failedAttempts?: number } = {}
+): Promise<void> => {
+    // Detect platform from User-Agent or explicit 'platform' parameter
+    const userAgent = req.get('User-Agent') || '';
+    const platform = options.platform?.toLowerCase() || '';
+    const isMobile = platform === 'mobile' || platform === 'flutter' || platform === 'android' || platform === 'ios' ||
+        userAgent.includes('Dart') || userAgent.includes('Flutter') ||
+        (userAgent.includes('Mobile') && !userAgent.includes('Mozilla'));
+
+    // Token expiry: 15 minutes for web, 30 days for mobile
+    const tokenExpiry = isMobile
+        ? runtimeConfig.jwtAccessTokenExpiryMobile
+        : runtimeConfig.jwtAccessTokenExpiryWeb;
+    console.log(`📱 Platform detected: ${isMobile ? 'Mobile' : 'Web'}, token expiry: ${tokenExpiry}`);
+
+    const deviceFingerprintToStore = options.deviceFingerprint || 'unknown';
+    const refreshExpiresAt = new Date(Date.now() + runtimeConfig.jwtRefreshTokenExpiryDays * 24 * 60 * 60 * 1000);
+
+    // Compare the sign-in with the user's previous devices, networks and locations
+    const location = getRequestLocation(req);
+    const risk = await LoginRiskService.evaluate({
+        userId: user.healthId,
+        deviceId: deviceFingerprintToStore,
+        ipAddress: req.ip,
+        location,
+        failedAttempts: options.failedAttempts
+    });
+
+    // Open a session; older sessions beyond the user's limit are signed out
+    const session = await SessionService.start({
+        userId: user.healthId,
+        role: user.role,
+        expiresAt: refreshExpiresAt,
+        deviceId: deviceFingerprintToStore,
+        deviceInfo: isMobile ? 'Mobile app' : 'Web browser',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        location,
+        isTrusted: risk.trustedDevice,
+        riskLevel: risk.level,
+        riskSignals: risk.signals
+    });
+
+    // Alerts go out in the background so email delivery never delays the login
+    LoginRiskService.alert({ user, session, assessment: risk }).catch(error =>
+        console.error('[Auth] Failed to send sign-in alert:', error)
+    );
+
+    // Generate tokens
+    const accessTokenPayload = {
+        sub: user.healthId,
+        email: user.email,
+        role: user.role,
+        status: user.status,
+        jti: crypto.randomUUID(),
+        sid: session.sessionToken
+    };
+
+    const accessToken = jwt.sign(accessTokenPayload, getJwtSecret(), {
+        expiresIn: tokenExpiry as jwt.SignOptions['expiresIn'],
+        algorithm: 'HS256'
+    });
+
+    const refreshToken = generateSecureToken();
+    const refreshTokenHash = hashToken(refreshToken);
+
+    // Store refresh token
+    await prisma.refreshToken.create({
+        data: {
+            userId: user.healthId!,
+            tokenHash: refreshTokenHash,
+            deviceFingerprint: deviceFingerprintToStore,
+            expiresAt: refreshExpiresAt,
+            lastUsedAt: new Date(),
+            sessionId: session.id
+        }
+    });
+
+    // Set refresh token as HTTP-only cookie
+    res.cookie('refreshToken', refreshToken, {
+        httpOnly: true,
+        secure: runtimeConfig.cookieSecure,
+        sameSite: runtimeConfig.cookieSameSite,
+        maxAge: runtimeConfig.jwtRefreshTokenExpiryDays * 24 * 60 * 60 * 1000
+    });
+
+    // Emit login event for audit service
+    authEventEmitter.emit('user-login', {
+        userId: user.healthId,
+        email: user.email,
+        role: user.role,
+        deviceFingerprint: deviceFingerprintToStore,
+        mfaMethod: options.mfaMethod,
+        timestamp: new Date(),
+        ip: req.ip,
+        userAgent: req.get('User-Agent')
+    });
+
+    const { passwordHash: _omit, ...userResponse } = user;
+
+    res.json({
+        message: 'Login successful',
+        accessToken,
+        refreshToken, // Also return in body for mobile apps that can't access cookies
+        user: userResponse,
+        session: {
+            id: session.id,
+            isTrusted: session.isTrusted,
+            newDevice: risk.signals.includes('new_device')
+        }
+    });
+};
+
+/**
+ * Apply the user's IP allow/deny rules to a sign-in. Responds with 403 and
+ * audits the attempt when the client address is not permitted.
+ */
+const denyByIpRules = async (req: Request, res: Response, user: User): Promise<boolean> => {
+    const policy = await SessionService.getPolicy(user.healthId);
+    const decision = SessionService.checkIp(policy, req.ip);
+    if (decision === 'allowed') {
+        return false;
+    }
+
+    await SessionService.auditIpDenial({
+        userId: user.healthId,
+        role: user.role,
+        decision,
+        stage: 'login',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+    });
+    res.status(403).json({ message: 'Sign-in from this IP address is not allowed for this account' });
+    return true;
+};
+
+/**
+ * Second factors the user must choose from after a correct password.
+ * requireBiometric narrows this to passkeys only.
+ */
+const getSecondFactorMethods = async (userId: string): Promise<string[]> => {
+    const [totpEnabled, passkeys] = await Promise.all([
+        TwoFactorService.isEnabled(userId),
+        WebAuthnService.getLoginRequirement(userId)
+    ]);
+
+    if (passkeys.required) {
+        return ['webauthn'];
+    }
+
+    if (!totpEnabled) {
+        return [];
+    }
+
+    return passkeys.registered ? ['totp', 'backup_code', 'webauthn'] : ['totp', 'backup_code'];
+};
+
 export const login = async (req: Request, res: Response): Promise<void> => {
     try {
-        const { email, phone, password, deviceFingerprint }: LoginRequest & { phone?: string } = req.body;
+        const { email, phone, password, deviceFingerprint, platform }: LoginRequest & { phone?: string; platform?: unknown } = req.body;
+        // Only a string hint picks the mobile token lifetime
+        const clientPlatform = typeof platform === 'string' ? platform : undefined;
 
         if ((!email && !phone) || !password) {
             res.status(400).json({ message: 'Email or phone and password are required' });
             return;
         }
 
+        // Lockout keys are built from these, so anything but text is turned away here
+        if ((email && typeof email !== 'string') || (phone && typeof phone !== 'string') || typeof password !== 'string') {
+            res.status(400).json({ message: 'Email, phone and password must be strings' });
+            return;
+        }
+
         const normalizedEmail = email ? email.toLowerCase().trim() : null;
+        const lockoutTarget = { ip: req.ip, account: normalizedEmail || phone };
+
+        const lockout = await LoginLockoutService.check(lockoutTarget);
+        if (lockout.locked) {
+            res.set('Retry-After', String(lockout.retryAfterSeconds));
+            res.status(429).json({ message: 'Too many failed login attempts, please try again later' });
+            return;
+        }
 
         // Find user by email or phone
         const user = await prisma.user.findFirst({
@@ -374,6 +564,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
         if (!user) {
             console.log('❌ User not found in database');
+            await LoginLockoutService.recordFailure(lockoutTarget);
             res.status(401).json({ message: 'Invalid credentials' });
             return;
         }
@@ -403,84 +594,245 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
         if (!isValidPassword) {
             console.log('❌ Password verification failed');
+            await LoginLockoutService.recordFailure(lockoutTarget);
             res.status(401).json({ message: 'Invalid credentials' });
             return;
         }
 
         console.log('✅ Login successful!');
+        const failedAttempts = await LoginLockoutService.recentFailures({ account: lockoutTarget.account });
+        await LoginLockoutService.clearAccount(lockoutTarget.account!);
 
-        // Detect platform from User-Agent or explicit 'platform' parameter
-        const userAgent = req.get('User-Agent') || '';
-        const platform = (req.body as any)?.platform?.toLowerCase() || '';
-        const isMobile = platform === 'mobile' || platform === 'flutter' || platform === 'android' || platform === 'ios' ||
-            userAgent.includes('Dart') || userAgent.includes('Flutter') ||
-            (userAgent.includes('Mobile') && !userAgent.includes('Mozilla'));
+        if (await denyByIpRules(req, res, user)) {
+            return;
+        }
 
-        // Token expiry: 15 minutes for web, 30 days for mobile
-        const tokenExpiry = isMobile
-            ? runtimeConfig.jwtAccessTokenExpiryMobile
-            : runtimeConfig.jwtAccessTokenExpiryWeb;
-        console.log(`📱 Platform detected: ${isMobile ? 'Mobile' : 'Web'}, token expiry: ${tokenExpiry}`);
+        // Second factor: hand back a short-lived challenge instead of tokens
+        const methods = await getSecondFactorMethods(user.healthId);
+        if (methods.length > 0) {
+            const mfaToken = TwoFactorService.issueChallenge({
+                userId: user.healthId,
+                deviceFingerprint,
+                platform: clientPlatform,
+                failedAttempts
+            });
 
-        // Generate tokens
-        const accessTokenPayload = {
-            sub: user.healthId,
-            email: user.email,
-            role: user.role,
-            status: user.status,
-            jti: crypto.randomUUID()
+            res.json({
+                message: 'Two-factor authentication required',
+                mfaRequired: true,
+                mfaToken,
+                methods,
+                expiresIn: runtimeConfig.mfaChallengeExpirySeconds
+            });
+            return;
+        }
+
+        await issueSession(req, res, user, { deviceFingerprint, platform: clientPlatform, failedAttempts });
+
+    } catch (error) {
+        console.error('Login error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+/**
+ * Second login step for accounts with 2FA
+ * POST /api/auth/mfa/verify
+ * Exchanges the challenge token from /login plus a TOTP code, backup code or passkey for tokens
+ */
+export const verifyMfa = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { mfaToken, code, webauthnResponse } = req.body as {
+            mfaToken?: string;
+            code?: string;
+            webauthnResponse?: AuthenticationResponseJSON;
         };
 
-        const accessToken = jwt.sign(accessTokenPayload, getJwtSecret(), {
-            expiresIn: tokenExpiry as any,
-            algorithm: 'HS256'
-        });
+        if (!mfaToken || (!code && !webauthnResponse)) {
+            res.status(400).json({ message: 'mfaToken and a code or passkey response are required' });
+            return;
+        }
 
-        const refreshToken = generateSecureToken();
-        const refreshTokenHash = hashToken(refreshToken);
-        const deviceFingerprintToStore = deviceFingerprint || 'unknown';
+        const challenge = TwoFactorService.verifyChallenge(mfaToken);
+        if (!challenge || await TokenRevocationService.isRevoked(challenge.tokenId)) {
+            res.status(401).json({ message: 'Two-factor challenge expired, please log in again' });
+            return;
+        }
 
-        // Store refresh token
-        await prisma.refreshToken.create({
-            data: {
-                userId: user.healthId!,
-                tokenHash: refreshTokenHash,
-                deviceFingerprint: deviceFingerprintToStore,
-                expiresAt: new Date(Date.now() + runtimeConfig.jwtRefreshTokenExpiryDays * 24 * 60 * 60 * 1000),
-                lastUsedAt: new Date()
+        const lockoutTarget = { ip: req.ip, account: `mfa:${challenge.userId}` };
+        const lockout = await LoginLockoutService.check(lockoutTarget);
+        if (lockout.locked) {
+            res.set('Retry-After', String(lockout.retryAfterSeconds));
+            res.status(429).json({ message: 'Too many invalid codes, please try again later' });
+            return;
+        }
+
+        const user = await prisma.user.findUnique({ where: { healthId: challenge.userId } });
+        if (!user || user.status !== 'active') {
+            res.status(401).json({ message: 'Account not active' });
+            return;
+        }
+
+        if (await denyByIpRules(req, res, user)) {
+            return;
+        }
+
+        const methods = await getSecondFactorMethods(user.healthId);
+        let result: { success: boolean; error?: string; method?: string };
+
+        if (webauthnResponse) {
+            if (!methods.includes('webauthn')) {
+                res.status(400).json({ message: 'Passkeys are not enabled for this account' });
+                return;
             }
-        });
+            const passkey = await WebAuthnService.authenticate({
+                response: webauthnResponse,
+                userId: user.healthId,
+                requireUserVerification: methods.length === 1
+            });
+            result = { ...passkey, method: 'webauthn' };
+        } else {
+            if (!methods.includes('totp')) {
+                res.status(400).json({ message: 'This account requires a passkey to sign in' });
+                return;
+            }
+            result = await TwoFactorService.verifyCode(user.healthId, String(code));
+        }
 
-        // Set refresh token as HTTP-only cookie
-        res.cookie('refreshToken', refreshToken, {
-            httpOnly: true,
-            secure: runtimeConfig.cookieSecure,
-            sameSite: runtimeConfig.cookieSameSite,
-            maxAge: runtimeConfig.jwtRefreshTokenExpiryDays * 24 * 60 * 60 * 1000
+        if (!result.success) {
+            await LoginLockoutService.recordFailure(lockoutTarget);
+            res.status(401).json({ message: result.error || 'Invalid verification code' });
+            return;
+        }
+
+        const failedCodes = await LoginLockoutService.recentFailures({ account: lockoutTarget.account });
+        await LoginLockoutService.clearAccount(lockoutTarget.account);
+
+        // A challenge completes exactly one login, even when submitted twice at once
+        const consumed = await TokenRevocationService.consume({
+            jti: challenge.tokenId,
+            expiresAt: challenge.expiresAt,
+            userId: challenge.userId,
+            reason: 'mfa_completed'
         });
+        if (!consumed) {
+            res.status(401).json({ message: 'Two-factor challenge expired, please log in again' });
+            return;
+        }
 
-        // Emit login event for audit service
-        authEventEmitter.emit('user-login', {
-            userId: user.healthId,
-            email: user.email,
-            role: user.role,
-            deviceFingerprint: deviceFingerprintToStore,
-            timestamp: new Date(),
-            ip: req.ip,
-            userAgent: req.get('User-Agent')
+        await issueSession(req, res, user, {
+            deviceFingerprint: challenge.deviceFingerprint,
+            platform: challenge.platform,
+            mfaMethod: result.method,
+            failedAttempts: Math.max(challenge.failedAttempts ?? 0, failedCodes)
         });
 
-        const { passwordHash: _omit, ...userResponse } = user;
+    } catch (error: any) {
+        console.error('MFA verification error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+/**
+ * Passkey options for the second login step
+ * POST /api/auth/mfa/webauthn/options
+ */
+export const mfaWebAuthnOptions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { mfaToken } = req.body as { mfaToken?: string };
 
-        res.json({
-            message: 'Login successful',
-            accessToken,
-            refreshToken, // Also return in body for mobile apps that can't access cookies
-            user: userResponse
+        const challenge = mfaToken ? TwoFactorService.verifyChallenge(mfaToken) : null;
+        if (!challenge || await TokenRevocationService.isRevoked(challenge.tokenId)) {
+            res.status(401).json({ message: 'Two-factor challenge expired, please log in again' });
+            return;
+        }
+
+        const methods = await getSecondFactorMethods(challenge.userId);
+        if (!methods.includes('webauthn')) {
+            res.status(400).json({ message: 'Passkeys are not enabled for this account' });
+            return;
+        }
+
+        const options = await WebAuthnService.authenticationOptions(
+            challenge.userId,
+            methods.length === 1 ? 'required' : 'preferred'
+        );
+
+        res.json({ options });
+
+    } catch (error) {
+        console.error('MFA passkey options error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+/**
+ * Passwordless login, step 1
+ * POST /api/auth/passkey/options
+ * Any passkey registered for this site can answer; user verification is required
+ */
+export const passkeyLoginOptions = async (_req: Request, res: Response): Promise<void> => {
+    try {
+        const options = await WebAuthnService.authenticationOptions(null, 'required');
+        res.json({ options });
+
+    } catch (error) {
+        console.error('Passkey login options error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+/**
+ * Passwordless login, step 2
+ * POST /api/auth/passkey/login
+ * A user-verified passkey counts as both factors, so no MFA step follows
+ */
+export const passkeyLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { response, deviceFingerprint, platform } = req.body as {
+            response?: AuthenticationResponseJSON;
+            deviceFingerprint?: string;
+            platform?: string;
+        };
+
+        if (!response?.id) {
+            res.status(400).json({ message: 'Passkey response is required' });
+            return;
+        }
+
+        const lockout = await LoginLockoutService.check({ ip: req.ip });
+        if (lockout.locked) {
+            res.set('Retry-After', String(lockout.retryAfterSeconds));
+            res.status(429).json({ message: 'Too many failed login attempts, please try again later' });
+            return;
+        }
+
+        const result = await WebAuthnService.authenticate({
+            response,
+            userId: null,
+            requireUserVerification: true
         });
 
-    } catch (error: any) {
-        console.error('Login error:', error);
+        if (!result.success) {
+            await LoginLockoutService.recordFailure({ ip: req.ip });
+            res.status(401).json({ message: result.error || 'Invalid credentials' });
+            return;
+        }
+
+        const user = await prisma.user.findUnique({ where: { healthId: result.userId! } });
+        if (!user || user.status !== 'active') {
+            res.status(401).json({ message: 'Account not active' });
+            return;
+        }
+
+        if (await denyByIpRules(req, res, user)) {
+            return;
+        }
+
+        await issueSession(req, res, user, { deviceFingerprint, platform, mfaMethod: 'passkey' });
+
+    } catch (error) {
+        console.error('Passkey login error:', error);
         res.status(500).json({ message: 'Internal server error' });
     }
 };
@@ -509,7 +861,8 @@ export const refresh = async (req: CookieRequest, res: Response): Promise<void>
                 revokedAt: null
             },
             include: {
-                user: true
+                user: true,
+                session: true
             }
         });
 
@@ -519,17 +872,21 @@ export const refresh = async (req: CookieRequest, res: Response): Promise<void>
             return;
         }
 
-        // Generate new tokens
-        const newRefreshToken = generateSecureToken();
-        const newRefreshTokenHash = hashToken(newRefreshToken);
+        if (await denyByIpRules(req, res, storedToken.user)) {
+            return;
+        }
 
-        const accessTokenPayload = {
-            sub: storedToken.user.healthId,
-            email: storedToken.user.email,
-            role: storedToken.user.role,
-            status: storedToken.user.status,
-            jti: crypto.randomUUID()
-        };
+        // Refreshing does not count as activity, so idle sessions still time out
+        if (storedToken.session) {
+            const policy = await SessionService.getPolicy(storedToken.userId);
+            const check = await SessionService.check(storedToken.session.sessionToken, policy, false);
+            if (!check.valid) {
+                res.status(401).json({
+                    message: check.reason === 'idle_timeout' ? 'Session expired due to inactivity' : 'Session has ended'
+                });
+                return;
+            }
+        }
 
         // Detect platform for token expiry
         const userAgent = req.get('User-Agent') || '';
@@ -541,6 +898,34 @@ export const refresh = async (req: CookieRequest, res: Response): Promise<void>
             ? runtimeConfig.jwtAccessTokenExpiryMobile
             : runtimeConfig.jwtAccessTokenExpiryWeb;
 
+        const newRefreshExpiresAt = new Date(Date.now() + runtimeConfig.jwtRefreshTokenExpiryDays * 24 * 60 * 60 * 1000);
+
+        // Tokens issued before sessions were tracked get one now, so idle
+        // timeout, auto-lock and the session limit apply to them from here on
+        const session = storedToken.session ?? await SessionService.start({
+            userId: storedToken.userId,
+            role: storedToken.user.role,
+            expiresAt: newRefreshExpiresAt,
+            deviceId: storedToken.deviceFingerprint,
+            deviceInfo: isMobile ? 'Mobile app' : 'Web browser',
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent'),
+            location: getRequestLocation(req)
+        });
+
+        // Generate new tokens
+        const newRefreshToken = generateSecureToken();
+        const newRefreshTokenHash = hashToken(newRefreshToken);
+
+        const accessTokenPayload = {
+            sub: storedToken.user.healthId,
+            email: storedToken.user.email,
+            role: storedToken.user.role,
+            status: storedToken.user.status,
+            jti: crypto.randomUUID(),
+            sid: session.sessionToken
+        };
+
         const accessToken = jwt.sign(accessTokenPayload, getJwtSecret(), {
             expiresIn: tokenExpiry as any,
             algorithm: 'HS256'
@@ -560,12 +945,17 @@ export const refresh = async (req: CookieRequest, res: Response): Promise<void>
                     userId: storedToken.userId,
                     tokenHash: newRefreshTokenHash,
                     deviceFingerprint: storedToken.deviceFingerprint,
-                    expiresAt: new Date(Date.now() + runtimeConfig.jwtRefreshTokenExpiryDays * 24 * 60 * 60 * 1000),
-                    lastUsedAt: new Date()
+                    expiresAt: newRefreshExpiresAt,
+                    lastUsedAt: new Date(),
+                    sessionId: session.id
                 }
             });
         });
 
+        if (storedToken.session) {
+            await SessionService.extend(session.id, newRefreshExpiresAt);
+        }
+
         // Set new refresh token cookie (for web)
         res.cookie('refreshToken', newRefreshToken, {
             httpOnly: true,
@@ -597,6 +987,16 @@ export const logout = async (req: CookieRequest & AuthenticatedRequest, res: Res
             });
         }
 
+        // Revoke the access token for its remaining lifetime
+        const accessToken = req.headers.authorization?.split(' ')[1];
+        if (accessToken) {
+            await revokeToken(accessToken);
+        }
+
+        if (req.user?.sessionId) {
+            await SessionService.end(req.user.sessionId, 'logout');
+        }
+
         // Clear cookies
         res.clearCookie('refreshToken');
 
@@ -617,6 +1017,40 @@ export const logout = async (req: CookieRequest & AuthenticatedRequest, res: Res
     }
 };
 
+/**
+ * "This wasn't me" from a new sign-in alert email
+ * POST /api/auth/report-login
+ * Signs out the reported session. The email link opens a frontend page that
+ * posts the token, so mail scanners prefetching links cannot trigger it.
+ */
+export const reportLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { token } = req.body as { token?: string };
+
+        if (!token) {
+            res.status(400).json({ message: 'Token is required' });
+            return;
+        }
+
+        const result = await LoginRiskService.reportNotMe(String(token));
+        if (!result.success) {
+            res.status(result.status || 400).json({ message: result.error });
+            return;
+        }
+
+        res.json({
+            message: result.sessionEnded
+                ? 'The session has been signed out. Please reset your password.'
+                : 'The session had already ended. Please reset your password.',
+            sessionEnded: result.sessionEnded
+        });
+
+    } catch (error) {
+        console.error('Report login error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
 export const requestPasswordReset = async (req: Request, res: Response): Promise<void> => {
     try {
         const { email } = req.body;
@@ -1042,8 +1476,13 @@ export default {
     verifyPhoneOtp,
     resendPhoneOtp,
     login,
+    verifyMfa,
+    mfaWebAuthnOptions,
+    passkeyLoginOptions,
+    passkeyLogin,
     refresh,
     logout,
+    reportLogin,
     requestPasswordReset,
     resetPassword,
     profile,
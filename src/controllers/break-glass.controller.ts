@@ -0,0 +1,202 @@
+import { Request, Response } from 'express';
+import { BreakGlassReviewStatus } from '@prisma/client';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import BreakGlassService from '../services/break-glass.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+}
+
+const DeclareSchema = z.object({
+  patientId: z.string().min(1),
+  reason: z.string().trim().min(20, 'Describe the emergency in at least 20 characters').max(1000)
+});
+
+const ReviewSchema = z.object({
+  decision: z.enum(['APPROVED', 'FLAGGED']),
+  notes: z.string().trim().max(2000).optional()
+});
+
+export class BreakGlassController {
+  /**
+   * Declare Emergency Access
+   * POST /api/emergency/break-glass
+   * Grants the clinician short-lived access to the patient without consent
+   */
+  static async declare(req: AuthenticatedRequest, res: Response) {
+    try {
+      const parsed = DeclareSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: parsed.error.issues });
+      }
+
+      const result = await BreakGlassService.declare({
+        clinicianId: req.user!.healthId,
+        clinicianRole: req.user!.role,
+        patientId: parsed.data.patientId,
+        reason: parsed.data.reason,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error, access: result.access });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.access,
+        message: 'Emergency access granted. The patient and their emergency contacts have been notified and this access will be reviewed.'
+      });
+
+    } catch (error) {
+      logger.error('Error declaring emergency access', { error });
+      res.status(500).json({ error: 'Failed to grant emergency access' });
+    }
+  }
+
+  /**
+   * List Emergency Accesses
+   * GET /api/emergency/break-glass
+   * Patients see who accessed their records; clinicians see their own declarations
+   */
+  static async list(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { healthId, role } = req.user!;
+
+      const accesses = role === 'patient'
+        ? await BreakGlassService.listForPatient(healthId)
+        : await BreakGlassService.listForClinician(healthId);
+
+      res.status(200).json({
+        success: true,
+        data: { accesses }
+      });
+
+    } catch (error) {
+      logger.error('Error listing emergency accesses', { error });
+      res.status(500).json({ error: 'Failed to list emergency accesses' });
+    }
+  }
+
+  /**
+   * End Emergency Access
+   * POST /api/emergency/break-glass/:accessId/end
+   */
+  static async end(req: AuthenticatedRequest, res: Response) {
+    try {
+      const result = await BreakGlassService.end(req.params.accessId, req.user!.healthId);
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: req.user!.healthId,
+        actorRole: req.user!.role,
+        action: 'BREAK_GLASS_ACCESS_ENDED',
+        resourceType: 'BreakGlassAccess',
+        resourceId: result.access!.id,
+        patientHealthId: result.access!.patientId,
+        metadata: { accessCount: result.access!.accessCount },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.access,
+        message: 'Emergency access ended'
+      });
+
+    } catch (error) {
+      logger.error('Error ending emergency access', { error });
+      res.status(500).json({ error: 'Failed to end emergency access' });
+    }
+  }
+
+  /**
+   * List Emergency Accesses For Review
+   * GET /api/admin/break-glass?status=PENDING&limit=&offset=
+   */
+  static async listForReview(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { status = 'PENDING', limit = 50, offset = 0 } = req.query;
+
+      if (!Object.values(BreakGlassReviewStatus).includes(status as BreakGlassReviewStatus)) {
+        return res.status(400).json({ error: 'Invalid review status' });
+      }
+
+      const result = await BreakGlassService.listForReview(
+        status as BreakGlassReviewStatus,
+        Math.min(Number(limit) || 50, 200),
+        Number(offset) || 0
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      logger.error('Error listing emergency accesses for review', { error });
+      res.status(500).json({ error: 'Failed to list emergency accesses' });
+    }
+  }
+
+  /**
+   * Review Emergency Access
+   * POST /api/admin/break-glass/:accessId/review
+   * Approves or flags a use of emergency access
+   */
+  static async review(req: AuthenticatedRequest, res: Response) {
+    try {
+      const parsed = ReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: parsed.error.issues });
+      }
+
+      const adminId = req.user!.healthId;
+      const { decision, notes } = parsed.data;
+
+      const result = await BreakGlassService.review(req.params.accessId, adminId, decision, notes);
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: req.user!.role,
+        action: 'BREAK_GLASS_REVIEWED',
+        resourceType: 'BreakGlassAccess',
+        resourceId: result.access!.id,
+        patientHealthId: result.access!.patientId,
+        reason: notes,
+        metadata: { decision, clinicianId: result.access!.clinicianId },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.access,
+        message: `Emergency access ${decision === 'APPROVED' ? 'approved' : 'flagged'}`
+      });
+
+    } catch (error) {
+      logger.error('Error reviewing emergency access', { error });
+      res.status(500).json({ error: 'Failed to review emergency access' });
+    }
+  }
+}
+
+export default BreakGlassController;
@@ -0,0 +1,374 @@
+import { Request, Response } from 'express';
+import { ConsentScope } from '@prisma/client';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import ConsentCatalogService from '../services/consent-catalog.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+}
+
+const ScopesSchema = z.array(z.enum(ConsentScope)).min(1);
+
+const PurposeSchema = z.object({
+  code: z.string().trim().min(1).max(100),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(1000).nullable().optional(),
+  defaultScopes: ScopesSchema.optional(),
+  defaultDurationDays: z.number().int().min(1).max(3650).nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+const TemplateSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(1000).nullable().optional(),
+  purposeId: z.string().min(1),
+  scopes: ScopesSchema.optional(),
+  durationDays: z.number().int().min(1).max(3650).nullable().optional(),
+  message: z.string().max(2000).nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+const parseDateParam = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export class ConsentCatalogController {
+  /**
+   * List Consent Purposes
+   * GET /api/consent/purposes, GET /api/admin/consent-purposes?includeInactive=
+   * Inactive purposes are only listed for admins
+   */
+  static async listPurposes(req: AuthenticatedRequest, res: Response) {
+    try {
+      const purposes = await ConsentCatalogService.listPurposes({
+        includeInactive: req.user?.role === 'admin' && req.query.includeInactive === 'true'
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { purposes }
+      });
+
+    } catch (error) {
+      logger.error('Error listing consent purposes', { error });
+      res.status(500).json({ error: 'Failed to list consent purposes' });
+    }
+  }
+
+  /**
+   * Create Consent Purpose
+   * POST /api/admin/consent-purposes
+   */
+  static async createPurpose(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+
+      const validation = PurposeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: validation.error.issues });
+      }
+
+      const result = await ConsentCatalogService.createPurpose(validation.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'CONSENT_PURPOSE_CREATED',
+        resourceType: 'ConsentPurpose',
+        resourceId: result.data!.id,
+        patientHealthId: adminId,
+        metadata: { purpose: result.data },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { purpose: result.data },
+        message: 'Consent purpose created'
+      });
+
+    } catch (error) {
+      logger.error('Error creating consent purpose', { error });
+      res.status(500).json({ error: 'Failed to create consent purpose' });
+    }
+  }
+
+  /**
+   * Update Consent Purpose
+   * PUT /api/admin/consent-purposes/:id
+   * Changed defaults apply to new requests only
+   */
+  static async updatePurpose(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+      const { id } = req.params;
+
+      const validation = PurposeSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: validation.error.issues });
+      }
+
+      const before = await ConsentCatalogService.getPurpose(id);
+
+      const result = await ConsentCatalogService.updatePurpose(id, validation.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'CONSENT_PURPOSE_UPDATED',
+        resourceType: 'ConsentPurpose',
+        resourceId: id,
+        patientHealthId: adminId,
+        metadata: { before, after: result.data },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { purpose: result.data },
+        message: 'Consent purpose updated'
+      });
+
+    } catch (error) {
+      logger.error('Error updating consent purpose', { error, purposeId: req.params.id });
+      res.status(500).json({ error: 'Failed to update consent purpose' });
+    }
+  }
+
+  /**
+   * Deactivate Consent Purpose
+   * DELETE /api/admin/consent-purposes/:id
+   * Also deactivates the purpose's templates
+   */
+  static async deactivatePurpose(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+      const { id } = req.params;
+
+      const result = await ConsentCatalogService.deactivatePurpose(id);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'CONSENT_PURPOSE_DEACTIVATED',
+        resourceType: 'ConsentPurpose',
+        resourceId: id,
+        patientHealthId: adminId,
+        metadata: { code: result.data!.code },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { purpose: result.data },
+        message: 'Consent purpose deactivated'
+      });
+
+    } catch (error) {
+      logger.error('Error deactivating consent purpose', { error, purposeId: req.params.id });
+      res.status(500).json({ error: 'Failed to deactivate consent purpose' });
+    }
+  }
+
+  /**
+   * List Consent Templates
+   * GET /api/consent/templates?purposeId=, GET /api/admin/consent-templates?purposeId=&includeInactive=
+   */
+  static async listTemplates(req: AuthenticatedRequest, res: Response) {
+    try {
+      const templates = await ConsentCatalogService.listTemplates({
+        purposeId: req.query.purposeId as string | undefined,
+        includeInactive: req.user?.role === 'admin' && req.query.includeInactive === 'true'
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { templates }
+      });
+
+    } catch (error) {
+      logger.error('Error listing consent templates', { error });
+      res.status(500).json({ error: 'Failed to list consent templates' });
+    }
+  }
+
+  /**
+   * Create Consent Template
+   * POST /api/admin/consent-templates
+   * Scopes and duration default to the purpose's defaults
+   */
+  static async createTemplate(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+
+      const validation = TemplateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: validation.error.issues });
+      }
+
+      const result = await ConsentCatalogService.createTemplate(validation.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'CONSENT_TEMPLATE_CREATED',
+        resourceType: 'ConsentTemplate',
+        resourceId: result.data!.id,
+        patientHealthId: adminId,
+        metadata: { template: result.data },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { template: result.data },
+        message: 'Consent template created'
+      });
+
+    } catch (error) {
+      logger.error('Error creating consent template', { error });
+      res.status(500).json({ error: 'Failed to create consent template' });
+    }
+  }
+
+  /**
+   * Update Consent Template
+   * PUT /api/admin/consent-templates/:id
+   */
+  static async updateTemplate(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+      const { id } = req.params;
+
+      const validation = TemplateSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: validation.error.issues });
+      }
+
+      const before = await ConsentCatalogService.getTemplate(id);
+
+      const result = await ConsentCatalogService.updateTemplate(id, validation.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'CONSENT_TEMPLATE_UPDATED',
+        resourceType: 'ConsentTemplate',
+        resourceId: id,
+        patientHealthId: adminId,
+        metadata: { before, after: result.data },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { template: result.data },
+        message: 'Consent template updated'
+      });
+
+    } catch (error) {
+      logger.error('Error updating consent template', { error, templateId: req.params.id });
+      res.status(500).json({ error: 'Failed to update consent template' });
+    }
+  }
+
+  /**
+   * Deactivate Consent Template
+   * DELETE /api/admin/consent-templates/:id
+   */
+  static async deactivateTemplate(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+      const { id } = req.params;
+
+      const result = await ConsentCatalogService.deactivateTemplate(id);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'CONSENT_TEMPLATE_DEACTIVATED',
+        resourceType: 'ConsentTemplate',
+        resourceId: id,
+        patientHealthId: adminId,
+        metadata: { name: result.data!.name },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { template: result.data },
+        message: 'Consent template deactivated'
+      });
+
+    } catch (error) {
+      logger.error('Error deactivating consent template', { error, templateId: req.params.id });
+      res.status(500).json({ error: 'Failed to deactivate consent template' });
+    }
+  }
+
+  /**
+   * Consent Report By Purpose
+   * GET /api/admin/consent-purposes/report?from=&to=
+   * Request outcomes and consent statuses per purpose of use
+   */
+  static async reportByPurpose(req: AuthenticatedRequest, res: Response) {
+    try {
+      const from = parseDateParam(req.query.from);
+      const to = parseDateParam(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ error: 'from and to must be valid dates' });
+      }
+
+      const purposes = await ConsentCatalogService.reportByPurpose({ from, to });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          from: from ?? null,
+          to: to ?? null,
+          purposes
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error building consent purpose report', { error });
+      res.status(500).json({ error: 'Failed to build consent report' });
+    }
+  }
+}
+
+export default ConsentCatalogController;
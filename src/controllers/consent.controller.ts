@@ -2,6 +2,9 @@ import { Request, Response } from 'express';
 import prisma from '../utils/prisma';
 import logger from '../utils/logger';
 import runtimeConfig from '../config/runtime-config';
+import NotificationService from '../services/notification.service';
+import ConsentCatalogService from '../services/consent-catalog.service';
+import { auditActor } from '../middlewares/delegationMiddleware';
 
 type AuthedRequest = Request & { 
   user?: { 
@@ -15,17 +18,33 @@ type AuthedRequest = Request & {
 // Request consent from a provider
 export const requestConsent = async (req: AuthedRequest, res: Response) => {
   try {
-    const { patientHealthId, scope, purpose, requestedExpiry, message } = req.body;
+    const { patientHealthId, scope, purpose, purposeId, templateId, requestedExpiry, message } = req.body;
     const providerId = req.user?.healthId;
 
     if (!providerId) {
       return res.status(401).json({ message: 'Provider authentication required' });
     }
 
-    if (!patientHealthId || !purpose) {
-      return res.status(400).json({ message: 'Patient Health ID and purpose are required' });
+    if (!patientHealthId || !(purpose || purposeId || templateId)) {
+      return res.status(400).json({ message: 'Patient Health ID and a purpose or template are required' });
     }
 
+    // Purpose, scopes, duration and message come from the catalog unless given explicitly
+    const terms = await ConsentCatalogService.resolveRequestTerms({
+      templateId,
+      purposeId,
+      purpose,
+      scope,
+      requestedExpiry,
+      message
+    });
+
+    if (!terms.success) {
+      return res.status(terms.status || 400).json({ message: terms.error });
+    }
+
+    const { purpose: consentPurpose, template, scope: requestedScope } = terms.data!;
+
     // Verify patient exists
     const patient = await prisma.user.findUnique({
       where: { healthId: patientHealthId },
@@ -84,15 +103,18 @@ export const requestConsent = async (req: AuthedRequest, res: Response) => {
       data: {
         patientId: patientHealthId,
         providerId,
-        scope: Array.isArray(scope) ? scope : ['READ_BASIC'],
-        purpose,
-        requestedExpiry: requestedExpiry ? new Date(requestedExpiry) : null,
-        message,
+        scope: requestedScope,
+        purpose: terms.data!.purposeText,
+        purposeId: consentPurpose.id,
+        templateId: template?.id ?? null,
+        requestedExpiry: terms.data!.requestedExpiry,
+        message: terms.data!.message,
         expiresAt
       },
       include: {
         patient: { select: { healthId: true, email: true, healthProfile: true } },
-        provider: { select: { healthId: true, email: true, role: true, healthProfile: true } }
+        provider: { select: { healthId: true, email: true, role: true, healthProfile: true } },
+        consentPurpose: true
       }
     });
 
@@ -102,14 +124,28 @@ export const requestConsent = async (req: AuthedRequest, res: Response) => {
         healthId: patientHealthId,
         accessedBy: providerId,
         action: 'CONSENT_REQUESTED',
-        details: { requestId: consentRequest.id, purpose, scope },
+        details: {
+          requestId: consentRequest.id,
+          purpose: consentPurpose.code,
+          templateId: template?.id ?? null,
+          scope: requestedScope
+        },
         ipAddress: req.ip,
         userAgent: req.headers['user-agent']
       }
     });
 
-    // PRODUCTION: Implement notification service
-    // Send real-time notification to patient about consent request
+    const providerName = consentRequest.provider.healthProfile?.displayName || 'A healthcare provider';
+    await NotificationService.notify({
+      recipientId: patientHealthId,
+      category: 'CONSENT',
+      priority: 'HIGH',
+      title: 'New consent request',
+      message: `${providerName} has requested access to your health records for: ${consentPurpose.name}`,
+      resourceType: 'ConsentRequest',
+      resourceId: consentRequest.id,
+      data: { requestId: consentRequest.id, providerId, scope: consentRequest.scope }
+    });
 
     return res.status(201).json({
       message: 'Consent request created successfully',
@@ -165,6 +201,7 @@ export const grantConsent = async (req: AuthedRequest, res: Response) => {
         providerId: request.providerId,
         scope: request.scope,
         purpose: request.purpose,
+        purposeId: request.purposeId,
         endTime: endTime ? new Date(endTime) : (request.requestedExpiry ? new Date(request.requestedExpiry) : null),
         requestId: request.id
       };
@@ -180,16 +217,28 @@ export const grantConsent = async (req: AuthedRequest, res: Response) => {
 
     } else {
       // Direct consent grant
-      if (!providerId || !purpose) {
+      if (!providerId || !(purpose || req.body.purposeId)) {
         return res.status(400).json({ message: 'Provider ID and purpose are required for direct grant' });
       }
 
+      const terms = await ConsentCatalogService.resolveRequestTerms({
+        purposeId: req.body.purposeId,
+        purpose,
+        scope,
+        requestedExpiry: endTime
+      });
+
+      if (!terms.success) {
+        return res.status(terms.status || 400).json({ message: terms.error });
+      }
+
       consentData = {
         patientId,
         providerId,
-        scope: Array.isArray(scope) ? scope : ['READ_BASIC'],
-        purpose,
-        endTime: endTime ? new Date(endTime) : null
+        scope: terms.data!.scope,
+        purpose: terms.data!.purposeText,
+        purposeId: terms.data!.purpose.id,
+        endTime: terms.data!.requestedExpiry
       };
     }
 
@@ -204,21 +253,31 @@ export const grantConsent = async (req: AuthedRequest, res: Response) => {
       }
     });
 
-    // Create audit log
+    // Create audit log; a caregiver acting for the patient is recorded as the actor
+    const actor = auditActor(req);
     await prisma.healthIdAudit.create({
       data: {
         healthId: patientId,
-        accessedBy: patientId,
+        accessedBy: actor.actorId,
         action: 'CONSENT_GRANTED',
-        details: { consentId: consent.id, requestId: requestId || null },
+        details: { consentId: consent.id, requestId: requestId || null, ...actor.delegation },
         ipAddress: req.ip,
         userAgent: req.headers['user-agent']
       }
     });
 
-    // PRODUCTION: Implement event system and notifications
+    // PRODUCTION: Implement event system
     // Emit consent.granted event for real-time updates
-    // Send notification to provider about granted consent
+
+    await NotificationService.notify({
+      recipientId: consent.providerId,
+      category: 'CONSENT',
+      title: 'Consent granted',
+      message: `Patient ${patientId} has granted you access for: ${consent.purpose}`,
+      resourceType: 'Consent',
+      resourceId: consent.id,
+      data: { consentId: consent.id, patientId, scope: consent.scope }
+    });
 
     return res.status(201).json({
       message: 'Consent granted successfully',
@@ -274,23 +333,34 @@ export const revokeConsent = async (req: AuthedRequest, res: Response) => {
       }
     });
 
-    // Create audit log
+    // Create audit log; a caregiver acting for the patient is recorded as the actor
+    const actor = auditActor(req);
     await prisma.healthIdAudit.create({
       data: {
         healthId: patientId,
-        accessedBy: patientId,
+        accessedBy: actor.actorId,
         action: 'CONSENT_REVOKED',
-        details: { consentId, reason },
+        details: { consentId, reason, ...actor.delegation },
         ipAddress: req.ip,
         userAgent: req.headers['user-agent']
       }
     });
 
-    // PRODUCTION: Implement event system, notifications, and cache invalidation
+    // PRODUCTION: Implement event system and cache invalidation
     // Emit consent.revoked event for real-time updates
-    // Send notification to provider about revoked consent
     // Invalidate any cached consent data (if using Redis/similar)
 
+    await NotificationService.notify({
+      recipientId: consent.providerId,
+      category: 'CONSENT',
+      priority: 'HIGH',
+      title: 'Consent revoked',
+      message: `Patient ${patientId} has revoked your access${reason ? `: ${reason}` : ''}`,
+      resourceType: 'Consent',
+      resourceId: consentId,
+      data: { consentId, patientId }
+    });
+
     return res.json({
       message: 'Consent revoked successfully',
       consent: revokedConsent
@@ -548,18 +618,29 @@ export const rejectConsentRequest = async (req: AuthedRequest, res: Response) =>
       }
     });
 
-    // Create audit log
+    // Create audit log; a caregiver acting for the patient is recorded as the actor
+    const actor = auditActor(req);
     await prisma.healthIdAudit.create({
       data: {
         healthId: patientId,
-        accessedBy: patientId,
+        accessedBy: actor.actorId,
         action: 'CONSENT_REQUEST_REJECTED',
-        details: { requestId, reason },
+        details: { requestId, reason, ...actor.delegation },
         ipAddress: req.ip,
         userAgent: req.headers['user-agent']
       }
     });
 
+    await NotificationService.notify({
+      recipientId: request.providerId,
+      category: 'CONSENT',
+      title: 'Consent request declined',
+      message: `Patient ${patientId} has declined your consent request for: ${request.purpose}${reason ? ` (${reason})` : ''}`,
+      resourceType: 'ConsentRequest',
+      resourceId: requestId,
+      data: { requestId, patientId }
+    });
+
     return res.json({
       message: 'Consent request rejected',
       request: rejectedRequest
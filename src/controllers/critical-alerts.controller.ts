@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import { CriticalAlertStatus } from '@prisma/client';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import CriticalAlertService from '../services/critical-alert.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+}
+
+export class CriticalAlertsController {
+  /**
+   * Get Critical Alerts
+   * GET /api/observations/alerts?status=&limit=&offset=
+   * Doctors see alerts routed to them; patients see alerts raised for their own readings
+   */
+  static async getAlerts(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.healthId;
+      const role = req.user?.role;
+      const { status, limit = 20, offset = 0 } = req.query;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      if (role !== 'doctor' && role !== 'patient') {
+        return res.status(403).json({ error: 'Only doctors and patients can view critical alerts' });
+      }
+
+      if (status && !Object.values(CriticalAlertStatus).includes(status as CriticalAlertStatus)) {
+        return res.status(400).json({ error: 'Invalid alert status' });
+      }
+
+      const options = {
+        status: status as CriticalAlertStatus | undefined,
+        limit: Math.min(Number(limit) || 20, 100),
+        offset: Number(offset) || 0
+      };
+
+      const data = role === 'doctor'
+        ? await CriticalAlertService.getProviderInbox(userId, options)
+        : await CriticalAlertService.getPatientAlerts(userId, options);
+
+      res.status(200).json({
+        success: true,
+        data
+      });
+
+    } catch (error) {
+      logger.error('Error getting critical alerts', { error });
+      res.status(500).json({ error: 'Failed to get critical alerts' });
+    }
+  }
+
+  /**
+   * Get Critical Alert
+   * GET /api/observations/alerts/:alertId
+   */
+  static async getAlert(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.healthId;
+      const { alertId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const alert = await CriticalAlertService.getAlert(alertId, userId);
+      if (!alert) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { alert }
+      });
+
+    } catch (error) {
+      logger.error('Error getting critical alert', { error, alertId: req.params.alertId });
+      res.status(500).json({ error: 'Failed to get critical alert' });
+    }
+  }
+
+  /**
+   * Acknowledge Critical Alert
+   * POST /api/observations/alerts/:alertId/acknowledge
+   * Stops escalation; only doctors the alert was routed to can acknowledge
+   */
+  static async acknowledgeAlert(req: AuthenticatedRequest, res: Response) {
+    try {
+      const doctorId = req.user?.healthId;
+      const { alertId } = req.params;
+      const { note } = req.body;
+
+      if (!doctorId || req.user?.role !== 'doctor') {
+        return res.status(403).json({ error: 'Only doctors can acknowledge critical alerts' });
+      }
+
+      const result = await CriticalAlertService.acknowledge(alertId, doctorId, note);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: doctorId,
+        actorRole: 'doctor',
+        action: 'CRITICAL_ALERT_ACKNOWLEDGED',
+        resourceType: 'CriticalAlert',
+        resourceId: alertId,
+        patientHealthId: result.alert!.patientId,
+        metadata: { observationId: result.alert!.observationId, note: note || null },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { alert: result.alert },
+        message: 'Alert acknowledged'
+      });
+
+    } catch (error) {
+      logger.error('Error acknowledging critical alert', { error, alertId: req.params.alertId });
+      res.status(500).json({ error: 'Failed to acknowledge alert' });
+    }
+  }
+
+  /**
+   * Resolve Critical Alert
+   * POST /api/observations/alerts/:alertId/resolve
+   */
+  static async resolveAlert(req: AuthenticatedRequest, res: Response) {
+    try {
+      const doctorId = req.user?.healthId;
+      const { alertId } = req.params;
+      const { note } = req.body;
+
+      if (!doctorId || req.user?.role !== 'doctor') {
+        return res.status(403).json({ error: 'Only doctors can resolve critical alerts' });
+      }
+
+      const result = await CriticalAlertService.resolve(alertId, doctorId, note);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: doctorId,
+        actorRole: 'doctor',
+        action: 'CRITICAL_ALERT_RESOLVED',
+        resourceType: 'CriticalAlert',
+        resourceId: alertId,
+        patientHealthId: result.alert!.patientId,
+        metadata: { observationId: result.alert!.observationId, note: note || null },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { alert: result.alert },
+        message: 'Alert resolved'
+      });
+
+    } catch (error) {
+      logger.error('Error resolving critical alert', { error, alertId: req.params.alertId });
+      res.status(500).json({ error: 'Failed to resolve alert' });
+    }
+  }
+}
+
+export default CriticalAlertsController;
@@ -0,0 +1,230 @@
+import { Request, Response } from 'express';
+import { DelegationRelationship, DelegationScope } from '@prisma/client';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import DelegationService from '../services/delegation.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+}
+
+const GrantSchema = z.object({
+  delegateId: z.string().min(1).optional(),
+  delegateEmail: z.string().email().optional(),
+  relationship: z.enum(DelegationRelationship),
+  scopes: z.array(z.enum(DelegationScope)).min(1),
+  expiresAt: z.coerce.date(),
+  notes: z.string().max(1000).nullable().optional()
+}).refine(data => data.delegateId || data.delegateEmail, {
+  message: 'delegateId or delegateEmail is required',
+  path: ['delegateId']
+});
+
+const AdminGrantSchema = GrantSchema.and(z.object({
+  patientId: z.string().min(1)
+}));
+
+const RevokeSchema = z.object({
+  reason: z.string().max(500).optional()
+});
+
+const grantAndAudit = async (req: AuthenticatedRequest, patientId: string, data: z.infer<typeof GrantSchema>) => {
+  const { healthId, role } = req.user!;
+
+  const result = await DelegationService.grant({
+    ...data,
+    patientId,
+    grantedById: healthId,
+    grantedByRole: role
+  });
+
+  if (result.success) {
+    await AuditService.logAction({
+      actorId: healthId,
+      actorRole: role,
+      action: 'DELEGATION_GRANTED',
+      resourceType: 'Delegation',
+      resourceId: result.delegation!.id,
+      patientHealthId: patientId,
+      reason: data.notes ?? undefined,
+      metadata: {
+        delegateId: result.delegation!.delegateId,
+        relationship: result.delegation!.relationship,
+        scopes: result.delegation!.scopes,
+        expiresAt: result.delegation!.expiresAt.toISOString()
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+  }
+
+  return result;
+};
+
+export class DelegationController {
+  /**
+   * Grant Delegation
+   * POST /api/delegations
+   * A patient lets a caregiver act on their behalf within the given scopes
+   */
+  static async grant(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (req.user!.role !== 'patient') {
+        return res.status(403).json({ error: 'Only patients can delegate access to their own records' });
+      }
+
+      const parsed = GrantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: parsed.error.issues });
+      }
+
+      const result = await grantAndAudit(req, req.user!.healthId, parsed.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.delegation,
+        message: 'Delegation granted'
+      });
+
+    } catch (error) {
+      logger.error('Error granting delegation', { error });
+      res.status(500).json({ error: 'Failed to grant delegation' });
+    }
+  }
+
+  /**
+   * List Delegations
+   * GET /api/delegations?activeOnly=
+   * Delegations the caller granted and the patients the caller can act for
+   */
+  static async list(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { healthId } = req.user!;
+      const activeOnly = req.query.activeOnly === 'true';
+
+      const [granted, received] = await Promise.all([
+        DelegationService.listForPatient(healthId, activeOnly),
+        DelegationService.listForDelegate(healthId, activeOnly)
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: { granted, received }
+      });
+
+    } catch (error) {
+      logger.error('Error listing delegations', { error });
+      res.status(500).json({ error: 'Failed to list delegations' });
+    }
+  }
+
+  /**
+   * Revoke Delegation
+   * POST /api/delegations/:delegationId/revoke
+   * The patient, the delegate or an admin can end a delegation
+   */
+  static async revoke(req: AuthenticatedRequest, res: Response) {
+    try {
+      const parsed = RevokeSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: parsed.error.issues });
+      }
+
+      const result = await DelegationService.revoke(req.params.delegationId, req.user!, parsed.data.reason);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: req.user!.healthId,
+        actorRole: req.user!.role,
+        action: 'DELEGATION_REVOKED',
+        resourceType: 'Delegation',
+        resourceId: result.delegation!.id,
+        patientHealthId: result.delegation!.patientId,
+        reason: parsed.data.reason,
+        metadata: { delegateId: result.delegation!.delegateId },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.delegation,
+        message: 'Delegation revoked'
+      });
+
+    } catch (error) {
+      logger.error('Error revoking delegation', { error });
+      res.status(500).json({ error: 'Failed to revoke delegation' });
+    }
+  }
+
+  /**
+   * Grant Delegation For Patient
+   * POST /api/admin/delegations
+   * For minors and patients who cannot grant access themselves
+   */
+  static async adminGrant(req: AuthenticatedRequest, res: Response) {
+    try {
+      const parsed = AdminGrantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: parsed.error.issues });
+      }
+
+      const { patientId, ...data } = parsed.data;
+
+      const result = await grantAndAudit(req, patientId, data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.delegation,
+        message: 'Delegation granted'
+      });
+
+    } catch (error) {
+      logger.error('Error granting delegation for patient', { error });
+      res.status(500).json({ error: 'Failed to grant delegation' });
+    }
+  }
+
+  /**
+   * List Patient Delegations
+   * GET /api/admin/delegations?patientId=&activeOnly=
+   */
+  static async adminList(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { patientId, activeOnly } = req.query;
+
+      if (!patientId) {
+        return res.status(400).json({ error: 'patientId is required' });
+      }
+
+      const delegations = await DelegationService.listForPatient(patientId as string, activeOnly === 'true');
+
+      res.status(200).json({
+        success: true,
+        data: { delegations }
+      });
+
+    } catch (error) {
+      logger.error('Error listing patient delegations', { error });
+      res.status(500).json({ error: 'Failed to list delegations' });
+    }
+  }
+}
+
+export default DelegationController;
@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
 import bcrypt from 'bcrypt';
 import AuditService from '../services/audit.service';
+import NotificationService from '../services/notification.service';
 import runtimeConfig from '../config/runtime-config';
 
 const prisma = new PrismaClient();
@@ -282,6 +283,17 @@ export class EmergencyController {
         userAgent: req.get('User-Agent')
       });
 
+      await NotificationService.notify({
+        recipientId: validShare.patientHealthId,
+        category: 'EMERGENCY_ACCESS',
+        priority: 'HIGH',
+        title: 'Emergency access to your records',
+        message: `Your emergency share was accessed on ${now.toUTCString()}. If you did not expect this, revoke the share from your emergency settings.`,
+        resourceType: 'EmergencyShare',
+        resourceId: validShare.shareId,
+        data: { shareId: validShare.shareId, scope: normalizedScope, accessCount, ipAddress: req.ip ?? null }
+      });
+
       res.status(200).json({
         success: true,
         emergency_access: true,
@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, PrescriptionStatus } from '@prisma/client';
+import AuditService from '../services/audit.service';
+import PrescriptionService, { PrescriptionItemInput, prescriptionInclude } from '../services/prescription.service';
+import ConsentPolicyService from '../services/consent-policy.service';
 
 const prisma = new PrismaClient();
 
@@ -9,6 +12,8 @@ type AuthedRequest = Request & {
     role: string; 
   };
   consentId?: string;
+  consentScopes?: string[]; // Set by consent middleware; unset for unrestricted access
+  consentPatientId?: string; // Set by consent middleware
 };
 
 // Complete Encounter-Centered Workflow Implementation
@@ -42,6 +47,11 @@ export const createEnhancedEncounter = async (req: AuthedRequest, res: Response)
       });
     }
 
+    // Consent was checked for req.consentPatientId; never write to another patient's record
+    if (patient_health_id !== req.consentPatientId) {
+      return res.status(403).json({ message: 'Access denied: Valid consent required' });
+    }
+
     // If appointment_id provided, verify appointment exists and is approved
     if (appointment_id) {
       const appointment = await prisma.appointment.findUnique({
@@ -103,6 +113,7 @@ export const createEnhancedEncounter = async (req: AuthedRequest, res: Response)
     const parsedNotes = JSON.parse(enc.notes || '{}');
     const enhancedEncounter = {
       ...enc,
+      observations: ConsentPolicyService.filterObservations(enc.observations, req.consentScopes),
       appointmentId: parsedNotes.appointmentId,
       facilityId: parsedNotes.facilityId,
       visitType: parsedNotes.visitType,
@@ -129,7 +140,8 @@ export const updateEnhancedEncounter = async (req: AuthedRequest, res: Response)
       where: { id }
     });
 
-    if (!encounter) {
+    // Consent was checked for req.consentPatientId; other patients' encounters stay hidden
+    if (!encounter || encounter.patientId !== req.consentPatientId) {
       return res.status(404).json({ message: 'Encounter not found' });
     }
 
@@ -167,6 +179,7 @@ export const updateEnhancedEncounter = async (req: AuthedRequest, res: Response)
     const parsedData = JSON.parse(updatedEncounter.notes || '{}');
     const enhancedResult = {
       ...updatedEncounter,
+      observations: ConsentPolicyService.filterObservations(updatedEncounter.observations, req.consentScopes),
       appointmentId: parsedData.appointmentId,
       facilityId: parsedData.facilityId,
       visitType: parsedData.visitType,
@@ -197,7 +210,7 @@ export const convertAppointmentToEncounter = async (req: AuthedRequest, res: Res
       where: { id }
     });
 
-    if (!appointment) {
+    if (!appointment || appointment.patientId !== req.consentPatientId) {
       return res.status(404).json({ message: 'Appointment not found' });
     }
 
@@ -277,6 +290,7 @@ export const convertAppointmentToEncounter = async (req: AuthedRequest, res: Res
     const parsedData = JSON.parse(encounter.notes || '{}');
     const enhancedEncounter = {
       ...encounter,
+      observations: ConsentPolicyService.filterObservations(encounter.observations, req.consentScopes),
       appointmentId: parsedData.appointmentId,
       appointment: parsedData.appointmentData,
       facilityId: parsedData.facilityId,
@@ -368,59 +382,103 @@ export const getEnhancedPatientEncounters = async (req: AuthedRequest, res: Resp
   }
 };
 
-// Prescription management using observations table with special codes
+// Prescription management backed by the Prescription / PrescriptionItem tables
 export const createEncounterPrescription = async (req: AuthedRequest, res: Response) => {
   try {
     const actor = req.user!;
-    const { 
-      encounterId,
+    const encounterId = req.params.encounterId || req.body.encounterId;
+    const {
       patientId,
+      items,
+      notes,
+      expiresAt,
+      // Single-medication payload accepted by the original observation-backed API
       medicationName,
       dosage,
+      route,
       frequency,
       duration,
-      instructions,
-      status = 'ACTIVE'
+      refills,
+      instructions
     } = req.body;
 
-    if (!patientId || !medicationName || !dosage || !frequency || !duration) {
+    if (actor.role !== 'doctor') {
+      return res.status(403).json({ message: 'Only doctors can create prescriptions' });
+    }
+
+    const legacyDurationDays = PrescriptionService.parseDurationDays(duration);
+    const lineItems: PrescriptionItemInput[] = Array.isArray(items)
+      ? items.map((item: PrescriptionItemInput & { duration?: unknown }) => ({
+          ...item,
+          durationDays: item.durationDays ?? PrescriptionService.parseDurationDays(item.duration)
+        }))
+      : medicationName
+        ? [{
+            medicationName,
+            dose: dosage,
+            route,
+            frequency,
+            durationDays: legacyDurationDays,
+            refills,
+            instructions: legacyDurationDays === undefined && duration
+              ? [instructions, `Duration: ${duration}`].filter(Boolean).join('\n')
+              : instructions
+          }]
+        : [];
+
+    if (!patientId || lineItems.length === 0) {
       return res.status(400).json({ 
-        message: 'patientId, medicationName, dosage, frequency, and duration are required' 
+        message: 'patientId and at least one item (medicationName, dose, frequency) are required' 
       });
     }
 
-    if (actor.role !== 'doctor') {
-      return res.status(403).json({ message: 'Only doctors can create prescriptions' });
+    for (const item of lineItems) {
+      const itemError = PrescriptionService.validateItem(item);
+      if (itemError) {
+        return res.status(400).json({ message: itemError });
+      }
     }
 
-    // Store prescription as special observation
-    const prescriptionData = {
-      medicationName,
-      dosage,
-      frequency,
-      duration,
-      instructions,
-      status,
-      prescribedBy: actor.healthId,
-      prescribedAt: new Date(),
-      type: 'prescription'
-    };
+    const expiry = expiresAt ? new Date(expiresAt) : undefined;
+    if (expiry && (isNaN(expiry.getTime()) || expiry <= new Date())) {
+      return res.status(400).json({ message: 'expiresAt must be a valid future date' });
+    }
 
-    const prescription = await prisma.observation.create({
-      data: {
+    if (encounterId) {
+      const encounter = await prisma.encounter.findUnique({
+        where: { id: encounterId },
+        select: { id: true, patientId: true }
+      });
+
+      // Consent was checked for req.consentPatientId; never write to another patient's encounter
+      if (!encounter || encounter.patientId !== req.consentPatientId || encounter.patientId !== patientId) {
+        return res.status(404).json({ message: 'Encounter not found' });
+      }
+    }
+
+    const prescription = await PrescriptionService.createPrescription({
+      patientId,
+      prescriberId: actor.healthId,
+      encounterId,
+      notes,
+      expiresAt: expiry,
+      items: lineItems
+    });
+
+    await AuditService.logAction({
+      actorId: actor.healthId,
+      actorRole: actor.role,
+      action: 'PRESCRIPTION_CREATE',
+      resourceType: 'Prescription',
+      resourceId: prescription.id,
+      patientHealthId: patientId,
+      consentId: req.consentId,
+      metadata: {
         encounterId,
-        patientId,
-        providerId: actor.healthId,
-        code: 'PRESCRIPTION',
-        value: prescriptionData,
-        unit: 'prescription',
-        recordedAt: new Date(),
-        createdById: actor.healthId,
-        createdByRole: actor.role
+        medication: prescription.items.map(item => item.medicationName).join(', ')
       },
-      include: {
-        encounter: true
-      }
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
     });
 
     return res.status(201).json({ prescription });
@@ -433,17 +491,24 @@ export const createEncounterPrescription = async (req: AuthedRequest, res: Respo
 export const getEncounterPrescriptions = async (req: AuthedRequest, res: Response) => {
   try {
     const { encounterId } = req.params;
-    const actor = req.user!;
 
-    const prescriptions = await prisma.observation.findMany({
-      where: {
-        encounterId,
-        code: 'PRESCRIPTION'
-      },
-      orderBy: { recordedAt: 'desc' },
-      include: {
-        encounter: true
-      }
+    const encounter = await prisma.encounter.findUnique({
+      where: { id: encounterId },
+      select: { patientId: true }
+    });
+
+    // The consent check ran against the patient named in the request; the
+    // encounter must belong to that same patient
+    if (!encounter || encounter.patientId !== req.consentPatientId) {
+      return res.status(404).json({ message: 'Encounter not found' });
+    }
+
+    await PrescriptionService.expireDuePrescriptions(encounter.patientId);
+
+    const prescriptions = await prisma.prescription.findMany({
+      where: { encounterId },
+      orderBy: { issuedAt: 'desc' },
+      include: prescriptionInclude
     });
 
     return res.json({ prescriptions });
@@ -464,42 +529,130 @@ export const getPatientPrescriptions = async (req: AuthedRequest, res: Response)
       return res.status(403).json({ message: 'Patients can only view their own prescriptions' });
     }
 
-    const where: any = {
+    if (status && !Object.values(PrescriptionStatus).includes(status as PrescriptionStatus)) {
+      return res.status(400).json({ 
+        message: `Invalid status. Must be one of: ${Object.values(PrescriptionStatus).join(', ')}` 
+      });
+    }
+
+    await PrescriptionService.expireDuePrescriptions(patientId);
+
+    const where: Prisma.PrescriptionWhereInput = {
       patientId,
-      code: 'PRESCRIPTION'
+      ...(status && { status: status as PrescriptionStatus })
     };
 
-    // Filter by status if provided
-    if (status) {
-      // This would require a more complex query with JSON filtering
-      // For now, we'll filter in application logic
+    const [prescriptions, total] = await Promise.all([
+      prisma.prescription.findMany({
+        where,
+        orderBy: { issuedAt: 'desc' },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+        include: {
+          ...prescriptionInclude,
+          encounter: true
+        }
+      }),
+      prisma.prescription.count({ where })
+    ]);
+
+    return res.json({ prescriptions, total });
+  } catch (error) {
+    console.error('getPatientPrescriptions error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// GET /api/encounters/prescriptions/:prescriptionId
+export const getPrescription = async (req: AuthedRequest, res: Response) => {
+  try {
+    const { prescriptionId } = req.params;
+    const actor = req.user!;
+
+    const prescription = await prisma.prescription.findUnique({
+      where: { id: prescriptionId },
+      include: prescriptionInclude
+    });
+
+    if (!prescription) {
+      return res.status(404).json({ message: 'Prescription not found' });
     }
 
-    const prescriptions = await prisma.observation.findMany({
-      where,
-      orderBy: { recordedAt: 'desc' },
-      take: parseInt(limit as string),
-      skip: parseInt(offset as string),
-      include: {
-        encounter: true
+    if (actor.role === 'patient' && prescription.patientId !== actor.healthId) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    if (actor.role !== 'patient' && actor.role !== 'admin' && prescription.prescriberId !== actor.healthId) {
+      const consentCheck = await AuditService.verifyConsent(actor.healthId, prescription.patientId, { resource: 'prescription', action: 'read' });
+      if (!consentCheck.hasConsent) {
+        return res.status(403).json({ message: 'Access denied: Valid consent required' });
       }
+    }
+
+    if (prescription.status === 'ACTIVE' && prescription.expiresAt <= new Date()) {
+      const expired = await PrescriptionService.transitionStatus(prescription.id, 'EXPIRED');
+      return res.json({ prescription: expired });
+    }
+
+    return res.json({ prescription });
+  } catch (error) {
+    console.error('getPrescription error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// PATCH /api/encounters/prescriptions/:prescriptionId/status - ACTIVE → COMPLETED/CANCELLED/EXPIRED
+export const updatePrescriptionStatus = async (req: AuthedRequest, res: Response) => {
+  try {
+    const { prescriptionId } = req.params;
+    const actor = req.user!;
+    const { status, reason } = req.body;
+
+    if (!status || !Object.values(PrescriptionStatus).includes(status)) {
+      return res.status(400).json({ 
+        message: `status must be one of: ${Object.values(PrescriptionStatus).join(', ')}` 
+      });
+    }
+
+    const prescription = await prisma.prescription.findUnique({
+      where: { id: prescriptionId }
     });
 
-    // Filter by status in application if needed
-    const filteredPrescriptions = status 
-      ? prescriptions.filter(p => {
-          try {
-            const data = p.value as any;
-            return data.status === status;
-          } catch {
-            return true;
-          }
-        })
-      : prescriptions;
-
-    return res.json({ prescriptions: filteredPrescriptions });
+    if (!prescription) {
+      return res.status(404).json({ message: 'Prescription not found' });
+    }
+
+    if (prescription.prescriberId !== actor.healthId && actor.role !== 'admin') {
+      return res.status(403).json({ message: 'Only the prescribing doctor can update this prescription' });
+    }
+
+    if (!PrescriptionService.canTransition(prescription.status, status)) {
+      return res.status(400).json({ 
+        message: `Cannot change prescription status from ${prescription.status} to ${status}` 
+      });
+    }
+
+    const updated = await PrescriptionService.transitionStatus(prescription.id, status, reason);
+
+    await AuditService.logAction({
+      actorId: actor.healthId,
+      actorRole: actor.role,
+      action: `PRESCRIPTION_${status}`,
+      resourceType: 'Prescription',
+      resourceId: prescription.id,
+      patientHealthId: prescription.patientId,
+      reason,
+      metadata: {
+        previousStatus: prescription.status,
+        newStatus: status
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    return res.json({ prescription: updated });
   } catch (error) {
-    console.error('getPatientPrescriptions error:', error);
+    console.error('updatePrescriptionStatus error:', error);
     return res.status(500).json({ message: 'Internal server error' });
   }
 };
@@ -508,26 +661,25 @@ export const getPatientPrescriptions = async (req: AuthedRequest, res: Response)
 export const getEnhancedEncounter = async (req: AuthedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const actor = req.user!;
 
     const encounter = await prisma.encounter.findUnique({
       where: { id },
       include: {
         observations: {
           orderBy: { recordedAt: 'desc' }
+        },
+        prescriptions: {
+          orderBy: { issuedAt: 'desc' },
+          include: prescriptionInclude
         }
       }
     });
 
-    if (!encounter) {
+    // Consent was checked for req.consentPatientId; other patients' encounters stay hidden
+    if (!encounter || encounter.patientId !== req.consentPatientId) {
       return res.status(404).json({ message: 'Encounter not found' });
     }
 
-    // Check access permissions
-    if (actor.role === 'patient' && encounter.patientId !== actor.healthId) {
-      return res.status(403).json({ message: 'Access denied' });
-    }
-
     // Parse enhanced data
     let enhancedData: any = {};
     try {
@@ -536,26 +688,12 @@ export const getEnhancedEncounter = async (req: AuthedRequest, res: Response) =>
       enhancedData = {};
     }
 
-    // Get prescriptions from observations
-    const prescriptions = encounter.observations
-      .filter(obs => {
-        const obsData = obs.value as any;
-        return obsData?.type === 'PRESCRIPTION';
-      })
-      .map(obs => {
-        const obsData = obs.value as any;
-        return {
-          id: obs.id,
-          ...obsData.prescription,
-          observation_id: obs.id
-        };
-      });
-
     return res.json({
       encounter: {
         ...encounter,
+        // Lab and imaging results need the matching READ_LAB / READ_RADIOLOGY scope
+        observations: ConsentPolicyService.filterObservations(encounter.observations, req.consentScopes),
         enhanced_data: enhancedData,
-        prescriptions,
         status: enhancedData.status || 'DRAFT'
       }
     });
@@ -568,8 +706,6 @@ export const getEnhancedEncounter = async (req: AuthedRequest, res: Response) =>
 // GET /api/patients/:healthId/encounters - list with pagination, filters
 export const listPatientEncounters = async (req: AuthedRequest, res: Response) => {
   try {
-    const { healthId } = req.params;
-    const actor = req.user!;
     const { 
       limit = '10', 
       offset = '0', 
@@ -579,15 +715,8 @@ export const listPatientEncounters = async (req: AuthedRequest, res: Response) =
       date_to 
     } = req.body;
 
-    // Determine patient ID
-    let patientId = healthId;
-    if (actor.role === 'patient') {
-      patientId = actor.healthId; // Patients can only see their own
-    } else if (!healthId) {
-      return res.status(400).json({ 
-        message: 'Patient health ID is required for non-patient users' 
-      });
-    }
+    // The patient the consent middleware checked access for
+    const patientId = req.consentPatientId!;
 
     // Build where clause
     const where: any = { patientId };
@@ -620,7 +749,11 @@ export const listPatientEncounters = async (req: AuthedRequest, res: Response) =
         } catch (e) {
           enhancedData = {};
         }
-        return { ...enc, enhanced_data: enhancedData };
+        return {
+          ...enc,
+          observations: ConsentPolicyService.filterObservations(enc.observations, req.consentScopes),
+          enhanced_data: enhancedData
+        };
       })
       .filter(enc => {
         if (visit_type && enc.enhanced_data?.visit_type !== visit_type) return false;
@@ -693,5 +826,7 @@ export default {
   createEncounterPrescription,
   getEncounterPrescriptions,
   getPatientPrescriptions,
+  getPrescription,
+  updatePrescriptionStatus,
   addObservationToEncounter
 };
\ No newline at end of file
@@ -1,5 +1,9 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Observation, Prisma, PrismaClient } from '@prisma/client';
+import CriticalAlertService from '../services/critical-alert.service';
+import ReferenceRangeService from '../services/reference-range.service';
+import TerminologyService, { SYSTEM_URIS } from '../services/terminology.service';
+import ConsentPolicyService from '../services/consent-policy.service';
 
 const prisma = new PrismaClient();
 
@@ -9,6 +13,7 @@ type AuthedRequest = Request & {
         role: string;
     };
     consentId?: string;
+    consentScopes?: string[]; // Set by consent middleware; unset for unrestricted access
 };
 
 // Enhanced Observations Controller with new features
@@ -20,6 +25,7 @@ export const createEnhancedObservation = async (req: AuthedRequest, res: Respons
             encounterId, 
             patientId, 
             code, 
+            codingCode,
             value, 
             unit,
             notes,
@@ -29,6 +35,7 @@ export const createEnhancedObservation = async (req: AuthedRequest, res: Respons
             subcategory,
             doctorNotes,
             diagnosis,
+            diagnosisCode,
             advice,
             status = 'ACTIVE',
             isPatientRecorded = false,
@@ -36,18 +43,35 @@ export const createEnhancedObservation = async (req: AuthedRequest, res: Respons
             prescription
         } = req.body;
 
-        if (!patientId || !code || !value) {
-            return res.status(400).json({ message: 'patientId, code, and value are required' });
+        if (!patientId || (!code && !codingCode) || !value) {
+            return res.status(400).json({ message: 'patientId, code (or codingCode), and value are required' });
         }
 
+        // Map the observation to LOINC and the diagnosis to SNOMED CT
+        const coding = await TerminologyService.resolveCoding({ text: code, code: codingCode }, 'LOINC');
+        if (!coding.success) {
+            return res.status(coding.status || 400).json({ message: coding.error });
+        }
+        const obsCode = coding.display!;
+
+        const diagnosisCoding = diagnosis || diagnosisCode
+            ? await TerminologyService.resolveCoding({ text: diagnosis, code: diagnosisCode }, 'SNOMED_CT')
+            : null;
+        if (diagnosisCoding && !diagnosisCoding.success) {
+            return res.status(diagnosisCoding.status || 400).json({ message: diagnosisCoding.error });
+        }
+
+        // Flag against the admin-managed reference range catalog
+        const rangeCheck = await ReferenceRangeService.evaluate({ code: obsCode, value, unit, patientId });
+        if (!rangeCheck.success) {
+            return res.status(rangeCheck.status || 400).json({ message: rangeCheck.error });
+        }
+        const { definition, evaluation } = rangeCheck;
+        const { isCritical, abnormalFlag, priority } = evaluation!;
+
         // Determine category and subcategory
-        const obsCategory = category || determineCategory(code);
-        const obsSubcategory = subcategory || determineSubcategory(code);
-        
-        // Check if critical based on value and reference range
-        const isCritical = checkCriticalValue(value, referenceRange, code);
-        const abnormalFlag = determineAbnormalFlag(value, referenceRange, code);
-        const priority = isCritical ? 'CRITICAL' : determinePriority(abnormalFlag);
+        const obsCategory = category || definition?.category || coding.concept?.category || determineCategory(obsCode);
+        const obsSubcategory = subcategory || definition?.subcategory || coding.concept?.subcategory || determineSubcategory(obsCode);
         
         // Store comprehensive enhanced data in JSON format
         const enhancedValue = {
@@ -63,11 +87,17 @@ export const createEnhancedObservation = async (req: AuthedRequest, res: Respons
             priority: priority,
             isCritical: isCritical,
             abnormalFlag: abnormalFlag,
+            referenceEvaluation: evaluation,
             
             // Clinical notes and assessment
             notes: notes,
             doctorNotes: doctorNotes,
-            diagnosis: diagnosis,
+            diagnosis: diagnosisCoding?.display ?? diagnosis,
+            diagnosisCoding: diagnosisCoding?.concept ? {
+                system: SYSTEM_URIS.SNOMED_CT,
+                code: diagnosisCoding.concept.code,
+                display: diagnosisCoding.concept.display
+            } : null,
             advice: advice,
             
             // Audit and provenance
@@ -93,7 +123,9 @@ export const createEnhancedObservation = async (req: AuthedRequest, res: Respons
         encounterId: encounterId || null,
         patientId,
         providerId: actor.healthId,
-        code,
+        code: obsCode,
+        codingSystem: coding.concept?.system ?? null,
+        codingCode: coding.concept?.code ?? null,
         value: enhancedValue,
         unit,
         createdById: actor.healthId,
@@ -104,7 +136,7 @@ export const createEnhancedObservation = async (req: AuthedRequest, res: Respons
       }
     });    // Send critical alert if needed
     if (isCritical) {
-      await sendCriticalAlert(patientId, obs);
+      await sendCriticalAlert(patientId, obs, actor.healthId);
     }        return res.status(201).json({ observation: obs });
     } catch (error) {
         console.error('createEnhancedObservation error:', error);
@@ -143,7 +175,7 @@ export const getObservationsByCategory = async (req: AuthedRequest, res: Respons
             if (dateTo) where.createdAt.lte = new Date(dateTo);
         }
 
-        const observations = await prisma.observation.findMany({
+        const fetched = await prisma.observation.findMany({
             where,
             orderBy: { createdAt: 'desc' },
             take: parseInt(limit),
@@ -155,6 +187,9 @@ export const getObservationsByCategory = async (req: AuthedRequest, res: Respons
             }
         });
 
+        // Only the observation categories the consent covers
+        const observations = ConsentPolicyService.filterObservations(fetched, req.consentScopes);
+
         // Filter by enhanced criteria
         let filteredObservations = observations.filter(obs => {
             const obsData = obs.value as any;
@@ -229,15 +264,19 @@ export const getObservationTrends = async (req: AuthedRequest, res: Response) =>
 
     const daysAgo = new Date(Date.now() - parseInt(timeframe) * 24 * 60 * 60 * 1000);
 
-    const observations = await prisma.observation.findMany({
+    const fetched = await prisma.observation.findMany({
       where: {
         patientId: pid,
-        code,
+        // Match either the stored name or its LOINC code
+        OR: [{ code }, { codingCode: code }],
         createdAt: { gte: daysAgo }
       },
       orderBy: { createdAt: 'asc' }
     });
 
+    // Only the observation categories the consent covers
+    const observations = ConsentPolicyService.filterObservations(fetched, req.consentScopes);
+
     // Extract values and calculate trends
     const values = observations.map(obs => {
       const obsData = obs.value as any;
@@ -279,7 +318,7 @@ export const getObservationAnalytics = async (req: AuthedRequest, res: Response)
 
         const daysAgo = new Date(Date.now() - parseInt(timeframe) * 24 * 60 * 60 * 1000);
 
-        const observations = await prisma.observation.findMany({
+        const fetched = await prisma.observation.findMany({
             where: {
                 patientId: pid,
                 createdAt: { gte: daysAgo }
@@ -287,6 +326,9 @@ export const getObservationAnalytics = async (req: AuthedRequest, res: Response)
             orderBy: { createdAt: 'desc' }
         });
 
+        // Only the observation categories the consent covers
+        const observations = ConsentPolicyService.filterObservations(fetched, req.consentScopes);
+
         // Calculate comprehensive analytics
         const analytics = {
             totalObservations: observations.length,
@@ -330,6 +372,7 @@ export const getObservationAnalytics = async (req: AuthedRequest, res: Response)
                 return {
                     id: obs.id,
                     code: obs.code,
+                    codingCode: obs.codingCode,
                     category: obsData?.category,
                     isCritical: obsData?.isCritical,
                     recordedAt: obs.createdAt,
@@ -396,7 +439,14 @@ export const getObservationAnalytics = async (req: AuthedRequest, res: Response)
     try {
         const actor = req.user!;
         const { id } = req.params;
-        const { status, doctorNotes, diagnosis, advice } = req.body;
+        const { status, doctorNotes, diagnosis, diagnosisCode, advice } = req.body;
+
+        const diagnosisCoding = diagnosis || diagnosisCode
+            ? await TerminologyService.resolveCoding({ text: diagnosis, code: diagnosisCode }, 'SNOMED_CT')
+            : null;
+        if (diagnosisCoding && !diagnosisCoding.success) {
+            return res.status(diagnosisCoding.status || 400).json({ message: diagnosisCoding.error });
+        }
 
     const currentObs = await prisma.observation.findUnique({
       where: { id }
@@ -411,7 +461,14 @@ export const getObservationAnalytics = async (req: AuthedRequest, res: Response)
       ...currentValue,
       status,
       doctorNotes,
-      diagnosis,
+      diagnosis: diagnosisCoding?.display ?? diagnosis,
+      ...(diagnosisCoding && {
+        diagnosisCoding: diagnosisCoding.concept ? {
+          system: SYSTEM_URIS.SNOMED_CT,
+          code: diagnosisCoding.concept.code,
+          display: diagnosisCoding.concept.display
+        } : null
+      }),
       advice,
       lastUpdatedBy: actor.healthId,
       lastUpdatedAt: new Date()
@@ -442,7 +499,7 @@ export const getCriticalObservations = async (req: AuthedRequest, res: Response)
             pid = actor.healthId;
         }
 
-    const allObs = await prisma.observation.findMany({
+    const fetched = await prisma.observation.findMany({
       where: {
         patientId: pid
       },
@@ -452,6 +509,9 @@ export const getCriticalObservations = async (req: AuthedRequest, res: Response)
       }
     });
 
+    // Only the observation categories the consent covers
+    const allObs = ConsentPolicyService.filterObservations(fetched, req.consentScopes);
+
     // Filter for critical observations
     const criticalObs = allObs.filter(obs => {
       const obsData = obs.value as any;
@@ -564,13 +624,18 @@ export const exportObservations = async (req: AuthedRequest, res: Response) => {
         if (dateFrom) where.recordedAt = { gte: new Date(dateFrom) };
         if (dateTo) where.recordedAt = { ...where.recordedAt, lte: new Date(dateTo) };
 
-    const observations = await prisma.observation.findMany({
+    const fetched = await prisma.observation.findMany({
       where,
       orderBy: { createdAt: 'desc' },
       include: {
         encounter: true
       }
-    });        if (format === 'FHIR') {
+    });
+
+    // Only the observation categories the consent covers
+    const observations = ConsentPolicyService.filterObservations(fetched, req.consentScopes);
+
+        if (format === 'FHIR') {
             const fhirBundle = convertToFHIR(observations);
             return res.json(fhirBundle);
         }
@@ -654,53 +719,6 @@ const determineSubcategory = (code: string): string => {
     return 'General';
 };
 
-const determineAbnormalFlag = (value: any, referenceRange: any, code: string): string => {
-    const lowerCode = code.toLowerCase();
-    
-    if (typeof value === 'object') {
-        // Handle complex values like BP
-        if (lowerCode.includes('blood pressure') || lowerCode.includes('bp')) {
-            const systolic = value.systolic || 0;
-            const diastolic = value.diastolic || 0;
-            
-            if (systolic >= 180 || diastolic >= 120) return 'CRITICAL';
-            if (systolic >= 140 || diastolic >= 90) return 'HIGH';
-            if (systolic < 90 || diastolic < 60) return 'LOW';
-            return 'NORMAL';
-        }
-    } else {
-        const numValue = parseFloat(value);
-        if (isNaN(numValue)) return 'NORMAL';
-
-        // Blood sugar
-        if (lowerCode.includes('glucose') || lowerCode.includes('sugar')) {
-            if (numValue >= 400) return 'CRITICAL';
-            if (numValue >= 200) return 'HIGH';
-            if (numValue <= 40) return 'CRITICAL';
-            if (numValue <= 70) return 'LOW';
-            return 'NORMAL';
-        }
-        
-        // Heart rate
-        if (lowerCode.includes('heart rate') || lowerCode.includes('pulse')) {
-            if (numValue >= 150 || numValue <= 40) return 'CRITICAL';
-            if (numValue >= 100) return 'HIGH';
-            if (numValue <= 60) return 'LOW';
-            return 'NORMAL';
-        }
-    }
-    
-    return 'NORMAL';
-};
-
-const determinePriority = (abnormalFlag: string): string => {
-    switch (abnormalFlag) {
-        case 'CRITICAL': return 'CRITICAL';
-        case 'HIGH': case 'LOW': return 'HIGH';
-        default: return 'NORMAL';
-    }
-};
-
 const getProviderName = async (healthId: string): Promise<string> => {
     try {
         const user = await prisma.user.findUnique({
@@ -718,44 +736,20 @@ const getProviderName = async (healthId: string): Promise<string> => {
     }
 };
 
-const checkCriticalValue = (value: any, referenceRange: any, code: string): boolean => {
-    // Implement critical value detection logic
-    const lowerCode = code.toLowerCase();
-
-    if (typeof value === 'object') {
-        // Handle complex values like BP
-        if (lowerCode.includes('blood pressure') || lowerCode.includes('bp')) {
-            const systolic = value.systolic || 0;
-            const diastolic = value.diastolic || 0;
-            return systolic >= 180 || diastolic >= 120 || systolic <= 70 || diastolic <= 40;
-        }
-    } else {
-        const numValue = parseFloat(value);
-        if (isNaN(numValue)) return false;
+const sendCriticalAlert = async (patientId: string, observation: Observation, recordedById: string) => {
+    const obsData = observation.value as { value?: Prisma.InputJsonValue; isPatientRecorded?: boolean } | null;
 
-        // Blood sugar
-        if (lowerCode.includes('glucose') || lowerCode.includes('sugar')) {
-            return numValue >= 400 || numValue <= 40;
-        }
-
-        // Heart rate
-        if (lowerCode.includes('heart rate') || lowerCode.includes('pulse')) {
-            return numValue >= 150 || numValue <= 40;
-        }
-
-        // Temperature
-        if (lowerCode.includes('temperature')) {
-            return numValue >= 104 || numValue <= 95; // Fahrenheit
-        }
-    }
-
-    return false;
-};
-
-const sendCriticalAlert = async (patientId: string, observation: any) => {
-    // Implement critical alert notification
-    console.log(`🚨 CRITICAL ALERT: Patient ${patientId} has critical observation: ${observation.code} = ${observation.value}`);
-    // PRODUCTION: Implement notification service for anomaly alerts
+    await CriticalAlertService.raiseAlert({
+        patientId,
+        observation: {
+            id: observation.id,
+            code: observation.code,
+            value: obsData?.value,
+            unit: observation.unit
+        },
+        source: obsData?.isPatientRecorded ? 'SELF_REPORTED' : 'DOCTOR_RECORDED',
+        recordedById
+    });
 };
 
 const extractNumericValue = (value: any): number | null => {
@@ -812,8 +806,8 @@ const convertToFHIR = (observations: any[], patient?: any): any => {
                     code: {
                         text: obs.code,
                         coding: [{
-                            system: 'http://loinc.org',
-                            code: generateLoincCode(obs.code),
+                            system: SYSTEM_URIS[obs.codingSystem as keyof typeof SYSTEM_URIS] || 'http://loinc.org',
+                            code: obs.codingCode || generateLoincCode(obs.code),
                             display: obs.code
                         }]
                     },
@@ -0,0 +1,291 @@
+import { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import ImagingService from '../services/imaging.service';
+import storageService from '../services/storage.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+  consentId?: string;
+}
+
+const IngestSchema = z.object({
+  fileId: z.string().min(1),
+  patientId: z.string().optional(),
+  encounterId: z.string().optional()
+});
+
+const parseDateParam = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Patients see their own imaging and everyone else needs an active consent
+ * carrying READ_RADIOLOGY (or declared emergency access). Every check is audited.
+ */
+const checkImagingAccess = async (req: AuthenticatedRequest, patientId: string, resourceId: string) => {
+  const { healthId, role } = req.user!;
+
+  let allowed = false;
+  let consentId: string | undefined;
+  if (healthId === patientId) {
+    allowed = true;
+    consentId = 'self-access';
+  } else if (role !== 'patient') {
+    const consentCheck = await AuditService.verifyConsent(healthId, patientId, { resource: 'imaging_study', action: 'read' });
+    allowed = consentCheck.hasConsent;
+    consentId = consentCheck.consentId;
+
+    if (consentCheck.breakGlassId) {
+      await AuditService.logAction({
+        actorId: healthId,
+        actorRole: role,
+        action: 'BREAK_GLASS_RECORD_ACCESS',
+        resourceType: 'BreakGlassAccess',
+        resourceId: consentCheck.breakGlassId,
+        patientHealthId: patientId,
+        metadata: { method: req.method, path: req.originalUrl, imagingStudyId: resourceId },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+    }
+  }
+
+  await AuditService.logRecordAccess(
+    healthId,
+    role,
+    allowed ? 'RECORD_READ' : 'RECORD_ACCESS_DENIED',
+    patientId,
+    resourceId,
+    'imaging_study',
+    consentId,
+    req.ip,
+    req.get('User-Agent')
+  );
+
+  return allowed;
+};
+
+export class ImagingController {
+  /**
+   * Ingest DICOM Upload
+   * POST /api/imaging/ingest
+   * Indexes an existing DICOM upload (e.g. one uploaded before indexing existed) into its study
+   */
+  static async ingestUpload(req: AuthenticatedRequest, res: Response) {
+    try {
+      const actorId = req.user?.healthId;
+
+      if (!actorId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = IngestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: parsed.error.issues });
+      }
+
+      const { fileId, patientId, encounterId } = parsed.data;
+
+      const fileUpload = await prisma.fileUpload.findFirst({
+        where: { id: fileId, ownerHealthId: actorId }
+      });
+
+      if (!fileUpload) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const result = await ImagingService.ingestFile(fileUpload, {
+        actorId,
+        actorRole: req.user!.role,
+        patientId,
+        encounterId
+      });
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId,
+        actorRole: req.user!.role,
+        action: 'IMAGING_INGESTED',
+        resourceType: 'ImagingStudy',
+        resourceId: result.study!.id,
+        patientHealthId: result.study!.patientId,
+        metadata: {
+          fileId,
+          studyInstanceUid: result.study!.studyInstanceUid,
+          sopInstanceUid: result.instance!.sopInstanceUid
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          study: result.study,
+          instance: result.instance
+        },
+        message: 'DICOM file indexed'
+      });
+
+    } catch (error) {
+      logger.error('Error ingesting DICOM upload', { error });
+      res.status(500).json({ error: 'Failed to ingest DICOM file' });
+    }
+  }
+
+  /**
+   * List Imaging Studies
+   * GET /api/imaging/studies?patientId=&encounterId=&modality=&bodyPart=&from=&to=&q=&limit=&offset=
+   * Consent (READ_RADIOLOGY) is enforced by the route middleware
+   */
+  static async listStudies(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { encounterId, modality, bodyPart, q, limit = 20, offset = 0 } = req.query;
+      const patientId = (req.query.patientId as string | undefined) || req.user!.healthId;
+
+      const from = parseDateParam(req.query.from);
+      const to = parseDateParam(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ error: 'from and to must be valid dates' });
+      }
+
+      const result = await ImagingService.listStudies({
+        patientId,
+        encounterId: encounterId as string | undefined,
+        modality: modality as string | undefined,
+        bodyPart: bodyPart as string | undefined,
+        q: q as string | undefined,
+        from,
+        to,
+        limit: Math.min(Number(limit) || 20, 100),
+        offset: Number(offset) || 0
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      logger.error('Error listing imaging studies', { error });
+      res.status(500).json({ error: 'Failed to list imaging studies' });
+    }
+  }
+
+  /**
+   * Get Imaging Study
+   * GET /api/imaging/studies/:studyId
+   * Study with its series and instances
+   */
+  static async getStudy(req: AuthenticatedRequest, res: Response) {
+    try {
+      const study = await ImagingService.getStudy(req.params.studyId);
+
+      if (!study) {
+        return res.status(404).json({ error: 'Imaging study not found' });
+      }
+
+      if (!(await checkImagingAccess(req, study.patientId, study.id))) {
+        return res.status(403).json({ error: 'Access denied: READ_RADIOLOGY consent required' });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: study
+      });
+
+    } catch (error) {
+      logger.error('Error getting imaging study', { error });
+      res.status(500).json({ error: 'Failed to get imaging study' });
+    }
+  }
+
+  /**
+   * Download DICOM Instance
+   * GET /api/imaging/studies/:studyId/instances/:instanceId/file
+   * Streams the original DICOM file to consented viewers
+   */
+  static async downloadInstance(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { studyId, instanceId } = req.params;
+
+      const instance = await prisma.imagingInstance.findFirst({
+        where: { id: instanceId, series: { studyId } },
+        include: { file: true, series: { select: { study: { select: { patientId: true } } } } }
+      });
+
+      if (!instance) {
+        return res.status(404).json({ error: 'Imaging instance not found' });
+      }
+
+      const patientId = instance.series.study.patientId;
+      if (!(await checkImagingAccess(req, patientId, studyId))) {
+        return res.status(403).json({ error: 'Access denied: READ_RADIOLOGY consent required' });
+      }
+
+      const fileUpload = instance.file;
+
+      if (fileUpload.status !== 'COMPLETED') {
+        return res.status(fileUpload.status === 'QUARANTINED' ? 403 : 409).json({
+          error: `File is not available (status ${fileUpload.status})`
+        });
+      }
+
+      if (fileUpload.scanStatus !== 'CLEAN') {
+        return res.status(409).json({
+          error: 'File is awaiting a malware scan and cannot be downloaded yet',
+          scanStatus: fileUpload.scanStatus
+        });
+      }
+
+      await prisma.fileAccess.create({
+        data: {
+          fileId: fileUpload.id,
+          accessorId: req.user!.healthId,
+          action: 'DOWNLOAD',
+          ipAddress: req.ip || null,
+          userAgent: req.get('User-Agent') || null
+        }
+      });
+
+      res.setHeader('Content-Type', 'application/dicom');
+      res.setHeader('Content-Disposition', `attachment; filename="${instance.sopInstanceUid}.dcm"`);
+
+      if (!fileUpload.storageKey) {
+        const fileBuffer = Buffer.from(fileUpload.fileData || '', 'base64');
+        res.setHeader('Content-Length', fileBuffer.length);
+        return res.send(fileBuffer);
+      }
+
+      const stream = await storageService.getStream(fileUpload.storageKey);
+      res.setHeader('Content-Length', fileUpload.fileSize);
+      await pipeline(stream, res);
+      return;
+
+    } catch (error) {
+      logger.error('Error downloading DICOM instance', { error });
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ error: 'Failed to download DICOM instance' });
+    }
+  }
+}
+
+export default ImagingController;
@@ -0,0 +1,271 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import ReferenceRangeService from '../services/reference-range.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+}
+
+const RangeSchema = z.object({
+  component: z.string().min(1).nullable().optional(),
+  sex: z.enum(['MALE', 'FEMALE']).nullable().optional(),
+  ageMinYears: z.number().int().min(0).nullable().optional(),
+  ageMaxYears: z.number().int().min(1).nullable().optional(),
+  normalLow: z.number().nullable().optional(),
+  normalHigh: z.number().nullable().optional(),
+  criticalLow: z.number().nullable().optional(),
+  criticalHigh: z.number().nullable().optional()
+});
+
+const UnitConversionSchema = z.object({
+  unit: z.string().min(1),
+  factor: z.number().refine(value => value !== 0, 'factor must be non-zero'),
+  offset: z.number().optional()
+});
+
+const DefinitionSchema = z.object({
+  code: z.string().min(1).max(100),
+  displayName: z.string().min(1).max(200),
+  category: z.string().min(1),
+  subcategory: z.string().nullable().optional(),
+  canonicalUnit: z.string().min(1),
+  aliases: z.array(z.string().min(1)).optional(),
+  components: z.array(z.string().min(1)).optional(),
+  isActive: z.boolean().optional(),
+  ranges: z.array(RangeSchema).optional(),
+  unitConversions: z.array(UnitConversionSchema).optional()
+});
+
+const EvaluateSchema = z.object({
+  code: z.string().min(1),
+  value: z.union([z.number(), z.string(), z.record(z.string(), z.union([z.number(), z.string()]))]),
+  unit: z.string().nullable().optional(),
+  patientId: z.string().optional(),
+  ageYears: z.number().int().min(0).optional(),
+  sex: z.enum(['MALE', 'FEMALE']).optional()
+});
+
+export class ObservationDefinitionsController {
+  /**
+   * List Observation Definitions
+   * GET /api/admin/observation-definitions?includeInactive=&search=
+   */
+  static async listDefinitions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { includeInactive, search } = req.query;
+
+      const definitions = await ReferenceRangeService.listDefinitions({
+        includeInactive: includeInactive === 'true',
+        search: search as string | undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { definitions }
+      });
+
+    } catch (error) {
+      logger.error('Error listing observation definitions', { error });
+      res.status(500).json({ error: 'Failed to list observation definitions' });
+    }
+  }
+
+  /**
+   * Get Observation Definition
+   * GET /api/admin/observation-definitions/:id
+   */
+  static async getDefinition(req: AuthenticatedRequest, res: Response) {
+    try {
+      const definition = await ReferenceRangeService.getDefinition(req.params.id);
+      if (!definition) {
+        return res.status(404).json({ error: 'Observation definition not found' });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { definition }
+      });
+
+    } catch (error) {
+      logger.error('Error getting observation definition', { error, definitionId: req.params.id });
+      res.status(500).json({ error: 'Failed to get observation definition' });
+    }
+  }
+
+  /**
+   * Create Observation Definition
+   * POST /api/admin/observation-definitions
+   */
+  static async createDefinition(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+
+      const validation = DefinitionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: validation.error.issues });
+      }
+
+      const result = await ReferenceRangeService.createDefinition(validation.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'OBSERVATION_DEFINITION_CREATED',
+        resourceType: 'ObservationDefinition',
+        resourceId: result.definition!.id,
+        patientHealthId: adminId,
+        metadata: { definition: result.definition },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { definition: result.definition },
+        message: 'Observation definition created'
+      });
+
+    } catch (error) {
+      logger.error('Error creating observation definition', { error });
+      res.status(500).json({ error: 'Failed to create observation definition' });
+    }
+  }
+
+  /**
+   * Update Observation Definition
+   * PUT /api/admin/observation-definitions/:id
+   * Supplied ranges/unitConversions replace the existing set; the previous
+   * values are kept in the audit log and replaced ranges are retired, not
+   * deleted
+   */
+  static async updateDefinition(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+      const { id } = req.params;
+
+      const validation = DefinitionSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: validation.error.issues });
+      }
+
+      const before = await ReferenceRangeService.getDefinition(id);
+
+      const result = await ReferenceRangeService.updateDefinition(id, validation.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'OBSERVATION_DEFINITION_UPDATED',
+        resourceType: 'ObservationDefinition',
+        resourceId: id,
+        patientHealthId: adminId,
+        metadata: { before, after: result.definition },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { definition: result.definition },
+        message: 'Observation definition updated'
+      });
+
+    } catch (error) {
+      logger.error('Error updating observation definition', { error, definitionId: req.params.id });
+      res.status(500).json({ error: 'Failed to update observation definition' });
+    }
+  }
+
+  /**
+   * Deactivate Observation Definition
+   * DELETE /api/admin/observation-definitions/:id
+   */
+  static async deactivateDefinition(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+      const { id } = req.params;
+
+      const result = await ReferenceRangeService.deactivateDefinition(id);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'OBSERVATION_DEFINITION_DEACTIVATED',
+        resourceType: 'ObservationDefinition',
+        resourceId: id,
+        patientHealthId: adminId,
+        metadata: { code: result.definition!.code },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { definition: result.definition },
+        message: 'Observation definition deactivated'
+      });
+
+    } catch (error) {
+      logger.error('Error deactivating observation definition', { error, definitionId: req.params.id });
+      res.status(500).json({ error: 'Failed to deactivate observation definition' });
+    }
+  }
+
+  /**
+   * Evaluate Reading
+   * POST /api/admin/observation-definitions/evaluate
+   * Preview how a reading would be flagged, optionally for a given patient or age/sex
+   */
+  static async evaluate(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = EvaluateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: validation.error.issues });
+      }
+
+      const { code, value, unit, patientId, ageYears, sex } = validation.data;
+
+      const result = await ReferenceRangeService.evaluate({
+        code,
+        value,
+        unit,
+        patientId,
+        context: { ageYears, sex }
+      });
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          definition: result.definition,
+          evaluation: result.evaluation
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error evaluating observation', { error });
+      res.status(500).json({ error: 'Failed to evaluate observation' });
+    }
+  }
+}
+
+export default ObservationDefinitionsController;
@@ -0,0 +1,288 @@
+import { Request, Response } from 'express';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import PrescriptionService, { DispenseItemInput, prescriptionInclude } from '../services/prescription.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+  consentId?: string;
+}
+
+const pharmacyPrescriptionInclude = {
+  ...prescriptionInclude,
+  dispensations: {
+    orderBy: { dispensedAt: 'desc' as const },
+    include: {
+      pharmacy: {
+        select: {
+          healthId: true,
+          healthProfile: { select: { displayName: true, firstName: true, lastName: true } }
+        }
+      }
+    }
+  }
+};
+
+export class PharmacyController {
+  /**
+   * Look Up Active Prescriptions
+   * GET /api/pharmacy/patients/:healthId/prescriptions
+   * Lists a patient's dispensable prescriptions (consent enforced by route middleware)
+   */
+  static async getPatientActivePrescriptions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { healthId } = req.params;
+      const pharmacyId = req.user!.healthId;
+
+      const patient = await prisma.user.findUnique({
+        where: { healthId },
+        select: {
+          healthId: true,
+          role: true,
+          healthProfile: { select: { firstName: true, lastName: true, dateOfBirth: true, allergies: true } }
+        }
+      });
+
+      if (!patient || patient.role !== 'patient') {
+        return res.status(404).json({ error: 'Patient not found' });
+      }
+
+      await PrescriptionService.expireDuePrescriptions(healthId);
+
+      const prescriptions = await prisma.prescription.findMany({
+        where: { patientId: healthId, status: 'ACTIVE' },
+        orderBy: { issuedAt: 'desc' },
+        include: pharmacyPrescriptionInclude
+      });
+
+      await AuditService.logAction({
+        actorId: pharmacyId,
+        actorRole: 'pharmacy',
+        action: 'PRESCRIPTION_LOOKUP',
+        resourceType: 'Prescription',
+        resourceId: 'active',
+        patientHealthId: healthId,
+        consentId: req.consentId,
+        metadata: { prescriptionCount: prescriptions.length },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          patient: {
+            healthId: patient.healthId,
+            healthProfile: patient.healthProfile
+          },
+          prescriptions
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error looking up prescriptions', { error, healthId: req.params.healthId });
+      res.status(500).json({ error: 'Failed to look up prescriptions' });
+    }
+  }
+
+  /**
+   * Get Prescription
+   * GET /api/pharmacy/prescriptions/:prescriptionId
+   * Includes the dispensing history; requires consent from the patient
+   */
+  static async getPrescription(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { prescriptionId } = req.params;
+      const pharmacyId = req.user!.healthId;
+
+      const prescription = await prisma.prescription.findUnique({
+        where: { id: prescriptionId },
+        include: pharmacyPrescriptionInclude
+      });
+
+      if (!prescription) {
+        return res.status(404).json({ error: 'Prescription not found' });
+      }
+
+      const consentCheck = await AuditService.verifyConsent(pharmacyId, prescription.patientId, { resource: 'prescription', action: 'read' });
+      if (!consentCheck.hasConsent) {
+        return res.status(403).json({
+          error: 'Access denied: Valid consent required',
+          suggestedAction: 'Request consent from patient'
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { prescription }
+      });
+
+    } catch (error) {
+      logger.error('Error getting prescription', { error, prescriptionId: req.params.prescriptionId });
+      res.status(500).json({ error: 'Failed to get prescription' });
+    }
+  }
+
+  /**
+   * Dispense Prescription
+   * POST /api/pharmacy/prescriptions/:prescriptionId/dispense
+   * Records a partial or full dispensing event per line item, consuming refills as needed
+   */
+  static async dispensePrescription(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { prescriptionId } = req.params;
+      const { items, notes } = req.body;
+      const pharmacyId = req.user!.healthId;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: 'At least one item to dispense is required' });
+      }
+
+      const entries: DispenseItemInput[] = [];
+      for (const item of items) {
+        if (!item || typeof item.itemId !== 'string') {
+          return res.status(400).json({ error: 'Each item requires an itemId' });
+        }
+        entries.push({
+          itemId: item.itemId,
+          quantity: item.quantity !== undefined ? String(item.quantity) : undefined,
+          partial: item.partial === true
+        });
+      }
+
+      const existing = await prisma.prescription.findUnique({
+        where: { id: prescriptionId },
+        select: { patientId: true }
+      });
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Prescription not found' });
+      }
+
+      const consentCheck = await AuditService.verifyConsent(pharmacyId, existing.patientId, { resource: 'prescription', action: 'read' });
+      if (!consentCheck.hasConsent) {
+        return res.status(403).json({
+          error: 'Access denied: Valid consent required',
+          suggestedAction: 'Request consent from patient'
+        });
+      }
+
+      const result = await PrescriptionService.dispense(prescriptionId, pharmacyId, entries, notes);
+
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const prescription = result.prescription!;
+      const dispensedItems = result.dispensations!.map(dispensation => {
+        const item = prescription.items.find(i => i.id === dispensation.itemId);
+        return {
+          itemId: dispensation.itemId,
+          medication: item?.medicationName,
+          quantity: dispensation.quantity,
+          isPartial: dispensation.isPartial,
+          isRefill: dispensation.isRefill,
+          refillsRemaining: item?.refillsRemaining
+        };
+      });
+
+      await AuditService.logAction({
+        actorId: pharmacyId,
+        actorRole: 'pharmacy',
+        action: 'PRESCRIPTION_DISPENSE',
+        resourceType: 'Prescription',
+        resourceId: prescriptionId,
+        patientHealthId: prescription.patientId,
+        consentId: consentCheck.consentId,
+        metadata: {
+          medication: dispensedItems.map(item => item.medication).join(', '),
+          items: dispensedItems,
+          fullyDispensed: Boolean(prescription.fullyDispensedAt)
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      if (prescription.fullyDispensedAt) {
+        await AuditService.logAction({
+          actorId: pharmacyId,
+          actorRole: 'pharmacy',
+          action: 'PRESCRIPTION_FULLY_DISPENSED',
+          resourceType: 'Prescription',
+          resourceId: prescriptionId,
+          patientHealthId: prescription.patientId,
+          consentId: consentCheck.consentId,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: {
+          prescription,
+          dispensations: result.dispensations
+        },
+        message: prescription.fullyDispensedAt
+          ? 'Prescription fully dispensed'
+          : 'Dispensing recorded successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error dispensing prescription', { error, prescriptionId: req.params.prescriptionId });
+      res.status(500).json({ error: 'Failed to record dispensing' });
+    }
+  }
+
+  /**
+   * Dispensing History
+   * GET /api/pharmacy/dispensations
+   * Lists dispensing events recorded by the authenticated pharmacy
+   */
+  static async getDispensingHistory(req: AuthenticatedRequest, res: Response) {
+    try {
+      const pharmacyId = req.user!.healthId;
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 100);
+      const page = Math.max(Math.floor(Number(req.query.page)) || 1, 1);
+      const skip = (page - 1) * limit;
+
+      const [dispensations, totalCount] = await Promise.all([
+        prisma.prescriptionDispensation.findMany({
+          where: { pharmacyId },
+          include: {
+            item: { select: { medicationName: true, dose: true } },
+            prescription: { select: { id: true, patientId: true, status: true } }
+          },
+          orderBy: { dispensedAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.prescriptionDispensation.count({ where: { pharmacyId } })
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          dispensations,
+          pagination: {
+            page,
+            limit,
+            total: totalCount,
+            pages: Math.ceil(totalCount / limit)
+          }
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error getting dispensing history', { error });
+      res.status(500).json({ error: 'Failed to get dispensing history' });
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import ConsentPolicyService from '../services/consent-policy.service';
 
 const prisma = new PrismaClient();
 
@@ -9,6 +10,8 @@ type AuthedRequest = Request & {
     role: string; 
   };
   consentId?: string; // Set by consent middleware
+  consentScopes?: string[]; // Set by consent middleware; unset for unrestricted access
+  consentPatientId?: string; // Set by consent middleware
 };
 
 // Encounters
@@ -92,7 +95,6 @@ export const updateEncounter = async (req: AuthedRequest, res: Response) => {
 export const getEncounter = async (req: AuthedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const actor = req.user!;
 
     const enc = await prisma.encounter.findUnique({ 
       where: { id },
@@ -101,15 +103,18 @@ export const getEncounter = async (req: AuthedRequest, res: Response) => {
       }
     });
 
-    if (!enc) {
+    // Consent was checked for req.consentPatientId; other patients' encounters stay hidden
+    if (!enc || enc.patientId !== req.consentPatientId) {
       return res.status(404).json({ message: 'Encounter not found' });
     }
 
-    if (actor.role === 'patient' && enc.patientId !== actor.healthId) {
-      return res.status(403).json({ message: 'Access denied' });
-    }
-
-    return res.json({ encounter: enc });
+    return res.json({
+      encounter: {
+        ...enc,
+        // Lab and imaging results need the matching READ_LAB / READ_RADIOLOGY scope
+        observations: ConsentPolicyService.filterObservations(enc.observations, req.consentScopes)
+      }
+    });
   } catch (error) {
     console.error('getEncounter error:', error);
     return res.status(500).json({ message: 'Internal server error' });
@@ -118,18 +123,10 @@ export const getEncounter = async (req: AuthedRequest, res: Response) => {
 
 export const listEncounters = async (req: AuthedRequest, res: Response) => {
   try {
-    const actor = req.user!;
-    const { patientId, limit = '10', offset = '0' } = req.body;
-    console.log('listEncounters for actor:', actor.healthId, 'role:', actor.role, 'requested patientId:', patientId);
-
-    let pid = patientId;
-    if (actor.role === 'patient') {
-      pid = actor.healthId; // Patient can only view their own encounters
-    } else if (!patientId) {
-      return res.status(400).json({ message: 'Patient ID is required for non-patient users' });
-    }
+    const { limit = '10', offset = '0' } = req.body;
 
-    console.log('Using patientId:', pid);
+    // The patient the consent middleware checked access for
+    const pid = req.consentPatientId!;
 
     const encs = await prisma.encounter.findMany({
       where: { patientId: pid },
@@ -141,7 +138,12 @@ export const listEncounters = async (req: AuthedRequest, res: Response) => {
       }
     });
 
-    return res.json({ encounters: encs });
+    return res.json({
+      encounters: encs.map(enc => ({
+        ...enc,
+        observations: ConsentPolicyService.filterObservations(enc.observations, req.consentScopes)
+      }))
+    });
   } catch (error) {
     console.error('listEncounters error:', error);
     return res.status(500).json({ message: 'Internal server error' });
@@ -288,19 +290,22 @@ export const createObservation = async (req: AuthedRequest, res: Response) => {
 export const getObservation = async (req: AuthedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const actor = req.user!;
 
     const obs = await prisma.observation.findUnique({ 
       where: { id },
       include: { encounter: true }
     });
 
-    if (!obs) {
+    // Consent was checked for req.consentPatientId; other patients' observations stay hidden
+    if (!obs || obs.patientId !== req.consentPatientId) {
       return res.status(404).json({ message: 'Observation not found' });
     }
 
-    if (actor.role === 'patient' && obs.patientId !== actor.healthId) {
-      return res.status(403).json({ message: 'Access denied' });
+    if (ConsentPolicyService.filterObservations([obs], req.consentScopes).length === 0) {
+      return res.status(403).json({
+        message: 'Access denied: consent does not cover this observation',
+        requiredScope: [ConsentPolicyService.observationScope(obs)]
+      });
     }
 
     return res.json({ observation: obs });
@@ -312,18 +317,10 @@ export const getObservation = async (req: AuthedRequest, res: Response) => {
 
 export const listObservations = async (req: AuthedRequest, res: Response) => {
   try {
-    const actor = req.user!;
-    const { patientId, encounterId, limit = '20', offset = '0' } = req.body;
-    console.log('listObservations for actor:', actor.healthId, 'role:', actor.role, 'requested patientId:', patientId);
-
-    let pid = patientId;
-    if (actor.role === 'patient') {
-      pid = actor.healthId; // Patient can only view their own observations
-    } else if (!patientId) {
-      return res.status(400).json({ message: 'Patient ID is required for non-patient users' });
-    }
+    const { encounterId, limit = '20', offset = '0' } = req.body;
 
-    console.log('Using patientId:', pid);
+    // The patient the consent middleware checked access for
+    const pid = req.consentPatientId!;
 
     const where: any = { patientId: pid };
     if (encounterId) where.encounterId = encounterId;
@@ -340,7 +337,8 @@ export const listObservations = async (req: AuthedRequest, res: Response) => {
       }
     });
 
-    return res.json({ observations: obs });
+    // Only the observation categories the consent covers
+    return res.json({ observations: ConsentPolicyService.filterObservations(obs, req.consentScopes) });
   } catch (error) {
     console.error('listObservations error:', error);
     return res.status(500).json({ message: 'Internal server error' });
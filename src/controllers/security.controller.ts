@@ -2,6 +2,13 @@ import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import argon2 from 'argon2';
 import crypto from 'crypto';
+import NotificationService from '../services/notification.service';
+import AuditService from '../services/audit.service';
+import TwoFactorService from '../services/two-factor.service';
+import WebAuthnService from '../services/webauthn.service';
+import SessionService from '../services/session.service';
+import LoginLockoutService from '../services/login-lockout.service';
+import { evaluateIpAccess, isValidIpRule } from '../utils/ip-rules';
 
 const prisma = new PrismaClient();
 
@@ -12,6 +19,7 @@ interface AuthenticatedRequest extends Request {
     role: string;
     status: string;
     tokenId: string;
+    sessionId?: string;
   };
 }
 
@@ -95,6 +103,15 @@ export const changePassword = async (req: AuthenticatedRequest, res: Response) =
       })
     ]);
 
+    await NotificationService.notify({
+      recipientId: userId,
+      category: 'SECURITY',
+      priority: 'HIGH',
+      title: 'Password changed',
+      message: 'Your CuraNet password was changed. If this wasn\'t you, reset your password and contact support immediately.',
+      data: { ipAddress: req.ip ?? null, userAgent: req.get('User-Agent') ?? null }
+    });
+
     res.json({
       success: true,
       message: 'Password changed successfully'
@@ -117,7 +134,7 @@ export const listSessions = async (req: AuthenticatedRequest, res: Response) =>
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const currentTokenId = req.user?.tokenId;
+    const currentSessionId = req.user?.sessionId;
 
     // Get all active sessions
     const sessions = await prisma.userSession.findMany({
@@ -138,6 +155,8 @@ export const listSessions = async (req: AuthenticatedRequest, res: Response) =>
         browser: true,
         os: true,
         isTrusted: true,
+        riskLevel: true,
+        riskSignals: true,
         lastActivity: true,
         expiresAt: true,
         createdAt: true
@@ -173,7 +192,7 @@ export const listSessions = async (req: AuthenticatedRequest, res: Response) =>
       data: {
         sessions: sessions.map(session => ({
           ...session,
-          isCurrent: session.id === currentTokenId
+          isCurrent: session.id === currentSessionId
         })),
         refreshTokens: refreshTokens.map(token => ({
           id: token.id,
@@ -220,13 +239,17 @@ export const revokeSession = async (req: AuthenticatedRequest, res: Response) =>
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    // Revoke the session
-    await prisma.userSession.update({
-      where: { id: sessionId },
-      data: {
-        isActive: false,
-        lastActivity: new Date()
-      }
+    // End the session and its refresh tokens; access tokens stop working immediately
+    await SessionService.end(sessionId, userId);
+
+    await NotificationService.notify({
+      recipientId: userId,
+      category: 'SECURITY',
+      title: 'Session signed out',
+      message: `A session on ${session.deviceInfo || 'an unknown device'} was signed out of your account.`,
+      resourceType: 'UserSession',
+      resourceId: sessionId,
+      channels: ['EMAIL']
     });
 
     res.json({
@@ -251,33 +274,45 @@ export const revokeAllOtherSessions = async (req: AuthenticatedRequest, res: Res
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const currentTokenId = req.user?.tokenId;
+    const currentSessionId = req.user?.sessionId;
+    const now = new Date();
 
     // Revoke all other sessions
-    await prisma.$transaction([
+    const [revokedSessions] = await prisma.$transaction([
       prisma.userSession.updateMany({
         where: {
           userId,
-          id: { not: currentTokenId },
+          ...(currentSessionId && { id: { not: currentSessionId } }),
           isActive: true
         },
         data: {
           isActive: false,
-          lastActivity: new Date()
+          revokedAt: now,
+          revokedBy: userId
         }
       }),
       prisma.refreshToken.updateMany({
         where: {
           userId,
-          id: { not: currentTokenId },
+          ...(currentSessionId && { OR: [{ sessionId: null }, { sessionId: { not: currentSessionId } }] }),
           revokedAt: null
         },
         data: {
-          revokedAt: new Date()
+          revokedAt: now
         }
       })
     ]);
 
+    if (revokedSessions.count > 0) {
+      await NotificationService.notify({
+        recipientId: userId,
+        category: 'SECURITY',
+        title: 'Signed out of other sessions',
+        message: `${revokedSessions.count} other session${revokedSessions.count === 1 ? ' was' : 's were'} signed out of your account.`,
+        channels: ['EMAIL']
+      });
+    }
+
     res.json({
       success: true,
       message: 'All other sessions revoked successfully'
@@ -289,6 +324,63 @@ export const revokeAllOtherSessions = async (req: AuthenticatedRequest, res: Res
   }
 };
 
+/**
+ * Trust or untrust the device a session was signed in from
+ * PUT /api/security/sessions/:sessionId/trust
+ * Sign-ins from a trusted device do not raise new network alerts
+ */
+export const setSessionTrust = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { sessionId } = req.params;
+    const { trusted } = req.body;
+
+    if (typeof trusted !== 'boolean') {
+      return res.status(400).json({ error: 'trusted must be a boolean' });
+    }
+
+    const session = await prisma.userSession.findFirst({
+      where: { id: sessionId, userId },
+      select: { id: true, deviceId: true, deviceInfo: true }
+    });
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const updated = await SessionService.setDeviceTrust(userId, sessionId, trusted);
+    if (updated === null) {
+      return res.status(400).json({ error: 'This session did not report a device fingerprint and cannot be trusted' });
+    }
+
+    await AuditService.logAction({
+      actorId: userId,
+      actorRole: req.user!.role,
+      action: trusted ? 'DEVICE_TRUSTED' : 'DEVICE_UNTRUSTED',
+      resourceType: 'UserSession',
+      resourceId: sessionId,
+      patientHealthId: userId,
+      metadata: { deviceId: session.deviceId, sessionsUpdated: updated },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      message: trusted ? 'Device marked as trusted' : 'Device is no longer trusted',
+      data: { sessionId, isTrusted: trusted }
+    });
+
+  } catch (error) {
+    console.error('Error updating session trust:', error);
+    res.status(500).json({ error: 'Failed to update session trust' });
+  }
+};
+
 /**
  * Get recovery options (backup email/phone)
  * GET /api/security/recovery-options
@@ -420,7 +512,10 @@ export const getSecuritySettings = async (req: AuthenticatedRequest, res: Respon
         deviceTracking: true,
         passwordChangedAt: true,
         maxConcurrentSessions: true,
-        autoLockTimeout: true
+        autoLockTimeout: true,
+        requireBiometric: true,
+        allowedIpAddresses: true,
+        blockedIpAddresses: true
       }
     });
 
@@ -433,7 +528,10 @@ export const getSecuritySettings = async (req: AuthenticatedRequest, res: Respon
         deviceTracking: true,
         passwordChangedAt: null,
         maxConcurrentSessions: 5,
-        autoLockTimeout: 900
+        autoLockTimeout: 900,
+        requireBiometric: false,
+        allowedIpAddresses: [],
+        blockedIpAddresses: []
       }
     });
 
@@ -442,3 +540,602 @@ export const getSecuritySettings = async (req: AuthenticatedRequest, res: Respon
     res.status(500).json({ error: 'Failed to get security settings' });
   }
 };
+
+/**
+ * Get two-factor authentication status
+ * GET /api/security/2fa
+ */
+export const getTwoFactorStatus = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const status = await TwoFactorService.getStatus(userId);
+
+    res.json({
+      success: true,
+      data: status
+    });
+
+  } catch (error) {
+    console.error('Error getting two-factor status:', error);
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+};
+
+/**
+ * Start two-factor setup
+ * POST /api/security/2fa/setup
+ * Returns the secret and otpauth:// URI for the authenticator app (shown as a QR code)
+ */
+export const setupTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await TwoFactorService.beginEnrollment(userId, req.user!.email || userId);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ error: result.error });
+    }
+
+    res.json({
+      success: true,
+      message: 'Scan the code with your authenticator app, then confirm with a code from the app',
+      data: {
+        secret: result.secret,
+        otpauthUri: result.otpauthUri
+      }
+    });
+
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+};
+
+/**
+ * Confirm two-factor setup
+ * POST /api/security/2fa/confirm
+ * Enables 2FA and returns the backup codes, which are never shown again
+ */
+export const confirmTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'Verification code is required' });
+    }
+
+    const result = await TwoFactorService.confirmEnrollment(userId, String(code));
+    if (!result.success) {
+      return res.status(result.status || 400).json({ error: result.error });
+    }
+
+    await AuditService.logAction({
+      actorId: userId,
+      actorRole: req.user!.role,
+      action: 'TWO_FACTOR_ENABLED',
+      resourceType: 'SecuritySettings',
+      resourceId: userId,
+      patientHealthId: userId,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { backupCodes: result.backupCodes }
+    });
+
+  } catch (error) {
+    console.error('Error confirming two-factor setup:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+};
+
+/**
+ * Regenerate backup codes
+ * POST /api/security/2fa/backup-codes
+ */
+export const regenerateBackupCodes = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'Authenticator code is required' });
+    }
+
+    const result = await TwoFactorService.regenerateBackupCodes(userId, String(code));
+    if (!result.success) {
+      return res.status(result.status || 400).json({ error: result.error });
+    }
+
+    await AuditService.logAction({
+      actorId: userId,
+      actorRole: req.user!.role,
+      action: 'TWO_FACTOR_BACKUP_CODES_REGENERATED',
+      resourceType: 'SecuritySettings',
+      resourceId: userId,
+      patientHealthId: userId,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      message: 'New backup codes generated. Previous codes no longer work.',
+      data: { backupCodes: result.backupCodes }
+    });
+
+  } catch (error) {
+    console.error('Error regenerating backup codes:', error);
+    res.status(500).json({ error: 'Failed to regenerate backup codes' });
+  }
+};
+
+/**
+ * Disable two-factor authentication
+ * POST /api/security/2fa/disable
+ * Requires the account password and a current code (or backup code)
+ */
+export const disableTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { password, code } = req.body;
+    if (!password || !code) {
+      return res.status(400).json({ error: 'Password and verification code are required' });
+    }
+
+    if (typeof password !== 'string') {
+      return res.status(400).json({ error: 'Password must be a string' });
+    }
+
+    // Both factors are throttled; codes share the sign-in challenge's counter
+    const passwordTarget = { ip: req.ip, account: `disable-2fa:${userId}` };
+    const codeTarget = { ip: req.ip, account: `mfa:${userId}` };
+    const lockouts = await Promise.all([
+      LoginLockoutService.check(passwordTarget),
+      LoginLockoutService.check(codeTarget)
+    ]);
+    const lockout = lockouts.find(entry => entry.locked);
+    if (lockout) {
+      res.set('Retry-After', String(lockout.retryAfterSeconds));
+      return res.status(429).json({ error: 'Too many failed attempts, please try again later' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { healthId: userId },
+      select: { healthId: true, passwordHash: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const isValidPassword = await argon2.verify(user.passwordHash, addPepper(password));
+    if (!isValidPassword) {
+      await LoginLockoutService.recordFailure(passwordTarget);
+      return res.status(401).json({ error: 'Password is incorrect' });
+    }
+
+    const result = await TwoFactorService.verifyCode(userId, String(code));
+    if (!result.success) {
+      if (result.status !== 400) {
+        await LoginLockoutService.recordFailure(codeTarget);
+      }
+      return res.status(result.status || 401).json({ error: result.error });
+    }
+
+    await LoginLockoutService.clearAccount(passwordTarget.account);
+    await LoginLockoutService.clearAccount(codeTarget.account);
+    await TwoFactorService.disable(userId);
+
+    await AuditService.logAction({
+      actorId: userId,
+      actorRole: req.user!.role,
+      action: 'TWO_FACTOR_DISABLED',
+      resourceType: 'SecuritySettings',
+      resourceId: userId,
+      patientHealthId: userId,
+      metadata: { verifiedWith: result.method },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+};
+
+/**
+ * List registered passkeys
+ * GET /api/security/passkeys
+ */
+export const listPasskeys = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const [passkeys, requirement] = await Promise.all([
+      WebAuthnService.listCredentials(userId),
+      WebAuthnService.getLoginRequirement(userId)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        passkeys,
+        requireBiometric: requirement.required
+      }
+    });
+
+  } catch (error) {
+    console.error('Error listing passkeys:', error);
+    res.status(500).json({ error: 'Failed to list passkeys' });
+  }
+};
+
+/**
+ * Start passkey registration
+ * POST /api/security/passkeys/register/options
+ * Returns PublicKeyCredentialCreationOptions for navigator.credentials.create()
+ */
+export const getPasskeyRegistrationOptions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const options = await WebAuthnService.registrationOptions({ healthId: userId, email: req.user!.email });
+
+    res.json({
+      success: true,
+      data: { options }
+    });
+
+  } catch (error) {
+    console.error('Error starting passkey registration:', error);
+    res.status(500).json({ error: 'Failed to start passkey registration' });
+  }
+};
+
+/**
+ * Finish passkey registration
+ * POST /api/security/passkeys/register
+ */
+export const registerPasskey = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { response, deviceName } = req.body;
+    if (!response?.id || !response?.response) {
+      return res.status(400).json({ error: 'Passkey response is required' });
+    }
+
+    const name = typeof deviceName === 'string' && deviceName.trim() ? deviceName.trim().slice(0, 100) : 'Passkey';
+
+    const result = await WebAuthnService.register(userId, response, name);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ error: result.error });
+    }
+
+    await AuditService.logAction({
+      actorId: userId,
+      actorRole: req.user!.role,
+      action: 'PASSKEY_REGISTERED',
+      resourceType: 'WebAuthnCredential',
+      resourceId: result.credential!.id,
+      patientHealthId: userId,
+      metadata: { deviceName: name, deviceType: result.credential!.deviceType },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Passkey registered',
+      data: result.credential
+    });
+
+  } catch (error) {
+    console.error('Error registering passkey:', error);
+    res.status(500).json({ error: 'Failed to register passkey' });
+  }
+};
+
+/**
+ * Rename a passkey
+ * PATCH /api/security/passkeys/:passkeyId
+ */
+export const renamePasskey = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { deviceName } = req.body;
+    if (typeof deviceName !== 'string' || !deviceName.trim()) {
+      return res.status(400).json({ error: 'Device name is required' });
+    }
+
+    const result = await WebAuthnService.rename(userId, req.params.passkeyId, deviceName.trim().slice(0, 100));
+    if (!result.success) {
+      return res.status(result.status || 400).json({ error: result.error });
+    }
+
+    res.json({
+      success: true,
+      message: 'Passkey renamed',
+      data: result.credential
+    });
+
+  } catch (error) {
+    console.error('Error renaming passkey:', error);
+    res.status(500).json({ error: 'Failed to rename passkey' });
+  }
+};
+
+/**
+ * Remove a passkey
+ * DELETE /api/security/passkeys/:passkeyId
+ */
+export const deletePasskey = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await WebAuthnService.remove(userId, req.params.passkeyId);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ error: result.error });
+    }
+
+    await AuditService.logAction({
+      actorId: userId,
+      actorRole: req.user!.role,
+      action: 'PASSKEY_REMOVED',
+      resourceType: 'WebAuthnCredential',
+      resourceId: result.credential!.id,
+      patientHealthId: userId,
+      metadata: { deviceName: result.credential!.deviceName },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      message: 'Passkey removed'
+    });
+
+  } catch (error) {
+    console.error('Error removing passkey:', error);
+    res.status(500).json({ error: 'Failed to remove passkey' });
+  }
+};
+
+/**
+ * Require a passkey as the second factor
+ * PUT /api/security/passkeys/settings
+ * When requireBiometric is on, password logins must be completed with a user-verified passkey
+ */
+export const updatePasskeySettings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { requireBiometric } = req.body;
+    if (typeof requireBiometric !== 'boolean') {
+      return res.status(400).json({ error: 'requireBiometric must be a boolean' });
+    }
+
+    const result = await WebAuthnService.setRequired(userId, requireBiometric);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ error: result.error });
+    }
+
+    res.json({
+      success: true,
+      message: requireBiometric ? 'Passkey now required to sign in' : 'Passkey no longer required to sign in',
+      data: { requireBiometric }
+    });
+
+  } catch (error) {
+    console.error('Error updating passkey settings:', error);
+    res.status(500).json({ error: 'Failed to update passkey settings' });
+  }
+};
+
+/**
+ * Unlock a session locked by inactivity
+ * POST /api/security/sessions/unlock
+ */
+export const unlockSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    const sessionId = req.user?.sessionId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!sessionId) {
+      return res.status(400).json({ error: 'This sign-in has no session to unlock' });
+    }
+
+    const { password } = req.body;
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Password is required' });
+    }
+
+    // Guessing at a locked session's password is throttled like sign-in
+    const lockoutTarget = { ip: req.ip, account: `unlock:${userId}` };
+    const lockout = await LoginLockoutService.check(lockoutTarget);
+    if (lockout.locked) {
+      res.set('Retry-After', String(lockout.retryAfterSeconds));
+      return res.status(429).json({ error: 'Too many incorrect passwords, please try again later' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { healthId: userId },
+      select: { passwordHash: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const isValidPassword = await argon2.verify(user.passwordHash, addPepper(password));
+    if (!isValidPassword) {
+      await LoginLockoutService.recordFailure(lockoutTarget);
+      return res.status(401).json({ error: 'Password is incorrect' });
+    }
+
+    await LoginLockoutService.clearAccount(lockoutTarget.account);
+    await SessionService.unlock(sessionId);
+
+    res.json({
+      success: true,
+      message: 'Session unlocked'
+    });
+
+  } catch (error) {
+    console.error('Error unlocking session:', error);
+    res.status(500).json({ error: 'Failed to unlock session' });
+  }
+};
+
+/**
+ * Update session and IP access settings
+ * PUT /api/security/settings
+ * IP rules are addresses or CIDR blocks; rules that would block the current address are rejected
+ */
+export const updateSecuritySettings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const {
+      sessionTimeout,
+      autoLockTimeout,
+      maxConcurrentSessions,
+      allowedIpAddresses,
+      blockedIpAddresses,
+      loginNotifications,
+      deviceTracking
+    } = req.body;
+
+    const isIntInRange = (value: unknown, min: number, max: number) =>
+      Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+    const isRuleList = (value: unknown) =>
+      Array.isArray(value) && value.length <= 50 && value.every(rule => typeof rule === 'string' && isValidIpRule(rule));
+
+    if (sessionTimeout !== undefined && !isIntInRange(sessionTimeout, 300, 30 * 24 * 3600)) {
+      return res.status(400).json({ error: 'sessionTimeout must be between 300 seconds and 30 days' });
+    }
+    if (autoLockTimeout !== undefined && !isIntInRange(autoLockTimeout, 60, 30 * 24 * 3600)) {
+      return res.status(400).json({ error: 'autoLockTimeout must be between 60 seconds and 30 days' });
+    }
+    if (maxConcurrentSessions !== undefined && !isIntInRange(maxConcurrentSessions, 1, 50)) {
+      return res.status(400).json({ error: 'maxConcurrentSessions must be between 1 and 50' });
+    }
+    if (allowedIpAddresses !== undefined && !isRuleList(allowedIpAddresses)) {
+      return res.status(400).json({ error: 'allowedIpAddresses must be a list of IP addresses or CIDR ranges' });
+    }
+    if (blockedIpAddresses !== undefined && !isRuleList(blockedIpAddresses)) {
+      return res.status(400).json({ error: 'blockedIpAddresses must be a list of IP addresses or CIDR ranges' });
+    }
+    if (loginNotifications !== undefined && typeof loginNotifications !== 'boolean') {
+      return res.status(400).json({ error: 'loginNotifications must be a boolean' });
+    }
+    if (deviceTracking !== undefined && typeof deviceTracking !== 'boolean') {
+      return res.status(400).json({ error: 'deviceTracking must be a boolean' });
+    }
+
+    const current = await SessionService.getPolicy(userId);
+    const updates = {
+      ...(sessionTimeout !== undefined && { sessionTimeout }),
+      ...(autoLockTimeout !== undefined && { autoLockTimeout }),
+      ...(maxConcurrentSessions !== undefined && { maxConcurrentSessions }),
+      ...(allowedIpAddresses !== undefined && { allowedIpAddresses: allowedIpAddresses.map((rule: string) => rule.trim()) }),
+      ...(blockedIpAddresses !== undefined && { blockedIpAddresses: blockedIpAddresses.map((rule: string) => rule.trim()) }),
+      ...(loginNotifications !== undefined && { loginNotifications }),
+      ...(deviceTracking !== undefined && { deviceTracking })
+    };
+
+    // Don't let users lock themselves out from where they are now
+    if (evaluateIpAccess(req.ip, { ...current, ...updates }) !== 'allowed') {
+      return res.status(400).json({ error: 'These IP rules would block your current IP address' });
+    }
+
+    const settings = await prisma.securitySettings.upsert({
+      where: { userId },
+      create: { userId, ...updates },
+      update: updates,
+      select: {
+        sessionTimeout: true,
+        autoLockTimeout: true,
+        maxConcurrentSessions: true,
+        allowedIpAddresses: true,
+        blockedIpAddresses: true,
+        loginNotifications: true,
+        deviceTracking: true
+      }
+    });
+
+    await AuditService.logAction({
+      actorId: userId,
+      actorRole: req.user!.role,
+      action: 'SECURITY_SETTINGS_UPDATED',
+      resourceType: 'SecuritySettings',
+      resourceId: userId,
+      patientHealthId: userId,
+      metadata: { fields: Object.keys(updates) },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      message: 'Security settings updated',
+      data: settings
+    });
+
+  } catch (error) {
+    console.error('Error updating security settings:', error);
+    res.status(500).json({ error: 'Failed to update security settings' });
+  }
+};
@@ -1,6 +1,10 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import runtimeConfig from '../config/runtime-config';
+import NotificationService from '../services/notification.service';
+import CriticalAlertService from '../services/critical-alert.service';
+import ReferenceRangeService from '../services/reference-range.service';
+import TerminologyService from '../services/terminology.service';
 
 const prisma = new PrismaClient();
 
@@ -41,6 +45,7 @@ export const createSelfReportedObservation = async (req: AuthedRequest, res: Res
         const actor = req.user!;
         const { 
             code, 
+            codingCode,
             value, 
             unit, 
             recordedAt,
@@ -49,9 +54,9 @@ export const createSelfReportedObservation = async (req: AuthedRequest, res: Res
             notes 
         } = req.body;
 
-        if (!code || value === undefined) {
+        if ((!code && !codingCode) || value === undefined) {
             return res.status(400).json({ 
-                message: 'code and value are required' 
+                message: 'code (or codingCode) and value are required' 
             });
         }
 
@@ -70,6 +75,21 @@ export const createSelfReportedObservation = async (req: AuthedRequest, res: Res
             });
         }
 
+        // Map to a LOINC code, keeping the patient's wording as the display name
+        const coding = await TerminologyService.resolveCoding({ text: code, code: codingCode }, 'LOINC');
+        if (!coding.success) {
+            return res.status(coding.status || 400).json({ message: coding.error });
+        }
+        const obsCode = coding.display!;
+
+        // Flag against the same reference range catalog used for clinician entries
+        const rangeCheck = await ReferenceRangeService.evaluate({ code: obsCode, value, unit, patientId: actor.healthId });
+        if (!rangeCheck.success) {
+            return res.status(rangeCheck.status || 400).json({ message: rangeCheck.error });
+        }
+        const { definition } = rangeCheck;
+        const evaluation = rangeCheck.evaluation!;
+
         // Enhanced observation data with self-reporting metadata
         const enhancedValue = {
             value: value,
@@ -79,16 +99,21 @@ export const createSelfReportedObservation = async (req: AuthedRequest, res: Res
             attachmentUrl: attachmentUrl || null,
             patientNotes: notes || null,
             recordedAt: recordedAt || new Date().toISOString(),
-            isCritical: checkCriticalValue(code, value),
-            category: determineCategory(code),
-            priority: determinePriority(code, value)
+            isCritical: evaluation.isCritical,
+            abnormalFlag: evaluation.abnormalFlag,
+            // Same precedence as clinician entries, since consent scopes key off the category
+            category: definition?.category || coding.concept?.category || determineCategory(obsCode),
+            priority: evaluation.priority,
+            referenceEvaluation: evaluation
         };
 
         const observation = await prisma.observation.create({
             data: {
                 patientId: actor.healthId,
                 providerId: actor.healthId, // Self-reported, so patient is also provider
-                code,
+                code: obsCode,
+                codingSystem: coding.concept?.system ?? null,
+                codingCode: coding.concept?.code ?? null,
                 value: enhancedValue,
                 unit,
                 recordedAt: recordedAt ? new Date(recordedAt) : new Date(),
@@ -258,6 +283,19 @@ export const verifyObservation = async (req: AuthedRequest, res: Response) => {
         // Log verification action
         await logVerificationAction(actor.healthId, id, status, notes);
 
+        const readingName = obsData?.code || 'self-reported reading';
+        await NotificationService.notify({
+            recipientId: observation.patientId,
+            category: 'VERIFICATION',
+            title: status === 'VERIFIED' ? 'Reading verified' : 'Reading not verified',
+            message: status === 'VERIFIED'
+                ? `Your ${readingName} has been verified by your doctor.`
+                : `Your ${readingName} was not verified by your doctor${notes ? `: ${notes}` : '.'}`,
+            resourceType: 'Observation',
+            resourceId: id,
+            data: { observationId: id, status, verifiedByDoctorId: actor.healthId }
+        });
+
         return res.json({ 
             observation: updatedObservation,
             message: `Observation ${status.toLowerCase()} successfully`
@@ -329,39 +367,6 @@ export const getUnverifiedObservations = async (req: AuthedRequest, res: Respons
 
 // Helper Functions
 
-const checkCriticalValue = (code: string, value: any): boolean => {
-    const lowerCode = code.toLowerCase();
-    
-    if (typeof value === 'object') {
-        // Blood pressure
-        if (lowerCode.includes('blood pressure') || lowerCode.includes('bp')) {
-            const systolic = value.systolic || 0;
-            const diastolic = value.diastolic || 0;
-            return systolic >= 180 || diastolic >= 120 || systolic <= 90;
-        }
-    } else {
-        const numValue = parseFloat(value);
-        if (isNaN(numValue)) return false;
-
-        // Blood glucose
-        if (lowerCode.includes('glucose') || lowerCode.includes('sugar')) {
-            return numValue >= 400 || numValue <= 40;
-        }
-        
-        // Heart rate
-        if (lowerCode.includes('heart rate') || lowerCode.includes('pulse')) {
-            return numValue >= 150 || numValue <= 40;
-        }
-        
-        // Temperature
-        if (lowerCode.includes('temperature')) {
-            return numValue >= 104 || numValue <= 95;
-        }
-    }
-    
-    return false;
-};
-
 const determineCategory = (code: string): string => {
     const lowerCode = code.toLowerCase();
     
@@ -379,25 +384,18 @@ const determineCategory = (code: string): string => {
     return 'OTHER';
 };
 
-const determinePriority = (code: string, value: any): string => {
-    if (checkCriticalValue(code, value)) {
-        return 'CRITICAL';
-    }
-    return 'NORMAL';
-};
-
 const triggerCriticalValueAlert = async (patientId: string, observation: any, obsData: any) => {
-    console.log(`🚨 CRITICAL SELF-REPORTED VALUE ALERT:`);
-    console.log(`Patient: ${patientId}`);
-    console.log(`Observation: ${observation.code} = ${JSON.stringify(obsData.value)}`);
-    console.log(`Time: ${new Date().toISOString()}`);
-    
-    // PRODUCTION: Implement alert notification system
-    // Integrate with notification service to alert healthcare providers of critical values
-    // - Send notification to patient's primary care doctor
-    // - Send SMS/email alert to patient
-    // - Log in emergency alert system
-    // - Potentially trigger emergency contact notification
+    // Routed to consented providers, escalating to emergency contacts if unacknowledged
+    await CriticalAlertService.raiseAlert({
+        patientId,
+        observation: {
+            id: observation.id,
+            code: observation.code,
+            value: obsData.value,
+            unit: observation.unit
+        },
+        source: 'SELF_REPORTED'
+    });
 };
 
 const logSelfReportingAction = async (userId: string, observationId: string, action: string) => {
@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { TerminologySystem } from '@prisma/client';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import TerminologyService, { SYSTEM_URIS } from '../services/terminology.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+}
+
+const ConceptSchema = z.object({
+  code: z.string().min(1).max(64),
+  display: z.string().min(1),
+  synonyms: z.array(z.string()).optional(),
+  category: z.string().nullable().optional(),
+  subcategory: z.string().nullable().optional(),
+  defaultUnit: z.string().nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+const ImportSchema = z.object({
+  system: z.enum(['LOINC', 'SNOMED_CT']),
+  version: z.string().optional(),
+  concepts: z.array(ConceptSchema).min(1).max(10000)
+});
+
+// Accept "loinc", "snomed", "snomed_ct" or the enum value
+const parseSystem = (value: unknown): TerminologySystem | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  const normalized = String(value).toUpperCase().replace(/-/g, '_');
+  if (normalized === 'LOINC') return 'LOINC';
+  if (normalized === 'SNOMED' || normalized === 'SNOMED_CT') return 'SNOMED_CT';
+  return null;
+};
+
+export class TerminologyController {
+  /**
+   * Search Concepts
+   * GET /api/terminology/search?q=&system=&category=&limit=&offset=
+   */
+  static async search(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { q = '', category, limit = 20, offset = 0 } = req.query;
+
+      const system = parseSystem(req.query.system);
+      if (system === null) {
+        return res.status(400).json({ error: 'system must be LOINC or SNOMED_CT' });
+      }
+
+      const result = await TerminologyService.search(String(q), {
+        system,
+        category: category as string | undefined,
+        limit: Math.min(Number(limit) || 20, 100),
+        offset: Number(offset) || 0
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      logger.error('Error searching terminology', { error });
+      res.status(500).json({ error: 'Failed to search terminology' });
+    }
+  }
+
+  /**
+   * Autocomplete Concepts
+   * GET /api/terminology/autocomplete?q=&system=
+   * Lightweight suggestions for code pickers; requires at least 2 characters
+   */
+  static async autocomplete(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { q = '', limit = 10 } = req.query;
+
+      const system = parseSystem(req.query.system);
+      if (system === null) {
+        return res.status(400).json({ error: 'system must be LOINC or SNOMED_CT' });
+      }
+
+      const suggestions = await TerminologyService.autocomplete(String(q), system, Math.min(Number(limit) || 10, 25));
+
+      res.status(200).json({
+        success: true,
+        data: { suggestions }
+      });
+
+    } catch (error) {
+      logger.error('Error autocompleting terminology', { error });
+      res.status(500).json({ error: 'Failed to get suggestions' });
+    }
+  }
+
+  /**
+   * Lookup Concept
+   * GET /api/terminology/:system/:code
+   * Also serves as code validation: 404 when the code is unknown
+   */
+  static async lookup(req: AuthenticatedRequest, res: Response) {
+    try {
+      const system = parseSystem(req.params.system);
+      if (!system) {
+        return res.status(400).json({ error: 'system must be LOINC or SNOMED_CT' });
+      }
+
+      const concept = await TerminologyService.lookup(system, req.params.code);
+      if (!concept) {
+        return res.status(404).json({ error: `Unknown ${system} code` });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { concept, systemUri: SYSTEM_URIS[system] }
+      });
+
+    } catch (error) {
+      logger.error('Error looking up terminology concept', { error, code: req.params.code });
+      res.status(500).json({ error: 'Failed to look up code' });
+    }
+  }
+
+  /**
+   * Import Concepts
+   * POST /api/terminology/import
+   * Admin-only upsert of a batch of concepts; use the import script for full releases
+   */
+  static async importConcepts(req: AuthenticatedRequest, res: Response) {
+    try {
+      const adminId = req.user!.healthId;
+
+      const validation = ImportSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: validation.error.issues });
+      }
+
+      const { system, version, concepts } = validation.data;
+      const result = await TerminologyService.importConcepts(system, concepts, version);
+
+      await AuditService.logAction({
+        actorId: adminId,
+        actorRole: 'admin',
+        action: 'TERMINOLOGY_IMPORTED',
+        resourceType: 'TerminologyConcept',
+        resourceId: system,
+        patientHealthId: adminId,
+        metadata: { system, version: version || null, ...result },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: `Imported ${result.created + result.updated} ${system} concepts`
+      });
+
+    } catch (error) {
+      logger.error('Error importing terminology', { error });
+      res.status(500).json({ error: 'Failed to import terminology' });
+    }
+  }
+}
+
+export default TerminologyController;
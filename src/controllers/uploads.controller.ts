@@ -1,8 +1,19 @@
 import { Request, Response } from 'express';
+import { FileUpload } from '@prisma/client';
+import { z } from 'zod';
 import prisma from '../utils/prisma';
 import logger from '../utils/logger';
 import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
 import AuditService from '../services/audit.service';
+import ConsentPolicyService from '../services/consent-policy.service';
+import storageService, { StreamedMulterFile } from '../services/storage.service';
+import UploadSessionService from '../services/upload-session.service';
+import FileService from '../services/file.service';
+import FileShareService from '../services/file-share.service';
+import SystemSettingsService from '../services/system-settings.service';
+import runtimeConfig from '../config/runtime-config';
+import { SNIFF_BYTES, verifyFileType } from '../utils/file-type';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -14,33 +25,137 @@ interface AuthenticatedRequest extends Request {
   };
 }
 
+const ShareLinkSchema = z.object({
+  expiresInSeconds: z.number().int().positive().optional(),
+  singleUse: z.boolean().optional(),
+  recipient: z.string().max(200).optional()
+});
+
+// Share links are served by the API itself, so prefer the API's public URL
+const buildShareUrl = (req: Request, token: string): string => {
+  const baseUrl = process.env.BASE_URL?.trim() || `${req.protocol}://${req.get('host')}`;
+  return new URL(`/api/uploads/shared/${token}`, `${baseUrl.replace(/\/+$/, '')}/`).toString();
+};
+
+interface DownloadAccess {
+  file?: FileUpload;
+  status?: number;
+  body?: object;
+}
+
+/**
+ * Access checks shared by everything that serves file content: only
+ * completed uploads, and only once the malware scan is clean
+ */
+const checkDownloadable = (fileUpload: FileUpload | null): DownloadAccess => {
+  if (!fileUpload) {
+    return { status: 404, body: { error: 'File not found' } };
+  }
+
+  if (fileUpload.status === 'UPLOADING') {
+    return { status: 409, body: { error: 'File upload has not been completed' } };
+  }
+
+  if (fileUpload.scanStatus === 'INFECTED' || fileUpload.status === 'QUARANTINED') {
+    return { status: 403, body: { error: 'File has been quarantined by the malware scanner' } };
+  }
+
+  if (fileUpload.scanStatus === 'FAILED') {
+    return { status: 409, body: { error: 'File could not be scanned for malware and cannot be downloaded', scanStatus: fileUpload.scanStatus } };
+  }
+
+  if (fileUpload.scanStatus !== 'CLEAN') {
+    return {
+      status: 409,
+      body: {
+        error: 'File is awaiting a malware scan and cannot be downloaded yet',
+        scanStatus: fileUpload.scanStatus
+      }
+    };
+  }
+
+  return { file: fileUpload };
+};
+
+// Downloads are for the owner only
+const findDownloadableFile = async (fileId: string, ownerHealthId: string): Promise<DownloadAccess> =>
+  checkDownloadable(await prisma.fileUpload.findFirst({ where: { id: fileId, ownerHealthId } }));
+
+/**
+ * Previews follow the record attachment listing: the owner, admins, and
+ * doctors whose consent covers the kind of file (READ_RADIOLOGY for DICOM,
+ * READ_LAB for lab results) may see a file attached to a record
+ */
+const canPreview = async (fileUpload: FileUpload, viewer: NonNullable<AuthenticatedRequest['user']>): Promise<boolean> => {
+  if (fileUpload.ownerHealthId === viewer.healthId || viewer.role === 'admin') {
+    return true;
+  }
+
+  if (viewer.role !== 'doctor' || !fileUpload.recordId) {
+    return false;
+  }
+
+  const consentCheck = await AuditService.verifyConsent(
+    viewer.healthId,
+    fileUpload.ownerHealthId,
+    [ConsentPolicyService.attachmentScope(fileUpload)]
+  );
+  return consentCheck.hasConsent;
+};
+
+/**
+ * Start the malware scan for a finished upload. A DICOM upload keeps the
+ * patient/encounter it was sent for, and whichever scan marks it clean (this
+ * one or the uploads.scan-pending job) indexes it into imaging studies, so
+ * its headers are never parsed before then.
+ */
+const scanUpload = async (fileUpload: FileUpload, req: AuthenticatedRequest): Promise<void> => {
+  const { patientId, encounterId } = req.body ?? {};
+
+  if (fileUpload.mimeType === 'application/dicom' && (patientId || encounterId)) {
+    await prisma.fileUpload.update({
+      where: { id: fileUpload.id },
+      data: {
+        ingestPatientId: typeof patientId === 'string' ? patientId : null,
+        ingestEncounterId: typeof encounterId === 'string' ? encounterId : null
+      }
+    });
+  }
+
+  FileService.scanFile(fileUpload.id)
+    .catch(error => logger.error('Failed to scan upload', { fileId: fileUpload.id, error }));
+};
+
 export class UploadsController {
   /**
    * Upload File (Supports both FormData and Base64 JSON)
    * POST /api/uploads/file
-   * Stores file directly in database as base64
+   * Multipart uploads are streamed into blob storage; base64 JSON bodies are decoded and stored the same way
    */
   static async uploadFile(req: AuthenticatedRequest, res: Response) {
+    // Set when multer has already streamed the file into storage
+    const streamed = req.file as StreamedMulterFile | undefined;
+    const streamedKey = streamed?.storageKey;
+
     try {
       let filename: string;
-      let fileData: string; // base64
       let mimeType: string;
       let fileSizeBytes: number;
+      let fileBuffer: Buffer | null = null;
       const { recordId, description, tags, uploadToken } = req.body;
       
       const ownerHealthId = req.user?.healthId;
 
       if (!ownerHealthId) {
+        if (streamedKey) await storageService.delete(streamedKey);
         return res.status(401).json({ error: 'Authentication required' });
       }
 
       // Check if this is FormData upload (legacy) or JSON upload (new)
       if (req.file) {
-        // Legacy FormData upload - convert buffer to base64
         filename = req.file.originalname;
         mimeType = req.file.mimetype;
         fileSizeBytes = req.file.size;
-        fileData = req.file.buffer.toString('base64');
         
         logger.info('Legacy FormData upload received', {
           filename,
@@ -50,48 +165,53 @@ export class UploadsController {
       } else {
         // New JSON upload with base64
         filename = req.body.filename;
-        fileData = req.body.fileData;
         mimeType = req.body.mimeType;
 
-        if (!filename || !fileData || !mimeType) {
+        if (typeof filename !== 'string' || !filename || !req.body.fileData || !mimeType) {
           return res.status(400).json({
             error: 'Filename, file data, and MIME type are required'
           });
         }
 
-        fileSizeBytes = Buffer.from(fileData, 'base64').length;
+        fileBuffer = Buffer.from(req.body.fileData, 'base64');
+        fileSizeBytes = fileBuffer.length;
       }
 
+      // The stored name is echoed back in Content-Disposition on download
+      filename = FileService.sanitizeFilename(filename);
+
+      const rejectUpload = async (status: number, body: object) => {
+        if (streamedKey) await storageService.delete(streamedKey);
+        return res.status(status).json(body);
+      };
+
       // Validate file size (50MB limit)
       if (fileSizeBytes > 50 * 1024 * 1024) {
-        return res.status(400).json({
+        return rejectUpload(400, {
           error: 'File size exceeds 50MB limit'
         });
       }
 
-      // Validate MIME type
-      const allowedMimeTypes = [
-        'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp',
-        'application/pdf',
-        'application/msword',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'application/vnd.ms-excel',
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        'text/plain', 'text/csv', 'text/markdown'
-      ];
+      // Identify the file from its content rather than the declared MIME type
+      const allowedTypes = SystemSettingsService.getAllowedFileTypes();
+      const head = fileBuffer ? fileBuffer.subarray(0, SNIFF_BYTES) : streamed!.head!;
+      const fileType = verifyFileType(head, mimeType, allowedTypes);
 
-      if (!allowedMimeTypes.includes(mimeType)) {
-        return res.status(400).json({
-          error: `File type ${mimeType} not allowed`,
-          allowedTypes: allowedMimeTypes
+      if (!fileType.valid) {
+        return rejectUpload(400, {
+          error: fileType.error,
+          allowedTypes
         });
       }
+      mimeType = fileType.mimeType!;
 
-      // Calculate checksum
-      const fileBuffer = Buffer.from(fileData, 'base64');
-      const checksum = crypto.createHash('sha256').update(fileBuffer).digest('hex');
+      // Streamed uploads were hashed on the way in; JSON uploads are stored now
+      const stored = fileBuffer
+        ? await storageService.put(storageService.generateKey(), fileBuffer, mimeType)
+        : { key: streamedKey!, size: fileSizeBytes, checksum: streamed!.checksum! };
+      const checksum = stored.checksum;
 
-      // Create file upload record with base64 data
+      // Create file upload record pointing at the stored blob
       const fileUpload = await prisma.fileUpload.create({
         data: {
           ownerHealthId,
@@ -99,9 +219,10 @@ export class UploadsController {
           filename: `file-${Date.now()}-${crypto.randomBytes(8).toString('hex')}`,
           originalName: filename,
           mimeType,
-          fileSize: fileSizeBytes,
+          fileSize: stored.size,
           checksum,
-          fileData, // Store base64 directly in DB
+          storageKey: stored.key,
+          storageDriver: storageService.getDriverName(),
           status: 'COMPLETED',
           description: description || null,
           tags: tags || null,
@@ -134,6 +255,9 @@ export class UploadsController {
         fileSize: fileSizeBytes
       });
 
+      // Downloads stay blocked until the background scan marks the file clean
+      await scanUpload(fileUpload, req);
+
       res.status(200).json({
         success: true,
         data: {
@@ -144,17 +268,271 @@ export class UploadsController {
           checksum: fileUpload.checksum,
           uploadedAt: fileUpload.uploadedAt,
           description: fileUpload.description,
-          tags: fileUpload.tags
+          tags: fileUpload.tags,
+          scanStatus: fileUpload.scanStatus
         },
         message: 'File uploaded successfully'
       });
 
     } catch (error) {
+      if (streamedKey) {
+        await storageService.delete(streamedKey).catch(() => undefined);
+      }
       logger.error('Error uploading file:', error);
       res.status(500).json({ error: 'Failed to upload file' });
     }
   }
 
+  /**
+   * Initiate Upload Session
+   * POST /api/uploads/sessions
+   * Starts a resumable upload; the client declares the total size and SHA-256 up front
+   */
+  static async initiateUpload(req: AuthenticatedRequest, res: Response) {
+    try {
+      const ownerHealthId = req.user?.healthId;
+
+      if (!ownerHealthId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { filename, mimeType, fileSize, checksum, recordId, description, tags } = req.body;
+
+      if (!filename || !mimeType || fileSize === undefined || !checksum) {
+        return res.status(400).json({
+          error: 'Filename, MIME type, file size and checksum are required'
+        });
+      }
+
+      const result = await UploadSessionService.initiate({
+        ownerHealthId,
+        filename,
+        mimeType,
+        fileSize: Number(fileSize),
+        checksum: String(checksum),
+        recordId,
+        description,
+        tags
+      });
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      const session = result.upload!;
+      res.status(201).json({
+        success: true,
+        data: {
+          uploadId: session.id,
+          uploadToken: session.uploadToken,
+          fileSize: session.fileSize,
+          nextOffset: 0,
+          maxChunkBytes: runtimeConfig.uploadChunkMaxBytes,
+          expiresAt: session.expiresAt
+        },
+        message: 'Upload session created'
+      });
+
+    } catch (error) {
+      logger.error('Error initiating upload session:', error);
+      res.status(500).json({ error: 'Failed to initiate upload' });
+    }
+  }
+
+  /**
+   * Upload Chunk
+   * PUT /api/uploads/sessions/:uploadId/chunks?offset=
+   * Raw application/octet-stream body; the upload token is sent in the X-Upload-Token header
+   */
+  static async uploadChunk(req: AuthenticatedRequest, res: Response) {
+    try {
+      const ownerHealthId = req.user?.healthId;
+
+      if (!ownerHealthId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const uploadToken = req.get('X-Upload-Token');
+      if (!uploadToken) {
+        return res.status(400).json({ error: 'X-Upload-Token header is required' });
+      }
+
+      if (req.query.offset === undefined) {
+        return res.status(400).json({ error: 'offset query parameter is required' });
+      }
+
+      const result = await UploadSessionService.appendChunk(
+        req.params.uploadId,
+        ownerHealthId,
+        uploadToken,
+        Number(req.query.offset),
+        req
+      );
+
+      if (!result.success) {
+        // Don't leave the client blocked writing a body we are not going to read
+        req.resume();
+        return res.status(result.status || 400).json({
+          error: result.error,
+          ...(result.expectedOffset !== undefined && { expectedOffset: result.expectedOffset })
+        });
+      }
+
+      const session = result.upload!;
+      res.status(200).json({
+        success: true,
+        data: {
+          uploadId: session.id,
+          bytesReceived: session.bytesReceived,
+          nextOffset: session.bytesReceived,
+          fileSize: session.fileSize,
+          expiresAt: session.expiresAt
+        },
+        message: 'Chunk received'
+      });
+
+    } catch (error) {
+      logger.error('Error storing upload chunk:', error);
+      res.status(500).json({ error: 'Failed to store chunk' });
+    }
+  }
+
+  /**
+   * Get Upload Progress
+   * GET /api/uploads/sessions/:uploadId
+   * Tells a resuming client which offset to send next
+   */
+  static async getUploadProgress(req: AuthenticatedRequest, res: Response) {
+    try {
+      const ownerHealthId = req.user?.healthId;
+
+      if (!ownerHealthId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const progress = await UploadSessionService.getProgress(req.params.uploadId, ownerHealthId);
+
+      if (!progress) {
+        return res.status(404).json({ error: 'Upload session not found' });
+      }
+
+      res.json({
+        success: true,
+        data: progress
+      });
+
+    } catch (error) {
+      logger.error('Error fetching upload progress:', error);
+      res.status(500).json({ error: 'Failed to fetch upload progress' });
+    }
+  }
+
+  /**
+   * Complete Upload Session
+   * POST /api/uploads/sessions/:uploadId/complete
+   * Assembles the chunks and verifies the SHA-256 declared when the session was created
+   */
+  static async completeUpload(req: AuthenticatedRequest, res: Response) {
+    try {
+      const ownerHealthId = req.user?.healthId;
+
+      if (!ownerHealthId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const uploadToken = req.get('X-Upload-Token');
+      if (!uploadToken) {
+        return res.status(400).json({ error: 'X-Upload-Token header is required' });
+      }
+
+      const result = await UploadSessionService.complete(req.params.uploadId, ownerHealthId, uploadToken);
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({
+          error: result.error,
+          ...(result.expectedOffset !== undefined && { expectedOffset: result.expectedOffset })
+        });
+      }
+
+      const fileUpload = result.upload!;
+
+      await AuditService.logAction({
+        actorId: ownerHealthId,
+        actorRole: req.user?.role || 'unknown',
+        action: 'FILE_UPLOADED',
+        resourceType: 'FileUpload',
+        resourceId: fileUpload.id,
+        patientHealthId: ownerHealthId,
+        metadata: {
+          filename: fileUpload.originalName,
+          mimeType: fileUpload.mimeType,
+          fileSize: fileUpload.fileSize,
+          checksum: fileUpload.checksum,
+          resumable: true
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      await scanUpload(fileUpload, req);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          fileId: fileUpload.id,
+          filename: fileUpload.originalName,
+          mimeType: fileUpload.mimeType,
+          fileSize: fileUpload.fileSize,
+          checksum: fileUpload.checksum,
+          uploadedAt: fileUpload.uploadedAt,
+          description: fileUpload.description,
+          tags: fileUpload.tags,
+          scanStatus: fileUpload.scanStatus
+        },
+        message: 'File uploaded successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error completing upload session:', error);
+      res.status(500).json({ error: 'Failed to complete upload' });
+    }
+  }
+
+  /**
+   * Abort Upload Session
+   * DELETE /api/uploads/sessions/:uploadId
+   * Discards the session and any chunks received so far
+   */
+  static async abortUpload(req: AuthenticatedRequest, res: Response) {
+    try {
+      const ownerHealthId = req.user?.healthId;
+
+      if (!ownerHealthId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const uploadToken = req.get('X-Upload-Token');
+      if (!uploadToken) {
+        return res.status(400).json({ error: 'X-Upload-Token header is required' });
+      }
+
+      const result = await UploadSessionService.abort(req.params.uploadId, ownerHealthId, uploadToken);
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json({
+        success: true,
+        message: 'Upload aborted'
+      });
+
+    } catch (error) {
+      logger.error('Error aborting upload session:', error);
+      res.status(500).json({ error: 'Failed to abort upload' });
+    }
+  }
+
   /**
    * Download File
    * GET /api/uploads/file/:fileId
@@ -170,17 +548,11 @@ export class UploadsController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      // Fetch file
-      const fileUpload = await prisma.fileUpload.findFirst({
-        where: {
-          id: fileId,
-          ownerHealthId // Only allow owner to download
-        }
-      });
-
-      if (!fileUpload) {
-        return res.status(404).json({ error: 'File not found' });
+      const access = await findDownloadableFile(fileId, ownerHealthId);
+      if (!access.file) {
+        return res.status(access.status!).json(access.body);
       }
+      const fileUpload = access.file;
 
       // Log file access
       await AuditService.logAction({
@@ -212,6 +584,10 @@ export class UploadsController {
 
       if (asBase64) {
         // Return as JSON with base64 data
+        const fileData = fileUpload.storageKey
+          ? (await storageService.getBuffer(fileUpload.storageKey)).toString('base64')
+          : fileUpload.fileData;
+
         return res.json({
           success: true,
           data: {
@@ -219,27 +595,97 @@ export class UploadsController {
             filename: fileUpload.originalName,
             mimeType: fileUpload.mimeType,
             fileSize: fileUpload.fileSize,
-            fileData: fileUpload.fileData,
+            fileData,
             uploadedAt: fileUpload.uploadedAt
           }
         });
-      } else {
-        // Return as raw file buffer
-        const fileBuffer = Buffer.from(fileUpload.fileData, 'base64');
-        
-        res.setHeader('Content-Type', fileUpload.mimeType);
-        res.setHeader('Content-Disposition', `attachment; filename="${fileUpload.originalName}"`);
+      }
+
+      res.setHeader('Content-Type', fileUpload.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileUpload.originalName}"`);
+
+      if (!fileUpload.storageKey) {
+        // Legacy row not yet migrated out of the database
+        const fileBuffer = Buffer.from(fileUpload.fileData || '', 'base64');
         res.setHeader('Content-Length', fileBuffer.length);
-        
         return res.send(fileBuffer);
       }
 
+      // Stream from blob storage without buffering the whole file
+      const stream = await storageService.getStream(fileUpload.storageKey);
+      res.setHeader('Content-Length', fileUpload.fileSize);
+      await pipeline(stream, res);
+      return;
+
     } catch (error) {
       logger.error('Error downloading file:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
       res.status(500).json({ error: 'Failed to download file' });
     }
   }
 
+  /**
+   * Get File Thumbnail
+   * GET /api/uploads/file/:fileId/thumbnail
+   * WebP preview of an image or the first page of a PDF, generated on first request and cached.
+   * Open to everyone who can see the file in its record's attachment list.
+   */
+  static async getThumbnail(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { fileId } = req.params;
+      const viewerId = req.user?.healthId;
+
+      if (!viewerId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      // Files the viewer may not preview look the same as missing ones
+      const candidate = await prisma.fileUpload.findUnique({ where: { id: fileId } });
+      const visible = candidate && await canPreview(candidate, req.user!) ? candidate : null;
+
+      const access = checkDownloadable(visible);
+      if (!access.file) {
+        return res.status(access.status!).json(access.body);
+      }
+      const fileUpload = access.file;
+
+      if (!FileService.supportsThumbnail(fileUpload.mimeType)) {
+        return res.status(404).json({ error: 'No preview available for this file type' });
+      }
+
+      const thumbnailKey = await FileService.generateThumbnail(fileUpload);
+      if (!thumbnailKey) {
+        return res.status(404).json({ error: 'Preview could not be generated for this file' });
+      }
+
+      await prisma.fileAccess.create({
+        data: {
+          fileId: fileUpload.id,
+          accessorId: viewerId,
+          action: 'PREVIEW',
+          ipAddress: req.ip || null,
+          userAgent: req.get('User-Agent') || null
+        }
+      });
+
+      res.setHeader('Content-Type', 'image/webp');
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      await pipeline(await storageService.getStream(thumbnailKey), res);
+      return;
+
+    } catch (error) {
+      logger.error('Error serving thumbnail:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ error: 'Failed to load thumbnail' });
+    }
+  }
+
   /**
    * List Files
    * GET /api/uploads/files
@@ -281,7 +727,8 @@ export class UploadsController {
           tags: true,
           uploadedAt: true,
           createdAt: true,
-          recordId: true
+          recordId: true,
+          scanStatus: true
           // Don't include fileData in list view
         },
         orderBy: { uploadedAt: 'desc' },
@@ -340,6 +787,14 @@ export class UploadsController {
         where: { id: fileId }
       });
 
+      for (const key of [fileUpload.storageKey, fileUpload.thumbnailKey]) {
+        if (key) {
+          await storageService.delete(key).catch(error =>
+            logger.warn('Failed to remove deleted file from storage', { fileId, key, error })
+          );
+        }
+      }
+
       // Log file deletion
       await AuditService.logAction({
         actorId: ownerHealthId,
@@ -406,7 +861,9 @@ export class UploadsController {
           createdAt: true,
           updatedAt: true,
           recordId: true,
-          status: true
+          status: true,
+          scanStatus: true,
+          scannedAt: true
         }
       });
 
@@ -425,6 +882,223 @@ export class UploadsController {
     }
   }
 
+  /**
+   * Create Share Link
+   * POST /api/uploads/file/:fileId/share-links
+   * Signed, expiring download URL for someone without an account; optionally single-use
+   */
+  static async createShareLink(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { fileId } = req.params;
+      const ownerHealthId = req.user?.healthId;
+
+      if (!ownerHealthId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const parsed = ShareLinkSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid input data', errors: parsed.error.issues });
+      }
+
+      const fileUpload = await prisma.fileUpload.findFirst({
+        where: { id: fileId, ownerHealthId }
+      });
+
+      if (!fileUpload) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const result = await FileShareService.createLink(fileUpload, ownerHealthId, parsed.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      const link = result.link!;
+
+      await AuditService.logAction({
+        actorId: ownerHealthId,
+        actorRole: req.user?.role || 'unknown',
+        action: 'FILE_SHARE_LINK_CREATED',
+        resourceType: 'FileUpload',
+        resourceId: fileUpload.id,
+        patientHealthId: ownerHealthId,
+        metadata: {
+          shareLinkId: link.id,
+          recipient: link.recipient,
+          singleUse: link.singleUse,
+          expiresAt: link.expiresAt.toISOString()
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          id: link.id,
+          url: buildShareUrl(req, result.token!),
+          recipient: link.recipient,
+          singleUse: link.singleUse,
+          expiresAt: link.expiresAt
+        },
+        message: 'Share link created'
+      });
+
+    } catch (error) {
+      logger.error('Error creating share link:', error);
+      res.status(500).json({ error: 'Failed to create share link' });
+    }
+  }
+
+  /**
+   * List Share Links
+   * GET /api/uploads/file/:fileId/share-links
+   */
+  static async listShareLinks(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { fileId } = req.params;
+      const ownerHealthId = req.user?.healthId;
+
+      if (!ownerHealthId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const fileUpload = await prisma.fileUpload.findFirst({
+        where: { id: fileId, ownerHealthId }
+      });
+
+      if (!fileUpload) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      res.json({
+        success: true,
+        data: await FileShareService.listLinks(fileId)
+      });
+
+    } catch (error) {
+      logger.error('Error listing share links:', error);
+      res.status(500).json({ error: 'Failed to list share links' });
+    }
+  }
+
+  /**
+   * Revoke Share Link
+   * DELETE /api/uploads/file/:fileId/share-links/:linkId
+   */
+  static async revokeShareLink(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { fileId, linkId } = req.params;
+      const ownerHealthId = req.user?.healthId;
+
+      if (!ownerHealthId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const fileUpload = await prisma.fileUpload.findFirst({
+        where: { id: fileId, ownerHealthId }
+      });
+
+      if (!fileUpload) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const result = await FileShareService.revokeLink(fileId, linkId);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      await AuditService.logAction({
+        actorId: ownerHealthId,
+        actorRole: req.user?.role || 'unknown',
+        action: 'FILE_SHARE_LINK_REVOKED',
+        resourceType: 'FileUpload',
+        resourceId: fileId,
+        patientHealthId: ownerHealthId,
+        metadata: { shareLinkId: linkId, useCount: result.link!.useCount },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Share link revoked'
+      });
+
+    } catch (error) {
+      logger.error('Error revoking share link:', error);
+      res.status(500).json({ error: 'Failed to revoke share link' });
+    }
+  }
+
+  /**
+   * Download Shared File
+   * GET /api/uploads/shared/:token
+   * Public endpoint; the signed token is the only credential
+   */
+  static async downloadSharedFile(req: Request, res: Response) {
+    try {
+      const result = await FileShareService.redeem(req.params.token);
+
+      if (!result.success) {
+        return res.status(result.status || 404).json({ error: result.error });
+      }
+
+      const link = result.link!;
+      const fileUpload = result.file!;
+
+      await prisma.fileAccess.create({
+        data: {
+          fileId: fileUpload.id,
+          shareLinkId: link.id,
+          action: 'SHARED_LINK_DOWNLOAD',
+          ipAddress: req.ip || null,
+          userAgent: req.get('User-Agent') || null
+        }
+      });
+
+      await AuditService.logAction({
+        actorId: req.ip || 'UNKNOWN',
+        actorRole: 'anonymous',
+        action: 'FILE_SHARED_DOWNLOAD',
+        resourceType: 'FileUpload',
+        resourceId: fileUpload.id,
+        patientHealthId: fileUpload.ownerHealthId,
+        metadata: {
+          shareLinkId: link.id,
+          recipient: link.recipient,
+          singleUse: link.singleUse
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.setHeader('Content-Type', fileUpload.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileUpload.originalName}"`);
+      res.setHeader('Cache-Control', 'no-store');
+
+      if (!fileUpload.storageKey) {
+        const fileBuffer = Buffer.from(fileUpload.fileData || '', 'base64');
+        res.setHeader('Content-Length', fileBuffer.length);
+        return res.send(fileBuffer);
+      }
+
+      const stream = await storageService.getStream(fileUpload.storageKey);
+      res.setHeader('Content-Length', fileUpload.fileSize);
+      await pipeline(stream, res);
+      return;
+
+    } catch (error) {
+      logger.error('Error downloading shared file:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ error: 'Failed to download file' });
+    }
+  }
+
   /**
    * Get File Access History
    * GET /api/uploads/file/:fileId/access-history
@@ -455,6 +1129,15 @@ export class UploadsController {
       const accessHistory = await prisma.fileAccess.findMany({
         where: { fileId },
         include: {
+          shareLink: {
+            select: {
+              id: true,
+              recipient: true,
+              singleUse: true,
+              expiresAt: true,
+              revokedAt: true
+            }
+          },
           accessor: {
             select: {
               healthId: true,
@@ -0,0 +1,270 @@
+import { Request, Response } from 'express';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import AuditService from '../services/audit.service';
+import NotificationService from '../services/notification.service';
+import WaitlistService from '../services/waitlist.service';
+import { auditActor } from '../middlewares/delegationMiddleware';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+}
+
+export class WaitlistController {
+  /**
+   * Join Waitlist
+   * POST /api/appointments/waitlist
+   * Patients queue for a doctor with a preferred date range
+   */
+  static async joinWaitlist(req: AuthenticatedRequest, res: Response) {
+    try {
+      const patientId = req.user?.healthId;
+      const { doctorId, preferredFrom, preferredTo, duration = 30, reasonForVisit, appointmentType } = req.body;
+
+      if (!patientId || req.user?.role !== 'patient') {
+        return res.status(403).json({ error: 'Only patients can join a waitlist' });
+      }
+
+      if (!doctorId || !preferredFrom || !preferredTo) {
+        return res.status(400).json({ error: 'doctorId, preferredFrom and preferredTo are required' });
+      }
+
+      const from = new Date(preferredFrom);
+      const to = new Date(preferredTo);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+        return res.status(400).json({ error: 'preferredTo must be a valid date after preferredFrom' });
+      }
+
+      if (to <= new Date()) {
+        return res.status(400).json({ error: 'Preferred date range must end in the future' });
+      }
+
+      if (!Number.isInteger(duration) || duration <= 0) {
+        return res.status(400).json({ error: 'Duration must be a positive number of minutes' });
+      }
+
+      const doctor = await prisma.user.findUnique({
+        where: { healthId: doctorId },
+        select: { role: true }
+      });
+
+      if (!doctor || doctor.role !== 'doctor') {
+        return res.status(400).json({ error: 'Invalid doctor ID' });
+      }
+
+      const existing = await prisma.appointmentWaitlistEntry.findFirst({
+        where: { patientId, doctorId, status: { in: ['WAITING', 'OFFERED'] } }
+      });
+
+      if (existing) {
+        return res.status(409).json({
+          error: 'You are already on this doctor\'s waitlist',
+          entryId: existing.id
+        });
+      }
+
+      const entry = await WaitlistService.joinWaitlist({
+        patientId,
+        doctorId,
+        preferredFrom: from,
+        preferredTo: to,
+        duration,
+        reasonForVisit,
+        appointmentType
+      });
+
+      await AuditService.logAction({
+        ...auditActor(req),
+        action: 'WAITLIST_JOINED',
+        resourceType: 'AppointmentWaitlistEntry',
+        resourceId: entry.id,
+        patientHealthId: patientId,
+        metadata: {
+          doctorId,
+          preferredFrom: from.toISOString(),
+          preferredTo: to.toISOString()
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { entry },
+        message: 'Added to waitlist successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error joining waitlist', { error });
+      res.status(500).json({ error: 'Failed to join waitlist' });
+    }
+  }
+
+  /**
+   * Get Waitlist
+   * GET /api/appointments/waitlist
+   * Patients see their own entries and pending offers; doctors see their queue
+   */
+  static async getWaitlist(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.healthId;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const entries = req.user?.role === 'doctor'
+        ? await WaitlistService.getDoctorQueue(userId)
+        : await WaitlistService.getPatientEntries(userId);
+
+      res.status(200).json({
+        success: true,
+        data: { entries }
+      });
+
+    } catch (error) {
+      logger.error('Error getting waitlist', { error });
+      res.status(500).json({ error: 'Failed to get waitlist' });
+    }
+  }
+
+  /**
+   * Leave Waitlist
+   * DELETE /api/appointments/waitlist/:entryId
+   */
+  static async leaveWaitlist(req: AuthenticatedRequest, res: Response) {
+    try {
+      const patientId = req.user?.healthId;
+      const { entryId } = req.params;
+
+      if (!patientId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const removed = await WaitlistService.leaveWaitlist(patientId, entryId);
+      if (!removed) {
+        return res.status(404).json({ error: 'Waitlist entry not found' });
+      }
+
+      await AuditService.logAction({
+        ...auditActor(req),
+        action: 'WAITLIST_LEFT',
+        resourceType: 'AppointmentWaitlistEntry',
+        resourceId: entryId,
+        patientHealthId: patientId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Removed from waitlist successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error leaving waitlist', { error, entryId: req.params.entryId });
+      res.status(500).json({ error: 'Failed to leave waitlist' });
+    }
+  }
+
+  /**
+   * Claim Waitlist Offer
+   * POST /api/appointments/waitlist/offers/:offerId/claim
+   * Books the offered slot; the doctor still approves it like any other request
+   */
+  static async claimOffer(req: AuthenticatedRequest, res: Response) {
+    try {
+      const patientId = req.user?.healthId;
+      const { offerId } = req.params;
+
+      if (!patientId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const result = await WaitlistService.claimOffer(patientId, offerId);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      const appointment = result.appointment!;
+
+      await NotificationService.createNotification({
+        appointmentId: appointment.id,
+        recipientId: appointment.doctorId,
+        type: 'APPOINTMENT_REQUESTED',
+        message: `A waitlisted patient has claimed the open slot on ${appointment.requestedTime.toLocaleString()}`
+      });
+
+      await AuditService.logAction({
+        ...auditActor(req),
+        action: 'WAITLIST_OFFER_CLAIMED',
+        resourceType: 'Appointment',
+        resourceId: appointment.id,
+        patientHealthId: patientId,
+        metadata: {
+          offerId,
+          doctorId: appointment.doctorId,
+          requestedTime: appointment.requestedTime.toISOString()
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { appointment },
+        message: 'Slot claimed successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error claiming waitlist offer', { error, offerId: req.params.offerId });
+      res.status(500).json({ error: 'Failed to claim offer' });
+    }
+  }
+
+  /**
+   * Decline Waitlist Offer
+   * POST /api/appointments/waitlist/offers/:offerId/decline
+   * Passes the slot to the next patient; the entry stays on the waitlist
+   */
+  static async declineOffer(req: AuthenticatedRequest, res: Response) {
+    try {
+      const patientId = req.user?.healthId;
+      const { offerId } = req.params;
+
+      if (!patientId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const declined = await WaitlistService.declineOffer(patientId, offerId);
+      if (!declined) {
+        return res.status(404).json({ error: 'Pending waitlist offer not found' });
+      }
+
+      await AuditService.logAction({
+        ...auditActor(req),
+        action: 'WAITLIST_OFFER_DECLINED',
+        resourceType: 'WaitlistOffer',
+        resourceId: offerId,
+        patientHealthId: patientId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Offer declined'
+      });
+
+    } catch (error) {
+      logger.error('Error declining waitlist offer', { error, offerId: req.params.offerId });
+      res.status(500).json({ error: 'Failed to decline offer' });
+    }
+  }
+}
@@ -7,6 +7,8 @@ import rateLimit from 'express-rate-limit';
 import logger from './utils/logger';
 import { requestTracking, initializeAPM } from './utils/apm';
 import runtimeConfig from './config/runtime-config';
+import JobSchedulerService from './services/job-scheduler.service';
+import registerScheduledJobs from './jobs';
 
 // Load environment variables
 dotenv.config();
@@ -37,6 +39,10 @@ import selfReportingRoutes from './routes/self-reporting.routes';
 import analyticsRoutes from './routes/analytics.routes';
 import profileRoutes from './routes/profile.routes';
 import securityRoutes from './routes/security.routes';
+import pharmacyRoutes from './routes/pharmacy.routes';
+import terminologyRoutes from './routes/terminology.routes';
+import imagingRoutes from './routes/imaging.routes';
+import delegationRoutes from './routes/delegation.routes';
 
 const app = express();
 
@@ -91,7 +97,7 @@ const corsOptions: cors.CorsOptions = {
 	},
 	credentials: true,
 	methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-	allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token'],
+	allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token', 'X-On-Behalf-Of'],
 	optionsSuccessStatus: 204,
 };
 
@@ -129,6 +135,10 @@ app.use('/api/self-reporting', selfReportingRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/profile', profileRoutes);
 app.use('/api/security', securityRoutes);
+app.use('/api/pharmacy', pharmacyRoutes);
+app.use('/api/terminology', terminologyRoutes);
+app.use('/api/imaging', imagingRoutes);
+app.use('/api/delegations', delegationRoutes);
 
 // Health check endpoints for load balancers and monitoring
 app.get('/healthz', (_req, res) => res.status(200).json({ status: 'ok' }));
@@ -187,10 +197,20 @@ const server = app.listen(PORT, () => {
 	logger.info(`Backend server listening on http://localhost:${PORT}`);
 });
 
+// Background jobs (registered everywhere so admins can trigger them manually)
+registerScheduledJobs();
+if (runtimeConfig.jobSchedulerEnabled) {
+	JobSchedulerService.start().catch((error) => {
+		logger.error('Failed to start job scheduler', { error });
+	});
+}
+
 // Graceful shutdown handler
 const gracefulShutdown = async (signal: string) => {
 	logger.info(`${signal} received. Starting graceful shutdown...`);
 
+	JobSchedulerService.stop();
+
 	// Stop accepting new connections
 	server.close(async () => {
 		logger.info('HTTP server closed');
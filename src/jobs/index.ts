@@ -0,0 +1,106 @@
+import JobSchedulerService from '../services/job-scheduler.service';
+import FileService from '../services/file.service';
+import otpService from '../services/otp.service';
+import NotificationService from '../services/notification.service';
+import PrescriptionService from '../services/prescription.service';
+import WaitlistService from '../services/waitlist.service';
+import { ConsentService } from '../services/consent.service';
+import CriticalAlertService from '../services/critical-alert.service';
+import TokenRevocationService from '../services/token-revocation.service';
+import LoginLockoutService from '../services/login-lockout.service';
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Register the platform's periodic jobs with the scheduler.
+ * Registration is unconditional so admins can trigger jobs manually even on
+ * instances where JOB_SCHEDULER_ENABLED is false.
+ */
+export const registerScheduledJobs = (): void => {
+  JobSchedulerService.register({
+    name: 'uploads.cleanup-expired',
+    description: 'Expire uploads stuck in UPLOADING for over an hour',
+    intervalSeconds: 15 * MINUTE,
+    handler: () => FileService.cleanupExpiredUploads()
+  });
+
+  JobSchedulerService.register({
+    name: 'uploads.cleanup-deleted',
+    description: 'Purge files marked as DELETED',
+    intervalSeconds: 24 * HOUR,
+    handler: () => FileService.cleanupDeletedFiles()
+  });
+
+  JobSchedulerService.register({
+    name: 'uploads.scan-pending',
+    description: 'Malware-scan uploaded files awaiting a verdict',
+    intervalSeconds: MINUTE,
+    handler: async () => ({ ...(await FileService.scanPendingFiles()) })
+  });
+
+  JobSchedulerService.register({
+    name: 'otp.cleanup-expired',
+    description: 'Delete expired phone OTP verifications',
+    intervalSeconds: HOUR,
+    handler: () => otpService.cleanupExpiredOtps()
+  });
+
+  JobSchedulerService.register({
+    name: 'appointments.send-reminders',
+    description: 'Send reminders for confirmed appointments in the next 24 hours',
+    intervalSeconds: 15 * MINUTE,
+    handler: () => NotificationService.sendAppointmentReminders()
+  });
+
+  JobSchedulerService.register({
+    name: 'consents.expire',
+    description: 'Expire lapsed consents and consent requests',
+    intervalSeconds: 5 * MINUTE,
+    handler: () => ConsentService.expireConsents()
+  });
+
+  JobSchedulerService.register({
+    name: 'auth.cleanup-revoked-tokens',
+    description: 'Drop revocation entries for access tokens that have expired',
+    intervalSeconds: HOUR,
+    handler: async () => ({ removed: await TokenRevocationService.cleanupExpired() })
+  });
+
+  JobSchedulerService.register({
+    name: 'auth.cleanup-login-lockouts',
+    description: 'Delete lapsed failed sign-in counters',
+    intervalSeconds: HOUR,
+    handler: async () => ({ removed: await LoginLockoutService.cleanupExpired() })
+  });
+
+  JobSchedulerService.register({
+    name: 'prescriptions.expire',
+    description: 'Expire active prescriptions past their validity window',
+    intervalSeconds: HOUR,
+    handler: async () => ({ expired: await PrescriptionService.expireDuePrescriptions() })
+  });
+
+  JobSchedulerService.register({
+    name: 'waitlist.process-expired-offers',
+    description: 'Lapse unclaimed waitlist offers and close stale entries',
+    intervalSeconds: MINUTE,
+    handler: async () => ({ ...(await WaitlistService.processExpiredOffers()) })
+  });
+
+  JobSchedulerService.register({
+    name: 'notifications.process-deliveries',
+    description: 'Send deferred, digest and retried email/SMS notification deliveries',
+    intervalSeconds: MINUTE,
+    handler: async () => ({ ...(await NotificationService.processPendingDeliveries()) })
+  });
+
+  JobSchedulerService.register({
+    name: 'critical-alerts.escalate',
+    description: 'Escalate critical observation alerts left unacknowledged',
+    intervalSeconds: MINUTE,
+    handler: async () => ({ ...(await CriticalAlertService.escalateUnacknowledged()) })
+  });
+};
+
+export default registerScheduledJobs;
@@ -1,9 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import runtimeConfig from '../config/runtime-config';
 import { PrismaClient } from '@prisma/client';
 import dotenv from 'dotenv';
 import logger from '../utils/logger';
+import TokenRevocationService from '../services/token-revocation.service';
+import SessionService, { DEFAULT_SESSION_POLICY, policySelect } from '../services/session.service';
 
 dotenv.config();
 
@@ -15,6 +16,7 @@ interface JwtPayload {
     role: string;
     status: string;
     jti: string;
+    sid?: string;
     iat: number;
     exp: number;
 }
@@ -26,6 +28,7 @@ type AuthenticatedRequest = Request & {
         role: string;
         status: string;
         tokenId: string;
+        sessionId?: string;
     }
 };
 
@@ -37,10 +40,7 @@ const getJwtSecret = (): string => {
     return secret;
 };
 
-// Token blacklist for logout (in production, use Redis for better performance)
-const tokenBlacklist = new Set<string>();
-
-export const authenticateToken = async (
+const authenticate = (options: { allowLocked: boolean }) => async (
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
@@ -57,14 +57,20 @@ export const authenticateToken = async (
             return;
         }
 
-        // Check if token is blacklisted
-        if (tokenBlacklist.has(token)) {
-            res.status(401).json({ message: 'Token has been revoked' });
+        // Verify JWT
+        const decoded = jwt.verify(token, getJwtSecret()) as JwtPayload;
+
+        // Every access token carries a jti; one without could never be revoked
+        if (!decoded.jti) {
+            res.status(401).json({ message: 'Invalid token' });
             return;
         }
 
-        // Verify JWT
-        const decoded = jwt.verify(token, getJwtSecret()) as JwtPayload;
+        // Check if token was revoked (logout, session revocation)
+        if (await TokenRevocationService.isRevoked(decoded.jti)) {
+            res.status(401).json({ message: 'Token has been revoked' });
+            return;
+        }
 
         // Additional validation - check if user still exists and is active
         const user = await prisma.user.findUnique({
@@ -73,7 +79,8 @@ export const authenticateToken = async (
                 healthId: true,
                 email: true,
                 role: true,
-                status: true
+                status: true,
+                securitySettings: { select: policySelect }
             }
         });
 
@@ -87,13 +94,52 @@ export const authenticateToken = async (
             return;
         }
 
+        const policy = user.securitySettings ?? DEFAULT_SESSION_POLICY;
+
+        // Per-user IP allow/deny rules
+        const ipDecision = SessionService.checkIp(policy, req.ip);
+        if (ipDecision !== 'allowed') {
+            await SessionService.auditIpDenial({
+                userId: user.healthId,
+                role: user.role,
+                decision: ipDecision,
+                stage: 'request',
+                ipAddress: req.ip,
+                userAgent: req.get('User-Agent'),
+                path: req.originalUrl
+            });
+            res.status(403).json({ message: 'Access from this IP address is not allowed for this account' });
+            return;
+        }
+
+        // Session state: ended, idle-expired or locked sessions cannot be used.
+        // Tokens issued before sessions were tracked carry no sid; refreshing
+        // swaps them for one that does.
+        if (!decoded.sid) {
+            res.status(401).json({ message: 'Session has ended' });
+            return;
+        }
+
+        const check = await SessionService.check(decoded.sid, policy, !options.allowLocked);
+        if (!check.valid) {
+            res.status(401).json({
+                message: check.reason === 'idle_timeout' ? 'Session expired due to inactivity' : 'Session has ended'
+            });
+            return;
+        }
+        if (check.locked && !options.allowLocked) {
+            res.status(423).json({ message: 'Session locked, re-enter your password to continue', code: 'SESSION_LOCKED' });
+            return;
+        }
+
         // Attach user info to request
         req.user = {
             healthId: user.healthId!,
             email: user.email ?? null,
             role: user.role,
             status: user.status,
-            tokenId: decoded.jti
+            tokenId: decoded.jti,
+            sessionId: check.session.id
         };
 
         logger.debug('Authentication successful', {
@@ -115,6 +161,11 @@ export const authenticateToken = async (
     }
 };
 
+export const authenticateToken = authenticate({ allowLocked: false });
+
+// Accepts a locked session so the user can unlock it with their password
+export const authenticateLockedSession = authenticate({ allowLocked: true });
+
 // Optional token (for endpoints that work with or without auth)
 export const optionalAuth = async (
     req: AuthenticatedRequest,
@@ -131,32 +182,54 @@ export const optionalAuth = async (
         }
 
         // Same logic as authenticateToken but don't fail if no token
-        if (tokenBlacklist.has(token)) {
+        const decoded = jwt.verify(token, getJwtSecret()) as JwtPayload;
+        if (!decoded.jti || await TokenRevocationService.isRevoked(decoded.jti)) {
             next();
             return;
         }
 
-        const decoded = jwt.verify(token, getJwtSecret()) as JwtPayload;
         const user = await prisma.user.findUnique({
             where: { healthId: decoded.sub },
             select: {
                 healthId: true,
                 email: true,
                 role: true,
-                status: true
+                status: true,
+                securitySettings: { select: policySelect }
             }
         });
 
-        if (user && user.status === 'active') {
-            req.user = {
-                healthId: user.healthId!,
-                email: user.email ?? null,
-                role: user.role,
-                status: user.status,
-                tokenId: decoded.jti
-            };
+        if (!user || user.status !== 'active') {
+            next();
+            return;
+        }
+
+        const policy = user.securitySettings ?? DEFAULT_SESSION_POLICY;
+        if (SessionService.checkIp(policy, req.ip) !== 'allowed') {
+            next();
+            return;
         }
 
+        if (!decoded.sid) {
+            next();
+            return;
+        }
+
+        const check = await SessionService.check(decoded.sid, policy);
+        if (!check.valid || check.locked) {
+            next();
+            return;
+        }
+
+        req.user = {
+            healthId: user.healthId!,
+            email: user.email ?? null,
+            role: user.role,
+            status: user.status,
+            tokenId: decoded.jti,
+            sessionId: check.session.id
+        };
+
         next();
 
     } catch (error) {
@@ -189,60 +262,25 @@ export const requirePharmacy = requireRole('pharmacy');
 export const requireAdmin = requireRole('admin');
 export const requireHealthProvider = requireRole('doctor', 'pharmacy');
 
-// Add token to blacklist (for logout)
-export const blacklistToken = (token: string): void => {
-    tokenBlacklist.add(token);
-};
-
-// Clean up expired tokens from blacklist (call periodically)
-export const cleanupTokenBlacklist = (): void => {
-    // In production, implement proper cleanup logic
-    // For now, just clear the set periodically
-    tokenBlacklist.clear();
-};
-
-// Account lockout tracking (basic implementation)
-const failedAttempts = new Map<string, { count: number; lockUntil: number }>();
-
-export const trackFailedLogin = (email: string): boolean => {
-    const maxAttempts = runtimeConfig.maxLoginAttempts;
-    const lockoutDuration = runtimeConfig.loginAttemptLockoutMinutes * 60 * 1000;
-    const now = Date.now();
-
-    let attempts = failedAttempts.get(email);
-
-    if (!attempts) {
-        attempts = { count: 1, lockUntil: 0 };
-        failedAttempts.set(email, attempts);
-        return false; // Not locked
-    }
-
-    if (attempts.lockUntil > now) {
-        return true; // Still locked
-    }
-
-    attempts.count++;
-
-    if (attempts.count >= maxAttempts) {
-        attempts.lockUntil = now + lockoutDuration;
-        return true; // Now locked
+// Revoke an access token until it expires (for logout). Tokens that fail to
+// decode or have no jti are ignored since they can never authenticate.
+export const revokeToken = async (token: string, reason = 'logout'): Promise<void> => {
+    const decoded = jwt.decode(token) as JwtPayload | null;
+    if (!decoded?.jti || !decoded.exp) {
+        return;
     }
 
-    return false; // Not locked yet
-};
-
-export const clearFailedAttempts = (email: string): void => {
-    failedAttempts.delete(email);
-};
-
-export const isAccountLocked = (email: string): boolean => {
-    const attempts = failedAttempts.get(email);
-    if (!attempts) return false;
-    return attempts.lockUntil > Date.now();
+    await TokenRevocationService.revoke({
+        jti: decoded.jti,
+        expiresAt: new Date(decoded.exp * 1000),
+        userId: decoded.sub,
+        reason
+    });
 };
 
 export default {
     authenticateToken,
+    authenticateLockedSession,
     optionalAuth,
     requireRole,
     requirePatient,
@@ -250,9 +288,5 @@ export default {
     requirePharmacy,
     requireAdmin,
     requireHealthProvider,
-    blacklistToken,
-    cleanupTokenBlacklist,
-    trackFailedLogin,
-    clearFailedAttempts,
-    isAccountLocked
+    revokeToken
 };
\ No newline at end of file
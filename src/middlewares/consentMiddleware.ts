@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import AuditService from '../services/audit.service';
+import ConsentPolicyService, { ScopeRequirement } from '../services/consent-policy.service';
+import { auditActor } from './delegationMiddleware';
 import logger from '../utils/logger';
 
 type AuthedRequest = Request & { 
@@ -8,13 +10,19 @@ type AuthedRequest = Request & {
     role: string; 
   };
   consentId?: string; // Will be set by this middleware
+  consentScopes?: string[]; // Scopes the consent grants; unset for self and emergency access
+  consentPatientId?: string; // Patient the consent check was made for
 };
 
+type AccessAction = 'RECORD_READ' | 'RECORD_CREATE' | 'RECORD_UPDATE' | 'RECORD_DELETE' | 'RECORD_ACCESS_DENIED';
+
 /**
  * Middleware to enforce consent checks for patient data access
- * Use this on any endpoint that accesses patient records
+ * Use this on any endpoint that accesses patient records. `requiredScope` is
+ * either a list of scopes that must all be granted or a resource/action pair
+ * resolved by the consent policy.
  */
-export const requireConsent = (requiredScope: string[] = ['READ_BASIC']) => {
+export const requireConsent = (requiredScope: ScopeRequirement = ['READ_BASIC']) => {
   return async (req: AuthedRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
       const actorId = req.user?.healthId;
@@ -44,25 +52,10 @@ export const requireConsent = (requiredScope: string[] = ['READ_BASIC']) => {
         return;
       }
 
-      // Skip consent check for admin users
-      if (actorRole === 'admin') {
-        req.consentId = 'admin-override';
-        next();
-        return;
-      }
-
       // Skip consent check for patients accessing their own records
       if (actorRole === 'patient' && actorId === patientHealthId) {
         req.consentId = 'self-access';
-        next();
-        return;
-      }
-
-      // Development mode: Allow doctor-patient interactions for medical encounters
-      // This should be removed in production and proper consent flow implemented
-      if (process.env.NODE_ENV === 'development' && actorRole === 'doctor' && 
-          (requiredScope.includes('WRITE_NOTES') || requiredScope.includes('READ_MEDICAL'))) {
-        req.consentId = 'dev-doctor-override';
+        req.consentPatientId = actorId;
         next();
         return;
       }
@@ -91,14 +84,41 @@ export const requireConsent = (requiredScope: string[] = ['READ_BASIC']) => {
         res.status(403).json({ 
           message: 'Access denied: Valid consent required',
           error: consentCheck.error,
-          requiredScope,
+          requiredScope: ConsentPolicyService.describe(requiredScope),
           suggestedAction: 'Request consent from patient'
         });
         return;
       }
 
-      // Store consent ID for use in the endpoint
+      // Emergency access is flagged loudly on every request it lets through
+      if (consentCheck.breakGlassId) {
+        logger.warn('Record access under break-the-glass', {
+          breakGlassId: consentCheck.breakGlassId,
+          actorId,
+          patientHealthId
+        });
+
+        await AuditService.logAction({
+          actorId,
+          actorRole: actorRole || 'unknown',
+          action: 'BREAK_GLASS_RECORD_ACCESS',
+          resourceType: 'BreakGlassAccess',
+          resourceId: consentCheck.breakGlassId,
+          patientHealthId: patientHealthId as string,
+          metadata: {
+            method: req.method,
+            path: req.originalUrl,
+            requiredScope: ConsentPolicyService.describe(requiredScope)
+          },
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent']
+        });
+      }
+
+      // Store consent ID and granted scopes so the endpoint can filter what it returns
       req.consentId = consentCheck.consentId;
+      req.consentScopes = consentCheck.scopes;
+      req.consentPatientId = patientHealthId as string;
       next();
 
     } catch (error) {
@@ -115,12 +135,11 @@ export const requireConsent = (requiredScope: string[] = ['READ_BASIC']) => {
  */
 export const logRecordAccess = (
   resourceType: string,
-  action: 'RECORD_READ' | 'RECORD_CREATE' | 'RECORD_UPDATE' | 'RECORD_DELETE' | 'RECORD_ACCESS_DENIED' = 'RECORD_READ'
+  action: AccessAction = 'RECORD_READ'
 ) => {
   return async (req: AuthedRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const actorId = req.user?.healthId;
-      const actorRole = req.user?.role;
+      const actor = auditActor(req);
       const consentId = req.consentId;
 
       // Extract patient health ID and resource ID
@@ -129,25 +148,27 @@ export const logRecordAccess = (
                              req.body.patientId || 
                              req.body.healthId ||
                              req.query.patientId ||
-                             req.query.healthId;
+                             req.query.healthId ||
+                             req.consentPatientId;
 
       const resourceId = req.params.id || 
                         req.params.recordId || 
                         req.body.id || 
                         'batch-operation';
 
-      if (actorId && patientHealthId) {
-        // Log the access
+      if (req.user && patientHealthId) {
+        // Log the access; a caregiver acting for the patient is logged as themselves
         await AuditService.logRecordAccess(
-          actorId,
-          actorRole || 'unknown',
+          actor.actorId,
+          actor.actorRole,
           action,
           patientHealthId as string,
           resourceId as string,
           resourceType,
           consentId,
           req.ip,
-          req.headers['user-agent']
+          req.headers['user-agent'],
+          actor.delegation
         );
       }
 
@@ -162,15 +183,20 @@ export const logRecordAccess = (
 };
 
 /**
- * Combined middleware for consent check + audit logging
+ * Combined middleware for consent check + audit logging. The scope required
+ * comes from the consent policy for the resource type and action.
  */
 export const requireConsentAndLog = (
   resourceType: string,
-  requiredScope: string[] = ['READ_BASIC'],
-  action: 'RECORD_READ' | 'RECORD_CREATE' | 'RECORD_UPDATE' | 'RECORD_DELETE' | 'RECORD_ACCESS_DENIED' = 'RECORD_READ'
+  action: AccessAction = 'RECORD_READ'
 ) => {
+  const resource = ConsentPolicyService.toResource(resourceType);
+  if (!resource) {
+    throw new Error(`No consent policy defined for resource type: ${resourceType}`);
+  }
+
   return [
-    requireConsent(requiredScope),
+    requireConsent({ resource, action: action === 'RECORD_READ' ? 'read' : 'write' }),
     logRecordAccess(resourceType, action)
   ];
 };
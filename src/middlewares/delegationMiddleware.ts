@@ -0,0 +1,153 @@
+import { Request, Response, NextFunction } from 'express';
+import { DelegationScope } from '@prisma/client';
+import prisma from '../utils/prisma';
+import AuditService, { AuditDelegation } from '../services/audit.service';
+import DelegationService from '../services/delegation.service';
+import logger from '../utils/logger';
+
+export const ON_BEHALF_OF_HEADER = 'X-On-Behalf-Of';
+
+type DelegatedRequest = Request & {
+  user?: {
+    healthId: string;
+    email: string | null;
+    role: string;
+    status: string;
+    tokenId: string;
+  };
+  delegation?: {
+    id: string;
+    patientId: string;
+    scope: DelegationScope;
+    actor: {
+      healthId: string;
+      email: string | null;
+      role: string;
+    };
+  };
+};
+
+export interface AuditActor {
+  actorId: string;
+  actorRole: string;
+  delegation?: AuditDelegation;
+}
+
+/**
+ * Actor fields for the audit rows a handler writes. Under delegation the
+ * caregiver is the actor and the row records whom they acted for, so every
+ * action's own row names the real person, not just DELEGATED_ACTION.
+ */
+export const auditActor = (
+  req: Pick<DelegatedRequest, 'delegation'> & { user?: { healthId: string; role: string } }
+): AuditActor => {
+  if (req.delegation) {
+    return {
+      actorId: req.delegation.actor.healthId,
+      actorRole: req.delegation.actor.role,
+      delegation: { delegationId: req.delegation.id, onBehalfOf: req.delegation.patientId }
+    };
+  }
+  return { actorId: req.user?.healthId ?? 'unknown', actorRole: req.user?.role ?? 'unknown' };
+};
+
+/**
+ * Let a caregiver act for a patient. When the request carries the
+ * X-On-Behalf-Of header with a patient's Health ID and the caller holds an
+ * active delegation with `scope`, the rest of the chain runs as that patient
+ * (req.user) while req.delegation keeps the real caller. Every delegated
+ * request is audited with its outcome. Without the header this is a no-op.
+ * Use after authenticateToken.
+ */
+export const actOnBehalfOf = (scope: DelegationScope) => {
+  return async (req: DelegatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const patientId = req.get(ON_BEHALF_OF_HEADER)?.trim();
+      const actor = req.user;
+
+      if (!patientId || !actor || patientId === actor.healthId) {
+        next();
+        return;
+      }
+
+      const delegation = await DelegationService.findActive(patientId, actor.healthId);
+
+      if (!delegation || !delegation.scopes.includes(scope)) {
+        await AuditService.logAction({
+          actorId: actor.healthId,
+          actorRole: actor.role,
+          action: 'DELEGATED_ACCESS_DENIED',
+          resourceType: 'Delegation',
+          resourceId: delegation?.id || 'none',
+          patientHealthId: patientId,
+          metadata: { scope, method: req.method, path: req.originalUrl },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+
+        res.status(403).json({
+          message: `Access denied: no active delegation with ${scope} for this patient`
+        });
+        return;
+      }
+
+      const patient = await prisma.user.findUnique({
+        where: { healthId: patientId },
+        select: { healthId: true, email: true, status: true }
+      });
+
+      if (!patient) {
+        res.status(404).json({ message: 'Patient not found' });
+        return;
+      }
+
+      req.delegation = {
+        id: delegation.id,
+        patientId,
+        scope,
+        actor: { healthId: actor.healthId, email: actor.email, role: actor.role }
+      };
+      req.user = {
+        healthId: patient.healthId,
+        email: patient.email,
+        role: 'patient',
+        status: patient.status,
+        tokenId: actor.tokenId
+      };
+
+      await DelegationService.touch(delegation.id);
+
+      res.on('finish', () => {
+        void AuditService.logAction({
+          actorId: actor.healthId,
+          actorRole: actor.role,
+          action: 'DELEGATED_ACTION',
+          resourceType: 'Delegation',
+          resourceId: delegation.id,
+          patientHealthId: patientId,
+          metadata: {
+            onBehalfOf: patientId,
+            scope,
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode
+          },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+      });
+
+      next();
+
+    } catch (error) {
+      logger.error('Delegation middleware error', { error });
+      res.status(500).json({ message: 'Internal server error' });
+      return;
+    }
+  };
+};
+
+export default {
+  actOnBehalfOf,
+  auditActor
+};
@@ -3,6 +3,8 @@ import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken } from '../middlewares/authMiddleware';
 import FileService from '../services/file.service';
+import storageService from '../services/storage.service';
+import AuditService from '../services/audit.service';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -110,6 +112,7 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res: Respon
           mimeType: file.mimeType,
           fileSize: file.fileSize,
           status: file.status,
+          scanStatus: file.scanStatus,
           description: file.description,
           uploadedAt: file.uploadedAt,
           createdAt: file.createdAt,
@@ -174,6 +177,174 @@ router.post('/cleanup', authenticateToken, async (req: AuthenticatedRequest, res
   }
 });
 
+/**
+ * List quarantined files, files awaiting a scan and files the scanner gave up on (admin only)
+ * GET /api/admin/files/quarantine
+ */
+router.get('/quarantine', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userRole = req.user?.role;
+    const { scanStatus = 'INFECTED', limit = 50 } = req.query;
+
+    if (userRole !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    if (scanStatus !== 'INFECTED' && scanStatus !== 'PENDING' && scanStatus !== 'FAILED') {
+      return res.status(400).json({ error: 'Invalid scan status. Use: INFECTED, PENDING or FAILED' });
+    }
+
+    const files = await prisma.fileUpload.findMany({
+      where: scanStatus === 'INFECTED'
+        ? { scanStatus: 'INFECTED' }
+        : { scanStatus, status: 'COMPLETED' },
+      select: {
+        id: true,
+        ownerHealthId: true,
+        originalName: true,
+        mimeType: true,
+        fileSize: true,
+        status: true,
+        scanStatus: true,
+        scanEngine: true,
+        scanResult: true,
+        scannedAt: true,
+        scanAttempts: true,
+        nextScanAt: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Number(limit)
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { files }
+    });
+
+  } catch (error) {
+    console.error('Error listing quarantined files:', error);
+    res.status(500).json({ error: 'Failed to list quarantined files' });
+  }
+});
+
+/**
+ * Re-run the malware scan for a file (admin only)
+ * POST /api/admin/files/:fileId/rescan
+ */
+router.post('/:fileId/rescan', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userRole = req.user?.role;
+    const { fileId } = req.params;
+
+    if (userRole !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const fileUpload = await prisma.fileUpload.findUnique({
+      where: { id: fileId }
+    });
+
+    if (!fileUpload) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    if (fileUpload.status !== 'COMPLETED' && fileUpload.status !== 'QUARANTINED') {
+      return res.status(409).json({ error: `Cannot scan a file with status ${fileUpload.status}` });
+    }
+
+    await prisma.fileUpload.update({
+      where: { id: fileId },
+      data: { status: 'COMPLETED', scanStatus: 'PENDING', scanAttempts: 0, nextScanAt: null }
+    });
+
+    const outcome = await FileService.scanFile(fileId);
+
+    await AuditService.logAction({
+      actorId: req.user!.healthId,
+      actorRole: 'admin',
+      action: 'FILE_RESCANNED',
+      resourceType: 'FileUpload',
+      resourceId: fileId,
+      patientHealthId: fileUpload.ownerHealthId,
+      metadata: { previousScanStatus: fileUpload.scanStatus, ...outcome },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.status(200).json({
+      success: true,
+      data: outcome,
+      message: outcome.error
+        ? outcome.scanStatus === 'FAILED' ? 'Scan failed and will not be retried' : 'Scan failed; the file will be retried'
+        : `File scanned: ${outcome.scanStatus}`
+    });
+
+  } catch (error) {
+    console.error('Error rescanning file:', error);
+    res.status(500).json({ error: 'Failed to rescan file' });
+  }
+});
+
+/**
+ * Release a quarantined file after manual review (admin only)
+ * POST /api/admin/files/:fileId/release
+ */
+router.post('/:fileId/release', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userRole = req.user?.role;
+    const { fileId } = req.params;
+    const { reason } = req.body;
+
+    if (userRole !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    if (!reason || typeof reason !== 'string') {
+      return res.status(400).json({ error: 'A reason is required to release a quarantined file' });
+    }
+
+    const fileUpload = await prisma.fileUpload.findUnique({
+      where: { id: fileId }
+    });
+
+    if (!fileUpload) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    if (fileUpload.status !== 'QUARANTINED') {
+      return res.status(409).json({ error: 'File is not quarantined' });
+    }
+
+    await prisma.fileUpload.update({
+      where: { id: fileId },
+      data: { status: 'COMPLETED', scanStatus: 'CLEAN', scannedAt: new Date() }
+    });
+
+    await AuditService.logAction({
+      actorId: req.user!.healthId,
+      actorRole: 'admin',
+      action: 'FILE_RELEASED',
+      resourceType: 'FileUpload',
+      resourceId: fileId,
+      patientHealthId: fileUpload.ownerHealthId,
+      reason,
+      metadata: { signature: fileUpload.scanResult, scanEngine: fileUpload.scanEngine },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'File released from quarantine'
+    });
+
+  } catch (error) {
+    console.error('Error releasing file:', error);
+    res.status(500).json({ error: 'Failed to release file' });
+  }
+});
+
 /**
  * Delete file (admin only)
  * DELETE /api/admin/files/:fileId
@@ -197,10 +368,16 @@ router.delete('/:fileId', authenticateToken, async (req: AuthenticatedRequest, r
     }
 
     if (permanent) {
-      // Permanently delete from database (file data is stored in DB as base64)
+      // Permanently delete the record and its stored blob
       await prisma.fileUpload.delete({
         where: { id: fileId }
       });
+      if (fileUpload.storageKey) {
+        await storageService.delete(fileUpload.storageKey);
+      }
+      if (fileUpload.thumbnailKey) {
+        await storageService.delete(fileUpload.thumbnailKey);
+      }
     } else {
       // Soft delete (mark as deleted)
       await prisma.fileUpload.update({
@@ -9,6 +9,12 @@ import admin, {
   updateUserRole,
   updateAdminSettings
 } from '../controllers/admin.controller';
+import { AdminJobsController } from '../controllers/admin-jobs.controller';
+import { ConsentCatalogController } from '../controllers/consent-catalog.controller';
+import { DelegationController } from '../controllers/delegation.controller';
+import { BreakGlassController } from '../controllers/break-glass.controller';
+import { AdminSettingsController } from '../controllers/admin-settings.controller';
+import { ObservationDefinitionsController } from '../controllers/observation-definitions.controller';
 
 const router = express.Router();
 
@@ -23,6 +29,43 @@ router.put('/users/:id/role', authenticateToken, requireAdmin, updateUserRole);
 
 // Phase 6: System Settings Routes
 router.post('/settings', authenticateToken, requireAdmin, updateAdminSettings);
+router.get('/settings', authenticateToken, requireAdmin, AdminSettingsController.getSettings);
+router.put('/settings', authenticateToken, requireAdmin, AdminSettingsController.updateSettings);
+router.post('/settings/reset', authenticateToken, requireAdmin, AdminSettingsController.resetSettings);
+router.get('/settings/validation', authenticateToken, requireAdmin, AdminSettingsController.validateSettings);
+router.get('/settings/defaults', authenticateToken, requireAdmin, AdminSettingsController.getDefaultSettings);
+
+// Background job scheduler
+router.get('/jobs', authenticateToken, requireAdmin, AdminJobsController.listJobs);
+router.get('/jobs/runs', authenticateToken, requireAdmin, AdminJobsController.listRuns);
+router.post('/jobs/:name/run', authenticateToken, requireAdmin, AdminJobsController.triggerJob);
+
+// Break-the-glass review queue
+router.get('/break-glass', authenticateToken, requireAdmin, BreakGlassController.listForReview);
+router.post('/break-glass/:accessId/review', authenticateToken, requireAdmin, BreakGlassController.review);
+
+// Caregiver/guardian delegations set up for patients who cannot grant them (e.g. minors)
+router.get('/delegations', authenticateToken, requireAdmin, DelegationController.adminList);
+router.post('/delegations', authenticateToken, requireAdmin, DelegationController.adminGrant);
+
+// Consent purpose-of-use catalog, request templates and reporting
+router.get('/consent-purposes', authenticateToken, requireAdmin, ConsentCatalogController.listPurposes);
+router.post('/consent-purposes', authenticateToken, requireAdmin, ConsentCatalogController.createPurpose);
+router.get('/consent-purposes/report', authenticateToken, requireAdmin, ConsentCatalogController.reportByPurpose);
+router.put('/consent-purposes/:id', authenticateToken, requireAdmin, ConsentCatalogController.updatePurpose);
+router.delete('/consent-purposes/:id', authenticateToken, requireAdmin, ConsentCatalogController.deactivatePurpose);
+router.get('/consent-templates', authenticateToken, requireAdmin, ConsentCatalogController.listTemplates);
+router.post('/consent-templates', authenticateToken, requireAdmin, ConsentCatalogController.createTemplate);
+router.put('/consent-templates/:id', authenticateToken, requireAdmin, ConsentCatalogController.updateTemplate);
+router.delete('/consent-templates/:id', authenticateToken, requireAdmin, ConsentCatalogController.deactivateTemplate);
+
+// Observation reference range catalog
+router.get('/observation-definitions', authenticateToken, requireAdmin, ObservationDefinitionsController.listDefinitions);
+router.post('/observation-definitions', authenticateToken, requireAdmin, ObservationDefinitionsController.createDefinition);
+router.post('/observation-definitions/evaluate', authenticateToken, requireAdmin, ObservationDefinitionsController.evaluate);
+router.get('/observation-definitions/:id', authenticateToken, requireAdmin, ObservationDefinitionsController.getDefinition);
+router.put('/observation-definitions/:id', authenticateToken, requireAdmin, ObservationDefinitionsController.updateDefinition);
+router.delete('/observation-definitions/:id', authenticateToken, requireAdmin, ObservationDefinitionsController.deactivateDefinition);
 
 // Original Provider management routes (Phase 1-5)
 router.post('/providers/pending', authenticateToken, requireAdmin, admin.listPendingProviders);
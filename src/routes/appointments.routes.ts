@@ -1,28 +1,50 @@
 import express from 'express';
 import { AppointmentsController } from '../controllers/appointments.controller';
+import { WaitlistController } from '../controllers/waitlist.controller';
 import { authenticateToken } from '../middlewares/authMiddleware';
+import { actOnBehalfOf } from '../middlewares/delegationMiddleware';
 
 const router = express.Router();
 
+// Caregivers with MANAGE_APPOINTMENTS can book and manage on a patient's behalf
+const manageAppointments = actOnBehalfOf('MANAGE_APPOINTMENTS');
+
 // Search endpoints
 router.get('/doctors', authenticateToken, AppointmentsController.searchDoctors);
+router.get('/doctors/:id/slots', authenticateToken, AppointmentsController.getDoctorSlots);
 
 // Patient endpoints
-router.post('/request', authenticateToken, AppointmentsController.requestAppointment);
-router.get('/patient', authenticateToken, AppointmentsController.getPatientAppointments);
+router.post('/request', authenticateToken, manageAppointments, AppointmentsController.requestAppointment);
+router.get('/patient', authenticateToken, manageAppointments, AppointmentsController.getPatientAppointments);
 
 // Doctor endpoints
 router.get('/doctor', authenticateToken, AppointmentsController.getDoctorQueue);
 router.post('/:id/approve', authenticateToken, AppointmentsController.approveAppointment);
 router.post('/:id/reject', authenticateToken, AppointmentsController.rejectAppointment);
 
+// Doctor availability management (registered before /:id routes)
+router.get('/availability', authenticateToken, AppointmentsController.getMyAvailability);
+router.put('/availability', authenticateToken, AppointmentsController.setAvailability);
+router.post('/availability/exceptions', authenticateToken, AppointmentsController.addAvailabilityException);
+router.delete('/availability/exceptions/:exceptionId', authenticateToken, AppointmentsController.deleteAvailabilityException);
+
+// Recurring appointment series
+router.get('/series/:seriesId', authenticateToken, AppointmentsController.getAppointmentSeries);
+
+// Waitlist with automatic backfill of freed slots
+router.post('/waitlist', authenticateToken, manageAppointments, WaitlistController.joinWaitlist);
+router.get('/waitlist', authenticateToken, manageAppointments, WaitlistController.getWaitlist);
+router.delete('/waitlist/:entryId', authenticateToken, manageAppointments, WaitlistController.leaveWaitlist);
+router.post('/waitlist/offers/:offerId/claim', authenticateToken, manageAppointments, WaitlistController.claimOffer);
+router.post('/waitlist/offers/:offerId/decline', authenticateToken, manageAppointments, WaitlistController.declineOffer);
+
 // Appointment management endpoints (admin, doctor, and patient can manage their own appointments)
 router.put('/:id', authenticateToken, AppointmentsController.updateAppointment);
-router.post('/:id/reschedule', authenticateToken, AppointmentsController.rescheduleAppointment);
+router.post('/:id/reschedule', authenticateToken, manageAppointments, AppointmentsController.rescheduleAppointment);
 
 // Shared endpoints (patient or doctor)
-router.post('/:id/cancel', authenticateToken, AppointmentsController.cancelAppointment);
-router.get('/:id', authenticateToken, AppointmentsController.getAppointmentDetails);
-router.get('/:id/ics', authenticateToken, AppointmentsController.generateICS);
+router.post('/:id/cancel', authenticateToken, manageAppointments, AppointmentsController.cancelAppointment);
+router.get('/:id', authenticateToken, manageAppointments, AppointmentsController.getAppointmentDetails);
+router.get('/:id/ics', authenticateToken, manageAppointments, AppointmentsController.generateICS);
 
 export default router;
\ No newline at end of file
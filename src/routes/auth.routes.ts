@@ -44,6 +44,11 @@ router.get('/verify-email', authRateLimit, authController.verifyEmail);
 router.post('/verify-phone-otp', authRateLimit, authController.verifyPhoneOtp);
 router.post('/resend-phone-otp', strictRateLimit, authController.resendPhoneOtp);
 router.post('/login', authRateLimit, authController.login);
+router.post('/mfa/verify', authRateLimit, authController.verifyMfa);
+router.post('/mfa/webauthn/options', authRateLimit, authController.mfaWebAuthnOptions);
+router.post('/passkey/options', authRateLimit, authController.passkeyLoginOptions);
+router.post('/passkey/login', authRateLimit, authController.passkeyLogin);
+router.post('/report-login', authRateLimit, authController.reportLogin);
 router.post('/request-password-reset', strictRateLimit, authController.requestPasswordReset);
 router.post('/reset-password', authRateLimit, authController.resetPassword);
 router.post('/resend-verification', authRateLimit, authController.resendVerification);
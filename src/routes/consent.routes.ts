@@ -1,19 +1,26 @@
 import express from 'express';
 import { authenticateToken, requirePatient, requireDoctor, requirePharmacy, requireHealthProvider } from '../middlewares/authMiddleware';
+import { actOnBehalfOf } from '../middlewares/delegationMiddleware';
 import consent from '../controllers/consent.controller';
+import { ConsentCatalogController } from '../controllers/consent-catalog.controller';
 
 const router = express.Router();
 
+// Purpose-of-use catalog and request templates to pick from
+router.get('/purposes', authenticateToken, ConsentCatalogController.listPurposes);
+router.get('/templates', authenticateToken, ConsentCatalogController.listTemplates);
+
 // Consent request routes (only doctors and pharmacies can request consent)
 router.post('/request', authenticateToken, requireHealthProvider, consent.requestConsent);
-router.get('/requests', authenticateToken, consent.getConsentRequests);
-router.post('/requests/reject', authenticateToken, requirePatient, consent.rejectConsentRequest);
+router.get('/requests', authenticateToken, actOnBehalfOf('MANAGE_CONSENTS'), consent.getConsentRequests);
+router.post('/requests/reject', authenticateToken, actOnBehalfOf('MANAGE_CONSENTS'), requirePatient, consent.rejectConsentRequest);
 
-// Consent management routes (only patients can grant/revoke consent)
-router.post('/grant', authenticateToken, requirePatient, consent.grantConsent);
-router.post('/revoke', authenticateToken, requirePatient, consent.revokeConsent);
-router.get('/', authenticateToken, consent.listConsents);
-router.get('/:id', authenticateToken, consent.getConsentDetails);
+// Consent management routes (only patients can grant/revoke consent; caregivers
+// with MANAGE_CONSENTS act through X-On-Behalf-Of)
+router.post('/grant', authenticateToken, actOnBehalfOf('MANAGE_CONSENTS'), requirePatient, consent.grantConsent);
+router.post('/revoke', authenticateToken, actOnBehalfOf('MANAGE_CONSENTS'), requirePatient, consent.revokeConsent);
+router.get('/', authenticateToken, actOnBehalfOf('MANAGE_CONSENTS'), consent.listConsents);
+router.get('/:id', authenticateToken, actOnBehalfOf('MANAGE_CONSENTS'), consent.getConsentDetails);
 
 // Development utility routes
 router.post('/dev/refresh-expired', authenticateToken, consent.refreshExpiredRequests);
@@ -0,0 +1,14 @@
+import express from 'express';
+import { authenticateToken } from '../middlewares/authMiddleware';
+import { DelegationController } from '../controllers/delegation.controller';
+
+const router = express.Router();
+
+// Patients grant caregivers proxy access; caregivers see who they can act for
+router.post('/', authenticateToken, DelegationController.grant);
+router.get('/', authenticateToken, DelegationController.list);
+
+// Patient, delegate or admin can end a delegation
+router.post('/:delegationId/revoke', authenticateToken, DelegationController.revoke);
+
+export default router;
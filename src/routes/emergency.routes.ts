@@ -1,5 +1,6 @@
 import express from 'express';
 import { EmergencyController } from '../controllers/emergency.controller';
+import { BreakGlassController } from '../controllers/break-glass.controller';
 import { authenticateToken } from '../middlewares/authMiddleware';
 
 const router = express.Router();
@@ -19,4 +20,9 @@ router.get('/share/:shareId/logs', authenticateToken, EmergencyController.getSha
 // Revoke emergency share (authenticated)
 router.delete('/share/:shareId', authenticateToken, EmergencyController.revokeEmergencyShare);
 
+// Break-the-glass: clinician emergency access without consent, reviewed by admins
+router.post('/break-glass', authenticateToken, BreakGlassController.declare);
+router.get('/break-glass', authenticateToken, BreakGlassController.list);
+router.post('/break-glass/:accessId/end', authenticateToken, BreakGlassController.end);
+
 export default router;
\ No newline at end of file
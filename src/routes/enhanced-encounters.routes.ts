@@ -12,35 +12,35 @@ const router = express.Router();
 // POST /api/encounters — create encounter (fields above). Returns encounter object.
 router.post('/', 
   authenticateToken,
-  ...requireConsentAndLog('encounter', ['WRITE_NOTES'], 'RECORD_CREATE'),
+  ...requireConsentAndLog('encounter', 'RECORD_CREATE'),
   ctrl.createEnhancedEncounter
 );
 
 // PATCH /api/encounters/:id — update (status, notes, end_time).
 router.patch('/:id', 
   authenticateToken,
-  ...requireConsentAndLog('encounter', ['WRITE_NOTES'], 'RECORD_UPDATE'),
+  ...requireConsentAndLog('encounter', 'RECORD_UPDATE'),
   ctrl.updateEnhancedEncounter
 );
 
 // GET /api/encounters/:id — fetch encounter and embedded observations/prescriptions.
 router.get('/:id', 
   authenticateToken,
-  ...requireConsentAndLog('encounter', ['READ_MEDICAL'], 'RECORD_READ'),
+  ...requireConsentAndLog('encounter', 'RECORD_READ'),
   ctrl.getEnhancedEncounter
 );
 
 // GET /api/patients/:healthId/encounters — list with pagination, filters (date, type).
 router.post('/patients/:healthId/encounters', 
   authenticateToken,
-  ...requireConsentAndLog('encounter', ['READ_MEDICAL'], 'RECORD_READ'),
+  ...requireConsentAndLog('encounter', 'RECORD_READ'),
   ctrl.listPatientEncounters
 );
 
 // POST /api/appointments/:id/convert-to-encounter — convenience: convert approved appointment → encounter.
 router.post('/appointments/:id/convert-to-encounter', 
   authenticateToken,
-  ...requireConsentAndLog('encounter', ['WRITE_NOTES'], 'RECORD_CREATE'),
+  ...requireConsentAndLog('encounter', 'RECORD_CREATE'),
   ctrl.convertAppointmentToEncounter
 );
 
@@ -48,26 +48,37 @@ router.post('/appointments/:id/convert-to-encounter',
 // POST /api/encounters/:encounterId/observations — add observation to encounter
 router.post('/:encounterId/observations', 
   authenticateToken,
-  ...requireConsentAndLog('encounter', ['WRITE_NOTES'], 'RECORD_CREATE'),
+  ...requireConsentAndLog('encounter', 'RECORD_CREATE'),
   ctrl.addObservationToEncounter
 );
 
-// Prescription Management (using observations table)
+// Prescription Management (Prescription / PrescriptionItem tables)
+router.get('/prescriptions/:prescriptionId', 
+  authenticateToken,
+  ctrl.getPrescription
+);
+
+// PATCH /api/encounters/prescriptions/:prescriptionId/status — ACTIVE → COMPLETED/CANCELLED/EXPIRED
+router.patch('/prescriptions/:prescriptionId/status', 
+  authenticateToken,
+  ctrl.updatePrescriptionStatus
+);
+
 router.post('/:encounterId/prescriptions', 
   authenticateToken,
-  ...requireConsentAndLog('observation', ['WRITE_NOTES'], 'RECORD_CREATE'),
+  ...requireConsentAndLog('prescription', 'RECORD_CREATE'),
   ctrl.createEncounterPrescription
 );
 
 router.get('/:encounterId/prescriptions', 
   authenticateToken,
-  ...requireConsentAndLog('observation', ['READ_MEDICAL'], 'RECORD_READ'),
+  ...requireConsentAndLog('prescription', 'RECORD_READ'),
   ctrl.getEncounterPrescriptions
 );
 
 router.get('/patients/:patientId/prescriptions', 
   authenticateToken,
-  ...requireConsentAndLog('observation', ['READ_MEDICAL'], 'RECORD_READ'),
+  ...requireConsentAndLog('prescription', 'RECORD_READ'),
   ctrl.getPatientPrescriptions
 );
 
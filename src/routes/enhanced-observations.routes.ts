@@ -1,7 +1,9 @@
 import express from 'express';
 import { authenticateToken } from '../middlewares/authMiddleware';
 import { requireConsentAndLog } from '../middlewares/consentMiddleware';
+import { actOnBehalfOf } from '../middlewares/delegationMiddleware';
 import enhancedObsCtrl from '../controllers/enhanced-observations.controller';
+import { CriticalAlertsController } from '../controllers/critical-alerts.controller';
 
 const router = express.Router();
 
@@ -10,48 +12,62 @@ const router = express.Router();
 // Create enhanced observation with clinical data
 router.post('/create', 
   authenticateToken, 
-  ...requireConsentAndLog('observation', ['WRITE_NOTES'], 'RECORD_CREATE'),
+  ...requireConsentAndLog('observation', 'RECORD_CREATE'),
   enhancedObsCtrl.createEnhancedObservation
 );
 
 // Get observations by category with advanced filtering
 router.post('/by-category', 
   authenticateToken, 
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('observation', 'RECORD_READ'),
   enhancedObsCtrl.getObservationsByCategory
 );
 
 // Get observation trends and analytics
 router.post('/trends', 
   authenticateToken, 
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('observation', 'RECORD_READ'),
   enhancedObsCtrl.getObservationTrends
 );
 
 // Get comprehensive observation analytics
 router.post('/analytics', 
   authenticateToken, 
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('observation', 'RECORD_READ'),
   enhancedObsCtrl.getObservationAnalytics
 );
 
 // Add prescription to observation (doctors only)
 router.post('/:observationId/prescription', 
   authenticateToken, 
-  ...requireConsentAndLog('observation', ['WRITE_NOTES'], 'RECORD_UPDATE'),
+  ...requireConsentAndLog('observation', 'RECORD_UPDATE'),
   enhancedObsCtrl.addPrescriptionToObservation
 );
 
 // Update observation status and clinical notes
 router.put('/:id/status', 
   authenticateToken, 
-  ...requireConsentAndLog('observation', ['WRITE_NOTES'], 'RECORD_UPDATE'),
+  ...requireConsentAndLog('observation', 'RECORD_UPDATE'),
   enhancedObsCtrl.updateObservationStatus
 );
 
 // Get critical observations (emergency flags)
 router.post('/critical', 
   authenticateToken, 
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('observation', 'RECORD_READ'),
   enhancedObsCtrl.getCriticalObservations
 );
 
+// Critical observation alerts inbox, acknowledgement and resolution
+router.get('/alerts', authenticateToken, CriticalAlertsController.getAlerts);
+router.get('/alerts/:alertId', authenticateToken, CriticalAlertsController.getAlert);
+router.post('/alerts/:alertId/acknowledge', authenticateToken, CriticalAlertsController.acknowledgeAlert);
+router.post('/alerts/:alertId/resolve', authenticateToken, CriticalAlertsController.resolveAlert);
+
 // Get detailed audit trail
 router.post('/audit-trail', 
   authenticateToken, 
@@ -61,7 +77,8 @@ router.post('/audit-trail',
 // Export observations (JSON, FHIR, CSV)
 router.post('/export', 
   authenticateToken, 
-  ...requireConsentAndLog('observation', ['READ_LAB', 'READ_MEDICAL'], 'RECORD_READ'),
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('observation', 'RECORD_READ'),
   enhancedObsCtrl.exportObservations
 );
 
@@ -0,0 +1,18 @@
+import express from 'express';
+import { authenticateToken } from '../middlewares/authMiddleware';
+import { requireConsentAndLog } from '../middlewares/consentMiddleware';
+import { ImagingController } from '../controllers/imaging.controller';
+
+const router = express.Router();
+
+// Index an already-uploaded DICOM file into its study
+router.post('/ingest', authenticateToken, ImagingController.ingestUpload);
+
+// Study search; patients default to their own studies
+router.get('/studies', authenticateToken, ...requireConsentAndLog('imaging_study'), ImagingController.listStudies);
+
+// Study detail and instance download check READ_RADIOLOGY against the study's patient
+router.get('/studies/:studyId', authenticateToken, ImagingController.getStudy);
+router.get('/studies/:studyId/instances/:instanceId/file', authenticateToken, ImagingController.downloadInstance);
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { Request, Response } from 'express';
 import { authenticateToken } from '../middlewares/authMiddleware';
+import { NotificationCategory } from '@prisma/client';
 import NotificationService from '../services/notification.service';
 
 const router = express.Router();
@@ -74,6 +75,149 @@ router.post('/read', authenticateToken, async (req: AuthenticatedRequest, res: R
   }
 });
 
+/**
+ * Notification center inbox
+ * GET /api/notifications/inbox?limit=&offset=&unreadOnly=&category=
+ */
+router.get('/inbox', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    const { limit = 20, offset = 0, unreadOnly, category } = req.query;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (category && !Object.values(NotificationCategory).includes(category as NotificationCategory)) {
+      return res.status(400).json({ error: 'Invalid notification category' });
+    }
+
+    const inbox = await NotificationService.getInbox(userId, {
+      limit: Math.min(Number(limit) || 20, 100),
+      offset: Number(offset) || 0,
+      unreadOnly: unreadOnly === 'true',
+      category: category as NotificationCategory | undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: inbox
+    });
+
+  } catch (error) {
+    console.error('Error getting notification inbox:', error);
+    res.status(500).json({ error: 'Failed to get notifications' });
+  }
+});
+
+/**
+ * Unread notification count
+ * GET /api/notifications/inbox/unread-count
+ */
+router.get('/inbox/unread-count', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const unreadCount = await NotificationService.getUnreadCount(userId);
+
+    res.status(200).json({
+      success: true,
+      data: { unreadCount }
+    });
+
+  } catch (error) {
+    console.error('Error getting unread notification count:', error);
+    res.status(500).json({ error: 'Failed to get unread count' });
+  }
+});
+
+/**
+ * Mark inbox notifications as read
+ * POST /api/notifications/inbox/read
+ */
+router.post('/inbox/read', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+    const { notificationIds } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!notificationIds || !Array.isArray(notificationIds)) {
+      return res.status(400).json({ error: 'Notification IDs array required' });
+    }
+
+    const updated = await NotificationService.markRead(userId, notificationIds);
+
+    res.status(200).json({
+      success: true,
+      data: { updated },
+      message: 'Notifications marked as read'
+    });
+
+  } catch (error) {
+    console.error('Error marking inbox notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+/**
+ * Mark all inbox notifications as read
+ * POST /api/notifications/inbox/read-all
+ */
+router.post('/inbox/read-all', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.healthId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const updated = await NotificationService.markAllRead(userId);
+
+    res.status(200).json({
+      success: true,
+      data: { updated },
+      message: 'All notifications marked as read'
+    });
+
+  } catch (error) {
+    console.error('Error marking all notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+/**
+ * Send due email/SMS deliveries and digests (admin endpoint)
+ * POST /api/notifications/deliveries/process
+ */
+router.post('/deliveries/process', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userRole = req.user?.role;
+
+    if (userRole !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const result = await NotificationService.processPendingDeliveries();
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Notification deliveries processed'
+    });
+
+  } catch (error) {
+    console.error('Error processing notification deliveries:', error);
+    res.status(500).json({ error: 'Failed to process notification deliveries' });
+  }
+});
+
 /**
  * Send appointment reminders (admin endpoint)
  * POST /api/notifications/reminders
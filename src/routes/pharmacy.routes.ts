@@ -0,0 +1,24 @@
+import express from 'express';
+import { PharmacyController } from '../controllers/pharmacy.controller';
+import { authenticateToken, requirePharmacy } from '../middlewares/authMiddleware';
+import { requireConsentAndLog } from '../middlewares/consentMiddleware';
+
+const router = express.Router();
+
+// All pharmacy routes require an authenticated pharmacy account
+router.use(authenticateToken, requirePharmacy);
+
+// Prescription lookup by patient Health ID (consent required)
+router.get('/patients/:healthId/prescriptions',
+  ...requireConsentAndLog('prescription', 'RECORD_READ'),
+  PharmacyController.getPatientActivePrescriptions
+);
+
+// Prescription details and dispensing
+router.get('/prescriptions/:prescriptionId', PharmacyController.getPrescription);
+router.post('/prescriptions/:prescriptionId/dispense', PharmacyController.dispensePrescription);
+
+// Dispensing history for the authenticated pharmacy
+router.get('/dispensations', PharmacyController.getDispensingHistory);
+
+export default router;
@@ -2,6 +2,9 @@ import express from 'express';
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken } from '../middlewares/authMiddleware';
+import FileService from '../services/file.service';
+import AuditService from '../services/audit.service';
+import ConsentPolicyService from '../services/consent-policy.service';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -56,6 +59,7 @@ router.get('/:recordId/attachments', authenticateToken, async (req: Authenticate
 
     // Filter attachments based on access permissions
     const accessibleAttachments = [];
+    const grantedScopes = new Map<string, string[] | undefined>();
 
     for (const attachment of attachments) {
       // Owner can always see their files
@@ -70,20 +74,15 @@ router.get('/:recordId/attachments', authenticateToken, async (req: Authenticate
         continue;
       }
 
-      // Healthcare providers need consent to access patient files
+      // Healthcare providers need consent covering the kind of file (e.g. READ_RADIOLOGY for DICOM)
       if (userRole === 'doctor') {
-        const consent = await prisma.consent.findFirst({
-          where: {
-            patientId: attachment.ownerHealthId,
-            providerId: userId,
-            status: 'ACTIVE',
-            expiresAt: {
-              gt: new Date()
-            }
-          }
-        });
+        if (!grantedScopes.has(attachment.ownerHealthId)) {
+          const consentCheck = await AuditService.verifyConsent(userId, attachment.ownerHealthId, { resource: 'attachment', action: 'read' });
+          // Emergency access grants no scope list, meaning unrestricted
+          grantedScopes.set(attachment.ownerHealthId, consentCheck.hasConsent ? consentCheck.scopes : []);
+        }
 
-        if (consent) {
+        if (ConsentPolicyService.filterAttachments([attachment], grantedScopes.get(attachment.ownerHealthId)).length > 0) {
           accessibleAttachments.push(attachment);
         }
       }
@@ -108,7 +107,10 @@ router.get('/:recordId/attachments', authenticateToken, async (req: Authenticate
               'Unknown'
           },
           isViewable: isViewableInBrowser(att.mimeType),
-          category: getFileCategory(att.mimeType)
+          category: getFileCategory(att.mimeType),
+          thumbnailUrl: FileService.supportsThumbnail(att.mimeType)
+            ? `/api/uploads/file/${att.id}/thumbnail`
+            : null
         })),
         count: accessibleAttachments.length
       }
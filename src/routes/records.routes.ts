@@ -1,6 +1,7 @@
 import express from 'express';
 import { authenticateToken } from '../middlewares/authMiddleware';
 import { requireConsentAndLog } from '../middlewares/consentMiddleware';
+import { actOnBehalfOf } from '../middlewares/delegationMiddleware';
 import ctrl from '../controllers/records.controller';
 
 const router = express.Router();
@@ -8,32 +9,38 @@ const router = express.Router();
 // Encounters - with consent enforcement and audit logging
 router.post('/encounters/create', 
   authenticateToken, 
-  ...requireConsentAndLog('encounter', ['WRITE_NOTES'], 'RECORD_CREATE'),
+  ...requireConsentAndLog('encounter', 'RECORD_CREATE'),
   ctrl.createEncounter
 );
 router.post('/encounters/get/:id', 
   authenticateToken, 
-  ...requireConsentAndLog('encounter', ['READ_MEDICAL'], 'RECORD_READ'),
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('encounter', 'RECORD_READ'),
   ctrl.getEncounter
 );
 router.post('/encounters/list', 
   authenticateToken, 
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('encounter', 'RECORD_READ'),
   ctrl.listEncounters
 );
 
 // Observations - with consent enforcement and audit logging
 router.post('/observations/create', 
   authenticateToken, 
-  ...requireConsentAndLog('observation', ['WRITE_NOTES'], 'RECORD_CREATE'),
+  ...requireConsentAndLog('observation', 'RECORD_CREATE'),
   ctrl.createObservation
 );
 router.post('/observations/get/:id', 
   authenticateToken, 
-  ...requireConsentAndLog('observation', ['READ_LAB', 'READ_MEDICAL'], 'RECORD_READ'),
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('observation', 'RECORD_READ'),
   ctrl.getObservation
 );
 router.post('/observations/list', 
   authenticateToken, 
+  actOnBehalfOf('VIEW_RECORDS'),
+  ...requireConsentAndLog('observation', 'RECORD_READ'),
   ctrl.listObservations
 );
 
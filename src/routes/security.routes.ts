@@ -1,18 +1,35 @@
 import express from 'express';
-import { authenticateToken } from '../middlewares/authMiddleware';
+import { authenticateToken, authenticateLockedSession } from '../middlewares/authMiddleware';
 import {
   changePassword,
   listSessions,
   revokeSession,
   revokeAllOtherSessions,
+  setSessionTrust,
   getRecoveryOptions,
   updateRecoveryOptions,
-  getSecuritySettings
+  getSecuritySettings,
+  updateSecuritySettings,
+  unlockSession,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  confirmTwoFactor,
+  regenerateBackupCodes,
+  disableTwoFactor,
+  listPasskeys,
+  getPasskeyRegistrationOptions,
+  registerPasskey,
+  renamePasskey,
+  deletePasskey,
+  updatePasskeySettings
 } from '../controllers/security.controller';
 
 const router = express.Router();
 
-// All routes require authentication
+// Unlocking must accept a session that is currently locked
+router.post('/sessions/unlock', authenticateLockedSession, unlockSession);
+
+// All other routes require authentication
 router.use(authenticateToken);
 
 // Password management
@@ -22,6 +39,7 @@ router.post('/change-password', changePassword);
 router.get('/sessions', listSessions);
 router.delete('/sessions/:sessionId', revokeSession);
 router.post('/sessions/revoke-all', revokeAllOtherSessions);
+router.put('/sessions/:sessionId/trust', setSessionTrust);
 
 // Recovery options
 router.get('/recovery-options', getRecoveryOptions);
@@ -29,5 +47,21 @@ router.put('/recovery-options', updateRecoveryOptions);
 
 // Security settings
 router.get('/settings', getSecuritySettings);
+router.put('/settings', updateSecuritySettings);
+
+// Two-factor authentication
+router.get('/2fa', getTwoFactorStatus);
+router.post('/2fa/setup', setupTwoFactor);
+router.post('/2fa/confirm', confirmTwoFactor);
+router.post('/2fa/backup-codes', regenerateBackupCodes);
+router.post('/2fa/disable', disableTwoFactor);
+
+// Passkeys (WebAuthn)
+router.get('/passkeys', listPasskeys);
+router.post('/passkeys/register/options', getPasskeyRegistrationOptions);
+router.post('/passkeys/register', registerPasskey);
+router.put('/passkeys/settings', updatePasskeySettings);
+router.patch('/passkeys/:passkeyId', renamePasskey);
+router.delete('/passkeys/:passkeyId', deletePasskey);
 
 export default router;
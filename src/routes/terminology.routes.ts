@@ -0,0 +1,17 @@
+import express from 'express';
+import { authenticateToken, requireAdmin } from '../middlewares/authMiddleware';
+import { TerminologyController } from '../controllers/terminology.controller';
+
+const router = express.Router();
+
+// Code search and autocomplete for observation (LOINC) and diagnosis (SNOMED CT) pickers
+router.get('/search', authenticateToken, TerminologyController.search);
+router.get('/autocomplete', authenticateToken, TerminologyController.autocomplete);
+
+// Admin import of terminology batches
+router.post('/import', authenticateToken, requireAdmin, TerminologyController.importConcepts);
+
+// Code lookup / validation
+router.get('/:system/:code', authenticateToken, TerminologyController.lookup);
+
+export default router;
@@ -3,12 +3,13 @@ import multer from 'multer';
 import { UploadsController } from '../controllers/uploads.controller';
 import { authenticateToken } from '../middlewares/authMiddleware';
 import runtimeConfig from '../config/runtime-config';
+import storageService from '../services/storage.service';
 
 const router = express.Router();
 
-// Configure multer for memory storage
+// Configure multer to stream file parts straight into blob storage
 const upload = multer({
-  storage: multer.memoryStorage(),
+  storage: storageService.multerStorage(),
   limits: { fileSize: runtimeConfig.maxFileSizeBytes }
 });
 
@@ -27,15 +28,31 @@ const optionalMulter = (req: any, res: any, next: any) => {
 // File upload (supports both FormData and JSON base64)
 router.post('/file', authenticateToken, optionalMulter, UploadsController.uploadFile);
 
+// Resumable upload sessions; chunks are sent as raw application/octet-stream bodies
+router.post('/sessions', authenticateToken, UploadsController.initiateUpload);
+router.get('/sessions/:uploadId', authenticateToken, UploadsController.getUploadProgress);
+router.put('/sessions/:uploadId/chunks', authenticateToken, UploadsController.uploadChunk);
+router.post('/sessions/:uploadId/complete', authenticateToken, UploadsController.completeUpload);
+router.delete('/sessions/:uploadId', authenticateToken, UploadsController.abortUpload);
+
 // File download endpoint
 router.get('/file/:fileId', authenticateToken, UploadsController.downloadFile);
 
 // File management
 router.get('/files', authenticateToken, UploadsController.listFiles);
 router.get('/file/:fileId/metadata', authenticateToken, UploadsController.getFileMetadata);
+router.get('/file/:fileId/thumbnail', authenticateToken, UploadsController.getThumbnail);
 router.delete('/file/:fileId', authenticateToken, UploadsController.deleteFile);
 
 // File access history
 router.get('/file/:fileId/access-history', authenticateToken, UploadsController.getFileAccessHistory);
 
+// Signed, expiring share links for people outside the platform
+router.post('/file/:fileId/share-links', authenticateToken, UploadsController.createShareLink);
+router.get('/file/:fileId/share-links', authenticateToken, UploadsController.listShareLinks);
+router.delete('/file/:fileId/share-links/:linkId', authenticateToken, UploadsController.revokeShareLink);
+
+// Public download through a share link - no authentication required
+router.get('/shared/:token', UploadsController.downloadSharedFile);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,181 @@
+/**
+ * Import a terminology release into terminology_concepts.
+ *
+ * Usage:
+ *   npm run terminology:import -- --system loinc --file Loinc.csv [--version 2.77] [--codes subset.txt]
+ *   npm run terminology:import -- --system snomed --file sct2_Description_Snapshot-en_INT.txt [--codes subset.txt]
+ *   npm run terminology:import -- --system loinc --file concepts.json
+ *
+ * LOINC is read from the release's Loinc.csv; SNOMED CT from an RF2
+ * description snapshot, keeping disorders and findings only. A JSON file
+ * holding an array of { code, display, synonyms?, category?, ... } is accepted
+ * for either system. --codes restricts the import to the codes listed in a
+ * file (one per line) so a local subset can be maintained.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import readline from 'readline';
+import { TerminologySystem } from '@prisma/client';
+import prisma from '../utils/prisma';
+import TerminologyService, { ConceptInput } from '../services/terminology.service';
+
+dotenv.config();
+
+const SNOMED_FSN_TYPE = '900000000000003001';
+const SNOMED_DIAGNOSIS_TAGS = ['(disorder)', '(finding)'];
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+};
+
+// Minimal RFC 4180 line parser; LOINC's CSV has no embedded newlines
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+const readLoincCsv = async (file: string, filter?: Set<string>): Promise<ConceptInput[]> => {
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  const concepts: ConceptInput[] = [];
+  let columns: Record<string, number> | null = null;
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const fields = parseCsvLine(line);
+
+    if (!columns) {
+      columns = Object.fromEntries(fields.map((name, i) => [name, i]));
+      if (columns.LOINC_NUM === undefined || columns.LONG_COMMON_NAME === undefined) {
+        throw new Error('Not a LOINC table: expected LOINC_NUM and LONG_COMMON_NAME columns');
+      }
+      continue;
+    }
+
+    const get = (name: string) => (columns![name] !== undefined ? fields[columns![name]]?.trim() : undefined) || undefined;
+    const code = get('LOINC_NUM')!;
+    if (filter && !filter.has(code)) continue;
+
+    concepts.push({
+      code,
+      display: get('LONG_COMMON_NAME')!,
+      synonyms: [get('SHORTNAME'), get('COMPONENT')].filter((s): s is string => !!s),
+      // CLASSTYPE 1 is laboratory; other classes are left for the catalog to categorise
+      category: get('CLASSTYPE') === '1' ? 'LABORATORY' : null,
+      defaultUnit: get('EXAMPLE_UCUM_UNITS')?.split(';')[0] || null,
+      isActive: get('STATUS') !== 'DEPRECATED' && get('STATUS') !== 'DISCOURAGED'
+    });
+  }
+
+  return concepts;
+};
+
+const readSnomedDescriptions = async (file: string, filter?: Set<string>): Promise<ConceptInput[]> => {
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  const byConcept = new Map<string, { fsn?: string; synonyms: string[] }>();
+  let header = true;
+
+  for await (const line of lines) {
+    if (header) {
+      header = false;
+      continue;
+    }
+
+    // id, effectiveTime, active, moduleId, conceptId, languageCode, typeId, term, caseSignificanceId
+    const [, , active, , conceptId, , typeId, term] = line.split('\t');
+    if (active !== '1' || !term || (filter && !filter.has(conceptId))) continue;
+
+    const entry = byConcept.get(conceptId) ?? { synonyms: [] };
+    if (typeId === SNOMED_FSN_TYPE) {
+      entry.fsn = term;
+    } else {
+      entry.synonyms.push(term);
+    }
+    byConcept.set(conceptId, entry);
+  }
+
+  const concepts: ConceptInput[] = [];
+  for (const [code, entry] of byConcept) {
+    const tag = SNOMED_DIAGNOSIS_TAGS.find(t => entry.fsn?.endsWith(t));
+    if (!entry.fsn || !tag) continue;
+
+    concepts.push({
+      code,
+      display: entry.fsn.slice(0, -tag.length).trim(),
+      synonyms: entry.synonyms,
+      category: 'DIAGNOSIS'
+    });
+  }
+
+  return concepts;
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  const systemArg = args.system?.toLowerCase();
+  const system: TerminologySystem | null =
+    systemArg === 'loinc' ? 'LOINC' : systemArg === 'snomed' || systemArg === 'snomed_ct' ? 'SNOMED_CT' : null;
+
+  if (!system || !args.file) {
+    console.error('Usage: import-terminology --system <loinc|snomed> --file <path> [--version <v>] [--codes <path>]');
+    process.exit(1);
+  }
+
+  const filter = args.codes
+    ? new Set(fs.readFileSync(args.codes, 'utf8').split(/\r?\n/).map(line => line.trim()).filter(Boolean))
+    : undefined;
+
+  let concepts: ConceptInput[];
+  if (args.file.endsWith('.json')) {
+    concepts = JSON.parse(fs.readFileSync(args.file, 'utf8'));
+    if (filter) {
+      concepts = concepts.filter(c => filter.has(c.code));
+    }
+  } else if (system === 'LOINC') {
+    concepts = await readLoincCsv(args.file, filter);
+  } else {
+    concepts = await readSnomedDescriptions(args.file, filter);
+  }
+
+  console.log(`Importing ${concepts.length} ${system} concepts from ${args.file}`);
+  const result = await TerminologyService.importConcepts(system, concepts, args.version);
+  console.log(`Created ${result.created}, updated ${result.updated}, skipped ${result.skipped}`);
+};
+
+main()
+  .catch((error) => {
+    console.error('Terminology import failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,49 @@
+/**
+ * Move base64 file contents out of file_uploads.fileData into the blob store
+ * selected by STORAGE_DRIVER.
+ *
+ * Usage:
+ *   npm run storage:migrate -- [--limit 500] [--dry-run]
+ *
+ * Each file's checksum is verified before the move and again after reading it
+ * back from the store; failures are listed and their rows are left untouched,
+ * so the command can be re-run safely.
+ */
+
+import dotenv from 'dotenv';
+import prisma from '../utils/prisma';
+import FileService from '../services/file.service';
+import storageService from '../services/storage.service';
+
+dotenv.config();
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const limitIndex = args.indexOf('--limit');
+  const limit = limitIndex >= 0 ? Number.parseInt(args[limitIndex + 1], 10) : undefined;
+  const dryRun = args.includes('--dry-run');
+
+  if (limit !== undefined && (!Number.isFinite(limit) || limit <= 0)) {
+    console.error('--limit must be a positive integer');
+    process.exit(1);
+  }
+
+  console.log(`Migrating file data to ${storageService.getDriverName()} storage${dryRun ? ' (dry run)' : ''}`);
+  const result = await FileService.migrateFileDataToStorage({ limit, dryRun });
+
+  console.log(`${dryRun ? 'Would migrate' : 'Migrated'} ${result.migrated} files, ${result.failed.length} failed, ${result.remaining} remaining`);
+  for (const failure of result.failed) {
+    console.log(`  ${failure.fileId}: ${failure.error}`);
+  }
+
+  if (result.failed.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error('File storage migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,414 @@
+import { AppointmentStatus, RecurrenceFrequency } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import AvailabilityService from './availability.service';
+import {
+  LocalDate,
+  addDays,
+  compareLocalDates,
+  toLocalDate,
+  toLocalMinutes,
+  zonedTimeToUtc
+} from '../utils/timezone';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+}
+
+export interface SeriesAppointmentData {
+  patientId: string;
+  doctorId: string;
+  facilityId?: string;
+  reasonForVisit?: string;
+  patientNotes?: string;
+  doctorNotes?: string;
+  appointmentType?: string;
+  duration: number;
+}
+
+export interface CreateSeriesInput {
+  rule: RecurrenceRule;
+  timezone: string;
+  occurrences: Date[];
+  status: AppointmentStatus;
+  appointment: SeriesAppointmentData;
+  // Existing appointment that becomes the first occurrence (approval flow)
+  baseAppointmentId?: string;
+}
+
+export interface OccurrenceConflict {
+  time: Date;
+  reason: string;
+  conflictingAppointmentId?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const ACTIVE_STATUSES: AppointmentStatus[] = ['PENDING', 'CONFIRMED'];
+
+/**
+ * Recurring appointment series (RRULE-style FREQ/INTERVAL/COUNT/UNTIL).
+ *
+ * Every occurrence is a normal Appointment linked to the series, so existing
+ * per-appointment endpoints keep working. originalStartTime records where the
+ * rule placed an occurrence; an occurrence moved on its own keeps it, which is
+ * what lets calendar exports emit it as an override (RECURRENCE-ID).
+ */
+export class AppointmentSeriesService {
+  static readonly MAX_OCCURRENCES = 52;
+  private static readonly FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+  /**
+   * Parse a recurrence from a request body: either an RRULE string such as
+   * "FREQ=WEEKLY;INTERVAL=2;COUNT=6" or an object { frequency, interval, count, until }
+   */
+  static parseRecurrence(input: unknown): { rule?: RecurrenceRule; error?: string } {
+    let frequency: unknown;
+    let interval: unknown = 1;
+    let count: unknown;
+    let until: unknown;
+
+    if (typeof input === 'string') {
+      const parts = input.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+      for (const part of parts) {
+        const [key, value] = part.split('=');
+        switch (key?.toUpperCase()) {
+          case 'FREQ': frequency = value?.toUpperCase(); break;
+          case 'INTERVAL': interval = Number(value); break;
+          case 'COUNT': count = Number(value); break;
+          case 'UNTIL': until = this.parseRRuleDate(value); break;
+          default:
+            return { error: `Unsupported recurrence part: ${key}` };
+        }
+      }
+    } else if (input && typeof input === 'object') {
+      const body = input as Record<string, unknown>;
+      frequency = typeof body.frequency === 'string' ? body.frequency.toUpperCase() : body.frequency;
+      interval = body.interval ?? 1;
+      count = body.count;
+      until = body.until !== undefined ? new Date(String(body.until)) : undefined;
+    } else {
+      return { error: 'recurrence must be an RRULE string or an object' };
+    }
+
+    if (!this.FREQUENCIES.includes(frequency as RecurrenceFrequency)) {
+      return { error: 'Recurrence frequency must be one of DAILY, WEEKLY, MONTHLY' };
+    }
+    if (!Number.isInteger(interval) || (interval as number) < 1 || (interval as number) > 12) {
+      return { error: 'Recurrence interval must be an integer between 1 and 12' };
+    }
+    if (count === undefined && until === undefined) {
+      return { error: 'Recurrence requires either count or until' };
+    }
+    if (count !== undefined && until !== undefined) {
+      return { error: 'Recurrence cannot specify both count and until' };
+    }
+    if (count !== undefined && (!Number.isInteger(count) || (count as number) < 2 || (count as number) > this.MAX_OCCURRENCES)) {
+      return { error: `Recurrence count must be between 2 and ${this.MAX_OCCURRENCES}` };
+    }
+    if (until !== undefined && (!(until instanceof Date) || isNaN(until.getTime()))) {
+      return { error: 'Recurrence until must be a valid date' };
+    }
+
+    return {
+      rule: {
+        frequency: frequency as RecurrenceFrequency,
+        interval: interval as number,
+        count: count as number | undefined,
+        until: until as Date | undefined
+      }
+    };
+  }
+
+  /**
+   * RRULE UNTIL values: YYYYMMDD or YYYYMMDDTHHMMSSZ
+   */
+  private static parseRRuleDate(value: string | undefined): Date | null {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) return null;
+    const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match;
+    return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+  }
+
+  private static addMonths(local: LocalDate, months: number): LocalDate | null {
+    const monthIndex = local.month - 1 + months;
+    const year = local.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    // Like RFC 5545, months without the start day (e.g. the 31st) are skipped
+    return local.day <= daysInMonth ? { year, month, day: local.day } : null;
+  }
+
+  /**
+   * Expand a rule into occurrence start times. Occurrences keep the same wall-clock
+   * time in the given timezone, so a weekly 09:00 visit stays at 09:00 across DST.
+   * Returns null when an UNTIL-bounded rule would exceed MAX_OCCURRENCES.
+   */
+  static generateOccurrences(start: Date, rule: RecurrenceRule, timezone: string): Date[] | null {
+    const localStart = toLocalDate(start, timezone);
+    const minutes = toLocalMinutes(start, timezone);
+    const subMinuteMs = start.getTime() % MINUTE_MS;
+    const occurrences: Date[] = [];
+
+    for (let step = 0; step <= this.MAX_OCCURRENCES * 2; step++) {
+      const offset = step * rule.interval;
+      const local = rule.frequency === 'MONTHLY'
+        ? this.addMonths(localStart, offset)
+        : addDays(localStart, rule.frequency === 'WEEKLY' ? offset * 7 : offset);
+      if (!local) continue;
+
+      const time = new Date(zonedTimeToUtc(local, minutes, timezone).getTime() + subMinuteMs);
+      if (rule.until && time > rule.until) break;
+
+      occurrences.push(time);
+      if (rule.count && occurrences.length >= rule.count) break;
+      if (occurrences.length > this.MAX_OCCURRENCES) return null;
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Occurrences are generated in the doctor's schedule timezone when one is published
+   */
+  static async resolveTimezone(doctorId: string): Promise<string> {
+    const template = await prisma.doctorAvailability.findFirst({
+      where: { doctorId, isActive: true },
+      select: { timezone: true }
+    });
+    return template?.timezone ?? 'UTC';
+  }
+
+  /**
+   * Check every occurrence against the doctor's availability and existing bookings
+   */
+  static async findOccurrenceConflicts(
+    doctorId: string,
+    occurrences: Date[],
+    duration: number,
+    excludeAppointmentIds: string[] = []
+  ): Promise<OccurrenceConflict[]> {
+    const conflicts: OccurrenceConflict[] = [];
+    const now = new Date();
+
+    for (const time of occurrences) {
+      if (time <= now) {
+        conflicts.push({ time, reason: 'Occurrence is in the past' });
+        continue;
+      }
+
+      const availability = await AvailabilityService.isWithinAvailability(doctorId, time, duration);
+      if (!availability.available) {
+        conflicts.push({ time, reason: availability.reason! });
+        continue;
+      }
+
+      const conflicting = await AvailabilityService.findConflictingAppointment(
+        doctorId,
+        time,
+        duration,
+        excludeAppointmentIds
+      );
+      if (conflicting) {
+        conflicts.push({
+          time,
+          reason: 'Doctor has a conflicting appointment at this time',
+          conflictingAppointmentId: conflicting.id
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Create a series and all of its occurrences in one transaction
+   */
+  static async createSeries(input: CreateSeriesInput) {
+    const { rule, occurrences, appointment } = input;
+    const now = new Date();
+    const statusTimestamps = input.status === 'CONFIRMED' ? { confirmedAt: now } : {};
+
+    return prisma.$transaction(async (tx) => {
+      const series = await tx.appointmentSeries.create({
+        data: {
+          patientId: appointment.patientId,
+          doctorId: appointment.doctorId,
+          frequency: rule.frequency,
+          interval: rule.interval,
+          count: rule.count,
+          until: rule.until,
+          startsAt: occurrences[0],
+          duration: appointment.duration,
+          timezone: input.timezone
+        }
+      });
+
+      if (input.baseAppointmentId) {
+        await tx.appointment.update({
+          where: { id: input.baseAppointmentId },
+          data: { seriesId: series.id, occurrenceIndex: 0, originalStartTime: occurrences[0] }
+        });
+      }
+
+      const firstNewIndex = input.baseAppointmentId ? 1 : 0;
+      await tx.appointment.createMany({
+        data: occurrences.slice(firstNewIndex).map((time, i) => ({
+          ...appointment,
+          requestedTime: time,
+          originalStartTime: time,
+          occurrenceIndex: firstNewIndex + i,
+          seriesId: series.id,
+          status: input.status,
+          ...statusTimestamps
+        }))
+      });
+
+      logger.info('Appointment series created', {
+        seriesId: series.id,
+        occurrences: occurrences.length,
+        frequency: rule.frequency
+      });
+
+      return series;
+    });
+  }
+
+  static async getSeries(seriesId: string) {
+    return prisma.appointmentSeries.findUnique({
+      where: { id: seriesId },
+      include: { appointments: { orderBy: { occurrenceIndex: 'asc' } } }
+    });
+  }
+
+  /**
+   * Remaining (future, still active) occurrences of a series
+   */
+  static async getRemainingOccurrences(seriesId: string) {
+    return prisma.appointment.findMany({
+      where: {
+        seriesId,
+        status: { in: ACTIVE_STATUSES },
+        requestedTime: { gt: new Date() }
+      },
+      orderBy: { requestedTime: 'asc' }
+    });
+  }
+
+  /**
+   * Update the status of every matching upcoming occurrence in a series.
+   * Returns the occurrences that were changed (as they were before the update).
+   */
+  static async updateSeriesStatus(
+    seriesId: string,
+    fromStatuses: AppointmentStatus[],
+    status: AppointmentStatus,
+    data: { notes?: string; doctorNotes?: string } = {}
+  ) {
+    const now = new Date();
+    const timestamps =
+      status === 'CONFIRMED' ? { confirmedAt: now } :
+      status === 'REJECTED' ? { rejectedAt: now } :
+      status === 'CANCELLED' ? { cancelledAt: now } : {};
+
+    const occurrences = await prisma.appointment.findMany({
+      where: {
+        seriesId,
+        status: { in: fromStatuses },
+        requestedTime: { gt: now }
+      }
+    });
+
+    // Re-check the status so an occurrence changed since the read is left alone
+    await prisma.appointment.updateMany({
+      where: {
+        id: { in: occurrences.map(occurrence => occurrence.id) },
+        status: { in: fromStatuses }
+      },
+      data: { status, ...timestamps, ...data }
+    });
+
+    if (status === 'CANCELLED' || status === 'REJECTED') {
+      await prisma.appointmentSeries.update({
+        where: { id: seriesId },
+        data: { cancelledAt: now }
+      });
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Move `date` by the wall-clock change from `from` to `to` in the series
+   * timezone (same number of days and minutes), so occurrences on the other
+   * side of a DST change keep their local time like the exported RRULE does.
+   */
+  static shiftWallClock(date: Date, from: Date, to: Date, timezone: string): Date {
+    const days = Math.round(compareLocalDates(toLocalDate(to, timezone), toLocalDate(from, timezone)) / DAY_MS);
+    const minutes = toLocalMinutes(to, timezone) - toLocalMinutes(from, timezone);
+
+    return zonedTimeToUtc(
+      addDays(toLocalDate(date, timezone), days),
+      toLocalMinutes(date, timezone) + minutes,
+      timezone
+    );
+  }
+
+  /**
+   * Shift the whole series by the wall-clock change from `from` to `to`.
+   * Remaining occurrences move; the rule anchor and every originalStartTime
+   * move with them so calendar exports stay consistent (past occurrences
+   * become overrides).
+   */
+  static async shiftSeries(seriesId: string, from: Date, to: Date, status: AppointmentStatus) {
+    return prisma.$transaction(async (tx) => {
+      const series = await tx.appointmentSeries.findUniqueOrThrow({
+        where: { id: seriesId },
+        include: { appointments: true }
+      });
+      const now = new Date();
+      const shift = (date: Date) => this.shiftWallClock(date, from, to, series.timezone);
+
+      for (const occurrence of series.appointments) {
+        const remaining = ACTIVE_STATUSES.includes(occurrence.status) && occurrence.requestedTime > now;
+        await tx.appointment.update({
+          where: { id: occurrence.id },
+          data: {
+            ...(occurrence.originalStartTime && { originalStartTime: shift(occurrence.originalStartTime) }),
+            ...(remaining && {
+              requestedTime: shift(occurrence.requestedTime),
+              status,
+              ...(status === 'CONFIRMED' && { confirmedAt: now })
+            })
+          }
+        });
+      }
+
+      return tx.appointmentSeries.update({
+        where: { id: seriesId },
+        data: {
+          startsAt: shift(series.startsAt),
+          ...(series.until && { until: shift(series.until) })
+        }
+      });
+    });
+  }
+
+  /**
+   * RRULE value for a series, e.g. "FREQ=WEEKLY;INTERVAL=1;COUNT=6"
+   */
+  static toRRule(series: { frequency: RecurrenceFrequency; interval: number; count?: number | null; until?: Date | null }): string {
+    const parts = [`FREQ=${series.frequency}`, `INTERVAL=${series.interval}`];
+    if (series.count) {
+      parts.push(`COUNT=${series.count}`);
+    } else if (series.until) {
+      parts.push(`UNTIL=${series.until.toISOString().replace(/[-:]/g, '').split('.')[0]}Z`);
+    }
+    return parts.join(';');
+  }
+}
+
+export default AppointmentSeriesService;
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import ConsentPolicyService, { ScopeRequirement } from './consent-policy.service';
 
 const prisma = new PrismaClient();
 
@@ -13,6 +14,12 @@ interface AuditEvent {
   details?: Record<string, any>;
 }
 
+// Set when a caregiver acted for the patient; the row's actor is the caregiver
+export interface AuditDelegation {
+  delegationId: string;
+  onBehalfOf: string;
+}
+
 interface AuditLogParams {
   actorId: string;
   actorRole: string;
@@ -25,6 +32,7 @@ interface AuditLogParams {
   metadata?: any;
   ipAddress?: string;
   userAgent?: string;
+  delegation?: AuditDelegation;
 }
 
 class AuditService {
@@ -44,7 +52,8 @@ class AuditService {
             resourceId: params.resourceId,
             consentId: params.consentId,
             reason: params.reason,
-            metadata: params.metadata
+            metadata: params.metadata,
+            ...params.delegation
           },
           ipAddress: params.ipAddress,
           userAgent: params.userAgent
@@ -68,7 +77,8 @@ class AuditService {
     recordType: string,
     consentId?: string,
     ipAddress?: string,
-    userAgent?: string
+    userAgent?: string,
+    delegation?: AuditDelegation
   ): Promise<void> {
     await this.logAction({
       actorId,
@@ -79,7 +89,8 @@ class AuditService {
       patientHealthId,
       consentId,
       ipAddress,
-      userAgent
+      userAgent,
+      delegation
     });
   }
 
@@ -89,8 +100,8 @@ class AuditService {
   static async verifyConsent(
     actorId: string,
     patientHealthId: string,
-    requiredScope: string[]
-  ): Promise<{ hasConsent: boolean; consentId?: string; error?: string }> {
+    requiredScope: ScopeRequirement
+  ): Promise<{ hasConsent: boolean; consentId?: string; scopes?: string[]; breakGlassId?: string; error?: string }> {
     try {
       // If actor is the patient themselves, always allow
       if (actorId === patientHealthId) {
@@ -98,36 +109,46 @@ class AuditService {
       }
 
       // Check for active consent
-      const consent = await prisma.consent.findFirst({
-        where: {
-          patientId: patientHealthId,
-          providerId: actorId,
-          status: 'ACTIVE',
-          OR: [
-            { endTime: null },
-            { endTime: { gt: new Date() } }
-          ]
-        }
-      });
+      const consents = await ConsentPolicyService.findActiveConsents(patientHealthId, actorId);
+
+      // Check if a consent covers required scope
+      const consent = consents.find(candidate =>
+        ConsentPolicyService.isSatisfied(candidate.scope, requiredScope)
+      );
 
       if (!consent) {
-        return { 
-          hasConsent: false, 
-          error: 'No active consent found' 
-        };
-      }
+        // A declared emergency stands in for consent until it expires
+        const breakGlass = await prisma.breakGlassAccess.findFirst({
+          where: {
+            clinicianId: actorId,
+            patientId: patientHealthId,
+            endedAt: null,
+            expiresAt: { gt: new Date() }
+          },
+          orderBy: { startedAt: 'desc' }
+        });
 
-      // Check if consent covers required scope
-      const consentScope = consent.scope as string[];
-      const hasRequiredScope = requiredScope.every(scope => 
-        consentScope.includes(scope) || consentScope.includes('READ_BASIC')
-      );
+        if (breakGlass) {
+          await prisma.breakGlassAccess.update({
+            where: { id: breakGlass.id },
+            data: {
+              accessCount: { increment: 1 },
+              lastAccessedAt: new Date()
+            }
+          });
+
+          // No scopes: emergency access is not filtered
+          return {
+            hasConsent: true,
+            consentId: `break-glass:${breakGlass.id}`,
+            breakGlassId: breakGlass.id
+          };
+        }
 
-      if (!hasRequiredScope) {
         return { 
           hasConsent: false, 
-          error: 'Consent does not cover required scope',
-          consentId: consent.id
+          error: consents.length === 0 ? 'No active consent found' : 'Consent does not cover required scope',
+          consentId: consents[0]?.id
         };
       }
 
@@ -142,7 +163,9 @@ class AuditService {
 
       return { 
         hasConsent: true, 
-        consentId: consent.id 
+        consentId: consent.id,
+        // Everything the provider may see across their active consents, for filtering results
+        scopes: [...new Set(consents.flatMap(candidate => candidate.scope))]
       };
 
     } catch (error) {
@@ -0,0 +1,315 @@
+import { AvailabilityExceptionType } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import {
+  LocalDate,
+  addDays,
+  compareLocalDates,
+  dayOfWeek,
+  isValidTimezone,
+  parseTimeOfDay,
+  toLocalDate,
+  zonedTimeToUtc
+} from '../utils/timezone';
+
+export interface AvailabilityWindowInput {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  slotMinutes?: number;
+  timezone?: string;
+}
+
+export interface AvailabilityExceptionInput {
+  type?: AvailabilityExceptionType;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+}
+
+export interface BookableSlot {
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+}
+
+interface ResolvedWindow {
+  start: Date;
+  end: Date;
+  slotMinutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+/**
+ * Doctor availability: weekly templates in the doctor's own timezone, minus
+ * leave/holiday exceptions, minus already-held appointments.
+ *
+ * Doctors who have not published any template are treated as unrestricted so
+ * existing booking flows keep working until a schedule is set up.
+ */
+export class AvailabilityService {
+  static readonly MAX_RANGE_DAYS = 31;
+  static readonly BLOCKING_STATUSES = ['PENDING', 'CONFIRMED'] as const;
+
+  /**
+   * Validate a weekly template window from a request body
+   */
+  static validateWindow(window: AvailabilityWindowInput): string | null {
+    if (!Number.isInteger(window.dayOfWeek) || window.dayOfWeek < 0 || window.dayOfWeek > 6) {
+      return 'dayOfWeek must be an integer between 0 (Sunday) and 6 (Saturday)';
+    }
+
+    const start = parseTimeOfDay(window.startTime);
+    const end = parseTimeOfDay(window.endTime);
+    if (start === null || end === null) {
+      return 'startTime and endTime must use HH:mm format';
+    }
+    if (end <= start) {
+      return 'endTime must be after startTime';
+    }
+
+    const slotMinutes = window.slotMinutes ?? DEFAULT_APPOINTMENT_MINUTES;
+    if (!Number.isInteger(slotMinutes) || slotMinutes < 5 || slotMinutes > 480) {
+      return 'slotMinutes must be an integer between 5 and 480';
+    }
+    if (slotMinutes > end - start) {
+      return 'slotMinutes cannot be longer than the availability window';
+    }
+
+    if (window.timezone && !isValidTimezone(window.timezone)) {
+      return `Unknown timezone: ${window.timezone}`;
+    }
+
+    return null;
+  }
+
+  static async getAvailability(doctorId: string) {
+    const [templates, exceptions] = await Promise.all([
+      prisma.doctorAvailability.findMany({
+        where: { doctorId, isActive: true },
+        orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+      }),
+      prisma.doctorAvailabilityException.findMany({
+        where: { doctorId, endsAt: { gt: new Date() } },
+        orderBy: { startsAt: 'asc' }
+      })
+    ]);
+
+    return { templates, exceptions };
+  }
+
+  /**
+   * Replace a doctor's weekly template with the given windows
+   */
+  static async setWeeklyTemplate(doctorId: string, windows: AvailabilityWindowInput[]) {
+    return prisma.$transaction(async (tx) => {
+      await tx.doctorAvailability.deleteMany({ where: { doctorId } });
+
+      if (windows.length > 0) {
+        await tx.doctorAvailability.createMany({
+          data: windows.map(window => ({
+            doctorId,
+            dayOfWeek: window.dayOfWeek,
+            startTime: window.startTime,
+            endTime: window.endTime,
+            slotMinutes: window.slotMinutes ?? DEFAULT_APPOINTMENT_MINUTES,
+            timezone: window.timezone ?? 'UTC'
+          }))
+        });
+      }
+
+      return tx.doctorAvailability.findMany({
+        where: { doctorId },
+        orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+      });
+    });
+  }
+
+  static async addException(doctorId: string, input: AvailabilityExceptionInput) {
+    return prisma.doctorAvailabilityException.create({
+      data: {
+        doctorId,
+        type: input.type ?? 'LEAVE',
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+        reason: input.reason
+      }
+    });
+  }
+
+  /**
+   * Delete an exception owned by the doctor; returns false when it does not exist
+   */
+  static async removeException(doctorId: string, exceptionId: string): Promise<boolean> {
+    const result = await prisma.doctorAvailabilityException.deleteMany({
+      where: { id: exceptionId, doctorId }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Expand the weekly template into concrete UTC windows overlapping [from, to).
+   * Each template is evaluated in its own timezone, so a window is walked from
+   * one local day before to one after the requested range.
+   */
+  private static resolveWindows(
+    templates: { dayOfWeek: number; startTime: string; endTime: string; slotMinutes: number; timezone: string }[],
+    from: Date,
+    to: Date
+  ): ResolvedWindow[] {
+    const windows: ResolvedWindow[] = [];
+
+    for (const template of templates) {
+      const startMinutes = parseTimeOfDay(template.startTime);
+      const endMinutes = parseTimeOfDay(template.endTime);
+      if (startMinutes === null || endMinutes === null) continue;
+
+      const timezone = isValidTimezone(template.timezone) ? template.timezone : 'UTC';
+      const lastDay = addDays(toLocalDate(to, timezone), 1);
+
+      for (
+        let day: LocalDate = addDays(toLocalDate(from, timezone), -1);
+        compareLocalDates(day, lastDay) <= 0;
+        day = addDays(day, 1)
+      ) {
+        if (dayOfWeek(day) !== template.dayOfWeek) continue;
+
+        const start = zonedTimeToUtc(day, startMinutes, timezone);
+        const end = zonedTimeToUtc(day, endMinutes, timezone);
+        if (end > from && start < to) {
+          windows.push({ start, end, slotMinutes: template.slotMinutes });
+        }
+      }
+    }
+
+    return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  private static overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+    return aStart < bEnd && bStart < aEnd;
+  }
+
+  /**
+   * Free bookable slots for a doctor between from and to
+   */
+  static async generateSlots(doctorId: string, from: Date, to: Date): Promise<BookableSlot[]> {
+    const now = new Date();
+    const rangeStart = from < now ? now : from;
+    if (to <= rangeStart) return [];
+
+    const [templates, exceptions, appointments] = await Promise.all([
+      prisma.doctorAvailability.findMany({ where: { doctorId, isActive: true } }),
+      prisma.doctorAvailabilityException.findMany({
+        where: { doctorId, startsAt: { lt: to }, endsAt: { gt: rangeStart } }
+      }),
+      prisma.appointment.findMany({
+        where: {
+          doctorId,
+          status: { in: [...this.BLOCKING_STATUSES] },
+          // Appointments starting up to a day earlier may still run into the range
+          requestedTime: { gte: new Date(rangeStart.getTime() - DAY_MS), lt: to }
+        },
+        select: { requestedTime: true, duration: true }
+      })
+    ]);
+
+    const booked = appointments.map(appointment => ({
+      start: appointment.requestedTime,
+      end: new Date(appointment.requestedTime.getTime() + (appointment.duration ?? DEFAULT_APPOINTMENT_MINUTES) * MINUTE_MS)
+    }));
+
+    const slots: BookableSlot[] = [];
+    const seen = new Set<number>();
+
+    for (const window of this.resolveWindows(templates, rangeStart, to)) {
+      const stepMs = window.slotMinutes * MINUTE_MS;
+
+      for (let t = window.start.getTime(); t + stepMs <= window.end.getTime(); t += stepMs) {
+        const start = new Date(t);
+        const end = new Date(t + stepMs);
+
+        if (start < rangeStart || end > to || seen.has(t)) continue;
+        if (exceptions.some(e => this.overlaps(start, end, e.startsAt, e.endsAt))) continue;
+        if (booked.some(b => this.overlaps(start, end, b.start, b.end))) continue;
+
+        seen.add(t);
+        slots.push({ start, end, durationMinutes: window.slotMinutes });
+      }
+    }
+
+    return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Check that an appointment interval sits entirely inside one published
+   * availability window and does not touch any exception
+   */
+  static async isWithinAvailability(
+    doctorId: string,
+    start: Date,
+    durationMinutes: number
+  ): Promise<{ available: boolean; reason?: string }> {
+    try {
+      const templates = await prisma.doctorAvailability.findMany({
+        where: { doctorId, isActive: true }
+      });
+
+      if (templates.length === 0) {
+        return { available: true };
+      }
+
+      const end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+
+      const exception = await prisma.doctorAvailabilityException.findFirst({
+        where: { doctorId, startsAt: { lt: end }, endsAt: { gt: start } }
+      });
+      if (exception) {
+        return { available: false, reason: 'Doctor is unavailable at this time' };
+      }
+
+      const fits = this.resolveWindows(templates, start, end)
+        .some(window => window.start <= start && end <= window.end);
+
+      return fits
+        ? { available: true }
+        : { available: false, reason: 'Requested time is outside the doctor\'s published availability' };
+    } catch (error) {
+      logger.error('Error checking doctor availability', { error, doctorId });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a pending/confirmed appointment for the doctor that overlaps the interval
+   */
+  static async findConflictingAppointment(
+    doctorId: string,
+    start: Date,
+    durationMinutes: number,
+    excludeAppointmentIds: string[] = []
+  ) {
+    const end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+
+    const candidates = await prisma.appointment.findMany({
+      where: {
+        doctorId,
+        status: { in: [...this.BLOCKING_STATUSES] },
+        requestedTime: { gte: new Date(start.getTime() - DAY_MS), lt: end },
+        ...(excludeAppointmentIds.length > 0 && { id: { notIn: excludeAppointmentIds } })
+      },
+      orderBy: { requestedTime: 'asc' }
+    });
+
+    return candidates.find(appointment => {
+      const appointmentEnd = new Date(
+        appointment.requestedTime.getTime() + (appointment.duration ?? DEFAULT_APPOINTMENT_MINUTES) * MINUTE_MS
+      );
+      return this.overlaps(start, end, appointment.requestedTime, appointmentEnd);
+    }) ?? null;
+  }
+}
+
+export default AvailabilityService;
@@ -0,0 +1,294 @@
+import { BreakGlassAccess, BreakGlassReviewStatus } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+import AuditService from './audit.service';
+import NotificationService from './notification.service';
+import { sendNotificationEmail } from './email.service';
+import smsService from './sms.service';
+
+export interface DeclareEmergencyInput {
+  clinicianId: string;
+  clinicianRole: string;
+  patientId: string;
+  reason: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface BreakGlassResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  access?: BreakGlassAccess;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Only clinicians may override consent in an emergency
+const ELIGIBLE_ROLES = ['doctor'];
+
+const getDisplayName = async (healthId: string, fallback: string): Promise<string> => {
+  const profile = await prisma.healthProfile.findUnique({
+    where: { userId: healthId },
+    select: { firstName: true, lastName: true, displayName: true }
+  });
+
+  return profile?.displayName
+    || [profile?.firstName, profile?.lastName].filter(Boolean).join(' ')
+    || fallback;
+};
+
+/**
+ * Break-the-glass: a clinician declares an emergency to get short-lived
+ * access to a patient without consent. Every declaration notifies the
+ * patient, their emergency contacts and the admins, and stays in the admin
+ * review queue until it is approved or flagged.
+ */
+export class BreakGlassService {
+  static async findActive(clinicianId: string, patientId: string) {
+    const now = new Date();
+
+    return prisma.breakGlassAccess.findFirst({
+      where: {
+        clinicianId,
+        patientId,
+        endedAt: null,
+        expiresAt: { gt: now }
+      },
+      orderBy: { startedAt: 'desc' }
+    });
+  }
+
+  static async declare(input: DeclareEmergencyInput): Promise<BreakGlassResult> {
+    if (!ELIGIBLE_ROLES.includes(input.clinicianRole)) {
+      return { success: false, status: 403, error: 'Only clinicians can use emergency access' };
+    }
+
+    if (input.clinicianId === input.patientId) {
+      return { success: false, status: 400, error: 'Emergency access is not needed for your own record' };
+    }
+
+    const patient = await prisma.user.findUnique({
+      where: { healthId: input.patientId },
+      select: { healthId: true, role: true }
+    });
+
+    if (!patient || patient.role !== 'patient') {
+      return { success: false, status: 404, error: 'Patient not found' };
+    }
+
+    const existing = await this.findActive(input.clinicianId, input.patientId);
+    if (existing) {
+      return { success: false, status: 409, error: 'Emergency access is already active for this patient', access: existing };
+    }
+
+    let access = await prisma.breakGlassAccess.create({
+      data: {
+        clinicianId: input.clinicianId,
+        patientId: input.patientId,
+        reason: input.reason,
+        expiresAt: new Date(Date.now() + runtimeConfig.breakGlassDurationMinutes * MINUTE_MS),
+        ipAddress: input.ipAddress || null,
+        userAgent: input.userAgent || null
+      }
+    });
+
+    await AuditService.logAction({
+      actorId: input.clinicianId,
+      actorRole: input.clinicianRole,
+      action: 'BREAK_GLASS_ACCESS_GRANTED',
+      resourceType: 'BreakGlassAccess',
+      resourceId: access.id,
+      patientHealthId: input.patientId,
+      reason: input.reason,
+      metadata: { expiresAt: access.expiresAt.toISOString() },
+      ipAddress: input.ipAddress,
+      userAgent: input.userAgent
+    });
+
+    const clinicianName = await getDisplayName(input.clinicianId, `Clinician ${input.clinicianId}`);
+
+    await NotificationService.notify({
+      recipientId: input.patientId,
+      category: 'EMERGENCY_ACCESS',
+      priority: 'CRITICAL',
+      title: 'Emergency access to your records',
+      message: `${clinicianName} used emergency access to view your health records without consent. Reason given: "${input.reason}". Access ends at ${access.expiresAt.toISOString()}.`,
+      resourceType: 'BreakGlassAccess',
+      resourceId: access.id,
+      data: { breakGlassAccessId: access.id, clinicianId: input.clinicianId }
+    });
+
+    const contactsNotified = await this.notifyEmergencyContacts(access, clinicianName);
+    if (contactsNotified > 0) {
+      access = await prisma.breakGlassAccess.update({
+        where: { id: access.id },
+        data: { contactsNotified }
+      });
+    }
+
+    const admins = await prisma.user.findMany({
+      where: { role: 'admin', status: 'active' },
+      select: { healthId: true }
+    });
+    for (const admin of admins) {
+      await NotificationService.notify({
+        recipientId: admin.healthId,
+        category: 'EMERGENCY_ACCESS',
+        priority: 'HIGH',
+        title: 'Emergency access awaiting review',
+        message: `${clinicianName} used emergency access for patient ${input.patientId}. Please review it.`,
+        resourceType: 'BreakGlassAccess',
+        resourceId: access.id,
+        data: { breakGlassAccessId: access.id },
+        channels: []
+      });
+    }
+
+    logger.warn('Break-the-glass access granted', {
+      accessId: access.id,
+      clinicianId: input.clinicianId,
+      patientId: input.patientId
+    });
+
+    return { success: true, access };
+  }
+
+  /**
+   * Tell every emergency contact, by email and SMS, that the patient's record
+   * was opened in an emergency. No clinical details are included.
+   */
+  private static async notifyEmergencyContacts(access: BreakGlassAccess, clinicianName: string): Promise<number> {
+    const settings = await prisma.userSettings.findUnique({
+      where: { userId: access.patientId },
+      include: { emergencyContacts: true }
+    });
+
+    if (!settings || settings.emergencyContacts.length === 0) {
+      return 0;
+    }
+
+    const patientName = await getDisplayName(access.patientId, 'A patient');
+    const message = `${clinicianName} has accessed ${patientName}'s health records under emergency access. You are receiving this as their emergency contact.`;
+    let notified = 0;
+
+    for (const contact of settings.emergencyContacts) {
+      try {
+        if (contact.email) {
+          await sendNotificationEmail(contact.email, 'Emergency access to health records', message);
+        }
+        await smsService.send(contact.phone, `CuraNet: ${message}`);
+        notified++;
+      } catch (error) {
+        logger.error('Failed to notify emergency contact of break-glass access', { error, accessId: access.id, contactId: contact.id });
+      }
+    }
+
+    return notified;
+  }
+
+  /**
+   * End emergency access early once the clinician no longer needs it
+   */
+  static async end(accessId: string, clinicianId: string): Promise<BreakGlassResult> {
+    const access = await prisma.breakGlassAccess.findFirst({
+      where: { id: accessId, clinicianId }
+    });
+
+    if (!access) {
+      return { success: false, status: 404, error: 'Emergency access not found' };
+    }
+
+    if (access.endedAt || access.expiresAt <= new Date()) {
+      return { success: false, status: 409, error: 'Emergency access has already ended' };
+    }
+
+    const ended = await prisma.breakGlassAccess.update({
+      where: { id: access.id },
+      data: { endedAt: new Date() }
+    });
+
+    return { success: true, access: ended };
+  }
+
+  static async listForClinician(clinicianId: string, limit = 50) {
+    return prisma.breakGlassAccess.findMany({
+      where: { clinicianId },
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    });
+  }
+
+  static async listForPatient(patientId: string, limit = 50) {
+    return prisma.breakGlassAccess.findMany({
+      where: { patientId },
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    });
+  }
+
+  static async listForReview(status: BreakGlassReviewStatus = 'PENDING', limit = 50, offset = 0) {
+    const [accesses, total] = await Promise.all([
+      prisma.breakGlassAccess.findMany({
+        where: { reviewStatus: status },
+        orderBy: { startedAt: status === 'PENDING' ? 'asc' : 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.breakGlassAccess.count({ where: { reviewStatus: status } })
+    ]);
+
+    return { accesses, total };
+  }
+
+  /**
+   * Record the admin's review of an emergency access. Flagged uses are
+   * reported back to the patient.
+   */
+  static async review(
+    accessId: string,
+    reviewerId: string,
+    decision: Exclude<BreakGlassReviewStatus, 'PENDING'>,
+    notes?: string
+  ): Promise<BreakGlassResult> {
+    const access = await prisma.breakGlassAccess.findUnique({ where: { id: accessId } });
+
+    if (!access) {
+      return { success: false, status: 404, error: 'Emergency access not found' };
+    }
+
+    if (access.reviewStatus !== 'PENDING') {
+      return { success: false, status: 409, error: `Emergency access has already been reviewed (${access.reviewStatus})` };
+    }
+
+    const reviewed = await prisma.breakGlassAccess.update({
+      where: { id: access.id },
+      data: {
+        reviewStatus: decision,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+        reviewNotes: notes || null,
+        // A flagged access is cut off immediately if still running
+        ...(decision === 'FLAGGED' && !access.endedAt && { endedAt: new Date() })
+      }
+    });
+
+    if (decision === 'FLAGGED') {
+      await NotificationService.notify({
+        recipientId: access.patientId,
+        category: 'EMERGENCY_ACCESS',
+        priority: 'HIGH',
+        title: 'Emergency access flagged',
+        message: 'An administrator reviewed an emergency access to your records and flagged it as not justified. It is being followed up.',
+        resourceType: 'BreakGlassAccess',
+        resourceId: access.id,
+        data: { breakGlassAccessId: access.id }
+      });
+    }
+
+    return { success: true, access: reviewed };
+  }
+}
+
+export default BreakGlassService;
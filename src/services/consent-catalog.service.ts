@@ -0,0 +1,409 @@
+import { ConsentPurpose, ConsentScope, ConsentTemplate, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+
+export interface PurposeInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  defaultScopes?: ConsentScope[];
+  defaultDurationDays?: number | null;
+  isActive?: boolean;
+}
+
+export interface TemplateInput {
+  name: string;
+  description?: string | null;
+  purposeId: string;
+  scopes?: ConsentScope[];
+  durationDays?: number | null;
+  message?: string | null;
+  isActive?: boolean;
+}
+
+export interface RequestTermsInput {
+  templateId?: string;
+  purposeId?: string;
+  purpose?: unknown;
+  scope?: unknown;
+  requestedExpiry?: string | Date | null;
+  message?: string | null;
+}
+
+export interface RequestTerms {
+  purpose: ConsentPurpose;
+  // Recorded on the consent: the catalog name, or the caller's own wording when it was filed under "other"
+  purposeText: string;
+  template: ConsentTemplate | null;
+  scope: ConsentScope[];
+  requestedExpiry: Date | null;
+  message: string | null;
+}
+
+interface CatalogResult<T> {
+  success: boolean;
+  error?: string;
+  status?: number;
+  data?: T;
+}
+
+export interface PurposeReportRow {
+  purposeId: string | null;
+  code: string | null;
+  name: string;
+  isActive: boolean;
+  requests: { total: number; byStatus: Record<string, number> };
+  consents: { total: number; byStatus: Record<string, number> };
+  approvalRate: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Catalog purpose that free text matching nothing else is filed under
+const OTHER_PURPOSE_CODE = 'other';
+
+const isConsentScope = (value: unknown): value is ConsentScope =>
+  typeof value === 'string' && (Object.values(ConsentScope) as string[]).includes(value);
+
+const normalizeCode = (code: string) => code.trim().toLowerCase().replace(/[\s_]+/g, '-');
+
+/**
+ * Admin-managed purpose-of-use catalog and the consent request templates
+ * providers pick from. Every consent request resolves to a catalog purpose so
+ * consents can be reported on by why they were given.
+ */
+export class ConsentCatalogService {
+  static async listPurposes(options: { includeInactive?: boolean } = {}) {
+    return prisma.consentPurpose.findMany({
+      where: options.includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' }
+    });
+  }
+
+  static async getPurpose(id: string) {
+    return prisma.consentPurpose.findUnique({ where: { id } });
+  }
+
+  /**
+   * Match free text against the catalog by code or name, so existing clients
+   * sending "Treatment" or "second-opinion" keep working
+   */
+  static async findPurposeByText(text: string) {
+    return prisma.consentPurpose.findFirst({
+      where: {
+        isActive: true,
+        OR: [
+          { code: normalizeCode(text) },
+          { name: { equals: text.trim(), mode: 'insensitive' } }
+        ]
+      }
+    });
+  }
+
+  static async createPurpose(input: PurposeInput): Promise<CatalogResult<ConsentPurpose>> {
+    const code = normalizeCode(input.code);
+
+    const existing = await prisma.consentPurpose.findUnique({ where: { code } });
+    if (existing) {
+      return { success: false, status: 409, error: 'A consent purpose with this code already exists' };
+    }
+
+    const purpose = await prisma.consentPurpose.create({
+      data: {
+        code,
+        name: input.name,
+        description: input.description ?? null,
+        defaultScopes: input.defaultScopes ?? ['READ_BASIC'],
+        defaultDurationDays: input.defaultDurationDays ?? null,
+        isActive: input.isActive ?? true
+      }
+    });
+
+    logger.info('Consent purpose created', { purposeId: purpose.id, code: purpose.code });
+    return { success: true, data: purpose };
+  }
+
+  static async updatePurpose(id: string, input: Partial<PurposeInput>): Promise<CatalogResult<ConsentPurpose>> {
+    const current = await this.getPurpose(id);
+    if (!current) {
+      return { success: false, status: 404, error: 'Consent purpose not found' };
+    }
+
+    const code = input.code !== undefined ? normalizeCode(input.code) : undefined;
+    if (code && code !== current.code) {
+      const clash = await prisma.consentPurpose.findUnique({ where: { code } });
+      if (clash) {
+        return { success: false, status: 409, error: 'A consent purpose with this code already exists' };
+      }
+    }
+
+    const purpose = await prisma.consentPurpose.update({
+      where: { id },
+      data: {
+        ...(code !== undefined && { code }),
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.defaultScopes !== undefined && { defaultScopes: input.defaultScopes }),
+        ...(input.defaultDurationDays !== undefined && { defaultDurationDays: input.defaultDurationDays }),
+        ...(input.isActive !== undefined && { isActive: input.isActive })
+      }
+    });
+
+    return { success: true, data: purpose };
+  }
+
+  /**
+   * Purposes are never deleted: existing consents keep pointing at them
+   */
+  static async deactivatePurpose(id: string): Promise<CatalogResult<ConsentPurpose>> {
+    const current = await this.getPurpose(id);
+    if (!current) {
+      return { success: false, status: 404, error: 'Consent purpose not found' };
+    }
+
+    const purpose = await prisma.$transaction(async (tx) => {
+      await tx.consentTemplate.updateMany({
+        where: { purposeId: id, isActive: true },
+        data: { isActive: false }
+      });
+
+      return tx.consentPurpose.update({
+        where: { id },
+        data: { isActive: false }
+      });
+    });
+
+    return { success: true, data: purpose };
+  }
+
+  static async listTemplates(options: { purposeId?: string; includeInactive?: boolean } = {}) {
+    return prisma.consentTemplate.findMany({
+      where: {
+        ...(options.purposeId && { purposeId: options.purposeId }),
+        ...(!options.includeInactive && { isActive: true, purpose: { isActive: true } })
+      },
+      include: { purpose: true },
+      orderBy: [{ purposeId: 'asc' }, { name: 'asc' }]
+    });
+  }
+
+  static async getTemplate(id: string) {
+    return prisma.consentTemplate.findUnique({
+      where: { id },
+      include: { purpose: true }
+    });
+  }
+
+  static async createTemplate(input: TemplateInput): Promise<CatalogResult<ConsentTemplate>> {
+    const purpose = await this.getPurpose(input.purposeId);
+    if (!purpose) {
+      return { success: false, status: 400, error: 'Consent purpose not found' };
+    }
+
+    const template = await prisma.consentTemplate.create({
+      data: {
+        name: input.name,
+        description: input.description ?? null,
+        purposeId: purpose.id,
+        scopes: input.scopes ?? purpose.defaultScopes,
+        durationDays: input.durationDays !== undefined ? input.durationDays : purpose.defaultDurationDays,
+        message: input.message ?? null,
+        isActive: input.isActive ?? true
+      },
+      include: { purpose: true }
+    });
+
+    logger.info('Consent template created', { templateId: template.id, purposeId: purpose.id });
+    return { success: true, data: template };
+  }
+
+  static async updateTemplate(id: string, input: Partial<TemplateInput>): Promise<CatalogResult<ConsentTemplate>> {
+    const current = await prisma.consentTemplate.findUnique({ where: { id } });
+    if (!current) {
+      return { success: false, status: 404, error: 'Consent template not found' };
+    }
+
+    if (input.purposeId && input.purposeId !== current.purposeId) {
+      const purpose = await this.getPurpose(input.purposeId);
+      if (!purpose) {
+        return { success: false, status: 400, error: 'Consent purpose not found' };
+      }
+    }
+
+    const template = await prisma.consentTemplate.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.purposeId !== undefined && { purposeId: input.purposeId }),
+        ...(input.scopes !== undefined && { scopes: input.scopes }),
+        ...(input.durationDays !== undefined && { durationDays: input.durationDays }),
+        ...(input.message !== undefined && { message: input.message }),
+        ...(input.isActive !== undefined && { isActive: input.isActive })
+      },
+      include: { purpose: true }
+    });
+
+    return { success: true, data: template };
+  }
+
+  static async deactivateTemplate(id: string): Promise<CatalogResult<ConsentTemplate>> {
+    const current = await prisma.consentTemplate.findUnique({ where: { id } });
+    if (!current) {
+      return { success: false, status: 404, error: 'Consent template not found' };
+    }
+
+    const template = await prisma.consentTemplate.update({
+      where: { id },
+      data: { isActive: false },
+      include: { purpose: true }
+    });
+
+    return { success: true, data: template };
+  }
+
+  /**
+   * Work out what a consent request asks for. A template supplies purpose,
+   * scopes, duration and message; a bare purpose supplies its duration only,
+   * so without a template or explicit scope the request is for READ_BASIC.
+   * Free-text purposes outside the catalog are filed under "other". Anything
+   * the caller sends explicitly wins over the defaults.
+   */
+  static async resolveRequestTerms(input: RequestTermsInput): Promise<CatalogResult<RequestTerms>> {
+    let template: (ConsentTemplate & { purpose: ConsentPurpose }) | null = null;
+    let purpose: ConsentPurpose | null = null;
+    let purposeText: string | null = null;
+
+    if (input.templateId) {
+      template = await this.getTemplate(input.templateId);
+      if (!template || !template.isActive || !template.purpose.isActive) {
+        return { success: false, status: 400, error: 'Consent template not found or inactive' };
+      }
+      purpose = template.purpose;
+    } else if (input.purposeId) {
+      purpose = await this.getPurpose(input.purposeId);
+      if (!purpose || !purpose.isActive) {
+        return { success: false, status: 400, error: 'Consent purpose not found or inactive' };
+      }
+    } else if (input.purpose) {
+      if (typeof input.purpose !== 'string') {
+        return { success: false, status: 400, error: 'purpose must be a string' };
+      }
+      purpose = await this.findPurposeByText(input.purpose);
+      if (!purpose) {
+        purpose = await this.findPurposeByText(OTHER_PURPOSE_CODE);
+        purposeText = input.purpose.trim();
+      }
+    }
+
+    if (!purpose) {
+      return {
+        success: false,
+        status: 400,
+        error: 'Choose a purpose of use from the catalog (templateId, purposeId or a catalog purpose code)'
+      };
+    }
+
+    let scope: ConsentScope[];
+    if (input.scope !== undefined) {
+      if (!Array.isArray(input.scope) || input.scope.length === 0 || !input.scope.every(isConsentScope)) {
+        return { success: false, status: 400, error: `scope must be a non-empty list of: ${Object.values(ConsentScope).join(', ')}` };
+      }
+      scope = [...new Set(input.scope)];
+    } else {
+      scope = template?.scopes.length ? template.scopes : ['READ_BASIC'];
+    }
+
+    let requestedExpiry: Date | null = null;
+    if (input.requestedExpiry) {
+      requestedExpiry = new Date(input.requestedExpiry);
+      if (Number.isNaN(requestedExpiry.getTime()) || requestedExpiry <= new Date()) {
+        return { success: false, status: 400, error: 'requestedExpiry must be a future date' };
+      }
+    } else {
+      const durationDays = template?.durationDays ?? purpose.defaultDurationDays;
+      if (durationDays) {
+        requestedExpiry = new Date(Date.now() + durationDays * DAY_MS);
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        purpose,
+        purposeText: purposeText || purpose.name,
+        template,
+        scope,
+        requestedExpiry,
+        message: input.message ?? template?.message ?? null
+      }
+    };
+  }
+
+  /**
+   * Request and consent counts per purpose for the period. Consents created
+   * before the catalog existed with unmatched purposes are reported as
+   * uncategorised.
+   */
+  static async reportByPurpose(range: { from?: Date; to?: Date } = {}): Promise<PurposeReportRow[]> {
+    const createdAt: Prisma.DateTimeFilter | undefined = range.from || range.to
+      ? { ...(range.from && { gte: range.from }), ...(range.to && { lte: range.to }) }
+      : undefined;
+
+    const [purposes, requestCounts, consentCounts] = await Promise.all([
+      prisma.consentPurpose.findMany({ orderBy: { name: 'asc' } }),
+      prisma.consentRequest.groupBy({
+        by: ['purposeId', 'status'],
+        where: { ...(createdAt && { createdAt }) },
+        _count: { _all: true }
+      }),
+      prisma.consent.groupBy({
+        by: ['purposeId', 'status'],
+        where: { ...(createdAt && { createdAt }) },
+        _count: { _all: true }
+      })
+    ]);
+
+    const rows = new Map<string | null, PurposeReportRow>();
+    const emptyRow = (purposeId: string | null): PurposeReportRow => ({
+      purposeId,
+      code: null,
+      name: 'Uncategorised',
+      isActive: false,
+      requests: { total: 0, byStatus: {} },
+      consents: { total: 0, byStatus: {} },
+      approvalRate: null
+    });
+
+    for (const purpose of purposes) {
+      rows.set(purpose.id, {
+        ...emptyRow(purpose.id),
+        code: purpose.code,
+        name: purpose.name,
+        isActive: purpose.isActive
+      });
+    }
+
+    for (const entry of requestCounts) {
+      const row = rows.get(entry.purposeId) ?? rows.set(entry.purposeId, emptyRow(entry.purposeId)).get(entry.purposeId)!;
+      row.requests.total += entry._count._all;
+      row.requests.byStatus[entry.status] = (row.requests.byStatus[entry.status] || 0) + entry._count._all;
+    }
+
+    for (const entry of consentCounts) {
+      const row = rows.get(entry.purposeId) ?? rows.set(entry.purposeId, emptyRow(entry.purposeId)).get(entry.purposeId)!;
+      row.consents.total += entry._count._all;
+      row.consents.byStatus[entry.status] = (row.consents.byStatus[entry.status] || 0) + entry._count._all;
+    }
+
+    for (const row of rows.values()) {
+      const approved = row.requests.byStatus.APPROVED || 0;
+      const decided = approved + (row.requests.byStatus.DENIED || 0);
+      row.approvalRate = decided > 0 ? Math.round((approved / decided) * 1000) / 10 : null;
+    }
+
+    return [...rows.values()];
+  }
+}
+
+export default ConsentCatalogService;
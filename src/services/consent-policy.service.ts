@@ -0,0 +1,156 @@
+import { ConsentScope, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+export type ConsentResource =
+  | 'profile'
+  | 'encounter'
+  | 'observation'
+  | 'prescription'
+  | 'attachment'
+  | 'imaging_study';
+
+export type ConsentAction = 'read' | 'write';
+
+// Either an explicit list of scopes (all required) or a resource/action pair resolved by the policy
+export type ScopeRequirement = readonly string[] | { resource: ConsentResource; action: ConsentAction };
+
+/**
+ * Scopes that open each resource. For resources whose items are split across
+ * several read scopes (observations, attachments) any one of them opens the
+ * resource and the results are then filtered item by item.
+ */
+const RESOURCE_POLICIES: Record<ConsentResource, Record<ConsentAction, ConsentScope[]>> = {
+  profile: { read: ['READ_BASIC'], write: [] },
+  encounter: { read: ['READ_MEDICAL'], write: ['WRITE_NOTES'] },
+  observation: { read: ['READ_MEDICAL', 'READ_LAB', 'READ_RADIOLOGY'], write: ['WRITE_NOTES'] },
+  prescription: { read: ['READ_MEDICAL'], write: ['WRITE_PRESCRIPTION'] },
+  attachment: { read: ['READ_MEDICAL', 'READ_LAB', 'READ_RADIOLOGY'], write: ['WRITE_NOTES'] },
+  // Filing a study adds to the patient's chart, like any other clinical write
+  imaging_study: { read: ['READ_RADIOLOGY'], write: ['WRITE_NOTES'] }
+};
+
+// Observation categories outside this map are general clinical data (READ_MEDICAL)
+const OBSERVATION_CATEGORY_SCOPES: Record<string, ConsentScope> = {
+  LABORATORY: 'READ_LAB',
+  IMAGING: 'READ_RADIOLOGY'
+};
+
+// Any clinical read scope also lets the provider see the patient's basic details
+const IMPLIED_SCOPES: Partial<Record<ConsentScope, ConsentScope[]>> = {
+  READ_MEDICAL: ['READ_BASIC'],
+  READ_LAB: ['READ_BASIC'],
+  READ_RADIOLOGY: ['READ_BASIC']
+};
+
+const RESOURCE_ALIASES: Record<string, ConsentResource> = {
+  file: 'attachment',
+  imaging: 'imaging_study'
+};
+
+const hasScope = (granted: readonly string[], scope: string): boolean =>
+  granted.includes(scope) ||
+  granted.some(grant => IMPLIED_SCOPES[grant as ConsentScope]?.includes(scope as ConsentScope));
+
+/**
+ * Consent policy engine: decides which consent scopes a resource needs and
+ * narrows query results down to what a consent actually covers.
+ */
+export class ConsentPolicyService {
+  static toResource(resourceType: string): ConsentResource | null {
+    if (resourceType in RESOURCE_POLICIES) {
+      return resourceType as ConsentResource;
+    }
+    return RESOURCE_ALIASES[resourceType] ?? null;
+  }
+
+  static scopesFor(resource: ConsentResource, action: ConsentAction): ConsentScope[] {
+    return RESOURCE_POLICIES[resource][action];
+  }
+
+  /**
+   * True when the granted scopes include every required scope. Scopes are
+   * only satisfied by themselves (or by an implying scope); READ_BASIC grants
+   * nothing beyond basic details.
+   */
+  static covers(granted: readonly string[], required: readonly string[]): boolean {
+    return required.every(scope => hasScope(granted, scope));
+  }
+
+  /**
+   * True when the granted scopes open the resource for the action
+   */
+  static allows(granted: readonly string[], resource: ConsentResource, action: ConsentAction): boolean {
+    return this.scopesFor(resource, action).some(scope => hasScope(granted, scope));
+  }
+
+  static isSatisfied(granted: readonly string[], requirement: ScopeRequirement): boolean {
+    if ('resource' in requirement) {
+      return this.allows(granted, requirement.resource, requirement.action);
+    }
+    return this.covers(granted, requirement);
+  }
+
+  static describe(requirement: ScopeRequirement): string[] {
+    return 'resource' in requirement ? this.scopesFor(requirement.resource, requirement.action) : [...requirement];
+  }
+
+  static observationScope(observation: { value: Prisma.JsonValue }): ConsentScope {
+    const category = (observation.value as { category?: unknown } | null)?.category;
+    return (typeof category === 'string' && OBSERVATION_CATEGORY_SCOPES[category.toUpperCase()]) || 'READ_MEDICAL';
+  }
+
+  static attachmentScope(file: { mimeType: string; tags: Prisma.JsonValue }): ConsentScope {
+    if (file.mimeType === 'application/dicom') {
+      return 'READ_RADIOLOGY';
+    }
+
+    const tags = Array.isArray(file.tags) ? file.tags : [];
+    if (tags.some(tag => typeof tag === 'string' && /^lab/i.test(tag))) {
+      return 'READ_LAB';
+    }
+
+    return 'READ_MEDICAL';
+  }
+
+  /**
+   * Drop observations the consent does not cover. `granted` is undefined for
+   * unrestricted access (the patient themselves or an admin).
+   */
+  static filterObservations<T extends { value: Prisma.JsonValue }>(observations: T[], granted?: readonly string[]): T[] {
+    if (!granted) {
+      return observations;
+    }
+    return observations.filter(observation => hasScope(granted, this.observationScope(observation)));
+  }
+
+  static filterAttachments<T extends { mimeType: string; tags: Prisma.JsonValue }>(files: T[], granted?: readonly string[]): T[] {
+    if (!granted) {
+      return files;
+    }
+    return files.filter(file => hasScope(granted, this.attachmentScope(file)));
+  }
+
+  /**
+   * Active consents between a patient and provider, newest first, honouring
+   * both the consent's end time and its expiry
+   */
+  static async findActiveConsents(patientId: string, providerId: string) {
+    const now = new Date();
+
+    return prisma.consent.findMany({
+      where: {
+        patientId,
+        providerId,
+        status: 'ACTIVE',
+        startTime: { lte: now },
+        AND: [
+          { OR: [{ endTime: null }, { endTime: { gt: now } }] },
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }
+        ]
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+}
+
+export default ConsentPolicyService;
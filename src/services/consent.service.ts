@@ -1,4 +1,6 @@
 import prisma from '../utils/prisma';
+import NotificationService from './notification.service';
+import ConsentPolicyService, { ScopeRequirement } from './consent-policy.service';
 
 /**
  * Enhanced Consent Service for CuraNet Healthcare Platform
@@ -12,43 +14,22 @@ export class ConsentService {
     patientId: string,
     providerId: string,
     action: string,
-    scopes: string[]
+    scopes: ScopeRequirement
   ): Promise<boolean> {
     // Allow patient to access their own data
     if (patientId === providerId) {
       return true;
     }
 
-    const now = new Date();
-    
     try {
-      const consent = await prisma.consent.findFirst({
-        where: {
-          patientId,
-          providerId,
-          status: 'ACTIVE',
-          OR: [
-            { expiresAt: null },
-            { expiresAt: { gt: now } }
-          ]
-        }
-      });
-
-      if (!consent) {
-        return false;
-      }
-
-      // Check if action is permitted
-      if (!consent.permissions.includes(action)) {
-        return false;
-      }
+      const consents = await ConsentPolicyService.findActiveConsents(patientId, providerId);
 
-      // Check if all required scopes are granted
-      const hasAllScopes = scopes.every(scope => 
-        consent.scope.includes(scope as any)
+      // The action must be permitted and the required scopes granted by the same consent
+      const consent = consents.find(candidate =>
+        candidate.permissions.includes(action) && ConsentPolicyService.isSatisfied(candidate.scope, scopes)
       );
 
-      if (!hasAllScopes) {
+      if (!consent) {
         return false;
       }
 
@@ -121,6 +102,52 @@ export class ConsentService {
     }
   }
 
+  /**
+   * Expire active consents past their end time and pending requests past their deadline.
+   * Providers are notified that their access has lapsed.
+   * Called periodically by the job scheduler; errors propagate so the run can be retried.
+   */
+  static async expireConsents(): Promise<{ expiredConsents: number; expiredRequests: number }> {
+    const now = new Date();
+
+    const due = await prisma.consent.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: [
+          { endTime: { lte: now } },
+          { expiresAt: { lte: now } }
+        ]
+      },
+      select: { id: true, patientId: true, providerId: true, purpose: true }
+    });
+
+    if (due.length > 0) {
+      await prisma.consent.updateMany({
+        where: { id: { in: due.map(consent => consent.id) }, status: 'ACTIVE' },
+        data: { status: 'EXPIRED' }
+      });
+    }
+
+    const requests = await prisma.consentRequest.updateMany({
+      where: { status: 'PENDING', expiresAt: { lte: now } },
+      data: { status: 'EXPIRED' }
+    });
+
+    for (const consent of due) {
+      await NotificationService.notify({
+        recipientId: consent.providerId,
+        category: 'CONSENT',
+        title: 'Consent expired',
+        message: `Your access to patient ${consent.patientId}'s records for "${consent.purpose}" has expired.`,
+        resourceType: 'Consent',
+        resourceId: consent.id,
+        data: { consentId: consent.id, patientId: consent.patientId }
+      });
+    }
+
+    return { expiredConsents: due.length, expiredRequests: requests.count };
+  }
+
   /**
    * Check if consent is expired
    */
@@ -0,0 +1,485 @@
+import { AccessLevel, CriticalAlertStatus, ObservationSource, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+import NotificationService from './notification.service';
+import { sendNotificationEmail } from './email.service';
+import smsService from './sms.service';
+import ConsentPolicyService from './consent-policy.service';
+
+export interface RaiseAlertInput {
+  patientId: string;
+  observation: {
+    id: string;
+    code: string;
+    value?: Prisma.InputJsonValue | null;
+    unit?: string | null;
+  };
+  source: ObservationSource;
+  // Clinician who recorded the reading; always alerted alongside consented providers
+  recordedById?: string;
+}
+
+export interface AlertActionResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  alert?: Prisma.CriticalAlertGetPayload<{}>;
+}
+
+export interface AlertInboxOptions {
+  status?: CriticalAlertStatus;
+  limit?: number;
+  offset?: number;
+}
+
+type CriticalAlert = Prisma.CriticalAlertGetPayload<{}>;
+
+const MINUTE_MS = 60 * 1000;
+
+// Emergency contacts only see clinical details when their access level covers medical data
+const CLINICAL_DETAIL_LEVELS: AccessLevel[] = ['MEDICAL', 'FULL'];
+
+const alertInclude = {
+  observation: { select: { id: true, code: true, recordedAt: true, encounterId: true } },
+  patient: {
+    select: {
+      healthId: true,
+      healthProfile: { select: { firstName: true, lastName: true, displayName: true } }
+    }
+  },
+  acknowledgedBy: {
+    select: {
+      healthId: true,
+      healthProfile: { select: { firstName: true, lastName: true, displayName: true } }
+    }
+  }
+} satisfies Prisma.CriticalAlertInclude;
+
+/**
+ * Critical observation alerting.
+ *
+ * A critical reading raises an alert that is pushed to every doctor whose
+ * active consent covers that kind of observation (plus the recording
+ * clinician). Alerts that stay unacknowledged for
+ * CRITICAL_ALERT_ESCALATION_MINUTES are escalated: the providers are
+ * re-notified and, on the first escalation, the patient's emergency contacts
+ * are informed at the detail their accessLevel allows.
+ * When no provider can be reached the contacts are informed straight away.
+ */
+export class CriticalAlertService {
+  /**
+   * Raise an alert for a critical observation. Best-effort: never throws,
+   * so a failing alert can not block recording the observation itself.
+   */
+  static async raiseAlert(input: RaiseAlertInput): Promise<CriticalAlert | null> {
+    try {
+      const alert = await prisma.criticalAlert.create({
+        data: {
+          patientId: input.patientId,
+          observationId: input.observation.id,
+          code: input.observation.code,
+          value: input.observation.value ?? Prisma.JsonNull,
+          unit: input.observation.unit,
+          source: input.source
+        }
+      });
+
+      const observation = await prisma.observation.findUnique({
+        where: { id: input.observation.id },
+        select: { value: true }
+      });
+      const providerIds = observation ? await this.findTreatingProviders(input.patientId, observation) : [];
+      if (input.recordedById && input.recordedById !== input.patientId && !providerIds.includes(input.recordedById)) {
+        providerIds.push(input.recordedById);
+      }
+
+      await this.notifyProviders(alert, providerIds);
+
+      if (providerIds.length === 0) {
+        await this.notifyEmergencyContacts(alert);
+      }
+
+      await NotificationService.notify({
+        recipientId: input.patientId,
+        category: 'CRITICAL_OBSERVATION',
+        priority: 'HIGH',
+        title: 'Critical reading recorded',
+        message: `Your ${alert.code} reading of ${this.formatReading(alert)} is outside the safe range. Your care team has been alerted; seek urgent care if you feel unwell.`,
+        resourceType: 'CriticalAlert',
+        resourceId: alert.id,
+        data: { alertId: alert.id, observationId: alert.observationId }
+      });
+
+      logger.warn('Critical observation alert raised', {
+        alertId: alert.id,
+        patientId: input.patientId,
+        code: alert.code,
+        providers: providerIds.length
+      });
+
+      return alert;
+    } catch (error) {
+      logger.error('Error raising critical alert', { error, patientId: input.patientId, observationId: input.observation.id });
+      return null;
+    }
+  }
+
+  /**
+   * Doctors holding an active, unexpired consent for the patient whose scope
+   * covers the observation that raised the alert, since the alert carries the
+   * reading itself
+   */
+  static async findTreatingProviders(patientId: string, observation: { value: Prisma.JsonValue }): Promise<string[]> {
+    const now = new Date();
+
+    const consents = await prisma.consent.findMany({
+      where: {
+        patientId,
+        status: 'ACTIVE',
+        AND: [
+          { OR: [{ endTime: null }, { endTime: { gt: now } }] },
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }
+        ],
+        provider: { role: 'doctor' },
+        scope: { has: ConsentPolicyService.observationScope(observation) }
+      },
+      select: { providerId: true },
+      distinct: ['providerId']
+    });
+
+    return consents.map(consent => consent.providerId);
+  }
+
+  private static formatReading(alert: { value: Prisma.JsonValue; unit: string | null }): string {
+    const value = alert.value;
+    let reading: string;
+
+    if (value && typeof value === 'object' && !Array.isArray(value) && 'systolic' in value && 'diastolic' in value) {
+      reading = `${value.systolic}/${value.diastolic}`;
+    } else if (value && typeof value === 'object') {
+      reading = JSON.stringify(value);
+    } else {
+      reading = String(value);
+    }
+
+    return alert.unit ? `${reading} ${alert.unit}` : reading;
+  }
+
+  private static async getPatientName(patientId: string): Promise<string> {
+    const profile = await prisma.healthProfile.findUnique({
+      where: { userId: patientId },
+      select: { firstName: true, lastName: true, displayName: true }
+    });
+
+    return profile?.displayName
+      || [profile?.firstName, profile?.lastName].filter(Boolean).join(' ')
+      || `Patient ${patientId}`;
+  }
+
+  private static async notifyProviders(alert: CriticalAlert, providerIds: string[], escalationLevel = 0) {
+    const reading = this.formatReading(alert);
+
+    for (const providerId of providerIds) {
+      await prisma.criticalAlertRecipient.upsert({
+        where: { alertId_providerId: { alertId: alert.id, providerId } },
+        create: { alertId: alert.id, recipientType: 'PROVIDER', providerId, escalationLevel },
+        update: { escalationLevel, notifiedAt: new Date() }
+      });
+
+      await NotificationService.notify({
+        recipientId: providerId,
+        category: 'CRITICAL_OBSERVATION',
+        priority: 'CRITICAL',
+        title: escalationLevel > 0
+          ? `Unacknowledged critical alert (escalation ${escalationLevel})`
+          : 'Critical observation alert',
+        message: `Patient ${alert.patientId} has a critical ${alert.code} reading of ${reading}. Please review and acknowledge.`,
+        resourceType: 'CriticalAlert',
+        resourceId: alert.id,
+        data: { alertId: alert.id, patientId: alert.patientId, observationId: alert.observationId, escalationLevel }
+      });
+    }
+  }
+
+  /**
+   * Inform the patient's emergency contacts by email and SMS, unless the
+   * patient has turned off sharing with emergency contacts. Contacts already
+   * informed for this alert are skipped.
+   */
+  private static async notifyEmergencyContacts(alert: CriticalAlert, escalationLevel = 0): Promise<number> {
+    const settings = await prisma.userSettings.findUnique({
+      where: { userId: alert.patientId },
+      include: { emergencyContacts: true }
+    });
+
+    if (!settings || !settings.shareWithEmergency || settings.emergencyContacts.length === 0) {
+      return 0;
+    }
+
+    const alreadyNotified = await prisma.criticalAlertRecipient.findMany({
+      where: { alertId: alert.id, recipientType: 'EMERGENCY_CONTACT' },
+      select: { emergencyContactId: true }
+    });
+    const notifiedIds = new Set(alreadyNotified.map(recipient => recipient.emergencyContactId));
+
+    const patientName = await this.getPatientName(alert.patientId);
+    const reading = this.formatReading(alert);
+    let notified = 0;
+
+    for (const contact of settings.emergencyContacts) {
+      if (notifiedIds.has(contact.id)) {
+        continue;
+      }
+
+      const message = CLINICAL_DETAIL_LEVELS.includes(contact.accessLevel)
+        ? `${patientName} has recorded a critical ${alert.code} reading of ${reading} and may need urgent medical attention.`
+        : `${patientName} may need urgent medical attention. Please check on them as soon as possible.`;
+
+      let emailSent = false;
+      if (contact.email) {
+        try {
+          await sendNotificationEmail(contact.email, 'Urgent health alert', message);
+          emailSent = true;
+        } catch (error) {
+          logger.error('Failed to email emergency contact', { error, alertId: alert.id, contactId: contact.id });
+        }
+      }
+      const smsSent = await smsService.send(contact.phone, `CuraNet urgent alert: ${message}`);
+
+      // Contacts nobody reached stay unrecorded so the next escalation retries them
+      if (!emailSent && !smsSent) {
+        logger.error('Failed to alert emergency contact', { alertId: alert.id, contactId: contact.id });
+        continue;
+      }
+
+      try {
+        await prisma.criticalAlertRecipient.create({
+          data: {
+            alertId: alert.id,
+            recipientType: 'EMERGENCY_CONTACT',
+            emergencyContactId: contact.id,
+            accessLevel: contact.accessLevel,
+            escalationLevel
+          }
+        });
+        notified++;
+      } catch (error) {
+        logger.error('Failed to record emergency contact alert', { error, alertId: alert.id, contactId: contact.id });
+      }
+    }
+
+    return notified;
+  }
+
+  /**
+   * Escalate open alerts that nobody acknowledged within the escalation window.
+   * Should be called periodically by the job scheduler.
+   */
+  static async escalateUnacknowledged(): Promise<{ escalated: number }> {
+    const cutoff = new Date(Date.now() - runtimeConfig.criticalAlertEscalationMinutes * MINUTE_MS);
+
+    const due = await prisma.criticalAlert.findMany({
+      where: {
+        status: 'OPEN',
+        lastNotifiedAt: { lte: cutoff },
+        escalationLevel: { lt: runtimeConfig.criticalAlertMaxEscalations }
+      },
+      include: {
+        observation: { select: { value: true } },
+        recipients: { where: { recipientType: 'PROVIDER' }, select: { providerId: true } }
+      }
+    });
+
+    let escalated = 0;
+
+    for (const alert of due) {
+      const escalationLevel = alert.escalationLevel + 1;
+
+      // Conditional update so concurrent runs can not escalate the same alert twice
+      const claimed = await prisma.criticalAlert.updateMany({
+        where: { id: alert.id, status: 'OPEN', escalationLevel: alert.escalationLevel },
+        data: { escalationLevel, lastNotifiedAt: new Date() }
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const providerIds = new Set(await this.findTreatingProviders(alert.patientId, alert.observation));
+      for (const recipient of alert.recipients) {
+        if (recipient.providerId) {
+          providerIds.add(recipient.providerId);
+        }
+      }
+
+      await this.notifyProviders(alert, [...providerIds], escalationLevel);
+      const contacts = await this.notifyEmergencyContacts(alert, escalationLevel);
+
+      logger.warn('Critical alert escalated', {
+        alertId: alert.id,
+        escalationLevel,
+        providers: providerIds.size,
+        emergencyContacts: contacts
+      });
+      escalated++;
+    }
+
+    return { escalated };
+  }
+
+  private static async isProviderRecipient(alertId: string, providerId: string): Promise<boolean> {
+    const recipient = await prisma.criticalAlertRecipient.findUnique({
+      where: { alertId_providerId: { alertId, providerId } }
+    });
+    return Boolean(recipient);
+  }
+
+  /**
+   * Acknowledge an open alert; stops further escalation
+   */
+  static async acknowledge(alertId: string, doctorId: string, note?: string): Promise<AlertActionResult> {
+    const alert = await prisma.criticalAlert.findUnique({ where: { id: alertId } });
+
+    if (!alert || !(await this.isProviderRecipient(alertId, doctorId))) {
+      return { success: false, status: 404, error: 'Alert not found' };
+    }
+
+    const updated = await prisma.criticalAlert.updateMany({
+      where: { id: alertId, status: 'OPEN' },
+      data: {
+        status: 'ACKNOWLEDGED',
+        acknowledgedById: doctorId,
+        acknowledgedAt: new Date(),
+        acknowledgementNote: note
+      }
+    });
+
+    if (updated.count === 0) {
+      return { success: false, status: 409, error: `Alert is already ${alert.status.toLowerCase()}` };
+    }
+
+    await NotificationService.notify({
+      recipientId: alert.patientId,
+      category: 'CRITICAL_OBSERVATION',
+      title: 'Critical reading reviewed',
+      message: `A doctor has reviewed your critical ${alert.code} reading.`,
+      resourceType: 'CriticalAlert',
+      resourceId: alertId,
+      data: { alertId, acknowledgedById: doctorId },
+      channels: []
+    });
+
+    return { success: true, alert: (await prisma.criticalAlert.findUnique({ where: { id: alertId } }))! };
+  }
+
+  /**
+   * Close an alert once it has been dealt with. Resolving an unacknowledged
+   * alert also records the resolving doctor as the acknowledger.
+   */
+  static async resolve(alertId: string, doctorId: string, note?: string): Promise<AlertActionResult> {
+    const alert = await prisma.criticalAlert.findUnique({ where: { id: alertId } });
+
+    if (!alert || !(await this.isProviderRecipient(alertId, doctorId))) {
+      return { success: false, status: 404, error: 'Alert not found' };
+    }
+
+    if (alert.status === 'RESOLVED') {
+      return { success: false, status: 409, error: 'Alert is already resolved' };
+    }
+
+    const now = new Date();
+    const resolved = await prisma.criticalAlert.update({
+      where: { id: alertId },
+      data: {
+        status: 'RESOLVED',
+        resolvedAt: now,
+        ...(alert.status === 'OPEN' && {
+          acknowledgedById: doctorId,
+          acknowledgedAt: now,
+          acknowledgementNote: note
+        })
+      }
+    });
+
+    return { success: true, alert: resolved };
+  }
+
+  /**
+   * Alerts routed to a doctor, newest first
+   */
+  static async getProviderInbox(doctorId: string, options: AlertInboxOptions = {}) {
+    const where: Prisma.CriticalAlertWhereInput = {
+      recipients: { some: { providerId: doctorId } },
+      ...(options.status && { status: options.status })
+    };
+
+    const [alerts, total, openCount] = await Promise.all([
+      prisma.criticalAlert.findMany({
+        where,
+        include: alertInclude,
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? 20,
+        skip: options.offset ?? 0
+      }),
+      prisma.criticalAlert.count({ where }),
+      prisma.criticalAlert.count({
+        where: { recipients: { some: { providerId: doctorId } }, status: 'OPEN' }
+      })
+    ]);
+
+    return { alerts, total, openCount };
+  }
+
+  static async getPatientAlerts(patientId: string, options: AlertInboxOptions = {}) {
+    const where: Prisma.CriticalAlertWhereInput = {
+      patientId,
+      ...(options.status && { status: options.status })
+    };
+
+    const [alerts, total] = await Promise.all([
+      prisma.criticalAlert.findMany({
+        where,
+        include: alertInclude,
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? 20,
+        skip: options.offset ?? 0
+      }),
+      prisma.criticalAlert.count({ where })
+    ]);
+
+    return { alerts, total };
+  }
+
+  /**
+   * A single alert, visible to its provider recipients and the patient
+   */
+  static async getAlert(alertId: string, userId: string) {
+    const alert = await prisma.criticalAlert.findUnique({
+      where: { id: alertId },
+      include: {
+        ...alertInclude,
+        recipients: {
+          select: {
+            recipientType: true,
+            providerId: true,
+            accessLevel: true,
+            escalationLevel: true,
+            notifiedAt: true
+          }
+        }
+      }
+    });
+
+    if (!alert) {
+      return null;
+    }
+
+    if (alert.patientId !== userId && !alert.recipients.some(recipient => recipient.providerId === userId)) {
+      return null;
+    }
+
+    return alert;
+  }
+}
+
+export default CriticalAlertService;
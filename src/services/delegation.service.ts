@@ -0,0 +1,229 @@
+import { Delegation, DelegationRelationship, DelegationScope } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+import NotificationService from './notification.service';
+
+export interface GrantDelegationInput {
+  patientId: string;
+  delegateId?: string;
+  delegateEmail?: string;
+  relationship: DelegationRelationship;
+  scopes: DelegationScope[];
+  expiresAt: Date;
+  notes?: string | null;
+  grantedById: string;
+  grantedByRole: string;
+}
+
+export interface DelegationResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  delegation?: Delegation;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCOPE_LABELS: Record<DelegationScope, string> = {
+  VIEW_RECORDS: 'view health records',
+  MANAGE_CONSENTS: 'manage consents',
+  MANAGE_APPOINTMENTS: 'manage appointments'
+};
+
+const describeScopes = (scopes: DelegationScope[]) => scopes.map(scope => SCOPE_LABELS[scope]).join(', ');
+
+/**
+ * Proxy rights for caregivers and guardians. A patient (or an admin, for
+ * minors and patients who cannot act for themselves) lets another account act
+ * on the patient's behalf within the granted scopes until the delegation
+ * expires or is revoked.
+ */
+export class DelegationService {
+  static async findActive(patientId: string, delegateId: string) {
+    const now = new Date();
+
+    return prisma.delegation.findFirst({
+      where: {
+        patientId,
+        delegateId,
+        revokedAt: null,
+        startsAt: { lte: now },
+        expiresAt: { gt: now }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  static async grant(input: GrantDelegationInput): Promise<DelegationResult> {
+    if (input.scopes.length === 0) {
+      return { success: false, status: 400, error: 'At least one scope is required' };
+    }
+
+    const maxExpiry = new Date(Date.now() + runtimeConfig.delegationMaxDurationDays * DAY_MS);
+    if (input.expiresAt <= new Date()) {
+      return { success: false, status: 400, error: 'expiresAt must be in the future' };
+    }
+    if (input.expiresAt > maxExpiry) {
+      return { success: false, status: 400, error: `Delegations cannot last more than ${runtimeConfig.delegationMaxDurationDays} days` };
+    }
+
+    const patient = await prisma.user.findUnique({
+      where: { healthId: input.patientId },
+      select: { healthId: true, role: true }
+    });
+
+    if (!patient || patient.role !== 'patient') {
+      return { success: false, status: 404, error: 'Patient not found' };
+    }
+
+    const delegate = await prisma.user.findFirst({
+      where: input.delegateId
+        ? { healthId: input.delegateId }
+        : { email: input.delegateEmail?.toLowerCase() },
+      select: { healthId: true, role: true, status: true }
+    });
+
+    if (!delegate || delegate.status !== 'active') {
+      return { success: false, status: 404, error: 'Delegate account not found or inactive' };
+    }
+
+    if (delegate.healthId === patient.healthId) {
+      return { success: false, status: 400, error: 'A patient cannot delegate to themselves' };
+    }
+
+    if (delegate.role === 'admin') {
+      return { success: false, status: 400, error: 'Admin accounts cannot act as delegates' };
+    }
+
+    const existing = await this.findActive(patient.healthId, delegate.healthId);
+    if (existing) {
+      return { success: false, status: 409, error: 'An active delegation already exists for this account', delegation: existing };
+    }
+
+    const delegation = await prisma.delegation.create({
+      data: {
+        patientId: patient.healthId,
+        delegateId: delegate.healthId,
+        relationship: input.relationship,
+        scopes: [...new Set(input.scopes)],
+        expiresAt: input.expiresAt,
+        notes: input.notes ?? null,
+        grantedById: input.grantedById,
+        grantedByRole: input.grantedByRole
+      }
+    });
+
+    await NotificationService.notify({
+      recipientId: delegation.delegateId,
+      category: 'CONSENT',
+      priority: 'HIGH',
+      title: 'You can now act on behalf of a patient',
+      message: `You have been given access to ${describeScopes(delegation.scopes)} for patient ${delegation.patientId} until ${delegation.expiresAt.toISOString()}.`,
+      resourceType: 'Delegation',
+      resourceId: delegation.id,
+      data: { delegationId: delegation.id, patientId: delegation.patientId, scopes: delegation.scopes }
+    });
+
+    // Patients are told when someone else set up proxy access for them
+    if (input.grantedById !== patient.healthId) {
+      await NotificationService.notify({
+        recipientId: delegation.patientId,
+        category: 'CONSENT',
+        priority: 'HIGH',
+        title: 'Someone can now act on your behalf',
+        message: `An administrator gave ${delegation.delegateId} access to ${describeScopes(delegation.scopes)} on your behalf.`,
+        resourceType: 'Delegation',
+        resourceId: delegation.id,
+        data: { delegationId: delegation.id, delegateId: delegation.delegateId }
+      });
+    }
+
+    logger.info('Delegation granted', {
+      delegationId: delegation.id,
+      patientId: delegation.patientId,
+      delegateId: delegation.delegateId,
+      grantedById: input.grantedById
+    });
+
+    return { success: true, delegation };
+  }
+
+  /**
+   * The patient, the delegate (stepping down) or an admin may revoke
+   */
+  static async revoke(
+    delegationId: string,
+    actor: { healthId: string; role: string },
+    reason?: string
+  ): Promise<DelegationResult> {
+    const delegation = await prisma.delegation.findUnique({ where: { id: delegationId } });
+
+    const canRevoke = delegation && (
+      actor.role === 'admin' ||
+      delegation.patientId === actor.healthId ||
+      delegation.delegateId === actor.healthId
+    );
+
+    if (!delegation || !canRevoke) {
+      return { success: false, status: 404, error: 'Delegation not found' };
+    }
+
+    if (delegation.revokedAt) {
+      return { success: false, status: 409, error: 'Delegation has already been revoked' };
+    }
+
+    const revoked = await prisma.delegation.update({
+      where: { id: delegation.id },
+      data: {
+        revokedAt: new Date(),
+        revokedById: actor.healthId,
+        revokedReason: reason || null
+      }
+    });
+
+    const recipients = [revoked.patientId, revoked.delegateId].filter(id => id !== actor.healthId);
+    for (const recipientId of recipients) {
+      await NotificationService.notify({
+        recipientId,
+        category: 'CONSENT',
+        title: 'Delegated access revoked',
+        message: `Delegated access for patient ${revoked.patientId} by ${revoked.delegateId} has been revoked${reason ? `: ${reason}` : ''}.`,
+        resourceType: 'Delegation',
+        resourceId: revoked.id,
+        data: { delegationId: revoked.id }
+      });
+    }
+
+    return { success: true, delegation: revoked };
+  }
+
+  static async listForPatient(patientId: string, activeOnly = false) {
+    return prisma.delegation.findMany({
+      where: {
+        patientId,
+        ...(activeOnly && { revokedAt: null, expiresAt: { gt: new Date() } })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  static async listForDelegate(delegateId: string, activeOnly = false) {
+    return prisma.delegation.findMany({
+      where: {
+        delegateId,
+        ...(activeOnly && { revokedAt: null, expiresAt: { gt: new Date() } })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  static async touch(delegationId: string): Promise<void> {
+    await prisma.delegation.update({
+      where: { id: delegationId },
+      data: { lastUsedAt: new Date() }
+    });
+  }
+}
+
+export default DelegationService;
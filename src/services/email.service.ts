@@ -286,10 +286,99 @@ export async function sendWelcomeEmail(to: string, displayName?: string) {
   await sendEmailWithProviders(to, 'Welcome to CuraNet', html);
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function buildNotificationHtml(title: string, message: string) {
+  return buildEmailLayout({
+    title: escapeHtml(title),
+    subtitle: 'You have a new notification on CuraNet.',
+    bodyHtml: `
+      <div style="padding:14px 16px;border:1px solid #dbeafe;background:#f8fafc;border-radius:12px;margin-bottom:16px;">
+        <p style="margin:0;font-size:14px;color:#334155;">${escapeHtml(message)}</p>
+      </div>
+      <a href="${FRONTEND_URL}" style="display:inline-block;padding:12px 20px;background:#1d4ed8;color:#fff;border-radius:10px;text-decoration:none;font-weight:600;">Open CuraNet</a>
+    `,
+  });
+}
+
+export async function sendNotificationEmail(to: string, title: string, message: string) {
+  const html = buildNotificationHtml(title, message);
+  await sendEmailWithProviders(to, `CuraNet - ${title}`, html);
+}
+
+function buildNotificationDigestHtml(items: Array<{ title: string; message: string; createdAt: Date }>) {
+  const rows = items.map(item => `
+      <div style="padding:12px 16px;border:1px solid #dbeafe;background:#f8fafc;border-radius:12px;margin-bottom:10px;">
+        <p style="margin:0 0 4px 0;font-size:14px;font-weight:600;color:#0f172a;">${escapeHtml(item.title)}</p>
+        <p style="margin:0 0 4px 0;font-size:14px;color:#334155;">${escapeHtml(item.message)}</p>
+        <p style="margin:0;font-size:12px;color:#64748b;">${item.createdAt.toUTCString()}</p>
+      </div>`).join('');
+
+  return buildEmailLayout({
+    title: 'Your notification summary',
+    subtitle: `You have ${items.length} new notification${items.length === 1 ? '' : 's'} on CuraNet.`,
+    bodyHtml: `
+      ${rows}
+      <a href="${FRONTEND_URL}" style="display:inline-block;margin-top:6px;padding:12px 20px;background:#1d4ed8;color:#fff;border-radius:10px;text-decoration:none;font-weight:600;">View all notifications</a>
+    `,
+  });
+}
+
+export async function sendNotificationDigestEmail(to: string, items: Array<{ title: string; message: string; createdAt: Date }>) {
+  const html = buildNotificationDigestHtml(items);
+  await sendEmailWithProviders(to, 'CuraNet - Notification summary', html);
+}
+
+function buildLoginAlertHtml(
+  details: { deviceInfo: string; ipAddress: string | null; location: string | null; occurredAt: Date },
+  reportLink: string
+) {
+  const rows = [
+    ['When', details.occurredAt.toUTCString()],
+    ['Device', details.deviceInfo],
+    ['IP address', details.ipAddress || 'Unknown'],
+    ['Location', details.location || 'Unknown'],
+  ].map(([label, value]) => `
+        <p style="margin:0 0 4px 0;font-size:14px;color:#334155;"><strong>${label}:</strong> ${escapeHtml(value)}</p>`).join('');
+
+  return buildEmailLayout({
+    title: 'New sign-in to your account',
+    subtitle: 'Your CuraNet account was signed in to from a device or location we have not seen before.',
+    bodyHtml: `
+      <div style="padding:14px 16px;border:1px solid #dbeafe;background:#f8fafc;border-radius:12px;margin-bottom:16px;">${rows}
+      </div>
+      <p style="margin:0 0 16px 0;font-size:14px;color:#334155;">If this was you, no action is needed. If it wasn't, sign that session out now and then reset your password.</p>
+      <a href="${reportLink}" style="display:inline-block;padding:12px 20px;background:#dc2626;color:#fff;border-radius:10px;text-decoration:none;font-weight:600;">This wasn't me</a>
+      <p style="margin:18px 0 8px 0;font-size:13px;color:#64748b;">Or copy and paste this link:</p>
+      <p style="margin:0;font-size:13px;word-break:break-all;"><a href="${reportLink}" style="color:#dc2626;">${reportLink}</a></p>
+    `,
+  });
+}
+
+export async function sendLoginAlertEmail(
+  to: string,
+  details: { deviceInfo: string; ipAddress: string | null; location: string | null; occurredAt: Date },
+  token: string
+) {
+  const reportLink = buildFrontendLink(FRONTEND_URL, '/security/not-me', 'token', token);
+  const html = buildLoginAlertHtml(details, reportLink);
+  await sendEmailWithProviders(to, 'CuraNet - New sign-in to your account', html);
+}
+
 export default {
   sendVerificationEmail,
   sendEmailOtp,
   sendPasswordResetEmail,
   sendEmailVerifiedConfirmation,
   sendWelcomeEmail,
+  sendNotificationEmail,
+  sendNotificationDigestEmail,
+  sendLoginAlertEmail,
 };
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { FileShareLink, FileUpload } from '@prisma/client';
+import prisma from '../utils/prisma';
+import runtimeConfig from '../config/runtime-config';
+
+export interface CreateShareLinkInput {
+  expiresInSeconds?: number;
+  singleUse?: boolean;
+  recipient?: string;
+}
+
+export interface ShareLinkResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  link?: FileShareLink;
+  token?: string;
+}
+
+export interface RedeemResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  link?: FileShareLink;
+  file?: FileUpload;
+}
+
+const getSigningSecret = (): string => {
+  const secret = process.env.FILE_LINK_SECRET;
+  if (!secret) {
+    throw new Error('FILE_LINK_SECRET is not set in environment variables');
+  }
+  return secret;
+};
+
+const sign = (payload: string): string =>
+  crypto.createHmac('sha256', getSigningSecret()).update(payload).digest('base64url');
+
+/**
+ * Tokens are `<linkId>.<expiry epoch seconds>.<HMAC>`: forged or expired
+ * links are rejected before touching the database, while revocation and
+ * single-use state live on the FileShareLink row.
+ */
+const createToken = (linkId: string, expiresAt: Date): string => {
+  const payload = `${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(payload)}`;
+};
+
+const parseToken = (token: string): { linkId: string; expiresAt: Date } | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [linkId, expiry, signature] = parts;
+  const expected = Buffer.from(sign(`${linkId}.${expiry}`));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  const seconds = Number(expiry);
+  if (!Number.isSafeInteger(seconds)) {
+    return null;
+  }
+
+  return { linkId, expiresAt: new Date(seconds * 1000) };
+};
+
+/**
+ * Time-limited download links that let a file owner share a single file
+ * with someone outside the platform
+ */
+export class FileShareService {
+  static async createLink(file: FileUpload, createdById: string, input: CreateShareLinkInput): Promise<ShareLinkResult> {
+    const expiresInSeconds = input.expiresInSeconds ?? runtimeConfig.fileShareDefaultExpirySeconds;
+
+    if (!Number.isInteger(expiresInSeconds) || expiresInSeconds <= 0) {
+      return { success: false, status: 400, error: 'expiresInSeconds must be a positive integer' };
+    }
+
+    if (expiresInSeconds > runtimeConfig.fileShareMaxExpirySeconds) {
+      return {
+        success: false,
+        status: 400,
+        error: `Share links can last at most ${runtimeConfig.fileShareMaxExpirySeconds} seconds`
+      };
+    }
+
+    if (file.status !== 'COMPLETED' || file.scanStatus !== 'CLEAN') {
+      return { success: false, status: 409, error: 'Only completed files that passed the malware scan can be shared' };
+    }
+
+    const link = await prisma.fileShareLink.create({
+      data: {
+        fileId: file.id,
+        createdById,
+        recipient: input.recipient || null,
+        singleUse: input.singleUse ?? false,
+        expiresAt: new Date(Date.now() + expiresInSeconds * 1000)
+      }
+    });
+
+    return { success: true, link, token: createToken(link.id, link.expiresAt) };
+  }
+
+  /**
+   * Validate a link token and count the use. Single-use links are claimed
+   * atomically so two concurrent requests cannot both download.
+   */
+  static async redeem(token: string): Promise<RedeemResult> {
+    const parsed = parseToken(token);
+    if (!parsed) {
+      return { success: false, status: 404, error: 'Invalid download link' };
+    }
+
+    const now = new Date();
+    if (parsed.expiresAt <= now) {
+      return { success: false, status: 410, error: 'This download link has expired' };
+    }
+
+    const link = await prisma.fileShareLink.findUnique({
+      where: { id: parsed.linkId },
+      include: { file: true }
+    });
+
+    if (!link) {
+      return { success: false, status: 404, error: 'Invalid download link' };
+    }
+
+    if (link.revokedAt) {
+      return { success: false, status: 410, error: 'This download link has been revoked' };
+    }
+
+    if (link.expiresAt <= now) {
+      return { success: false, status: 410, error: 'This download link has expired' };
+    }
+
+    const { file, ...shareLink } = link;
+
+    if (file.status !== 'COMPLETED' || file.scanStatus !== 'CLEAN') {
+      return { success: false, status: 410, error: 'The shared file is no longer available' };
+    }
+
+    const claimed = await prisma.fileShareLink.updateMany({
+      where: {
+        id: link.id,
+        revokedAt: null,
+        ...(link.singleUse && { useCount: 0 })
+      },
+      data: {
+        useCount: { increment: 1 },
+        lastUsedAt: now
+      }
+    });
+
+    if (claimed.count === 0) {
+      return { success: false, status: 410, error: 'This download link has already been used' };
+    }
+
+    return { success: true, link: shareLink, file };
+  }
+
+  static async listLinks(fileId: string) {
+    const links = await prisma.fileShareLink.findMany({
+      where: { fileId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const now = new Date();
+    return links.map(link => ({
+      ...link,
+      active: !link.revokedAt && link.expiresAt > now && !(link.singleUse && link.useCount > 0)
+    }));
+  }
+
+  static async revokeLink(fileId: string, linkId: string): Promise<ShareLinkResult> {
+    const link = await prisma.fileShareLink.findFirst({
+      where: { id: linkId, fileId }
+    });
+
+    if (!link) {
+      return { success: false, status: 404, error: 'Share link not found' };
+    }
+
+    if (link.revokedAt) {
+      return { success: false, status: 409, error: 'Share link is already revoked' };
+    }
+
+    const revoked = await prisma.fileShareLink.update({
+      where: { id: link.id },
+      data: { revokedAt: new Date() }
+    });
+
+    return { success: true, link: revoked };
+  }
+}
+
+export default FileShareService;
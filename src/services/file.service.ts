@@ -1,7 +1,22 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import sharp from 'sharp';
+import { FileScanStatus, FileUpload } from '@prisma/client';
 import prisma from '../utils/prisma';
 import logger from '../utils/logger';
 import crypto from 'crypto';
 import runtimeConfig from '../config/runtime-config';
+import storageService from './storage.service';
+import malwareScanner from './malware-scanner.service';
+import AuditService from './audit.service';
+import ImagingService from './imaging.service';
+import SystemSettingsService from './system-settings.service';
+import { normalizeMimeType } from '../utils/file-type';
 
 export interface FileValidationResult {
   isValid: boolean;
@@ -9,27 +24,52 @@ export interface FileValidationResult {
   warnings?: string[];
 }
 
+export interface StorageMigrationResult {
+  migrated: number;
+  failed: Array<{ fileId: string; error: string }>;
+  remaining: number;
+}
+
+export interface ScanOutcome {
+  fileId: string;
+  scanStatus: FileScanStatus | null;
+  signature?: string;
+  error?: string;
+}
+
+const execFileAsync = promisify(execFile);
+
+const THUMBNAIL_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/tiff', 'application/pdf'];
+const PDF_RENDER_TIMEOUT_MS = 30000;
+// Scanner errors are retried with exponential backoff before the file is marked FAILED
+const MAX_SCAN_ATTEMPTS = 5;
+const SCAN_RETRY_BASE_MS = 60 * 1000;
+
+/**
+ * Render the first page of a PDF to PNG with poppler's pdftoppm
+ */
+const renderPdfFirstPage = async (pdf: Readable): Promise<Buffer> => {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'curanet-preview-'));
+  try {
+    const input = path.join(workDir, 'input.pdf');
+    const output = path.join(workDir, 'page');
+    await pipeline(pdf, fs.createWriteStream(input));
+
+    // Render at twice the thumbnail size so the downscale stays sharp
+    await execFileAsync(process.env.PDFTOPPM_PATH || 'pdftoppm', [
+      '-f', '1', '-l', '1', '-singlefile', '-png',
+      '-scale-to', String(runtimeConfig.thumbnailMaxDimension * 2),
+      input, output
+    ], { timeout: PDF_RENDER_TIMEOUT_MS });
+
+    return await fs.promises.readFile(`${output}.png`);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+};
+
 export class FileService {
   private static readonly MAX_FILE_SIZE = runtimeConfig.maxFileSizeBytes;
-  private static readonly ALLOWED_MIME_TYPES = [
-    // Images
-    'image/jpeg',
-    'image/jpg', 
-    'image/png',
-    'image/gif',
-    'image/webp',
-    // Documents
-    'application/pdf',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'text/plain',
-    'text/csv',
-    // Medical imaging
-    'application/dicom',
-    'image/tiff'
-  ];
 
   /**
    * Validate file before upload
@@ -45,11 +85,11 @@ export class FileService {
       };
     }
 
-    // Check MIME type
-    if (!this.ALLOWED_MIME_TYPES.includes(mimeType)) {
+    // Check MIME type against the admin-managed allow-list
+    if (!this.isAllowedMimeType(mimeType)) {
       return {
         isValid: false,
-        error: `File type '${mimeType}' is not allowed. Allowed types: ${this.ALLOWED_MIME_TYPES.join(', ')}`
+        error: `File type '${mimeType}' is not allowed. Allowed types: ${SystemSettingsService.getAllowedFileTypes().join(', ')}`
       };
     }
 
@@ -76,6 +116,10 @@ export class FileService {
     };
   }
 
+  static isAllowedMimeType(mimeType: string): boolean {
+    return SystemSettingsService.getAllowedFileTypes().includes(normalizeMimeType(mimeType));
+  }
+
   /**
    * Sanitize filename for security
    */
@@ -97,28 +141,37 @@ export class FileService {
     try {
       logger.info('Starting cleanup of expired uploads');
 
-      // Find uploads that are still in UPLOADING status and older than 1 hour
+      // Upload sessions expire after UPLOAD_SESSION_TTL_MINUTES of inactivity;
+      // uploads without an expiry are reaped once they are an hour old
+      const now = new Date();
       const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
       
       const expiredUploads = await prisma.fileUpload.findMany({
         where: {
           status: 'UPLOADING',
-          createdAt: {
-            lt: oneHourAgo
-          }
-        }
+          OR: [
+            { expiresAt: { lt: now } },
+            { expiresAt: null, createdAt: { lt: oneHourAgo } }
+          ]
+        },
+        include: { chunks: true }
       });
 
       let cleanedCount = 0;
 
       for (const upload of expiredUploads) {
         try {
-          // Update status to expired (file data stored in database as base64)
           await prisma.fileUpload.update({
             where: { id: upload.id },
-            data: { status: 'EXPIRED' }
+            data: { status: 'EXPIRED', uploadToken: null }
           });
 
+          // Drop any chunks an abandoned upload session left in storage
+          for (const chunk of upload.chunks) {
+            await storageService.delete(chunk.storageKey);
+          }
+          await prisma.uploadChunk.deleteMany({ where: { uploadId: upload.id } });
+
           cleanedCount++;
         } catch (error) {
           logger.error('Error cleaning up upload', { uploadId: upload.id, error });
@@ -128,9 +181,146 @@ export class FileService {
       logger.info('Upload cleanup completed', { cleanedCount });
     } catch (error) {
       logger.error('Error during upload cleanup', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Scan a completed upload for malware.
+   * Clean files become downloadable and clean DICOM uploads are indexed into
+   * imaging studies; infected files are quarantined and keep their blob for
+   * admin review. Scanner errors leave the file PENDING with a
+   * backed-off nextScanAt; after MAX_SCAN_ATTEMPTS it is marked FAILED and
+   * stays blocked, so files the scanner can never handle (e.g. over clamd's
+   * stream limit) stop occupying the scan job's batch.
+   */
+  static async scanFile(fileId: string): Promise<ScanOutcome> {
+    const file = await prisma.fileUpload.findUnique({ where: { id: fileId } });
+
+    if (!file || file.status !== 'COMPLETED' || file.scanStatus !== 'PENDING') {
+      return { fileId, scanStatus: file?.scanStatus ?? null };
+    }
+
+    try {
+      const body = file.storageKey
+        ? await storageService.getStream(file.storageKey)
+        : Readable.from([Buffer.from(file.fileData || '', 'base64')]);
+
+      const verdict = await malwareScanner.scan(body);
+
+      if (verdict.clean) {
+        const scanned = await prisma.fileUpload.update({
+          where: { id: fileId },
+          data: { scanStatus: 'CLEAN', scanEngine: malwareScanner.getScannerName(), scanResult: null, scannedAt: new Date() }
+        });
+        if (scanned.mimeType === 'application/dicom') {
+          await this.indexDicom(scanned);
+        }
+        return { fileId, scanStatus: 'CLEAN' };
+      }
+
+      await prisma.fileUpload.update({
+        where: { id: fileId },
+        data: {
+          status: 'QUARANTINED',
+          scanStatus: 'INFECTED',
+          scanEngine: malwareScanner.getScannerName(),
+          scanResult: verdict.signature || null,
+          scannedAt: new Date()
+        }
+      });
+
+      await AuditService.logAction({
+        actorId: 'system',
+        actorRole: 'system',
+        action: 'FILE_QUARANTINED',
+        resourceType: 'FileUpload',
+        resourceId: fileId,
+        patientHealthId: file.ownerHealthId,
+        metadata: {
+          filename: file.originalName,
+          signature: verdict.signature || null,
+          scanner: malwareScanner.getScannerName()
+        }
+      });
+
+      logger.warn('Infected upload quarantined', { fileId, signature: verdict.signature });
+      return { fileId, scanStatus: 'INFECTED', signature: verdict.signature };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = file.scanAttempts + 1;
+      const scanStatus: FileScanStatus = attempts >= MAX_SCAN_ATTEMPTS ? 'FAILED' : 'PENDING';
+
+      await prisma.fileUpload.update({
+        where: { id: fileId },
+        data: {
+          scanStatus,
+          scanAttempts: attempts,
+          scanResult: message,
+          nextScanAt: scanStatus === 'PENDING' ? new Date(Date.now() + SCAN_RETRY_BASE_MS * 2 ** (attempts - 1)) : null
+        }
+      });
+
+      logger.error('Malware scan failed', { fileId, attempts, scanStatus, error });
+      return { fileId, scanStatus, error: message };
+    }
+  }
+
+  /**
+   * File a clean DICOM upload under the patient/encounter given at upload
+   * time, acting as the uploader. Best-effort: a file that can not be indexed
+   * stays downloadable and can be ingested later via POST /api/imaging/ingest.
+   */
+  private static async indexDicom(file: FileUpload): Promise<void> {
+    try {
+      const owner = await prisma.user.findUnique({ where: { healthId: file.ownerHealthId }, select: { role: true } });
+      if (!owner) {
+        return;
+      }
+
+      const result = await ImagingService.ingestFile(file, {
+        actorId: file.ownerHealthId,
+        actorRole: owner.role,
+        patientId: file.ingestPatientId ?? undefined,
+        encounterId: file.ingestEncounterId ?? undefined
+      });
+      if (!result.success) {
+        logger.warn('DICOM upload was not indexed', { fileId: file.id, error: result.error });
+      }
+    } catch (error) {
+      logger.error('Failed to index DICOM upload', { fileId: file.id, error });
     }
   }
 
+  /**
+   * Scan completed uploads still awaiting a verdict, oldest first, skipping
+   * files whose last scan errored until their retry is due
+   */
+  static async scanPendingFiles(limit = 25): Promise<{ scanned: number; clean: number; infected: number; failed: number }> {
+    const pending = await prisma.fileUpload.findMany({
+      where: {
+        status: 'COMPLETED',
+        scanStatus: 'PENDING',
+        OR: [{ nextScanAt: null }, { nextScanAt: { lte: new Date() } }]
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: limit
+    });
+
+    const result = { scanned: 0, clean: 0, infected: 0, failed: 0 };
+
+    for (const { id } of pending) {
+      const outcome = await this.scanFile(id);
+      result.scanned++;
+      if (outcome.scanStatus === 'CLEAN') result.clean++;
+      else if (outcome.scanStatus === 'INFECTED') result.infected++;
+      else result.failed++;
+    }
+
+    return result;
+  }
+
   /**
    * Clean up deleted files
    * Remove files marked as DELETED from storage
@@ -149,7 +339,21 @@ export class FileService {
 
       for (const file of deletedFiles) {
         try {
-          // File data is stored in database as base64, no filesystem cleanup needed
+          if (!file.storageKey && !file.fileData && !file.thumbnailKey) {
+            continue;
+          }
+
+          if (file.storageKey) {
+            await storageService.delete(file.storageKey);
+          }
+          if (file.thumbnailKey) {
+            await storageService.delete(file.thumbnailKey);
+          }
+
+          await prisma.fileUpload.update({
+            where: { id: file.id },
+            data: { storageKey: null, fileData: null, thumbnailKey: null }
+          });
           cleanedCount++;
         } catch (error) {
           logger.error('Error processing deleted file', { fileId: file.id, error });
@@ -159,6 +363,7 @@ export class FileService {
       logger.info('Deleted file cleanup completed', { cleanedCount });
     } catch (error) {
       logger.error('Error during deleted file cleanup', { error });
+      throw error;
     }
   }
 
@@ -240,13 +445,136 @@ export class FileService {
     }
   }
 
+  static supportsThumbnail(mimeType: string): boolean {
+    return THUMBNAIL_MIME_TYPES.includes(normalizeMimeType(mimeType));
+  }
+
+  /**
+   * Return the storage key of a file's preview image, rendering and caching
+   * it on first use. Images are downscaled; PDFs are previewed from their
+   * first page via pdftoppm. Returns null for unsupported or unreadable files.
+   */
+  static async generateThumbnail(file: FileUpload): Promise<string | null> {
+    if (file.thumbnailKey) {
+      return file.thumbnailKey;
+    }
+
+    if (!this.supportsThumbnail(file.mimeType)) {
+      return null;
+    }
+
+    try {
+      const source = file.storageKey
+        ? await storageService.getStream(file.storageKey)
+        : Readable.from([Buffer.from(file.fileData || '', 'base64')]);
+
+      let image: sharp.Sharp;
+      if (normalizeMimeType(file.mimeType) === 'application/pdf') {
+        image = sharp(await renderPdfFirstPage(source));
+      } else {
+        image = sharp({ failOn: 'error' });
+        source.on('error', error => image.destroy(error));
+        source.pipe(image);
+      }
+
+      const thumbnail = await image
+        .rotate() // honour EXIF orientation before EXIF is stripped
+        .resize(runtimeConfig.thumbnailMaxDimension, runtimeConfig.thumbnailMaxDimension, {
+          fit: 'inside',
+          withoutEnlargement: true
+        })
+        .webp({ quality: 80 })
+        .toBuffer();
+
+      const key = `thumbnails/${file.id}.webp`;
+      await storageService.put(key, thumbnail, 'image/webp');
+      await prisma.fileUpload.update({
+        where: { id: file.id },
+        data: { thumbnailKey: key }
+      });
+
+      return key;
+    } catch (error) {
+      logger.warn('Thumbnail generation failed', { fileId: file.id, mimeType: file.mimeType, error });
+      return null;
+    }
+  }
+
   /**
-   * Generate file thumbnail (placeholder for future implementation)
+   * Move legacy base64 `fileData` rows into the configured blob store.
+   * Each file's SHA-256 is checked against the stored checksum before the
+   * move and re-checked from the store afterwards; the database copy is only
+   * cleared once the stored blob verifies.
    */
-  static async generateThumbnail(fileData: string, mimeType: string): Promise<string | null> {
-    // This would integrate with image processing libraries like Sharp
-    // For now, return null (no thumbnail)
-    return null;
+  static async migrateFileDataToStorage(options: { limit?: number; dryRun?: boolean } = {}): Promise<StorageMigrationResult> {
+    const pending = await prisma.fileUpload.findMany({
+      where: { storageKey: null, fileData: { not: null } },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: options.limit
+    });
+
+    const result: StorageMigrationResult = { migrated: 0, failed: [], remaining: 0 };
+
+    for (const { id } of pending) {
+      // Load one row at a time so only a single file's data is held in memory
+      const file = await prisma.fileUpload.findUnique({ where: { id } });
+      if (!file?.fileData) {
+        continue;
+      }
+
+      const buffer = Buffer.from(file.fileData, 'base64');
+      const checksum = crypto.createHash('sha256').update(buffer).digest('hex');
+
+      if (file.checksum && file.checksum !== checksum) {
+        result.failed.push({ fileId: id, error: 'Stored data does not match its recorded checksum' });
+        continue;
+      }
+
+      if (options.dryRun) {
+        result.migrated++;
+        continue;
+      }
+
+      const key = storageService.generateKey();
+      try {
+        await storageService.put(key, buffer, file.mimeType);
+
+        const storedChecksum = await storageService.computeChecksum(key);
+        if (storedChecksum !== checksum) {
+          throw new Error('Checksum mismatch after writing to storage');
+        }
+
+        await prisma.fileUpload.update({
+          where: { id },
+          data: {
+            storageKey: key,
+            storageDriver: storageService.getDriverName(),
+            checksum,
+            fileData: null
+          }
+        });
+        result.migrated++;
+      } catch (error) {
+        await storageService.delete(key).catch(() => undefined);
+        result.failed.push({ fileId: id, error: error instanceof Error ? error.message : String(error) });
+        logger.error('Failed to migrate file to blob storage', { fileId: id, error });
+      }
+    }
+
+    result.remaining = await prisma.fileUpload.count({
+      where: { storageKey: null, fileData: { not: null } }
+    });
+
+    logger.info('File storage migration batch completed', {
+      driver: storageService.getDriverName(),
+      dryRun: !!options.dryRun,
+      migrated: result.migrated,
+      failed: result.failed.length,
+      remaining: result.remaining
+    });
+
+    return result;
   }
 
   /**
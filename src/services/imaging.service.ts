@@ -0,0 +1,300 @@
+import { Readable } from 'stream';
+import { FileUpload, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import AuditService from './audit.service';
+import storageService from './storage.service';
+import { DicomMetadata, DicomParseError, parseDicomHeader } from '../utils/dicom';
+
+export interface IngestContext {
+  actorId: string;
+  actorRole: string;
+  patientId?: string;
+  encounterId?: string;
+}
+
+export interface IngestResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  study?: Prisma.ImagingStudyGetPayload<{}>;
+  instance?: Prisma.ImagingInstanceGetPayload<{}>;
+}
+
+export interface StudySearchFilters {
+  patientId?: string;
+  encounterId?: string;
+  modality?: string;
+  bodyPart?: string;
+  from?: Date;
+  to?: Date;
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Headers with large private sequences can run to a few megabytes; pixel data is never read
+const DICOM_HEADER_MAX_BYTES = 8 * 1024 * 1024;
+
+const readHead = async (stream: Readable, limit: number): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+    total += (chunk as Buffer).length;
+    if (total >= limit) {
+      break;
+    }
+  }
+
+  return Buffer.concat(chunks).subarray(0, limit);
+};
+
+export const studySummaryInclude = {
+  series: {
+    orderBy: { seriesNumber: 'asc' },
+    include: { _count: { select: { instances: true } } }
+  },
+  encounter: { select: { id: true, type: true, startTime: true } }
+} satisfies Prisma.ImagingStudyInclude;
+
+/**
+ * DICOM ingestion: parses uploaded instances and indexes them into
+ * study -> series -> instance, keyed by their DICOM UIDs, so imaging can be
+ * listed per patient/encounter and gated by the READ_RADIOLOGY consent scope.
+ */
+export class ImagingService {
+  static async readMetadata(file: FileUpload): Promise<DicomMetadata> {
+    const source = file.storageKey
+      ? await storageService.getStream(file.storageKey)
+      : Readable.from([Buffer.from(file.fileData || '', 'base64')]);
+
+    return parseDicomHeader(await readHead(source, DICOM_HEADER_MAX_BYTES));
+  }
+
+  /**
+   * Work out which patient (and encounter) an upload belongs to. Patients
+   * can only file imaging to their own record; providers need to be the
+   * encounter's provider or hold READ_RADIOLOGY consent for the patient.
+   */
+  static async resolvePatient(context: IngestContext): Promise<{ success: boolean; error?: string; status?: number; patientId?: string; encounterId?: string }> {
+    let patientId = context.patientId;
+
+    if (context.encounterId) {
+      const encounter = await prisma.encounter.findUnique({ where: { id: context.encounterId } });
+      if (!encounter) {
+        return { success: false, status: 404, error: 'Encounter not found' };
+      }
+      if (patientId && patientId !== encounter.patientId) {
+        return { success: false, status: 400, error: 'Encounter belongs to a different patient' };
+      }
+      patientId = encounter.patientId;
+
+      if (context.actorId === encounter.providerId || context.actorId === encounter.patientId || context.actorRole === 'admin') {
+        return { success: true, patientId, encounterId: encounter.id };
+      }
+    }
+
+    if (!patientId) {
+      if (context.actorRole !== 'patient') {
+        return { success: false, status: 400, error: 'patientId or encounterId is required to file a DICOM study' };
+      }
+      patientId = context.actorId;
+    }
+
+    if (context.actorRole === 'patient' && patientId !== context.actorId) {
+      return { success: false, status: 403, error: 'Patients can only add imaging to their own record' };
+    }
+
+    if (patientId !== context.actorId && context.actorRole !== 'admin') {
+      const consentCheck = await AuditService.verifyConsent(context.actorId, patientId, { resource: 'imaging_study', action: 'write' });
+      if (!consentCheck.hasConsent) {
+        return { success: false, status: 403, error: 'WRITE_NOTES consent is required to add imaging for this patient' };
+      }
+    }
+
+    return { success: true, patientId, encounterId: context.encounterId };
+  }
+
+  /**
+   * Parse a completed DICOM upload that passed the malware scan and index it.
+   * Re-ingesting a file that is already indexed returns the existing instance.
+   */
+  static async ingestFile(file: FileUpload, context: IngestContext): Promise<IngestResult> {
+    if (file.mimeType !== 'application/dicom') {
+      return { success: false, status: 400, error: 'File is not a DICOM file' };
+    }
+
+    if (file.status !== 'COMPLETED') {
+      return { success: false, status: 409, error: 'File upload has not been completed' };
+    }
+
+    // Headers of unscanned files are never parsed
+    if (file.scanStatus !== 'CLEAN') {
+      return { success: false, status: 409, error: 'File has not passed the malware scan' };
+    }
+
+    const existing = await prisma.imagingInstance.findUnique({
+      where: { fileId: file.id },
+      include: { series: { include: { study: true } } }
+    });
+    if (existing) {
+      const { series, ...instance } = existing;
+      return { success: true, study: series.study, instance };
+    }
+
+    const target = await this.resolvePatient(context);
+    if (!target.success) {
+      return target;
+    }
+
+    let metadata: DicomMetadata;
+    try {
+      metadata = await this.readMetadata(file);
+    } catch (error) {
+      if (error instanceof DicomParseError) {
+        return { success: false, status: 422, error: error.message };
+      }
+      throw error;
+    }
+
+    const duplicate = await prisma.imagingInstance.findUnique({ where: { sopInstanceUid: metadata.sopInstanceUid } });
+    if (duplicate) {
+      return { success: false, status: 409, error: 'This DICOM instance has already been ingested' };
+    }
+
+    const result = await prisma.$transaction(async (tx): Promise<IngestResult> => {
+      let study = await tx.imagingStudy.findUnique({ where: { studyInstanceUid: metadata.studyInstanceUid } });
+
+      if (study && study.patientId !== target.patientId) {
+        return { success: false, status: 409, error: 'Study is already filed under a different patient' };
+      }
+
+      if (!study) {
+        study = await tx.imagingStudy.create({
+          data: {
+            patientId: target.patientId!,
+            encounterId: target.encounterId || null,
+            studyInstanceUid: metadata.studyInstanceUid,
+            accessionNumber: metadata.accessionNumber,
+            studyDate: metadata.studyDate,
+            description: metadata.studyDescription,
+            dicomPatientId: metadata.patientId,
+            dicomPatientName: metadata.patientName,
+            uploadedById: context.actorId
+          }
+        });
+      } else if (!study.encounterId && target.encounterId) {
+        study = await tx.imagingStudy.update({
+          where: { id: study.id },
+          data: { encounterId: target.encounterId }
+        });
+      }
+
+      let series = await tx.imagingSeries.findUnique({ where: { seriesInstanceUid: metadata.seriesInstanceUid } });
+      if (series && series.studyId !== study.id) {
+        return { success: false, status: 409, error: 'Series UID already belongs to another study' };
+      }
+      if (!series) {
+        series = await tx.imagingSeries.create({
+          data: {
+            studyId: study.id,
+            seriesInstanceUid: metadata.seriesInstanceUid,
+            modality: metadata.modality,
+            bodyPart: metadata.bodyPartExamined,
+            seriesNumber: metadata.seriesNumber,
+            description: metadata.seriesDescription
+          }
+        });
+      }
+
+      const instance = await tx.imagingInstance.create({
+        data: {
+          seriesId: series.id,
+          fileId: file.id,
+          sopInstanceUid: metadata.sopInstanceUid,
+          sopClassUid: metadata.sopClassUid,
+          instanceNumber: metadata.instanceNumber
+        }
+      });
+
+      return { success: true, study, instance };
+    });
+
+    if (result.success) {
+      logger.info('DICOM instance ingested', {
+        fileId: file.id,
+        studyId: result.study!.id,
+        modality: metadata.modality
+      });
+    }
+
+    return result;
+  }
+
+  static async listStudies(filters: StudySearchFilters) {
+    const where: Prisma.ImagingStudyWhereInput = {
+      ...(filters.patientId && { patientId: filters.patientId }),
+      ...(filters.encounterId && { encounterId: filters.encounterId }),
+      ...((filters.from || filters.to) && {
+        studyDate: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to })
+        }
+      }),
+      ...((filters.modality || filters.bodyPart) && {
+        series: {
+          some: {
+            ...(filters.modality && { modality: filters.modality.toUpperCase() }),
+            ...(filters.bodyPart && { bodyPart: filters.bodyPart.toUpperCase() })
+          }
+        }
+      }),
+      ...(filters.q && {
+        OR: [
+          { description: { contains: filters.q, mode: 'insensitive' } },
+          { accessionNumber: { equals: filters.q } },
+          { series: { some: { description: { contains: filters.q, mode: 'insensitive' } } } }
+        ]
+      })
+    };
+
+    const [studies, total] = await Promise.all([
+      prisma.imagingStudy.findMany({
+        where,
+        include: studySummaryInclude,
+        orderBy: [{ studyDate: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+        take: filters.limit ?? 20,
+        skip: filters.offset ?? 0
+      }),
+      prisma.imagingStudy.count({ where })
+    ]);
+
+    return { studies, total };
+  }
+
+  static async getStudy(studyId: string) {
+    return prisma.imagingStudy.findUnique({
+      where: { id: studyId },
+      include: {
+        encounter: { select: { id: true, type: true, startTime: true } },
+        series: {
+          orderBy: { seriesNumber: 'asc' },
+          include: {
+            instances: {
+              orderBy: { instanceNumber: 'asc' },
+              include: {
+                file: {
+                  select: { id: true, originalName: true, fileSize: true, scanStatus: true, uploadedAt: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+  }
+}
+
+export default ImagingService;
@@ -0,0 +1,309 @@
+import os from 'os';
+import crypto from 'crypto';
+import { JobRunStatus, JobTrigger, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalSeconds: number;
+  // 'cluster' jobs run on one instance at a time under the database lock;
+  // 'instance' jobs touch process-local state and run on every instance
+  scope?: 'cluster' | 'instance';
+  handler: () => Promise<Prisma.InputJsonValue | void>;
+}
+
+export interface TriggerResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  run?: Prisma.JobRunGetPayload<{}>;
+}
+
+export interface JobRunFilters {
+  jobName?: string;
+  status?: JobRunStatus;
+  limit?: number;
+  offset?: number;
+}
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+/**
+ * In-process job runner backed by Postgres.
+ *
+ * Each registered job has a scheduled_jobs row holding its next run time and
+ * a lease (lockedBy/lockedUntil). Instances poll on JOB_POLL_INTERVAL_SECONDS
+ * and claim a due job with a conditional update, so only one instance runs it
+ * even when several are deployed. Failed runs are retried with exponential
+ * backoff (JOB_RETRY_BASE_SECONDS * 2^n) up to JOB_MAX_RETRIES times before the
+ * job falls back to its regular interval. Every run is recorded in job_runs.
+ */
+export class JobSchedulerService {
+  private static jobs = new Map<string, JobDefinition>();
+  private static instanceNextRun = new Map<string, number>();
+  private static timer: NodeJS.Timeout | null = null;
+  private static ticking = false;
+
+  static register(job: JobDefinition): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job already registered: ${job.name}`);
+    }
+    this.jobs.set(job.name, { scope: 'cluster', ...job });
+  }
+
+  static getInstanceId(): string {
+    return INSTANCE_ID;
+  }
+
+  /**
+   * Sync job rows with the registry and start polling
+   */
+  static async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    await this.syncJobs();
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, runtimeConfig.jobPollIntervalSeconds * 1000);
+    this.timer.unref();
+
+    logger.info('Job scheduler started', { instanceId: INSTANCE_ID, jobs: [...this.jobs.keys()] });
+    void this.tick();
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Job scheduler stopped', { instanceId: INSTANCE_ID });
+    }
+  }
+
+  private static async syncJobs(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      await prisma.scheduledJob.upsert({
+        where: { name: job.name },
+        create: { name: job.name, intervalSeconds: job.intervalSeconds },
+        update: { intervalSeconds: job.intervalSeconds }
+      });
+    }
+  }
+
+  /**
+   * Run every job that is due. Jobs run sequentially; a tick still in
+   * progress when the next poll fires is not overlapped.
+   */
+  static async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      for (const job of this.jobs.values()) {
+        try {
+          if (job.scope === 'instance') {
+            if (Date.now() >= (this.instanceNextRun.get(job.name) ?? 0)) {
+              this.instanceNextRun.set(job.name, Date.now() + job.intervalSeconds * 1000);
+              await this.execute(job, 'SCHEDULE', 1);
+            }
+            continue;
+          }
+
+          const claimed = await this.acquireLock(job.name, true);
+          if (claimed) {
+            await this.runClaimed(job, claimed.failureCount > 0 ? 'RETRY' : 'SCHEDULE', claimed.failureCount + 1);
+          }
+        } catch (error) {
+          logger.error('Job scheduler tick failed', { error, job: job.name });
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Claim a job's lease. Scheduled claims also require the job to be enabled
+   * and due; manual claims only require that nobody else holds the lease.
+   */
+  private static async acquireLock(name: string, scheduled: boolean) {
+    const now = new Date();
+
+    const claimed = await prisma.scheduledJob.updateMany({
+      where: {
+        name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        ...(scheduled && { enabled: true, nextRunAt: { lte: now } })
+      },
+      data: {
+        lockedBy: INSTANCE_ID,
+        lockedUntil: new Date(now.getTime() + runtimeConfig.jobLockTimeoutMinutes * 60 * 1000),
+        lastRunAt: now
+      }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    return prisma.scheduledJob.findUnique({ where: { name } });
+  }
+
+  private static async runClaimed(job: JobDefinition, trigger: JobTrigger, attempt: number, triggeredBy?: string) {
+    // We hold the lease, so any run still marked RUNNING was abandoned by an instance that died mid-run
+    await prisma.jobRun.updateMany({
+      where: { jobName: job.name, status: 'RUNNING' },
+      data: { status: 'FAILED', error: 'Abandoned: lease expired before the run finished', finishedAt: new Date() }
+    });
+
+    const run = await this.execute(job, trigger, attempt, triggeredBy);
+    const now = new Date();
+
+    let schedule: Prisma.ScheduledJobUpdateManyMutationInput;
+    if (run.status === 'SUCCEEDED') {
+      schedule = {
+        failureCount: 0,
+        lastSuccessAt: now,
+        nextRunAt: new Date(now.getTime() + job.intervalSeconds * 1000)
+      };
+    } else if (trigger === 'MANUAL') {
+      // A failed manual run leaves the regular schedule untouched
+      schedule = {};
+    } else if (attempt <= runtimeConfig.jobMaxRetries) {
+      const backoffMs = runtimeConfig.jobRetryBaseSeconds * 1000 * 2 ** (attempt - 1);
+      schedule = { failureCount: attempt, nextRunAt: new Date(now.getTime() + backoffMs) };
+    } else {
+      logger.error('Job exhausted retries', { job: job.name, attempts: attempt });
+      schedule = { failureCount: 0, nextRunAt: new Date(now.getTime() + job.intervalSeconds * 1000) };
+    }
+
+    await prisma.scheduledJob.updateMany({
+      where: { name: job.name, lockedBy: INSTANCE_ID },
+      data: { ...schedule, lockedBy: null, lockedUntil: null }
+    });
+
+    return run;
+  }
+
+  private static async execute(job: JobDefinition, trigger: JobTrigger, attempt: number, triggeredBy?: string) {
+    const run = await prisma.jobRun.create({
+      data: { jobName: job.name, trigger, attempt, instanceId: INSTANCE_ID, triggeredBy }
+    });
+
+    const startedAt = Date.now();
+
+    try {
+      const result = await job.handler();
+
+      logger.info('Job run succeeded', { job: job.name, runId: run.id, durationMs: Date.now() - startedAt });
+      return prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'SUCCEEDED',
+          result: result ?? Prisma.JsonNull,
+          finishedAt: new Date(),
+          durationMs: Date.now() - startedAt
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      logger.error('Job run failed', { job: job.name, runId: run.id, attempt, error: message });
+      return prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'FAILED',
+          error: message,
+          finishedAt: new Date(),
+          durationMs: Date.now() - startedAt
+        }
+      });
+    }
+  }
+
+  /**
+   * Run a job immediately, outside its schedule
+   */
+  static async trigger(name: string, triggeredBy: string): Promise<TriggerResult> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return { success: false, status: 404, error: 'Job not found' };
+    }
+
+    // The row may not exist yet when the scheduler is disabled on this instance
+    await prisma.scheduledJob.upsert({
+      where: { name },
+      create: { name, intervalSeconds: job.intervalSeconds },
+      update: {}
+    });
+
+    if (job.scope === 'instance') {
+      const run = await this.execute(job, 'MANUAL', 1, triggeredBy);
+      return { success: true, run };
+    }
+
+    const claimed = await this.acquireLock(name, false);
+    if (!claimed) {
+      return { success: false, status: 409, error: 'Job is already running' };
+    }
+
+    const run = await this.runClaimed(job, 'MANUAL', 1, triggeredBy);
+    return { success: true, run };
+  }
+
+  /**
+   * Registered jobs with their schedule state and most recent run
+   */
+  static async listJobs() {
+    const rows = await prisma.scheduledJob.findMany({
+      include: { runs: { orderBy: { startedAt: 'desc' }, take: 1 } }
+    });
+    const byName = new Map(rows.map(row => [row.name, row]));
+
+    return [...this.jobs.values()].map(job => {
+      const row = byName.get(job.name);
+      return {
+        name: job.name,
+        description: job.description,
+        scope: job.scope,
+        intervalSeconds: job.intervalSeconds,
+        enabled: row?.enabled ?? true,
+        nextRunAt: job.scope === 'instance' ? null : row?.nextRunAt ?? null,
+        failureCount: row?.failureCount ?? 0,
+        lockedBy: row?.lockedBy ?? null,
+        lockedUntil: row?.lockedUntil ?? null,
+        lastRunAt: row?.lastRunAt ?? null,
+        lastSuccessAt: row?.lastSuccessAt ?? null,
+        lastRun: row?.runs[0] ?? null
+      };
+    });
+  }
+
+  static async listRuns(filters: JobRunFilters = {}) {
+    const where: Prisma.JobRunWhereInput = {
+      ...(filters.jobName && { jobName: filters.jobName }),
+      ...(filters.status && { status: filters.status })
+    };
+
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        take: filters.limit ?? 50,
+        skip: filters.offset ?? 0
+      }),
+      prisma.jobRun.count({ where })
+    ]);
+
+    return { runs, total };
+  }
+}
+
+export default JobSchedulerService;
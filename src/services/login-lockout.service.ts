@@ -0,0 +1,143 @@
+import { LockoutScope } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+
+export interface LockoutTarget {
+  ip?: string;
+  account?: string;
+}
+
+export interface LockoutStatus {
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+const lockoutMs = () => runtimeConfig.loginAttemptLockoutMinutes * 60 * 1000;
+
+const limitFor = (scope: LockoutScope) =>
+  scope === 'IP' ? runtimeConfig.maxLoginAttemptsPerIp : runtimeConfig.maxLoginAttempts;
+
+const dimensions = (target: LockoutTarget): { scope: LockoutScope; key: string }[] => [
+  ...(target.account ? [{ scope: 'ACCOUNT' as const, key: target.account.toLowerCase() }] : []),
+  ...(target.ip ? [{ scope: 'IP' as const, key: target.ip }] : [])
+];
+
+const toStatus = (lockedUntil: (Date | null)[]): LockoutStatus => {
+  const now = Date.now();
+  const latest = Math.max(0, ...lockedUntil.map(date => date?.getTime() ?? 0));
+
+  return latest > now
+    ? { locked: true, retryAfterSeconds: Math.ceil((latest - now) / 1000) }
+    : { locked: false, retryAfterSeconds: 0 };
+};
+
+/**
+ * Failed sign-in tracking shared across instances. Failures count against
+ * both the account identifier and the client IP; either dimension reaching
+ * its limit within the lockout window locks it for LOGIN_ATTEMPT_LOCKOUT_MINUTES.
+ */
+export class LoginLockoutService {
+  static async check(target: LockoutTarget): Promise<LockoutStatus> {
+    const keys = dimensions(target);
+    if (keys.length === 0) {
+      return { locked: false, retryAfterSeconds: 0 };
+    }
+
+    const entries = await prisma.loginLockout.findMany({
+      where: { OR: keys },
+      select: { lockedUntil: true }
+    });
+
+    return toStatus(entries.map(entry => entry.lockedUntil));
+  }
+
+  static async recordFailure(target: LockoutTarget): Promise<LockoutStatus> {
+    const lockedUntil: (Date | null)[] = [];
+
+    for (const { scope, key } of dimensions(target)) {
+      lockedUntil.push(await this.recordScopeFailure(scope, key));
+    }
+
+    return toStatus(lockedUntil);
+  }
+
+  /**
+   * Failures recorded inside the current counting window, taking the busier of
+   * the account and IP counters. Used as a login risk signal.
+   */
+  static async recentFailures(target: LockoutTarget): Promise<number> {
+    const keys = dimensions(target);
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    const entries = await prisma.loginLockout.findMany({
+      where: { OR: keys, windowStartedAt: { gte: new Date(Date.now() - lockoutMs()) } },
+      select: { failedCount: true }
+    });
+
+    return Math.max(0, ...entries.map(entry => entry.failedCount));
+  }
+
+  static async clearAccount(account: string): Promise<void> {
+    await prisma.loginLockout.deleteMany({
+      where: { scope: 'ACCOUNT', key: account.toLowerCase() }
+    });
+  }
+
+  /**
+   * Remove counters that are neither locked nor inside the counting window.
+   * Returns the number removed.
+   */
+  static async cleanupExpired(): Promise<number> {
+    const now = new Date();
+    const { count } = await prisma.loginLockout.deleteMany({
+      where: {
+        lastFailedAt: { lt: new Date(now.getTime() - lockoutMs()) },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }]
+      }
+    });
+
+    return count;
+  }
+
+  private static async recordScopeFailure(scope: LockoutScope, key: string): Promise<Date | null> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - lockoutMs());
+
+    const entry = await prisma.loginLockout.upsert({
+      where: { scope_key: { scope, key } },
+      create: { scope, key, failedCount: 1, windowStartedAt: now, lastFailedAt: now },
+      update: { failedCount: { increment: 1 }, lastFailedAt: now }
+    });
+
+    if (entry.lockedUntil && entry.lockedUntil > now) {
+      return entry.lockedUntil;
+    }
+
+    // The previous window (or lockout) has lapsed: start counting again
+    if (entry.windowStartedAt < windowStart) {
+      await prisma.loginLockout.update({
+        where: { id: entry.id },
+        data: { failedCount: 1, windowStartedAt: now, lockedUntil: null }
+      });
+      return null;
+    }
+
+    if (entry.failedCount >= limitFor(scope)) {
+      const lockedUntil = new Date(now.getTime() + lockoutMs());
+      await prisma.loginLockout.update({
+        where: { id: entry.id },
+        data: { lockedUntil }
+      });
+
+      logger.warn('Sign-in locked after repeated failures', { scope, key, failedCount: entry.failedCount });
+      return lockedUntil;
+    }
+
+    return null;
+  }
+}
+
+export default LoginLockoutService;
@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { UserSession } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+import { ipNetworkPrefix } from '../utils/ip-rules';
+import { RequestLocation, distanceKm } from '../utils/geo';
+import AuditService from './audit.service';
+import EmailService from './email.service';
+import NotificationService from './notification.service';
+import LoginLockoutService from './login-lockout.service';
+import SessionService from './session.service';
+import TokenRevocationService from './token-revocation.service';
+
+export type LoginRiskSignal = 'new_device' | 'new_ip_range' | 'impossible_travel' | 'failed_attempts';
+export type LoginRiskLevel = 'low' | 'medium' | 'high';
+
+export interface LoginRiskAssessment {
+  level: LoginRiskLevel;
+  score: number;
+  signals: LoginRiskSignal[];
+  // The device was marked trusted on an earlier session. Informational only:
+  // the fingerprint comes from the client and does not lower the score
+  trustedDevice: boolean;
+}
+
+export interface LoginReportResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  sessionEnded?: boolean;
+}
+
+const SIGNAL_WEIGHTS: Record<LoginRiskSignal, number> = {
+  new_device: 30,
+  new_ip_range: 20,
+  impossible_travel: 60,
+  failed_attempts: 30
+};
+
+const MEDIUM_RISK_SCORE = 30;
+const HIGH_RISK_SCORE = 60;
+const FAILED_ATTEMPTS_THRESHOLD = 3;
+// Past sessions compared against; older history adds little
+const HISTORY_LIMIT = 50;
+// Faster than an airliner, with slack for coarse IP geolocation
+const MAX_TRAVEL_SPEED_KMH = 1000;
+const MIN_TRAVEL_DISTANCE_KM = 500;
+
+const REPORT_PURPOSE = 'login-alert';
+
+// Report links are signed with a key derived from JWT_SECRET so they can
+// never pass as access tokens
+const getReportKey = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set in environment variables');
+  }
+  return crypto.createHmac('sha256', secret).update(REPORT_PURPOSE).digest('hex');
+};
+
+const toLevel = (score: number): LoginRiskLevel =>
+  score >= HIGH_RISK_SCORE ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low';
+
+/**
+ * Scores sign-ins against the user's session history and alerts the user
+ * when one looks unfamiliar. Alerts carry a single-use "this wasn't me" link
+ * that ends the session it was raised for.
+ */
+export class LoginRiskService {
+  /**
+   * Assess a sign-in before its session is opened. The first sign-in on an
+   * account has nothing to compare with and only the failed-attempt and
+   * travel signals can fire.
+   */
+  static async evaluate(params: {
+    userId: string;
+    deviceId?: string;
+    ipAddress?: string;
+    location: RequestLocation | null;
+    failedAttempts?: number;
+  }): Promise<LoginRiskAssessment> {
+    const [history, settings, previousTokens, ipFailures] = await Promise.all([
+      prisma.userSession.findMany({
+        where: { userId: params.userId },
+        select: { deviceId: true, ipAddress: true, isTrusted: true, latitude: true, longitude: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT
+      }),
+      prisma.securitySettings.findUnique({
+        where: { userId: params.userId },
+        select: { deviceTracking: true }
+      }),
+      // Refresh tokens predate sessions, so they also count as device history
+      prisma.refreshToken.findMany({
+        where: { userId: params.userId },
+        select: { deviceFingerprint: true },
+        distinct: ['deviceFingerprint']
+      }),
+      params.ipAddress ? LoginLockoutService.recentFailures({ ip: params.ipAddress }) : Promise.resolve(0)
+    ]);
+
+    const hasHistory = history.length > 0 || previousTokens.length > 0;
+    const deviceId = params.deviceId && params.deviceId !== 'unknown' ? params.deviceId : null;
+    const trustedDevice = Boolean(deviceId && history.some(session => session.deviceId === deviceId && session.isTrusted));
+    const signals: LoginRiskSignal[] = [];
+
+    if (hasHistory && deviceId && settings?.deviceTracking !== false) {
+      const seen = history.some(session => session.deviceId === deviceId) ||
+        previousTokens.some(token => token.deviceFingerprint === deviceId);
+      if (!seen) {
+        signals.push('new_device');
+      }
+    }
+
+    // Trust hangs off the client-supplied fingerprint, which anyone can
+    // replay, so it must not silence the network check
+    const network = ipNetworkPrefix(params.ipAddress);
+    const knownNetworks = history.map(session => ipNetworkPrefix(session.ipAddress ?? undefined)).filter(Boolean);
+    if (network && knownNetworks.length > 0 && !knownNetworks.includes(network)) {
+      signals.push('new_ip_range');
+    }
+
+    const here = params.location;
+    const previous = history.find(session => session.latitude !== null && session.longitude !== null);
+    if (here?.latitude != null && here.longitude != null && previous) {
+      const distance = distanceKm(
+        { latitude: previous.latitude!, longitude: previous.longitude! },
+        { latitude: here.latitude, longitude: here.longitude }
+      );
+      const hours = Math.max(Date.now() - previous.createdAt.getTime(), 60 * 1000) / (60 * 60 * 1000);
+      if (distance >= MIN_TRAVEL_DISTANCE_KM && distance / hours > MAX_TRAVEL_SPEED_KMH) {
+        signals.push('impossible_travel');
+      }
+    }
+
+    if (Math.max(params.failedAttempts ?? 0, ipFailures) >= FAILED_ATTEMPTS_THRESHOLD) {
+      signals.push('failed_attempts');
+    }
+
+    const score = signals.reduce((total, signal) => total + SIGNAL_WEIGHTS[signal], 0);
+    return { level: toLevel(score), score, signals, trustedDevice };
+  }
+
+  /**
+   * Audit a risky sign-in and, unless the user turned off loginNotifications,
+   * email them with a link to end the session and post an in-app notice.
+   */
+  static async alert(params: {
+    user: { healthId: string; email: string | null; role: string };
+    session: UserSession;
+    assessment: LoginRiskAssessment;
+  }): Promise<void> {
+    const { user, session, assessment } = params;
+    if (assessment.level === 'low') {
+      return;
+    }
+
+    logger.warn('Risky sign-in detected', {
+      userId: user.healthId,
+      sessionId: session.id,
+      level: assessment.level,
+      signals: assessment.signals
+    });
+
+    await AuditService.logAction({
+      actorId: user.healthId,
+      actorRole: user.role,
+      action: 'SUSPICIOUS_LOGIN',
+      resourceType: 'UserSession',
+      resourceId: session.id,
+      patientHealthId: user.healthId,
+      metadata: { level: assessment.level, score: assessment.score, signals: assessment.signals },
+      ipAddress: session.ipAddress ?? undefined,
+      userAgent: session.userAgent ?? undefined
+    });
+
+    const settings = await prisma.securitySettings.findUnique({
+      where: { userId: user.healthId },
+      select: { loginNotifications: true }
+    });
+    if (settings?.loginNotifications === false) {
+      return;
+    }
+
+    const deviceInfo = [session.deviceInfo, session.userAgent].filter(Boolean).join(' - ') || 'Unknown device';
+
+    if (user.email) {
+      try {
+        await EmailService.sendLoginAlertEmail(
+          user.email,
+          {
+            deviceInfo,
+            ipAddress: session.ipAddress,
+            location: session.location,
+            occurredAt: session.createdAt
+          },
+          this.issueReportToken(user.healthId, session.id)
+        );
+      } catch (error) {
+        logger.error('Failed to send sign-in alert email', { userId: user.healthId, sessionId: session.id, error });
+      }
+    }
+
+    // The email above carries the report link, so the notice stays in-app
+    await NotificationService.notify({
+      recipientId: user.healthId,
+      category: 'SECURITY',
+      priority: assessment.level === 'high' ? 'HIGH' : 'NORMAL',
+      title: 'New sign-in to your account',
+      message: `Your CuraNet account was signed in to from ${deviceInfo}${session.location ? ` near ${session.location}` : ''}. If this wasn't you, sign the session out from your security settings and reset your password.`,
+      resourceType: 'UserSession',
+      resourceId: session.id,
+      data: { signals: assessment.signals, level: assessment.level },
+      channels: []
+    });
+  }
+
+  static issueReportToken(userId: string, sessionId: string): string {
+    return jwt.sign(
+      { sub: userId, purpose: REPORT_PURPOSE, sid: sessionId },
+      getReportKey(),
+      {
+        expiresIn: runtimeConfig.loginAlertLinkExpiryHours * 60 * 60,
+        algorithm: 'HS256',
+        jwtid: crypto.randomUUID()
+      }
+    );
+  }
+
+  /**
+   * "This wasn't me": end the reported session, withdraw trust from its
+   * device and tell the user to reset their password. Each link works once.
+   */
+  static async reportNotMe(token: string): Promise<LoginReportResult> {
+    let decoded: jwt.JwtPayload;
+    try {
+      decoded = jwt.verify(token, getReportKey(), { algorithms: ['HS256'] }) as jwt.JwtPayload;
+    } catch {
+      return { success: false, status: 400, error: 'This link is invalid or has expired' };
+    }
+
+    if (decoded.purpose !== REPORT_PURPOSE || !decoded.sub || !decoded.sid || !decoded.jti || !decoded.exp) {
+      return { success: false, status: 400, error: 'This link is invalid or has expired' };
+    }
+
+    if (await TokenRevocationService.isRevoked(decoded.jti)) {
+      return { success: false, status: 400, error: 'This link has already been used' };
+    }
+
+    const session = await prisma.userSession.findFirst({
+      where: { id: decoded.sid, userId: decoded.sub },
+      include: { user: { select: { role: true } } }
+    });
+    if (!session) {
+      return { success: false, status: 404, error: 'Session not found' };
+    }
+
+    await TokenRevocationService.revoke({
+      jti: decoded.jti,
+      expiresAt: new Date(decoded.exp * 1000),
+      userId: decoded.sub,
+      reason: 'login_reported'
+    });
+
+    const sessionEnded = session.isActive;
+    if (sessionEnded) {
+      await SessionService.end(session.id, 'reported_not_me');
+    }
+
+    if (session.deviceId && session.deviceId !== 'unknown') {
+      await prisma.userSession.updateMany({
+        where: { userId: session.userId, deviceId: session.deviceId, isTrusted: true },
+        data: { isTrusted: false }
+      });
+    }
+
+    await AuditService.logAction({
+      actorId: session.userId,
+      actorRole: session.user.role,
+      action: 'LOGIN_REPORTED_NOT_ME',
+      resourceType: 'UserSession',
+      resourceId: session.id,
+      patientHealthId: session.userId,
+      metadata: { sessionEnded, riskLevel: session.riskLevel, riskSignals: session.riskSignals },
+      ipAddress: session.ipAddress ?? undefined,
+      userAgent: session.userAgent ?? undefined
+    });
+
+    await NotificationService.notify({
+      recipientId: session.userId,
+      category: 'SECURITY',
+      priority: 'HIGH',
+      title: 'Sign-in reported',
+      message: 'You reported a sign-in that was not you and that session has been signed out. Reset your password now and review your active sessions.',
+      resourceType: 'UserSession',
+      resourceId: session.id
+    });
+
+    logger.warn('Sign-in reported by user', { userId: session.userId, sessionId: session.id, sessionEnded });
+    return { success: true, sessionEnded };
+  }
+}
+
+export default LoginRiskService;
@@ -1,14 +1,94 @@
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationFrequency,
+  NotificationPriority,
+  NotificationSettings,
+  Prisma
+} from '@prisma/client';
 import prisma from '../utils/prisma';
 import logger from '../utils/logger';
+import { sendNotificationDigestEmail, sendNotificationEmail } from './email.service';
+import smsService from './sms.service';
+import { addDays, dayOfWeek, isValidTimezone, parseTimeOfDay, toLocalDate, toLocalMinutes, zonedTimeToUtc } from '../utils/timezone';
 
 export interface NotificationData {
   appointmentId: string;
   recipientId: string;
-  type: 'APPOINTMENT_REQUESTED' | 'APPOINTMENT_CONFIRMED' | 'APPOINTMENT_REJECTED' | 'APPOINTMENT_CANCELLED' | 'APPOINTMENT_REMINDER';
+  type: 'APPOINTMENT_REQUESTED' | 'APPOINTMENT_CONFIRMED' | 'APPOINTMENT_REJECTED' | 'APPOINTMENT_CANCELLED' | 'APPOINTMENT_REMINDER' | 'WAITLIST_SLOT_OFFERED';
   message: string;
   metadata?: any;
 }
 
+export interface NotifyInput {
+  recipientId: string;
+  category: NotificationCategory;
+  title: string;
+  message: string;
+  priority?: NotificationPriority;
+  data?: Prisma.InputJsonValue;
+  resourceType?: string;
+  resourceId?: string;
+  // External channels to attempt; the in-app record is always created
+  channels?: NotificationChannel[];
+}
+
+export interface InboxOptions {
+  limit?: number;
+  offset?: number;
+  unreadOnly?: boolean;
+  category?: NotificationCategory;
+}
+
+type DeliveryChannel = Exclude<NotificationChannel, 'IN_APP'>;
+
+interface DeliveryRecipient {
+  email: string | null;
+  phone: string | null;
+}
+
+interface DeliveryItem {
+  title: string;
+  message: string;
+  createdAt: Date;
+}
+
+// Which NotificationSettings toggle governs external delivery for each category.
+// SYSTEM notifications are always delivered.
+const CATEGORY_PREFERENCE: Record<NotificationCategory, keyof NotificationSettings | null> = {
+  APPOINTMENT: 'appointmentReminders',
+  CONSENT: 'recordUpdates',
+  EMERGENCY_ACCESS: 'securityAlerts',
+  CRITICAL_OBSERVATION: 'labResults',
+  VERIFICATION: 'recordUpdates',
+  SECURITY: 'securityAlerts',
+  PRESCRIPTION: 'prescriptionUpdates',
+  RECORD_UPDATE: 'recordUpdates',
+  SYSTEM: null
+};
+
+const APPOINTMENT_TITLES: Record<NotificationData['type'], string> = {
+  APPOINTMENT_REQUESTED: 'New appointment request',
+  APPOINTMENT_CONFIRMED: 'Appointment confirmed',
+  APPOINTMENT_REJECTED: 'Appointment declined',
+  APPOINTMENT_CANCELLED: 'Appointment cancelled',
+  APPOINTMENT_REMINDER: 'Appointment reminder',
+  WAITLIST_SLOT_OFFERED: 'Appointment slot available'
+};
+
+const EXTERNAL_CHANNELS: DeliveryChannel[] = ['EMAIL', 'SMS'];
+const DIGEST_HOUR_MINUTES = 9 * 60;
+const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const DELIVERY_BATCH_SIZE = 500;
+// A claimed delivery stays SENDING until this long after the claim; past that
+// the sender is assumed to have died and the delivery can be claimed again
+const DELIVERY_CLAIM_MS = 5 * 60 * 1000;
+const CLAIMABLE_STATUSES: NotificationDeliveryStatus[] = ['PENDING', 'DEFERRED', 'SENDING'];
+// Deliveries no sender has claimed yet; reading the notification drops them
+const UNCLAIMED_STATUSES: NotificationDeliveryStatus[] = ['PENDING', 'DEFERRED'];
+
 export class NotificationService {
   /**
    * Create and optionally send a notification
@@ -37,22 +117,12 @@ export class NotificationService {
   }
 
   /**
-   * Send a notification (placeholder for actual implementation)
-   * In production, this would integrate with email service, SMS service, etc.
+   * Send an appointment notification through the notification center
    */
   static async sendNotification(notificationId: string): Promise<boolean> {
     try {
       const notification = await prisma.appointmentNotification.findUnique({
-        where: { id: notificationId },
-        include: {
-          recipient: true,
-          appointment: {
-            include: {
-              patient: { include: { healthProfile: true } },
-              doctor: { include: { healthProfile: true } }
-            }
-          }
-        }
+        where: { id: notificationId }
       });
 
       if (!notification) {
@@ -60,17 +130,14 @@ export class NotificationService {
         return false;
       }
 
-      // In development, we'll just log the notification
-      // In production, integrate with:
-      // - Email service (SendGrid, AWS SES, etc.)
-      // - SMS service (Twilio, AWS SNS, etc.)
-      // - Push notification service
-      // - In-app notification system
-
-      logger.info('Notification sent', {
-        to: notification.recipient.email,
-        type: notification.type,
-        message: notification.message
+      await this.notify({
+        recipientId: notification.recipientId,
+        category: 'APPOINTMENT',
+        title: APPOINTMENT_TITLES[notification.type],
+        message: notification.message,
+        resourceType: 'Appointment',
+        resourceId: notification.appointmentId,
+        data: { type: notification.type }
       });
 
       // Mark notification as sent
@@ -148,6 +215,7 @@ export class NotificationService {
       logger.info('Processed upcoming appointments for reminders', { count: upcomingAppointments.length });
     } catch (error) {
       logger.error('Error sending appointment reminders', { error });
+      throw error;
     }
   }
 
@@ -210,6 +278,437 @@ export class NotificationService {
       logger.error('Error marking notifications as read', { error, userId });
     }
   }
+  /**
+   * Create an in-app notification and schedule its email/SMS deliveries
+   * according to the recipient's NotificationSettings.
+   *
+   * Channel and category toggles are always honoured. Deliveries falling inside
+   * quiet hours are deferred to the end of the window, and non-IMMEDIATE
+   * frequencies defer to the next digest. CRITICAL notifications bypass
+   * category toggles, quiet hours and digests.
+   */
+  static async notify(input: NotifyInput) {
+    try {
+      const priority = input.priority ?? 'NORMAL';
+
+      const recipient = await prisma.user.findUnique({
+        where: { healthId: input.recipientId },
+        select: { email: true, phone: true, notificationSettings: true }
+      });
+
+      if (!recipient) {
+        logger.warn('Notification recipient not found', { recipientId: input.recipientId });
+        return null;
+      }
+
+      const now = new Date();
+      const deliveries = this.planDeliveries(
+        input,
+        priority,
+        recipient,
+        recipient.notificationSettings,
+        now
+      );
+
+      const notification = await prisma.notification.create({
+        data: {
+          recipientId: input.recipientId,
+          category: input.category,
+          priority,
+          title: input.title,
+          message: input.message,
+          data: input.data,
+          resourceType: input.resourceType,
+          resourceId: input.resourceId,
+          deliveries: {
+            create: [
+              { channel: 'IN_APP', status: 'SENT', sentAt: now },
+              ...deliveries
+            ]
+          }
+        },
+        include: { deliveries: true }
+      });
+
+      const due = notification.deliveries.filter(delivery => delivery.status === 'PENDING');
+      for (const delivery of await this.claimDeliveries(due)) {
+        await this.attemptDelivery([delivery], recipient, [notification]);
+      }
+
+      logger.info('Notification created', {
+        notificationId: notification.id,
+        category: input.category,
+        recipientId: input.recipientId
+      });
+
+      return notification;
+    } catch (error) {
+      // Notifications are best-effort and must never fail the action that produced them
+      logger.error('Error creating notification', { error, category: input.category, recipientId: input.recipientId });
+      return null;
+    }
+  }
+
+  private static planDeliveries(
+    input: NotifyInput,
+    priority: NotificationPriority,
+    recipient: DeliveryRecipient,
+    settings: NotificationSettings | null,
+    now: Date
+  ): Prisma.NotificationDeliveryCreateWithoutNotificationInput[] {
+    const critical = priority === 'CRITICAL';
+    const requested = input.channels ?? EXTERNAL_CHANNELS;
+    const preference = CATEGORY_PREFERENCE[input.category];
+
+    // Without stored settings the schema defaults apply: email on, SMS off, immediate
+    const emailEnabled = settings?.emailNotifications ?? true;
+    const smsEnabled = settings?.smsNotifications ?? false;
+    const categoryEnabled = !settings || !preference || Boolean(settings[preference]);
+    const frequency: NotificationFrequency = settings?.frequency ?? 'IMMEDIATE';
+    const timezone = settings?.timezone && isValidTimezone(settings.timezone) ? settings.timezone : 'UTC';
+
+    if (!critical && (!categoryEnabled || frequency === 'NEVER')) {
+      return [];
+    }
+
+    const deliveries: Prisma.NotificationDeliveryCreateWithoutNotificationInput[] = [];
+
+    for (const channel of EXTERNAL_CHANNELS) {
+      if (!requested.includes(channel)) {
+        continue;
+      }
+      if (channel === 'EMAIL' && (!emailEnabled || !recipient.email)) {
+        continue;
+      }
+      if (channel === 'SMS' && (!smsEnabled || !recipient.phone)) {
+        continue;
+      }
+
+      if (critical) {
+        deliveries.push({ channel, status: 'PENDING', scheduledFor: now });
+        continue;
+      }
+
+      let scheduledFor = frequency === 'IMMEDIATE' ? now : this.nextDigestTime(now, frequency, timezone);
+      scheduledFor = this.quietHoursEnd(scheduledFor, settings, timezone) ?? scheduledFor;
+
+      deliveries.push({
+        channel,
+        status: scheduledFor > now ? 'DEFERRED' : 'PENDING',
+        scheduledFor
+      });
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Next digest boundary: top of the hour, 09:00 local daily, or Monday 09:00 local weekly
+   */
+  private static nextDigestTime(now: Date, frequency: NotificationFrequency, timezone: string): Date {
+    if (frequency === 'HOURLY') {
+      const next = new Date(now);
+      next.setUTCMinutes(0, 0, 0);
+      next.setUTCHours(next.getUTCHours() + 1);
+      return next;
+    }
+
+    const today = toLocalDate(now, timezone);
+    for (let offset = 0; offset <= 7; offset++) {
+      const day = addDays(today, offset);
+      if (frequency === 'WEEKLY' && dayOfWeek(day) !== 1) {
+        continue;
+      }
+      const candidate = zonedTimeToUtc(day, DIGEST_HOUR_MINUTES, timezone);
+      if (candidate > now) {
+        return candidate;
+      }
+    }
+
+    return now;
+  }
+
+  /**
+   * End of the quiet-hours window containing the given instant, or null when outside it.
+   * Windows may wrap past midnight (e.g. 22:00-07:00).
+   */
+  private static quietHoursEnd(at: Date, settings: NotificationSettings | null, timezone: string): Date | null {
+    if (!settings?.quietHoursStart || !settings.quietHoursEnd) {
+      return null;
+    }
+
+    const start = parseTimeOfDay(settings.quietHoursStart);
+    const end = parseTimeOfDay(settings.quietHoursEnd);
+    if (start === null || end === null || start === end) {
+      return null;
+    }
+
+    const minutes = toLocalMinutes(at, timezone);
+    const today = toLocalDate(at, timezone);
+
+    if (start < end) {
+      return minutes >= start && minutes < end ? zonedTimeToUtc(today, end, timezone) : null;
+    }
+
+    if (minutes >= start) {
+      return zonedTimeToUtc(addDays(today, 1), end, timezone);
+    }
+    if (minutes < end) {
+      return zonedTimeToUtc(today, end, timezone);
+    }
+    return null;
+  }
+
+  private static async sendToChannel(channel: DeliveryChannel, recipient: DeliveryRecipient, items: DeliveryItem[]) {
+    if (channel === 'EMAIL') {
+      if (!recipient.email) {
+        throw new Error('Recipient has no email address');
+      }
+      if (items.length === 1) {
+        await sendNotificationEmail(recipient.email, items[0].title, items[0].message);
+      } else {
+        await sendNotificationDigestEmail(recipient.email, items);
+      }
+      return;
+    }
+
+    if (!recipient.phone) {
+      throw new Error('Recipient has no phone number');
+    }
+
+    const body = items.length === 1
+      ? `CuraNet: ${items[0].title} - ${items[0].message}`
+      : `CuraNet: you have ${items.length} new notifications (${items.map(item => item.title).join('; ')})`;
+
+    const sent = await smsService.send(recipient.phone, body);
+    if (!sent) {
+      throw new Error('SMS provider rejected the message');
+    }
+  }
+
+  /**
+   * Take ownership of due deliveries by moving them to SENDING. Only the
+   * caller whose update matched sends a delivery, so the inline send in
+   * notify() and the delivery job never send the same one twice.
+   */
+  private static async claimDeliveries<T extends { id: string }>(deliveries: T[]): Promise<T[]> {
+    const now = new Date();
+    const claimed: T[] = [];
+
+    for (const delivery of deliveries) {
+      const { count } = await prisma.notificationDelivery.updateMany({
+        where: { id: delivery.id, status: { in: CLAIMABLE_STATUSES }, scheduledFor: { lte: now } },
+        data: { status: 'SENDING', scheduledFor: new Date(now.getTime() + DELIVERY_CLAIM_MS) }
+      });
+      if (count === 1) {
+        claimed.push(delivery);
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Send one or more deliveries for the same recipient and channel as a single
+   * message (a digest when several are batched). Failures are retried with
+   * exponential backoff until MAX_DELIVERY_ATTEMPTS.
+   */
+  private static async attemptDelivery(
+    batch: Array<{ id: string; channel: NotificationChannel; attempts: number }>,
+    recipient: DeliveryRecipient,
+    items: DeliveryItem[]
+  ): Promise<boolean> {
+    const ids = batch.map(delivery => delivery.id);
+
+    try {
+      await this.sendToChannel(batch[0].channel as DeliveryChannel, recipient, items);
+
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: { status: 'SENT', sentAt: new Date(), attempts: { increment: 1 }, lastError: null }
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('Notification delivery failed', { deliveryIds: ids, channel: batch[0].channel, error: message });
+
+      for (const delivery of batch) {
+        const attempts = delivery.attempts + 1;
+        await prisma.notificationDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            attempts,
+            lastError: message,
+            status: attempts >= MAX_DELIVERY_ATTEMPTS ? 'FAILED' : 'PENDING',
+            scheduledFor: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1))
+          }
+        });
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Send deliveries that are due: deferred digests, quiet-hours holds and retries.
+   * Due deliveries for the same recipient and channel are combined into one digest;
+   * notifications already read in-app are skipped.
+   * Should be called periodically by a cron job.
+   */
+  static async processPendingDeliveries(): Promise<{ sent: number; failed: number; skipped: number }> {
+    const result = { sent: 0, failed: 0, skipped: 0 };
+
+    try {
+      const due = await prisma.notificationDelivery.findMany({
+        where: {
+          status: { in: CLAIMABLE_STATUSES },
+          channel: { in: EXTERNAL_CHANNELS },
+          scheduledFor: { lte: new Date() }
+        },
+        include: {
+          notification: {
+            include: { recipient: { select: { email: true, phone: true } } }
+          }
+        },
+        orderBy: { scheduledFor: 'asc' },
+        take: DELIVERY_BATCH_SIZE
+      });
+
+      const alreadyRead = due.filter(delivery => delivery.notification.readAt);
+      if (alreadyRead.length > 0) {
+        await prisma.notificationDelivery.updateMany({
+          where: { id: { in: alreadyRead.map(delivery => delivery.id) }, status: { in: CLAIMABLE_STATUSES }, scheduledFor: { lte: new Date() } },
+          data: { status: 'SKIPPED' }
+        });
+        result.skipped = alreadyRead.length;
+      }
+
+      const groups = new Map<string, typeof due>();
+      for (const delivery of due) {
+        if (delivery.notification.readAt) {
+          continue;
+        }
+        const key = `${delivery.notification.recipientId}:${delivery.channel}`;
+        groups.set(key, [...(groups.get(key) ?? []), delivery]);
+      }
+
+      for (const group of groups.values()) {
+        const batch = await this.claimDeliveries(group);
+        if (batch.length === 0) {
+          continue;
+        }
+
+        const items = batch.map(delivery => ({
+          title: delivery.notification.title,
+          message: delivery.notification.message,
+          createdAt: delivery.notification.createdAt
+        }));
+
+        const sent = await this.attemptDelivery(batch, batch[0].notification.recipient, items);
+        if (sent) {
+          result.sent += batch.length;
+        } else {
+          result.failed += batch.length;
+        }
+      }
+
+      if (due.length > 0) {
+        logger.info('Processed notification deliveries', result);
+      }
+    } catch (error) {
+      logger.error('Error processing notification deliveries', { error });
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Notification center inbox for a user
+   */
+  static async getInbox(userId: string, options: InboxOptions = {}) {
+    const where: Prisma.NotificationWhereInput = {
+      recipientId: userId,
+      ...(options.unreadOnly && { readAt: null }),
+      ...(options.category && { category: options.category })
+    };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        select: {
+          id: true,
+          category: true,
+          priority: true,
+          title: true,
+          message: true,
+          data: true,
+          resourceType: true,
+          resourceId: true,
+          readAt: true,
+          createdAt: true
+        },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? 20,
+        skip: options.offset ?? 0
+      }),
+      prisma.notification.count({ where }),
+      this.getUnreadCount(userId)
+    ]);
+
+    return { notifications, total, unreadCount };
+  }
+
+  static async getUnreadCount(userId: string): Promise<number> {
+    return prisma.notification.count({
+      where: { recipientId: userId, readAt: null }
+    });
+  }
+
+  /**
+   * Mark inbox notifications as read; pending digest deliveries for them are dropped
+   */
+  static async markRead(userId: string, notificationIds: string[]): Promise<number> {
+    const [updated, dropped] = await prisma.$transaction([
+      prisma.notification.updateMany({
+        where: { id: { in: notificationIds }, recipientId: userId, readAt: null },
+        data: { readAt: new Date() }
+      }),
+      prisma.notificationDelivery.updateMany({
+        where: {
+          notification: { id: { in: notificationIds }, recipientId: userId },
+          channel: { in: EXTERNAL_CHANNELS },
+          status: { in: UNCLAIMED_STATUSES }
+        },
+        data: { status: 'SKIPPED' }
+      })
+    ]);
+
+    logger.info('Marked inbox notifications as read', { count: updated.count, dropped: dropped.count, userId });
+    return updated.count;
+  }
+
+  /**
+   * Mark the whole inbox as read, dropping pending digest deliveries as markRead does
+   */
+  static async markAllRead(userId: string): Promise<number> {
+    const [updated, dropped] = await prisma.$transaction([
+      prisma.notification.updateMany({
+        where: { recipientId: userId, readAt: null },
+        data: { readAt: new Date() }
+      }),
+      prisma.notificationDelivery.updateMany({
+        where: {
+          notification: { recipientId: userId },
+          channel: { in: EXTERNAL_CHANNELS },
+          status: { in: UNCLAIMED_STATUSES }
+        },
+        data: { status: 'SKIPPED' }
+      })
+    ]);
+
+    logger.info('Marked all inbox notifications as read', { count: updated.count, dropped: dropped.count, userId });
+    return updated.count;
+  }
 }
 
 export default NotificationService;
\ No newline at end of file
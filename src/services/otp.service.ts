@@ -2,6 +2,7 @@ import crypto from 'crypto';
 import prisma from '../utils/prisma';
 import logger from '../utils/logger';
 import runtimeConfig from '../config/runtime-config';
+import smsService from './sms.service';
 
 class OtpService {
     /**
@@ -22,7 +23,7 @@ class OtpService {
     }
 
     /**
-     * Send OTP via SMS (mock implementation - integrate with Twilio/AWS SNS in production)
+     * Send OTP via SMS through the configured SMS provider
      */
     async sendOtp(phone: string, otp: string): Promise<boolean> {
         try {
@@ -33,19 +34,10 @@ class OtpService {
                 return true;
             }
 
-            // PRODUCTION: Integrate SMS provider (Twilio/AWS SNS/Vonage)
-            // For production deployment, configure SMS service credentials in .env:
-            // const accountSid = process.env.TWILIO_ACCOUNT_SID;
-            // const authToken = process.env.TWILIO_AUTH_TOKEN;
-            // const client = require('twilio')(accountSid, authToken);
-            // 
-            // await client.messages.create({
-            //     body: `Your CuraNet verification code is: ${otp}. Valid for 10 minutes.`,
-            //     from: process.env.TWILIO_PHONE_NUMBER,
-            //     to: phone
-            // });
-
-            return true;
+            return await smsService.send(
+                phone,
+                `Your CuraNet verification code is: ${otp}. Valid for ${runtimeConfig.otpExpiryMinutes} minutes.`
+            );
         } catch (error) {
             logger.error('Failed to send OTP', { error, phone });
             return false;
@@ -0,0 +1,345 @@
+import { Prisma, PrescriptionStatus } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+
+export interface PrescriptionItemInput {
+  medicationName: string;
+  dose: string;
+  route?: string;
+  frequency: string;
+  durationDays?: number;
+  quantity?: string;
+  refills?: number;
+  instructions?: string;
+}
+
+export interface CreatePrescriptionInput {
+  patientId: string;
+  prescriberId: string;
+  encounterId?: string;
+  notes?: string;
+  expiresAt?: Date;
+  items: PrescriptionItemInput[];
+}
+
+export interface DispenseItemInput {
+  itemId: string;
+  quantity?: string;
+  partial?: boolean;
+}
+
+export interface DispenseResult {
+  success: boolean;
+  error?: string;
+  prescription?: Prisma.PrescriptionGetPayload<{ include: typeof prescriptionInclude }>;
+  dispensations?: Prisma.PrescriptionDispensationGetPayload<{}>[];
+}
+
+// Aborts the dispense transaction when an item changed after it was read
+class DispenseConflictError extends Error {}
+
+export const prescriptionInclude = {
+  items: { orderBy: { createdAt: 'asc' } },
+  prescriber: {
+    select: {
+      healthId: true,
+      email: true,
+      healthProfile: { select: { firstName: true, lastName: true, displayName: true } }
+    }
+  }
+} satisfies Prisma.PrescriptionInclude;
+
+/**
+ * Prescription (MedicationRequest) lifecycle.
+ * ACTIVE is the only non-terminal status; everything else is final.
+ */
+export class PrescriptionService {
+  private static readonly ALLOWED_TRANSITIONS: Record<PrescriptionStatus, PrescriptionStatus[]> = {
+    ACTIVE: ['COMPLETED', 'CANCELLED', 'EXPIRED'],
+    COMPLETED: [],
+    CANCELLED: [],
+    EXPIRED: []
+  };
+
+  /**
+   * Validate a single line item from a request body
+   */
+  static validateItem(input: unknown): string | null {
+    if (!input || typeof input !== 'object') {
+      return 'Each item must be an object';
+    }
+    const item = input as Partial<Record<keyof PrescriptionItemInput, unknown>>;
+    if (!item.medicationName || !item.dose || !item.frequency) {
+      return 'Each item requires medicationName, dose and frequency';
+    }
+    if (item.durationDays !== undefined && (!Number.isInteger(item.durationDays) || (item.durationDays as number) <= 0)) {
+      return 'durationDays must be a positive integer';
+    }
+    if (item.refills !== undefined && (!Number.isInteger(item.refills) || (item.refills as number) < 0)) {
+      return 'refills must be a non-negative integer';
+    }
+    return null;
+  }
+
+  /**
+   * Parse a free-text duration such as "7 days", "2 weeks" or "1 month" into days
+   */
+  static parseDurationDays(duration: unknown): number | undefined {
+    if (typeof duration === 'number') {
+      return Number.isInteger(duration) && duration > 0 ? duration : undefined;
+    }
+    if (typeof duration !== 'string') {
+      return undefined;
+    }
+
+    const match = duration.trim().match(/^(\d+)\s*(d|days?|w|wks?|weeks?|m|mos?|months?)?$/i);
+    if (!match) {
+      return undefined;
+    }
+
+    const amount = parseInt(match[1], 10);
+    const unit = (match[2] || 'd').toLowerCase();
+    if (unit.startsWith('w')) return amount * 7;
+    if (unit.startsWith('m')) return amount * 30;
+    return amount;
+  }
+
+  /**
+   * Compute when a prescription stops being valid: the longest item duration,
+   * falling back to the configured default validity window
+   */
+  static calculateExpiry(issuedAt: Date, items: PrescriptionItemInput[]): Date {
+    const durations = items
+      .map(item => item.durationDays)
+      .filter((days): days is number => typeof days === 'number');
+    const days = durations.length > 0
+      ? Math.max(...durations)
+      : runtimeConfig.prescriptionDefaultValidityDays;
+
+    return new Date(issuedAt.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  static canTransition(from: PrescriptionStatus, to: PrescriptionStatus): boolean {
+    return this.ALLOWED_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Create a prescription with its line items
+   */
+  static async createPrescription(input: CreatePrescriptionInput) {
+    const issuedAt = new Date();
+
+    return prisma.prescription.create({
+      data: {
+        patientId: input.patientId,
+        prescriberId: input.prescriberId,
+        encounterId: input.encounterId,
+        notes: input.notes,
+        issuedAt,
+        expiresAt: input.expiresAt ?? this.calculateExpiry(issuedAt, input.items),
+        items: {
+          create: input.items.map(item => ({
+            medicationName: item.medicationName,
+            dose: item.dose,
+            route: item.route,
+            frequency: item.frequency,
+            durationDays: item.durationDays,
+            quantity: item.quantity,
+            refillsAllowed: item.refills ?? 0,
+            refillsRemaining: item.refills ?? 0,
+            instructions: item.instructions
+          }))
+        }
+      },
+      include: prescriptionInclude
+    });
+  }
+
+  /**
+   * Move a prescription to a new status, stamping the matching timestamp.
+   * Callers are expected to check canTransition first.
+   */
+  static async transitionStatus(id: string, status: PrescriptionStatus, reason?: string) {
+    const now = new Date();
+    const data: Prisma.PrescriptionUpdateInput = { status };
+
+    switch (status) {
+      case 'COMPLETED':
+        data.completedAt = now;
+        break;
+      case 'CANCELLED':
+        data.cancelledAt = now;
+        data.cancelledReason = reason;
+        break;
+      case 'EXPIRED':
+        data.expiredAt = now;
+        break;
+    }
+
+    return prisma.prescription.update({
+      where: { id },
+      data,
+      include: prescriptionInclude
+    });
+  }
+
+  /**
+   * Record dispensing of one or more line items by a pharmacy.
+   *
+   * An item's first fill is the original supply; every later fill consumes a
+   * refill. A partial dispense leaves the fill open so the next dispense for
+   * that item continues it instead of consuming another refill. Once every
+   * item has been filled with no refills left, the prescription is flagged as
+   * fully dispensed and completed.
+   */
+  static async dispense(
+    prescriptionId: string,
+    pharmacyId: string,
+    entries: DispenseItemInput[],
+    notes?: string
+  ): Promise<DispenseResult> {
+    try {
+      return await this.dispenseInTransaction(prescriptionId, pharmacyId, entries, notes);
+    } catch (error) {
+      if (error instanceof DispenseConflictError) {
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private static dispenseInTransaction(
+    prescriptionId: string,
+    pharmacyId: string,
+    entries: DispenseItemInput[],
+    notes?: string
+  ): Promise<DispenseResult> {
+    return prisma.$transaction(async (tx) => {
+      const prescription = await tx.prescription.findUnique({
+        where: { id: prescriptionId },
+        include: { items: true }
+      });
+
+      if (!prescription) {
+        return { success: false, error: 'Prescription not found' };
+      }
+
+      if (prescription.status !== 'ACTIVE') {
+        return { success: false, error: `Cannot dispense a prescription with status ${prescription.status}` };
+      }
+
+      if (prescription.expiresAt <= new Date()) {
+        return { success: false, error: 'Prescription has expired' };
+      }
+
+      if (new Set(entries.map(entry => entry.itemId)).size !== entries.length) {
+        return { success: false, error: 'Each item can only be dispensed once per request' };
+      }
+
+      // Validate every entry before writing so a rejected item leaves nothing half-recorded
+      for (const entry of entries) {
+        const item = prescription.items.find(i => i.id === entry.itemId);
+        if (!item) {
+          return { success: false, error: `Item ${entry.itemId} does not belong to this prescription` };
+        }
+
+        const startsRefill = item.fillsDispensed > 0 && !item.partialFillOpen;
+        if (startsRefill && item.refillsRemaining <= 0) {
+          return { success: false, error: `No refills remaining for ${item.medicationName}` };
+        }
+      }
+
+      const dispensations: Prisma.PrescriptionDispensationGetPayload<{}>[] = [];
+      const items = new Map(prescription.items.map(item => [item.id, item]));
+
+      for (const entry of entries) {
+        const item = items.get(entry.itemId)!;
+        const isRefill = item.fillsDispensed > 0;
+        const startsRefill = isRefill && !item.partialFillOpen;
+
+        // Only write if the item is still as read above; a concurrent dispense
+        // that got there first leaves no row to update and rolls this one back
+        const claimed = await tx.prescriptionItem.updateMany({
+          where: {
+            id: item.id,
+            fillsDispensed: item.fillsDispensed,
+            partialFillOpen: item.partialFillOpen,
+            ...(startsRefill && { refillsRemaining: { gt: 0 } })
+          },
+          data: {
+            partialFillOpen: Boolean(entry.partial),
+            ...(!entry.partial && { fillsDispensed: { increment: 1 } }),
+            ...(startsRefill && { refillsRemaining: { decrement: 1 } })
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw new DispenseConflictError(`${item.medicationName} was dispensed by another request, please reload and try again`);
+        }
+
+        items.set(item.id, await tx.prescriptionItem.findUniqueOrThrow({ where: { id: item.id } }));
+
+        dispensations.push(await tx.prescriptionDispensation.create({
+          data: {
+            prescriptionId,
+            itemId: item.id,
+            pharmacyId,
+            quantity: entry.quantity,
+            isPartial: Boolean(entry.partial),
+            isRefill,
+            notes
+          }
+        }));
+      }
+
+      const fullyDispensed = Array.from(items.values()).every(
+        item => item.fillsDispensed > 0 && item.refillsRemaining === 0 && !item.partialFillOpen
+      );
+      const now = new Date();
+
+      const updated = await tx.prescription.update({
+        where: { id: prescriptionId },
+        data: fullyDispensed
+          ? { fullyDispensedAt: now, status: 'COMPLETED', completedAt: now }
+          : {},
+        include: prescriptionInclude
+      });
+
+      return { success: true, prescription: updated, dispensations };
+    });
+  }
+
+  /**
+   * Expire active prescriptions whose validity window has passed.
+   * Should be called periodically by a cron job; reads also call it for
+   * the patient being viewed so stale ACTIVE rows are never returned.
+   */
+  static async expireDuePrescriptions(patientId?: string): Promise<number> {
+    try {
+      const now = new Date();
+      const result = await prisma.prescription.updateMany({
+        where: {
+          status: 'ACTIVE',
+          expiresAt: { lte: now },
+          ...(patientId && { patientId })
+        },
+        data: {
+          status: 'EXPIRED',
+          expiredAt: now
+        }
+      });
+
+      if (result.count > 0) {
+        logger.info('Expired prescriptions', { count: result.count, patientId });
+      }
+
+      return result.count;
+    } catch (error) {
+      logger.error('Error expiring prescriptions', { error, patientId });
+      return 0;
+    }
+  }
+}
+
+export default PrescriptionService;
@@ -0,0 +1,562 @@
+import { BiologicalSex, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+
+export type AbnormalFlag = 'CRITICAL' | 'HIGH' | 'LOW' | 'NORMAL';
+
+export interface RangeInput {
+  component?: string | null;
+  sex?: BiologicalSex | null;
+  ageMinYears?: number | null;
+  ageMaxYears?: number | null;
+  normalLow?: number | null;
+  normalHigh?: number | null;
+  criticalLow?: number | null;
+  criticalHigh?: number | null;
+}
+
+export interface UnitConversionInput {
+  unit: string;
+  factor: number;
+  offset?: number;
+}
+
+export interface DefinitionInput {
+  code: string;
+  displayName: string;
+  category: string;
+  subcategory?: string | null;
+  canonicalUnit: string;
+  aliases?: string[];
+  components?: string[];
+  isActive?: boolean;
+  ranges?: RangeInput[];
+  unitConversions?: UnitConversionInput[];
+}
+
+export type PatientContext = {
+  ageYears: number | null;
+  sex: BiologicalSex | null;
+};
+
+export interface EvaluateInput {
+  code: string;
+  value: unknown;
+  unit?: string | null;
+  patientId?: string;
+  // Explicit context overrides the patient's profile (used for previews)
+  context?: Partial<PatientContext>;
+}
+
+export type ComponentEvaluation = {
+  component: string | null;
+  value: number | null;
+  canonicalValue: number | null;
+  flag: AbnormalFlag | null;
+  range: {
+    id: string;
+    sex: BiologicalSex | null;
+    ageMinYears: number | null;
+    ageMaxYears: number | null;
+    normalLow: number | null;
+    normalHigh: number | null;
+    criticalLow: number | null;
+    criticalHigh: number | null;
+  } | null;
+};
+
+export type ReferenceEvaluation = {
+  definitionId: string | null;
+  definitionCode: string | null;
+  unit: string | null;
+  canonicalUnit: string | null;
+  patient: PatientContext;
+  components: ComponentEvaluation[];
+  abnormalFlag: AbnormalFlag;
+  isCritical: boolean;
+  priority: 'CRITICAL' | 'HIGH' | 'NORMAL';
+  evaluatedAt: string;
+};
+
+export interface EvaluateResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  definition?: DefinitionWithRelations | null;
+  evaluation?: ReferenceEvaluation;
+}
+
+export interface DefinitionResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  definition?: DefinitionWithRelations;
+}
+
+// Retired ranges stay in the table for traceability but never apply again
+const definitionInclude = {
+  ranges: { where: { isActive: true } },
+  unitConversions: true
+} satisfies Prisma.ObservationDefinitionInclude;
+
+type DefinitionWithRelations = Prisma.ObservationDefinitionGetPayload<{ include: typeof definitionInclude }>;
+
+const CACHE_TTL_MS = 60 * 1000;
+const FLAG_SEVERITY: Record<AbnormalFlag, number> = { NORMAL: 0, LOW: 1, HIGH: 1, CRITICAL: 2 };
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const num = Number(value.trim());
+    return Number.isFinite(num) ? num : null;
+  }
+  return null;
+};
+
+const parseSex = (gender?: string | null): BiologicalSex | null => {
+  const value = gender?.trim().toLowerCase();
+  if (value === 'male' || value === 'm') return 'MALE';
+  if (value === 'female' || value === 'f') return 'FEMALE';
+  return null;
+};
+
+const ageInYears = (dateOfBirth: Date, at: Date = new Date()): number => {
+  let age = at.getFullYear() - dateOfBirth.getFullYear();
+  const monthDiff = at.getMonth() - dateOfBirth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && at.getDate() < dateOfBirth.getDate())) {
+    age--;
+  }
+  return age;
+};
+
+/**
+ * Admin-managed catalog of observation codes with canonical units, unit
+ * conversions and age/sex-specific normal and critical ranges.
+ *
+ * Both clinician-entered and patient self-reported observations are flagged
+ * through evaluate(), and the evaluation (including the range ids and limits
+ * that were applied) is stored with the observation so a flag can be traced
+ * back to the catalog entry that produced it.
+ */
+export class ReferenceRangeService {
+  private static cache: { loadedAt: number; definitions: DefinitionWithRelations[] } | null = null;
+
+  private static async getActiveDefinitions(): Promise<DefinitionWithRelations[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.definitions;
+    }
+
+    const definitions = await prisma.observationDefinition.findMany({
+      where: { isActive: true },
+      include: definitionInclude
+    });
+
+    this.cache = { loadedAt: Date.now(), definitions };
+    return definitions;
+  }
+
+  static invalidateCache(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Match an observation code to a catalog entry: exact code or alias first,
+   * then the longest alias appearing as whole words in the code
+   * (e.g. "Fasting Blood Glucose" -> blood glucose)
+   */
+  static async resolveDefinition(code: string): Promise<DefinitionWithRelations | null> {
+    const definitions = await this.getActiveDefinitions();
+    const target = normalize(code);
+    if (!target) {
+      return null;
+    }
+
+    const exact = definitions.find(def =>
+      normalize(def.code) === target || def.aliases.some(alias => normalize(alias) === target)
+    );
+    if (exact) {
+      return exact;
+    }
+
+    let best: { definition: DefinitionWithRelations; length: number } | null = null;
+    const padded = ` ${target} `;
+    for (const definition of definitions) {
+      for (const alias of [definition.code, ...definition.aliases]) {
+        const term = normalize(alias);
+        if (term && padded.includes(` ${term} `) && (!best || term.length > best.length)) {
+          best = { definition, length: term.length };
+        }
+      }
+    }
+
+    return best?.definition ?? null;
+  }
+
+  /**
+   * Convert a reading to the definition's canonical unit.
+   * Returns null when the unit is not known for this definition.
+   */
+  static toCanonical(definition: DefinitionWithRelations, value: number, unit?: string | null): number | null {
+    if (!unit || unit.trim() === '' || unit.trim().toLowerCase() === definition.canonicalUnit.toLowerCase()) {
+      return value;
+    }
+
+    const conversion = definition.unitConversions.find(c => c.unit.toLowerCase() === unit.trim().toLowerCase());
+    if (!conversion) {
+      return null;
+    }
+
+    return value * conversion.factor + conversion.offset;
+  }
+
+  static async getPatientContext(patientId: string): Promise<PatientContext> {
+    const profile = await prisma.healthProfile.findUnique({
+      where: { userId: patientId },
+      select: { dateOfBirth: true, gender: true }
+    });
+
+    return {
+      ageYears: profile?.dateOfBirth ? ageInYears(profile.dateOfBirth) : null,
+      sex: parseSex(profile?.gender)
+    };
+  }
+
+  /**
+   * Pick the most specific range for a component. Sex- or age-bounded ranges
+   * only apply when the patient's sex/age is known and matches; ageMaxYears
+   * is exclusive so adjacent bands don't overlap.
+   */
+  private static selectRange(definition: DefinitionWithRelations, component: string | null, patient: PatientContext) {
+    let best: { range: DefinitionWithRelations['ranges'][number]; score: number } | null = null;
+
+    for (const range of definition.ranges) {
+      if ((range.component ?? null) !== component) continue;
+      if (range.sex && range.sex !== patient.sex) continue;
+      if (range.ageMinYears !== null && (patient.ageYears === null || patient.ageYears < range.ageMinYears)) continue;
+      if (range.ageMaxYears !== null && (patient.ageYears === null || patient.ageYears >= range.ageMaxYears)) continue;
+
+      const score = (range.sex ? 2 : 0) + (range.ageMinYears !== null ? 1 : 0) + (range.ageMaxYears !== null ? 1 : 0);
+      if (!best || score > best.score) {
+        best = { range, score };
+      }
+    }
+
+    return best?.range ?? null;
+  }
+
+  static flagValue(value: number, range: RangeInput): AbnormalFlag {
+    if (range.criticalLow != null && value <= range.criticalLow) return 'CRITICAL';
+    if (range.criticalHigh != null && value >= range.criticalHigh) return 'CRITICAL';
+    if (range.normalHigh != null && value > range.normalHigh) return 'HIGH';
+    if (range.normalLow != null && value < range.normalLow) return 'LOW';
+    return 'NORMAL';
+  }
+
+  static priorityForFlag(flag: AbnormalFlag): 'CRITICAL' | 'HIGH' | 'NORMAL' {
+    switch (flag) {
+      case 'CRITICAL': return 'CRITICAL';
+      case 'HIGH': case 'LOW': return 'HIGH';
+      default: return 'NORMAL';
+    }
+  }
+
+  /**
+   * Split a reading into per-component values. Multi-component codes accept
+   * an object keyed by component ({ systolic: 120, diastolic: 80 }) or a
+   * slash-separated string ("120/80") in component order.
+   */
+  private static componentValues(definition: DefinitionWithRelations, value: unknown): Array<[string | null, number | null]> {
+    if (definition.components.length === 0) {
+      const raw = value !== null && typeof value === 'object' && 'value' in value
+        ? (value as Record<string, unknown>).value
+        : value;
+      return [[null, toNumber(raw)]];
+    }
+
+    if (typeof value === 'string' && value.includes('/')) {
+      const parts = value.split('/');
+      return definition.components.map((component, i) => [component, toNumber(parts[i])]);
+    }
+
+    const values = value !== null && typeof value === 'object' ? value as Record<string, unknown> : {};
+    return definition.components.map(component => [component, toNumber(values[component])]);
+  }
+
+  /**
+   * Flag a reading against the catalog. Codes without a catalog entry are
+   * treated as NORMAL; a unit the catalog cannot convert is rejected so the
+   * reading is never compared against limits in the wrong unit.
+   */
+  static async evaluate(input: EvaluateInput): Promise<EvaluateResult> {
+    const definition = await this.resolveDefinition(input.code);
+    const profile = input.patientId
+      ? await this.getPatientContext(input.patientId)
+      : { ageYears: null, sex: null };
+    const patient: PatientContext = {
+      ageYears: input.context?.ageYears ?? profile.ageYears,
+      sex: input.context?.sex ?? profile.sex
+    };
+
+    const evaluation: ReferenceEvaluation = {
+      definitionId: definition?.id ?? null,
+      definitionCode: definition?.code ?? null,
+      unit: input.unit ?? null,
+      canonicalUnit: definition?.canonicalUnit ?? null,
+      patient,
+      components: [],
+      abnormalFlag: 'NORMAL',
+      isCritical: false,
+      priority: 'NORMAL',
+      evaluatedAt: new Date().toISOString()
+    };
+
+    if (!definition) {
+      return { success: true, definition: null, evaluation };
+    }
+
+    for (const [component, value] of this.componentValues(definition, input.value)) {
+      const range = this.selectRange(definition, component, patient);
+      let canonicalValue: number | null = null;
+
+      if (value !== null) {
+        canonicalValue = this.toCanonical(definition, value, input.unit);
+        if (canonicalValue === null) {
+          return {
+            success: false,
+            status: 400,
+            error: `Unsupported unit "${input.unit}" for ${definition.displayName}; expected ${definition.canonicalUnit}` +
+              (definition.unitConversions.length ? ` or one of: ${definition.unitConversions.map(c => c.unit).join(', ')}` : '')
+          };
+        }
+        canonicalValue = Math.round(canonicalValue * 1000) / 1000;
+      }
+
+      const flag = canonicalValue !== null && range ? this.flagValue(canonicalValue, range) : null;
+
+      evaluation.components.push({
+        component,
+        value,
+        canonicalValue,
+        flag,
+        range: range && {
+          id: range.id,
+          sex: range.sex,
+          ageMinYears: range.ageMinYears,
+          ageMaxYears: range.ageMaxYears,
+          normalLow: range.normalLow,
+          normalHigh: range.normalHigh,
+          criticalLow: range.criticalLow,
+          criticalHigh: range.criticalHigh
+        }
+      });
+
+      if (flag && FLAG_SEVERITY[flag] > FLAG_SEVERITY[evaluation.abnormalFlag]) {
+        evaluation.abnormalFlag = flag;
+      }
+    }
+
+    evaluation.isCritical = evaluation.abnormalFlag === 'CRITICAL';
+    evaluation.priority = this.priorityForFlag(evaluation.abnormalFlag);
+
+    return { success: true, definition, evaluation };
+  }
+
+  // ---- Catalog administration ----
+
+  static async listDefinitions(options: { includeInactive?: boolean; search?: string } = {}) {
+    const where: Prisma.ObservationDefinitionWhereInput = {
+      ...(!options.includeInactive && { isActive: true }),
+      ...(options.search && {
+        OR: [
+          { code: { contains: options.search, mode: 'insensitive' } },
+          { displayName: { contains: options.search, mode: 'insensitive' } },
+          { aliases: { has: options.search.toLowerCase() } }
+        ]
+      })
+    };
+
+    return prisma.observationDefinition.findMany({
+      where,
+      include: definitionInclude,
+      orderBy: [{ category: 'asc' }, { displayName: 'asc' }]
+    });
+  }
+
+  static async getDefinition(id: string) {
+    return prisma.observationDefinition.findUnique({
+      where: { id },
+      include: definitionInclude
+    });
+  }
+
+  private static validateDefinition(
+    components: string[],
+    ranges?: RangeInput[],
+    conversions?: UnitConversionInput[]
+  ): string | null {
+    for (const range of ranges ?? []) {
+      if (components.length > 0 && (!range.component || !components.includes(range.component))) {
+        return `Each range must target one of the components: ${components.join(', ')}`;
+      }
+      if (components.length === 0 && range.component) {
+        return 'Ranges cannot target a component on a single-value definition';
+      }
+      if (range.ageMinYears != null && range.ageMaxYears != null && range.ageMinYears >= range.ageMaxYears) {
+        return 'ageMinYears must be less than ageMaxYears';
+      }
+      if (range.normalLow != null && range.normalHigh != null && range.normalLow > range.normalHigh) {
+        return 'normalLow must not exceed normalHigh';
+      }
+      if (range.criticalLow != null && range.normalLow != null && range.criticalLow > range.normalLow) {
+        return 'criticalLow must not exceed normalLow';
+      }
+      if (range.criticalHigh != null && range.normalHigh != null && range.criticalHigh < range.normalHigh) {
+        return 'criticalHigh must not be below normalHigh';
+      }
+    }
+
+    const units = (conversions ?? []).map(c => c.unit.toLowerCase());
+    if (new Set(units).size !== units.length) {
+      return 'Duplicate unit conversions';
+    }
+
+    return null;
+  }
+
+  private static rangeData(range: RangeInput) {
+    return {
+      component: range.component ?? null,
+      sex: range.sex ?? null,
+      ageMinYears: range.ageMinYears ?? null,
+      ageMaxYears: range.ageMaxYears ?? null,
+      normalLow: range.normalLow ?? null,
+      normalHigh: range.normalHigh ?? null,
+      criticalLow: range.criticalLow ?? null,
+      criticalHigh: range.criticalHigh ?? null
+    };
+  }
+
+  static async createDefinition(input: DefinitionInput): Promise<DefinitionResult> {
+    const validationError = this.validateDefinition(input.components ?? [], input.ranges, input.unitConversions);
+    if (validationError) {
+      return { success: false, status: 400, error: validationError };
+    }
+
+    const existing = await prisma.observationDefinition.findUnique({ where: { code: input.code } });
+    if (existing) {
+      return { success: false, status: 409, error: 'An observation definition with this code already exists' };
+    }
+
+    const definition = await prisma.observationDefinition.create({
+      data: {
+        code: input.code,
+        displayName: input.displayName,
+        category: input.category,
+        subcategory: input.subcategory ?? null,
+        canonicalUnit: input.canonicalUnit,
+        aliases: (input.aliases ?? []).map(alias => alias.toLowerCase()),
+        components: input.components ?? [],
+        isActive: input.isActive ?? true,
+        ranges: { create: (input.ranges ?? []).map(range => this.rangeData(range)) },
+        unitConversions: {
+          create: (input.unitConversions ?? []).map(c => ({ unit: c.unit, factor: c.factor, offset: c.offset ?? 0 }))
+        }
+      },
+      include: definitionInclude
+    });
+
+    this.invalidateCache();
+    logger.info('Observation definition created', { definitionId: definition.id, code: definition.code });
+    return { success: true, definition };
+  }
+
+  /**
+   * Update a definition. When ranges or unitConversions are supplied they
+   * replace the existing set; replaced ranges are retired rather than
+   * deleted, since past evaluations reference them by id.
+   */
+  static async updateDefinition(id: string, input: Partial<DefinitionInput>): Promise<DefinitionResult> {
+    const current = await this.getDefinition(id);
+    if (!current) {
+      return { success: false, status: 404, error: 'Observation definition not found' };
+    }
+
+    const components = input.components ?? current.components;
+    const validationError = this.validateDefinition(
+      components,
+      input.ranges ?? current.ranges,
+      input.unitConversions
+    );
+    if (validationError) {
+      return { success: false, status: 400, error: validationError };
+    }
+
+    if (input.code && input.code !== current.code) {
+      const clash = await prisma.observationDefinition.findUnique({ where: { code: input.code } });
+      if (clash) {
+        return { success: false, status: 409, error: 'An observation definition with this code already exists' };
+      }
+    }
+
+    const definition = await prisma.$transaction(async (tx) => {
+      if (input.ranges) {
+        await tx.referenceRange.updateMany({ where: { definitionId: id, isActive: true }, data: { isActive: false } });
+      }
+      if (input.unitConversions) {
+        await tx.unitConversion.deleteMany({ where: { definitionId: id } });
+      }
+
+      return tx.observationDefinition.update({
+        where: { id },
+        data: {
+          ...(input.code !== undefined && { code: input.code }),
+          ...(input.displayName !== undefined && { displayName: input.displayName }),
+          ...(input.category !== undefined && { category: input.category }),
+          ...(input.subcategory !== undefined && { subcategory: input.subcategory }),
+          ...(input.canonicalUnit !== undefined && { canonicalUnit: input.canonicalUnit }),
+          ...(input.aliases !== undefined && { aliases: input.aliases.map(alias => alias.toLowerCase()) }),
+          ...(input.components !== undefined && { components: input.components }),
+          ...(input.isActive !== undefined && { isActive: input.isActive }),
+          ...(input.ranges && { ranges: { create: input.ranges.map(range => this.rangeData(range)) } }),
+          ...(input.unitConversions && {
+            unitConversions: {
+              create: input.unitConversions.map(c => ({ unit: c.unit, factor: c.factor, offset: c.offset ?? 0 }))
+            }
+          })
+        },
+        include: definitionInclude
+      });
+    });
+
+    this.invalidateCache();
+    logger.info('Observation definition updated', { definitionId: id, code: definition.code });
+    return { success: true, definition };
+  }
+
+  /**
+   * Deactivate rather than delete, so evaluations stored on past observations
+   * still reference an existing catalog entry
+   */
+  static async deactivateDefinition(id: string): Promise<DefinitionResult> {
+    const current = await prisma.observationDefinition.findUnique({ where: { id } });
+    if (!current) {
+      return { success: false, status: 404, error: 'Observation definition not found' };
+    }
+
+    const definition = await prisma.observationDefinition.update({
+      where: { id },
+      data: { isActive: false },
+      include: definitionInclude
+    });
+
+    this.invalidateCache();
+    return { success: true, definition };
+  }
+}
+
+export default ReferenceRangeService;
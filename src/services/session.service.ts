@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import { UserSession } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import AuditService from './audit.service';
+import { evaluateIpAccess, IpAccessDecision } from '../utils/ip-rules';
+import { RequestLocation } from '../utils/geo';
+
+export interface SessionPolicy {
+  allowedIpAddresses: string[];
+  blockedIpAddresses: string[];
+  maxConcurrentSessions: number;
+  sessionTimeout: number;
+  autoLockTimeout: number;
+}
+
+export type SessionCheck =
+  | { valid: true; session: UserSession; locked: boolean }
+  | { valid: false; reason: 'ended' | 'idle_timeout'; session?: UserSession };
+
+// Same values as the SecuritySettings column defaults, for users who never saved settings
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  allowedIpAddresses: [],
+  blockedIpAddresses: [],
+  maxConcurrentSessions: 5,
+  sessionTimeout: 3600,
+  autoLockTimeout: 900
+};
+
+// Avoid a write on every request; idle checks tolerate this much slack
+const ACTIVITY_TOUCH_INTERVAL_MS = 60 * 1000;
+
+export const policySelect = {
+  allowedIpAddresses: true,
+  blockedIpAddresses: true,
+  maxConcurrentSessions: true,
+  sessionTimeout: true,
+  autoLockTimeout: true
+} as const;
+
+/**
+ * Login sessions and the per-user policies in SecuritySettings: IP rules,
+ * the concurrent session limit, idle timeout (sessionTimeout, the session
+ * ends) and auto-lock (autoLockTimeout, the password must be re-entered).
+ * Access and refresh tokens carry the session so ending it cuts both off.
+ */
+export class SessionService {
+  static async getPolicy(userId: string): Promise<SessionPolicy> {
+    const settings = await prisma.securitySettings.findUnique({
+      where: { userId },
+      select: policySelect
+    });
+
+    return settings ?? DEFAULT_SESSION_POLICY;
+  }
+
+  static checkIp(policy: Pick<SessionPolicy, 'allowedIpAddresses' | 'blockedIpAddresses'>, ip: string | undefined): IpAccessDecision {
+    return evaluateIpAccess(ip, policy);
+  }
+
+  static async auditIpDenial(params: {
+    userId: string;
+    role: string;
+    decision: IpAccessDecision;
+    stage: 'login' | 'request';
+    ipAddress?: string;
+    userAgent?: string;
+    path?: string;
+  }): Promise<void> {
+    logger.warn('Access denied by IP rules', {
+      userId: params.userId,
+      ip: params.ipAddress,
+      decision: params.decision,
+      stage: params.stage
+    });
+
+    await AuditService.logAction({
+      actorId: params.userId,
+      actorRole: params.role,
+      action: params.stage === 'login' ? 'LOGIN_DENIED_IP' : 'ACCESS_DENIED_IP',
+      resourceType: 'SecuritySettings',
+      resourceId: params.userId,
+      patientHealthId: params.userId,
+      metadata: { decision: params.decision, path: params.path },
+      ipAddress: params.ipAddress,
+      userAgent: params.userAgent
+    });
+  }
+
+  /**
+   * Open a session at login. Sessions beyond maxConcurrentSessions are ended,
+   * least recently started first.
+   */
+  static async start(params: {
+    userId: string;
+    role: string;
+    expiresAt: Date;
+    deviceId?: string;
+    deviceInfo?: string;
+    ipAddress?: string;
+    userAgent?: string;
+    location?: RequestLocation | null;
+    isTrusted?: boolean;
+    riskLevel?: string;
+    riskSignals?: string[];
+  }): Promise<UserSession> {
+    const session = await prisma.userSession.create({
+      data: {
+        userId: params.userId,
+        sessionToken: crypto.randomUUID(),
+        deviceId: params.deviceId,
+        deviceInfo: params.deviceInfo,
+        ipAddress: params.ipAddress,
+        userAgent: params.userAgent,
+        location: params.location?.label,
+        latitude: params.location?.latitude,
+        longitude: params.location?.longitude,
+        isTrusted: params.isTrusted,
+        riskLevel: params.riskLevel,
+        riskSignals: params.riskSignals,
+        expiresAt: params.expiresAt
+      }
+    });
+
+    const policy = await this.getPolicy(params.userId);
+    const active = await prisma.userSession.findMany({
+      where: { userId: params.userId, isActive: true, expiresAt: { gt: new Date() } },
+      select: { id: true, deviceInfo: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const evicted = active.slice(Math.max(policy.maxConcurrentSessions, 1));
+    for (const old of evicted) {
+      await this.end(old.id, 'session_limit');
+    }
+
+    if (evicted.length > 0) {
+      await AuditService.logAction({
+        actorId: params.userId,
+        actorRole: params.role,
+        action: 'SESSIONS_EVICTED',
+        resourceType: 'UserSession',
+        resourceId: session.id,
+        patientHealthId: params.userId,
+        metadata: {
+          evictedSessionIds: evicted.map(old => old.id),
+          maxConcurrentSessions: policy.maxConcurrentSessions
+        },
+        ipAddress: params.ipAddress,
+        userAgent: params.userAgent
+      });
+    }
+
+    return session;
+  }
+
+  /**
+   * Check the session an access token belongs to. Idle sessions past
+   * sessionTimeout are ended; past autoLockTimeout they are locked. Activity
+   * is recorded unless `touch` is false.
+   */
+  static async check(sessionToken: string, policy: SessionPolicy, touch = true): Promise<SessionCheck> {
+    const session = await prisma.userSession.findUnique({ where: { sessionToken } });
+    const now = new Date();
+
+    if (!session || !session.isActive || session.expiresAt <= now) {
+      return { valid: false, reason: 'ended', session: session ?? undefined };
+    }
+
+    const idleMs = now.getTime() - session.lastActivity.getTime();
+
+    if (idleMs > policy.sessionTimeout * 1000) {
+      await this.end(session.id, 'idle_timeout');
+      return { valid: false, reason: 'idle_timeout', session };
+    }
+
+    if (session.lockedAt || idleMs > policy.autoLockTimeout * 1000) {
+      if (!session.lockedAt) {
+        await prisma.userSession.update({ where: { id: session.id }, data: { lockedAt: now } });
+      }
+      return { valid: true, session, locked: true };
+    }
+
+    if (touch && idleMs > ACTIVITY_TOUCH_INTERVAL_MS) {
+      await prisma.userSession.update({ where: { id: session.id }, data: { lastActivity: now } });
+    }
+
+    return { valid: true, session, locked: false };
+  }
+
+  static async unlock(sessionId: string): Promise<void> {
+    await prisma.userSession.update({
+      where: { id: sessionId },
+      data: { lockedAt: null, lastActivity: new Date() }
+    });
+  }
+
+  /**
+   * Keep the session alive as long as its refresh token after a rotation
+   */
+  static async extend(sessionId: string, expiresAt: Date): Promise<void> {
+    await prisma.userSession.update({ where: { id: sessionId }, data: { expiresAt } });
+  }
+
+  /**
+   * Trust or untrust the device behind one of the user's sessions. Every
+   * session from that device fingerprint changes, including later sign-ins
+   * which inherit the flag. The fingerprint is client-supplied, so trust only
+   * labels the device for the user; login risk checks still apply to it.
+   * Returns the number of sessions updated, or null when the session does
+   * not exist or has no fingerprint.
+   */
+  static async setDeviceTrust(userId: string, sessionId: string, trusted: boolean): Promise<number | null> {
+    const session = await prisma.userSession.findFirst({
+      where: { id: sessionId, userId },
+      select: { deviceId: true }
+    });
+
+    if (!session?.deviceId || session.deviceId === 'unknown') {
+      return null;
+    }
+
+    const { count } = await prisma.userSession.updateMany({
+      where: { userId, deviceId: session.deviceId },
+      data: { isTrusted: trusted }
+    });
+
+    return count;
+  }
+
+  /**
+   * End a session and revoke its refresh tokens. `revokedBy` records who or
+   * what ended it (a user ID, 'logout', 'idle_timeout', 'session_limit',
+   * 'reported_not_me').
+   */
+  static async end(sessionId: string, revokedBy: string): Promise<void> {
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.userSession.updateMany({
+        where: { id: sessionId, isActive: true },
+        data: { isActive: false, revokedAt: now, revokedBy }
+      }),
+      prisma.refreshToken.updateMany({
+        where: { sessionId, revokedAt: null },
+        data: { revokedAt: now }
+      })
+    ]);
+  }
+}
+
+export default SessionService;
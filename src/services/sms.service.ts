@@ -0,0 +1,117 @@
+import logger from '../utils/logger';
+
+/**
+ * Pluggable SMS delivery. Select the provider with SMS_PROVIDER:
+ * - console (default outside production): logs messages instead of sending
+ * - twilio: Twilio Messages REST API using the TWILIO_* credentials
+ * In production with no provider configured nothing is sent and message
+ * bodies (OTPs, notification text) are never logged.
+ */
+export interface SmsProvider {
+    readonly name: string;
+    send(to: string, body: string): Promise<boolean>;
+}
+
+class ConsoleSmsProvider implements SmsProvider {
+    readonly name = 'console';
+
+    async send(to: string, body: string): Promise<boolean> {
+        logger.info('[DEV] SMS message', { to, body });
+        return true;
+    }
+}
+
+class DisabledSmsProvider implements SmsProvider {
+    readonly name = 'disabled';
+
+    async send(to: string): Promise<boolean> {
+        logger.warn('SMS not sent: SMS_PROVIDER is not configured', { to });
+        return false;
+    }
+}
+
+class TwilioSmsProvider implements SmsProvider {
+    readonly name = 'twilio';
+
+    constructor(
+        private readonly accountSid: string,
+        private readonly authToken: string,
+        private readonly fromNumber: string
+    ) {}
+
+    async send(to: string, body: string): Promise<boolean> {
+        const url = `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
+        const auth = Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64');
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                Authorization: `Basic ${auth}`,
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({ To: to, From: this.fromNumber, Body: body }).toString()
+        });
+
+        if (!response.ok) {
+            logger.error('Twilio SMS send failed', { status: response.status, to });
+            return false;
+        }
+
+        return true;
+    }
+}
+
+class SmsService {
+    private provider: SmsProvider;
+
+    constructor() {
+        this.provider = this.createProvider();
+    }
+
+    private createProvider(): SmsProvider {
+        const configured = (process.env.SMS_PROVIDER || '').toLowerCase();
+
+        if (configured === 'twilio') {
+            const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+            if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
+                throw new Error('SMS_PROVIDER=twilio requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PHONE_NUMBER');
+            }
+            return new TwilioSmsProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER);
+        }
+
+        if (configured && configured !== 'console') {
+            throw new Error(`Unknown SMS_PROVIDER: ${configured}`);
+        }
+
+        if (!configured && process.env.NODE_ENV === 'production') {
+            logger.warn('SMS_PROVIDER is not configured; SMS messages will not be sent');
+            return new DisabledSmsProvider();
+        }
+        return new ConsoleSmsProvider();
+    }
+
+    /**
+     * Replace the active provider (e.g. with a custom gateway)
+     */
+    setProvider(provider: SmsProvider): void {
+        this.provider = provider;
+    }
+
+    getProviderName(): string {
+        return this.provider.name;
+    }
+
+    /**
+     * Send an SMS; never throws, returns false on failure
+     */
+    async send(to: string, body: string): Promise<boolean> {
+        try {
+            return await this.provider.send(to, body);
+        } catch (error) {
+            logger.error('Failed to send SMS', { error, to, provider: this.provider.name });
+            return false;
+        }
+    }
+}
+
+export default new SmsService();
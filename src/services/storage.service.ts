@@ -0,0 +1,360 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { PassThrough, Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { Request } from 'express';
+import type { StorageEngine } from 'multer';
+import logger from '../utils/logger';
+import { SNIFF_BYTES } from '../utils/file-type';
+
+/**
+ * Pluggable blob storage for uploaded files. Select the driver with STORAGE_DRIVER:
+ * - local (default): files under STORAGE_LOCAL_PATH on this host
+ * - s3: any S3-compatible object store (AWS S3, MinIO, ...) using the S3_* settings
+ *
+ * Only the storage key and driver name are kept on the FileUpload row.
+ */
+export interface BlobStore {
+  readonly name: string;
+  put(key: string, body: Readable, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+}
+
+export interface StoredBlob {
+  key: string;
+  size: number;
+  checksum: string;
+  // Leading bytes of the content, kept for file type detection
+  head: Buffer;
+}
+
+// What multerStorage() adds to req.file in place of an in-memory buffer
+export interface StreamedUploadInfo {
+  storageKey: string;
+  size: number;
+  checksum: string;
+  head: Buffer;
+}
+
+export type StreamedMulterFile = Express.Multer.File & Partial<StreamedUploadInfo>;
+
+class LocalBlobStore implements BlobStore {
+  readonly name = 'local';
+
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return target;
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temp name and rename so readers never see a partial file
+    const partial = `${target}.partial`;
+    try {
+      await pipeline(body, fs.createWriteStream(partial));
+      await fs.promises.rename(partial, target);
+    } catch (error) {
+      await fs.promises.rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.resolve(key);
+    await fs.promises.access(target);
+    return fs.createReadStream(target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * Minimal S3 REST client signed with AWS Signature V4. Payloads are sent as
+ * UNSIGNED-PAYLOAD so bodies can be streamed without hashing them twice.
+ */
+class S3BlobStore implements BlobStore {
+  readonly name = 's3';
+
+  constructor(private readonly config: S3Config) {}
+
+  private objectUrl(key: string): URL {
+    const encodedKey = key.split('/').map(segment =>
+      encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+    ).join('/');
+    const endpoint = new URL(this.config.endpoint);
+
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.config.bucket}/${encodedKey}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodedKey}`);
+  }
+
+  private sign(method: string, url: URL, extraHeaders: Record<string, string> = {}): Record<string, string> {
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = 'UNSIGNED-PAYLOAD';
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalHeaders = Object.keys(headers).sort().map(name => `${name}:${headers[name]}\n`).join('');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+
+    const hmac = (key: crypto.BinaryLike, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...extraHeaders,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+  }
+
+  private async send(method: string, key: string, init: { body?: Readable; headers?: Record<string, string> } = {}) {
+    const url = this.objectUrl(key);
+    return fetch(url, {
+      method,
+      headers: this.sign(method, url, init.headers),
+      ...(init.body && {
+        body: Readable.toWeb(init.body) as ReadableStream,
+        duplex: 'half'
+      })
+    } as RequestInit);
+  }
+
+  async put(key: string, body: Readable, contentType: string): Promise<void> {
+    // A single PUT needs Content-Length, so spool streams of unknown length to disk first
+    const spool = path.join(os.tmpdir(), `curanet-s3-${crypto.randomBytes(8).toString('hex')}`);
+    try {
+      await pipeline(body, fs.createWriteStream(spool));
+      const { size } = await fs.promises.stat(spool);
+
+      const response = await this.send('PUT', key, {
+        body: fs.createReadStream(spool),
+        headers: { 'Content-Type': contentType, 'Content-Length': String(size) }
+      });
+      if (!response.ok) {
+        throw new Error(`S3 PUT ${key} failed with status ${response.status}: ${await response.text()}`);
+      }
+    } finally {
+      await fs.promises.rm(spool, { force: true });
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.send('GET', key);
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 GET ${key} failed with status ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as WebReadableStream);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed with status ${response.status}`);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.send('HEAD', key);
+    return response.ok;
+  }
+}
+
+class StorageService {
+  private store: BlobStore;
+
+  constructor() {
+    this.store = this.createStore();
+  }
+
+  private createStore(): BlobStore {
+    const configured = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+
+    if (configured === 's3') {
+      const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+      if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('STORAGE_DRIVER=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+      }
+      return new S3BlobStore({
+        endpoint: S3_ENDPOINT,
+        region: S3_REGION || 'us-east-1',
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        forcePathStyle: (process.env.S3_FORCE_PATH_STYLE || 'true').toLowerCase() === 'true'
+      });
+    }
+
+    if (configured !== 'local') {
+      throw new Error(`Unknown STORAGE_DRIVER: ${configured}`);
+    }
+
+    return new LocalBlobStore(path.resolve(process.env.STORAGE_LOCAL_PATH || './uploads'));
+  }
+
+  getDriverName(): string {
+    return this.store.name;
+  }
+
+  setStore(store: BlobStore): void {
+    this.store = store;
+  }
+
+  generateKey(): string {
+    const now = new Date();
+    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+    return `files/${now.getUTCFullYear()}/${month}/${crypto.randomUUID()}`;
+  }
+
+  /**
+   * Store a blob, computing its size, SHA-256 and leading bytes while it streams through
+   */
+  async put(key: string, source: Readable | Buffer, contentType: string): Promise<StoredBlob> {
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+    const headChunks: Buffer[] = [];
+
+    const meter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        if (size < SNIFF_BYTES) {
+          headChunks.push(chunk.subarray(0, SNIFF_BYTES - size));
+        }
+        size += chunk.length;
+        callback(null, chunk);
+      }
+    });
+
+    const input = Buffer.isBuffer(source) ? Readable.from([source]) : source;
+    const measured = new PassThrough();
+    const feeding = pipeline(input, meter, measured);
+    feeding.catch(() => undefined);
+
+    try {
+      await this.store.put(key, measured, contentType);
+    } catch (error) {
+      input.destroy();
+      throw error;
+    }
+    await feeding;
+
+    return { key, size, checksum: hash.digest('hex'), head: Buffer.concat(headChunks) };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    return this.store.get(key);
+  }
+
+  async getBuffer(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.store.get(key)) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Re-read a stored blob and return its SHA-256
+   */
+  async computeChecksum(key: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    await pipeline(await this.store.get(key), hash);
+    return hash.digest('hex');
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.store.exists(key);
+  }
+
+  /**
+   * Multer storage engine that streams multipart uploads straight into the
+   * blob store instead of buffering them in memory
+   */
+  multerStorage(): StorageEngine {
+    return {
+      _handleFile: (_req: Request, file, callback) => {
+        const key = this.generateKey();
+        this.put(key, file.stream, file.mimetype)
+          .then(stored => {
+            const info: StreamedUploadInfo = {
+              storageKey: stored.key,
+              size: stored.size,
+              checksum: stored.checksum,
+              head: stored.head
+            };
+            callback(null, info);
+          })
+          .catch(error => {
+            this.delete(key).catch(() => undefined);
+            callback(error);
+          });
+      },
+      _removeFile: (_req: Request, file, callback) => {
+        const key = (file as StreamedMulterFile).storageKey;
+        if (!key) {
+          return callback(null);
+        }
+        this.delete(key)
+          .then(() => callback(null))
+          .catch(error => {
+            logger.warn('Failed to remove rejected upload from storage', { key, error });
+            callback(null);
+          });
+      }
+    };
+  }
+}
+
+export default new StorageService();
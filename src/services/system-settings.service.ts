@@ -0,0 +1,79 @@
+import runtimeConfig from '../config/runtime-config';
+
+// In-memory settings store (in production, this would be database-backed)
+export interface SystemSettings {
+  maintenanceMode: boolean;
+  allowRegistration: boolean;
+  requireEmailVerification: boolean;
+  requireAdminApproval: boolean;
+  maxFileUploadSize: number; // in bytes
+  allowedFileTypes: string[];
+  sessionTimeout: number; // in minutes
+  maxLoginAttempts: number;
+  consentExpiryDays: number;
+  emergencyShareExpiryHours: number;
+  systemMessage: string | null;
+  systemMessageType: 'info' | 'warning' | 'error' | null;
+  enableNotifications: boolean;
+  enableAuditExport: boolean;
+  enableDataExport: boolean;
+}
+
+// Default system settings
+const defaultSettings: SystemSettings = {
+  maintenanceMode: false,
+  allowRegistration: true,
+  requireEmailVerification: true,
+  requireAdminApproval: true, // Require admin approval for doctor accounts
+  maxFileUploadSize: runtimeConfig.maxFileSizeBytes,
+  allowedFileTypes: [
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/tiff',
+    'application/pdf', 'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain', 'text/csv', 'text/markdown', 'application/dicom'
+  ],
+  sessionTimeout: runtimeConfig.sessionTimeoutMinutes,
+  maxLoginAttempts: runtimeConfig.maxLoginAttempts,
+  consentExpiryDays: runtimeConfig.consentExpiryDays,
+  emergencyShareExpiryHours: runtimeConfig.emergencyShareExpiryHours,
+  systemMessage: null,
+  systemMessageType: null,
+  enableNotifications: true,
+  enableAuditExport: true,
+  enableDataExport: true
+};
+
+// Current settings (would be loaded from database in production)
+let currentSettings: SystemSettings = { ...defaultSettings };
+
+/**
+ * Holds the admin-managed system settings so services (e.g. upload
+ * validation) read the same values the admin settings endpoints edit
+ */
+export class SystemSettingsService {
+  static getSettings(): SystemSettings {
+    return currentSettings;
+  }
+
+  static getDefaults(): SystemSettings {
+    return defaultSettings;
+  }
+
+  static updateSettings(updatedFields: Partial<SystemSettings>): SystemSettings {
+    currentSettings = { ...currentSettings, ...updatedFields };
+    return currentSettings;
+  }
+
+  static resetSettings(): SystemSettings {
+    currentSettings = { ...defaultSettings };
+    return currentSettings;
+  }
+
+  static getAllowedFileTypes(): string[] {
+    return currentSettings.allowedFileTypes;
+  }
+}
+
+export default SystemSettingsService;
@@ -0,0 +1,236 @@
+import { Prisma, TerminologySystem } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+
+export interface ConceptInput {
+  code: string;
+  display: string;
+  synonyms?: string[];
+  category?: string | null;
+  subcategory?: string | null;
+  defaultUnit?: string | null;
+  isActive?: boolean;
+}
+
+export interface SearchOptions {
+  system?: TerminologySystem;
+  category?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface CodingInput {
+  // Free-text name or a bare code, e.g. "Heart Rate" or "8867-4"
+  text?: string;
+  system?: TerminologySystem;
+  code?: string;
+}
+
+export interface CodingResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  concept?: Prisma.TerminologyConceptGetPayload<{}> | null;
+  // Name to store on the record: the caller's text, or the concept's display when only a code was sent
+  display?: string;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+export const SYSTEM_URIS: Record<TerminologySystem, string> = {
+  LOINC: 'http://loinc.org',
+  SNOMED_CT: 'http://snomed.info/sct'
+};
+
+const LOINC_CODE_PATTERN = /^\d{1,7}-\d$/;
+const SNOMED_CODE_PATTERN = /^\d{6,18}$/;
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Local terminology store for coded observations (LOINC) and diagnoses
+ * (SNOMED CT). A small subset ships with the migrations; full releases are
+ * loaded with the import script or the admin import endpoint.
+ */
+export class TerminologyService {
+  static isCodeFormat(system: TerminologySystem, code: string): boolean {
+    return system === 'LOINC' ? LOINC_CODE_PATTERN.test(code) : SNOMED_CODE_PATTERN.test(code);
+  }
+
+  static async lookup(system: TerminologySystem, code: string) {
+    return prisma.terminologyConcept.findUnique({
+      where: { system_code: { system, code: code.trim() } }
+    });
+  }
+
+  /**
+   * Search by code prefix, display text or synonym. Exact code matches rank
+   * first, then display/synonym prefix matches, then substring matches.
+   */
+  static async search(query: string, options: SearchOptions = {}) {
+    const q = query.trim();
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+
+    const where: Prisma.TerminologyConceptWhereInput = {
+      isActive: true,
+      ...(options.system && { system: options.system }),
+      ...(options.category && { category: options.category }),
+      ...(q && {
+        OR: [
+          { code: { startsWith: q } },
+          { display: { contains: q, mode: 'insensitive' } },
+          { synonyms: { has: q.toLowerCase() } }
+        ]
+      })
+    };
+
+    const [matches, total] = await Promise.all([
+      prisma.terminologyConcept.findMany({
+        where,
+        // Over-fetch so ranking can promote better matches from beyond the first page
+        take: Math.min((offset + limit) * 3, 500),
+        orderBy: { display: 'asc' }
+      }),
+      prisma.terminologyConcept.count({ where })
+    ]);
+
+    const lower = q.toLowerCase();
+    const rank = (concept: typeof matches[number]): number => {
+      if (!lower) return 3;
+      if (concept.code === q || concept.synonyms.includes(lower)) return 0;
+      if (concept.display.toLowerCase().startsWith(lower) || concept.synonyms.some(s => s.startsWith(lower))) return 1;
+      if (concept.code.startsWith(q)) return 2;
+      return 3;
+    };
+
+    const concepts = matches
+      .map(concept => ({ concept, rank: rank(concept) }))
+      .sort((a, b) => a.rank - b.rank || a.concept.display.length - b.concept.display.length)
+      .slice(offset, offset + limit)
+      .map(({ concept }) => concept);
+
+    return { concepts, total };
+  }
+
+  static async autocomplete(query: string, system?: TerminologySystem, limit = 10) {
+    if (query.trim().length < 2) {
+      return [];
+    }
+
+    const { concepts } = await this.search(query, { system, limit });
+    return concepts.map(concept => ({
+      system: concept.system,
+      code: concept.code,
+      display: concept.display,
+      defaultUnit: concept.defaultUnit
+    }));
+  }
+
+  /**
+   * Map an incoming observation/diagnosis code to a concept.
+   *
+   * An explicit code must exist and be active. A bare code in the free-text
+   * field is treated the same way. Otherwise the text is matched against
+   * concept displays and synonyms; unmatched text is accepted uncoded unless
+   * TERMINOLOGY_STRICT_CODES is enabled.
+   */
+  static async resolveCoding(input: CodingInput, defaultSystem: TerminologySystem): Promise<CodingResult> {
+    const system = input.system ?? defaultSystem;
+    const text = input.text?.trim();
+    const explicitCode = input.code?.trim() || (text && this.isCodeFormat(system, text) ? text : undefined);
+
+    if (explicitCode) {
+      const concept = await this.lookup(system, explicitCode);
+      if (!concept || !concept.isActive) {
+        return { success: false, status: 400, error: `Unknown or inactive ${system} code: ${explicitCode}` };
+      }
+      return {
+        success: true,
+        concept,
+        display: text && text !== explicitCode ? text : concept.display
+      };
+    }
+
+    if (!text) {
+      return { success: true, concept: null, display: text };
+    }
+
+    const concept = await prisma.terminologyConcept.findFirst({
+      where: {
+        system,
+        isActive: true,
+        OR: [
+          { display: { equals: text, mode: 'insensitive' } },
+          { synonyms: { has: text.toLowerCase() } }
+        ]
+      },
+      orderBy: { code: 'asc' }
+    });
+
+    if (!concept && runtimeConfig.terminologyStrictCodes) {
+      return {
+        success: false,
+        status: 400,
+        error: `"${text}" does not match a ${system} concept; search /api/terminology/search for a valid code`
+      };
+    }
+
+    return { success: true, concept, display: text };
+  }
+
+  /**
+   * Upsert concepts for one code system in batches. Synonyms are stored
+   * lowercased so they can be matched with an exact array lookup.
+   */
+  static async importConcepts(system: TerminologySystem, concepts: ConceptInput[], version?: string): Promise<ImportResult> {
+    const result: ImportResult = { created: 0, updated: 0, skipped: 0 };
+
+    for (let i = 0; i < concepts.length; i += IMPORT_BATCH_SIZE) {
+      const batch = concepts.slice(i, i + IMPORT_BATCH_SIZE);
+      const valid = batch.filter(c => c.code?.trim() && c.display?.trim());
+      result.skipped += batch.length - valid.length;
+
+      const existing = await prisma.terminologyConcept.findMany({
+        where: { system, code: { in: valid.map(c => c.code.trim()) } },
+        select: { code: true }
+      });
+      const existingCodes = new Set(existing.map(c => c.code));
+
+      await prisma.$transaction(valid.map(c => {
+        const data = {
+          display: c.display.trim(),
+          synonyms: [...new Set((c.synonyms ?? []).map(s => s.trim().toLowerCase()).filter(Boolean))],
+          category: c.category ?? null,
+          subcategory: c.subcategory ?? null,
+          defaultUnit: c.defaultUnit ?? null,
+          isActive: c.isActive ?? true,
+          version: version ?? null
+        };
+
+        return prisma.terminologyConcept.upsert({
+          where: { system_code: { system, code: c.code.trim() } },
+          create: { system, code: c.code.trim(), ...data },
+          update: data
+        });
+      }));
+
+      for (const c of valid) {
+        if (existingCodes.has(c.code.trim())) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+      }
+    }
+
+    logger.info('Terminology import completed', { system, version, ...result });
+    return result;
+  }
+}
+
+export default TerminologyService;
@@ -0,0 +1,79 @@
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+
+/**
+ * Revocation list for JWTs, keyed by token ID (jti). Shared by every instance
+ * through the database; an entry only needs to live until the token would
+ * have expired anyway.
+ */
+export class TokenRevocationService {
+  static async revoke(params: {
+    jti: string;
+    expiresAt: Date;
+    userId?: string | null;
+    reason?: string;
+  }): Promise<void> {
+    if (params.expiresAt <= new Date()) {
+      return;
+    }
+
+    await prisma.revokedToken.upsert({
+      where: { jti: params.jti },
+      create: {
+        jti: params.jti,
+        expiresAt: params.expiresAt,
+        userId: params.userId ?? null,
+        reason: params.reason ?? null
+      },
+      update: {}
+    });
+
+    logger.debug('Token revoked', { jti: params.jti, userId: params.userId, reason: params.reason });
+  }
+
+  /**
+   * Revoke a single-use token, reporting whether this call was the one that
+   * used it. Concurrent callers race on the jti primary key and exactly one
+   * of them wins.
+   */
+  static async consume(params: {
+    jti: string;
+    expiresAt: Date;
+    userId?: string | null;
+    reason?: string;
+  }): Promise<boolean> {
+    const { count } = await prisma.revokedToken.createMany({
+      data: [{
+        jti: params.jti,
+        expiresAt: params.expiresAt,
+        userId: params.userId ?? null,
+        reason: params.reason ?? null
+      }],
+      skipDuplicates: true
+    });
+
+    return count === 1;
+  }
+
+  static async isRevoked(jti: string): Promise<boolean> {
+    const entry = await prisma.revokedToken.findUnique({
+      where: { jti },
+      select: { expiresAt: true }
+    });
+
+    return Boolean(entry && entry.expiresAt > new Date());
+  }
+
+  /**
+   * Drop entries for tokens that have expired. Returns the number removed.
+   */
+  static async cleanupExpired(): Promise<number> {
+    const { count } = await prisma.revokedToken.deleteMany({
+      where: { expiresAt: { lte: new Date() } }
+    });
+
+    return count;
+  }
+}
+
+export default TokenRevocationService;
@@ -0,0 +1,353 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+import NotificationService from './notification.service';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const TOTP_ISSUER = 'CuraNet';
+const BACKUP_CODE_COUNT = 10;
+const MFA_CHALLENGE_PURPOSE = 'mfa-challenge';
+
+export type SecondFactorMethod = 'totp' | 'backup_code';
+
+export interface TwoFactorResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  method?: SecondFactorMethod;
+  backupCodes?: string[];
+  backupCodesRemaining?: number;
+}
+
+export interface MfaChallenge {
+  userId: string;
+  deviceFingerprint?: string;
+  platform?: string;
+  // Failed password attempts before this sign-in, for login risk scoring
+  failedAttempts?: number;
+}
+
+export interface VerifiedMfaChallenge extends MfaChallenge {
+  tokenId: string;
+  expiresAt: Date;
+}
+
+const getEncryptionKey = (): Buffer => {
+  const secret = process.env.TOTP_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('TOTP_ENCRYPTION_KEY is not set in environment variables');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+const getPepper = (): string => {
+  const pepper = process.env.PASSWORD_PEPPER;
+  if (!pepper) {
+    throw new Error('PASSWORD_PEPPER is not set in environment variables');
+  }
+  return pepper;
+};
+
+// Challenge tokens are signed with a key derived from JWT_SECRET so they can
+// never pass as access tokens
+const getChallengeKey = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set in environment variables');
+  }
+  return crypto.createHmac('sha256', secret).update(MFA_CHALLENGE_PURPOSE).digest('hex');
+};
+
+// TOTP secrets must be recoverable, so they are encrypted (AES-256-GCM) rather than hashed
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return ['v1', iv.toString('base64url'), cipher.getAuthTag().toString('base64url'), ciphertext.toString('base64url')].join(':');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [version, iv, tag, ciphertext] = stored.split(':');
+  if (version !== 'v1' || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported two-factor secret format');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+};
+
+const normalizeBackupCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hashBackupCode = (code: string): string =>
+  crypto.createHmac('sha256', getPepper()).update(normalizeBackupCode(code)).digest('hex');
+
+// Formatted as xxxxx-xxxxx for readability; dashes and case are ignored when checking
+const generateBackupCodes = (): string[] =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+/**
+ * TOTP two-factor authentication: enrollment, the second login step and
+ * single-use backup codes. Backup codes are only ever shown once and are
+ * stored as keyed hashes.
+ */
+export class TwoFactorService {
+  static async isEnabled(userId: string): Promise<boolean> {
+    const settings = await prisma.securitySettings.findUnique({
+      where: { userId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true }
+    });
+
+    return Boolean(settings?.twoFactorEnabled && settings.twoFactorSecret);
+  }
+
+  static async getStatus(userId: string) {
+    const settings = await prisma.securitySettings.findUnique({
+      where: { userId },
+      select: { twoFactorEnabled: true, twoFactorEnabledAt: true, twoFactorSecret: true, backupCodes: true }
+    });
+
+    return {
+      enabled: Boolean(settings?.twoFactorEnabled),
+      enabledAt: settings?.twoFactorEnabledAt ?? null,
+      pendingEnrollment: Boolean(settings && !settings.twoFactorEnabled && settings.twoFactorSecret),
+      backupCodesRemaining: settings?.twoFactorEnabled ? settings.backupCodes.length : 0
+    };
+  }
+
+  /**
+   * Start enrollment with a fresh secret. 2FA only turns on once a code from
+   * the authenticator app is confirmed; restarting replaces the pending secret.
+   */
+  static async beginEnrollment(userId: string, accountLabel: string) {
+    const settings = await prisma.securitySettings.findUnique({ where: { userId } });
+    if (settings?.twoFactorEnabled) {
+      return { success: false, status: 409, error: 'Two-factor authentication is already enabled' };
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.securitySettings.upsert({
+      where: { userId },
+      create: { userId, twoFactorSecret: encryptSecret(secret) },
+      update: { twoFactorSecret: encryptSecret(secret), twoFactorLastUsedStep: null }
+    });
+
+    return {
+      success: true,
+      secret,
+      otpauthUri: buildOtpauthUri({ issuer: TOTP_ISSUER, account: accountLabel, secret })
+    };
+  }
+
+  static async confirmEnrollment(userId: string, code: string): Promise<TwoFactorResult> {
+    const settings = await prisma.securitySettings.findUnique({ where: { userId } });
+
+    if (!settings?.twoFactorSecret) {
+      return { success: false, status: 400, error: 'Start two-factor setup first' };
+    }
+
+    if (settings.twoFactorEnabled) {
+      return { success: false, status: 409, error: 'Two-factor authentication is already enabled' };
+    }
+
+    const step = verifyTotp(decryptSecret(settings.twoFactorSecret), code);
+    if (step === null) {
+      return { success: false, status: 400, error: 'Invalid verification code' };
+    }
+
+    const backupCodes = generateBackupCodes();
+
+    await prisma.$transaction([
+      prisma.securitySettings.update({
+        where: { userId },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorEnabledAt: new Date(),
+          twoFactorLastUsedStep: step,
+          backupCodes: backupCodes.map(hashBackupCode)
+        }
+      }),
+      prisma.userSettings.updateMany({
+        where: { userId },
+        data: { twoFactorEnabled: true }
+      })
+    ]);
+
+    await NotificationService.notify({
+      recipientId: userId,
+      category: 'SECURITY',
+      priority: 'HIGH',
+      title: 'Two-factor authentication enabled',
+      message: 'Two-factor authentication is now on for your CuraNet account. Keep your backup codes somewhere safe.'
+    });
+
+    logger.info('Two-factor authentication enabled', { userId });
+    return { success: true, backupCodes };
+  }
+
+  /**
+   * Check a second factor: a TOTP code (never the same step twice) or an
+   * unused backup code, which is consumed.
+   */
+  static async verifyCode(userId: string, code: string): Promise<TwoFactorResult> {
+    const settings = await prisma.securitySettings.findUnique({ where: { userId } });
+
+    if (!settings?.twoFactorEnabled || !settings.twoFactorSecret) {
+      return { success: false, status: 400, error: 'Two-factor authentication is not enabled' };
+    }
+
+    const step = verifyTotp(decryptSecret(settings.twoFactorSecret), code, {
+      afterStep: settings.twoFactorLastUsedStep
+    });
+
+    if (step !== null) {
+      // Guard against the same code being accepted twice in parallel
+      const claimed = await prisma.securitySettings.updateMany({
+        where: {
+          userId,
+          OR: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { lt: step } }
+          ]
+        },
+        data: { twoFactorLastUsedStep: step }
+      });
+
+      if (claimed.count === 1) {
+        return { success: true, method: 'totp' };
+      }
+      return { success: false, status: 401, error: 'Invalid verification code' };
+    }
+
+    const hash = hashBackupCode(code);
+    if (normalizeBackupCode(code).length === 10 && settings.backupCodes.includes(hash)) {
+      const remaining = settings.backupCodes.filter(stored => stored !== hash);
+      // Only applies to the list as read, so a code used in parallel is never restored
+      const consumed = await prisma.securitySettings.updateMany({
+        where: { userId, backupCodes: { equals: settings.backupCodes } },
+        data: { backupCodes: remaining }
+      });
+
+      if (consumed.count === 1) {
+        if (remaining.length <= 2) {
+          await NotificationService.notify({
+            recipientId: userId,
+            category: 'SECURITY',
+            title: 'Running low on backup codes',
+            message: `You have ${remaining.length} backup code${remaining.length === 1 ? '' : 's'} left. Generate new ones from your security settings.`
+          });
+        }
+        return { success: true, method: 'backup_code', backupCodesRemaining: remaining.length };
+      }
+    }
+
+    return { success: false, status: 401, error: 'Invalid verification code' };
+  }
+
+  /**
+   * Replace all backup codes. Requires a current authenticator code so a
+   * leaked backup code cannot be used to mint new ones.
+   */
+  static async regenerateBackupCodes(userId: string, code: string): Promise<TwoFactorResult> {
+    const settings = await prisma.securitySettings.findUnique({ where: { userId } });
+
+    if (!settings?.twoFactorEnabled || !settings.twoFactorSecret) {
+      return { success: false, status: 400, error: 'Two-factor authentication is not enabled' };
+    }
+
+    const step = verifyTotp(decryptSecret(settings.twoFactorSecret), code, {
+      afterStep: settings.twoFactorLastUsedStep
+    });
+    if (step === null) {
+      return { success: false, status: 401, error: 'Invalid verification code' };
+    }
+
+    const backupCodes = generateBackupCodes();
+
+    await prisma.securitySettings.update({
+      where: { userId },
+      data: {
+        backupCodes: backupCodes.map(hashBackupCode),
+        twoFactorLastUsedStep: step
+      }
+    });
+
+    return { success: true, backupCodes };
+  }
+
+  /**
+   * Turn 2FA off. Callers must have re-authenticated the user first.
+   */
+  static async disable(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.securitySettings.update({
+        where: { userId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+          backupCodes: []
+        }
+      }),
+      prisma.userSettings.updateMany({
+        where: { userId },
+        data: { twoFactorEnabled: false }
+      })
+    ]);
+
+    await NotificationService.notify({
+      recipientId: userId,
+      category: 'SECURITY',
+      priority: 'HIGH',
+      title: 'Two-factor authentication disabled',
+      message: 'Two-factor authentication was turned off for your CuraNet account. If this wasn\'t you, reset your password immediately.'
+    });
+
+    logger.info('Two-factor authentication disabled', { userId });
+  }
+
+  static issueChallenge(challenge: MfaChallenge): string {
+    return jwt.sign(
+      {
+        sub: challenge.userId,
+        purpose: MFA_CHALLENGE_PURPOSE,
+        fp: challenge.deviceFingerprint,
+        platform: challenge.platform,
+        fails: challenge.failedAttempts
+      },
+      getChallengeKey(),
+      {
+        expiresIn: runtimeConfig.mfaChallengeExpirySeconds,
+        algorithm: 'HS256',
+        jwtid: crypto.randomUUID()
+      }
+    );
+  }
+
+  static verifyChallenge(token: string): VerifiedMfaChallenge | null {
+    try {
+      const decoded = jwt.verify(token, getChallengeKey(), { algorithms: ['HS256'] }) as jwt.JwtPayload;
+      if (decoded.purpose !== MFA_CHALLENGE_PURPOSE || !decoded.sub || !decoded.jti || !decoded.exp) {
+        return null;
+      }
+      return {
+        userId: decoded.sub,
+        deviceFingerprint: decoded.fp,
+        platform: decoded.platform,
+        failedAttempts: typeof decoded.fails === 'number' ? decoded.fails : undefined,
+        tokenId: decoded.jti,
+        expiresAt: new Date(decoded.exp * 1000)
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export default TwoFactorService;
@@ -0,0 +1,363 @@
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+import FileService from './file.service';
+import storageService from './storage.service';
+import SystemSettingsService from './system-settings.service';
+import { normalizeMimeType, verifyFileType } from '../utils/file-type';
+
+export interface InitiateUploadInput {
+  ownerHealthId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  checksum: string;
+  recordId?: string;
+  description?: string;
+  tags?: Prisma.InputJsonValue;
+}
+
+export interface SessionResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  // Returned on 409 so the client can resume from the right place
+  expectedOffset?: number;
+  upload?: Prisma.FileUploadGetPayload<{}>;
+}
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+class ChunkTooLargeError extends Error {}
+
+/**
+ * Resumable uploads for files too large for a single request.
+ *
+ * A session is a FileUpload row in UPLOADING status whose uploadToken must
+ * accompany every chunk. Chunks are appended strictly in order: each one must
+ * start at bytesReceived, and re-sending an already stored chunk is a no-op so
+ * clients can retry after a lost response. On completion the chunks are
+ * streamed into a single blob whose SHA-256 must equal the checksum declared
+ * at initiation and whose content must match the declared, allowed file
+ * type. Sessions idle past UPLOAD_SESSION_TTL_MINUTES are reaped by
+ * FileService.cleanupExpiredUploads.
+ */
+export class UploadSessionService {
+  private static sessionExpiry(): Date {
+    return new Date(Date.now() + runtimeConfig.uploadSessionTtlMinutes * 60 * 1000);
+  }
+
+  static async initiate(input: InitiateUploadInput): Promise<SessionResult> {
+    if (!Number.isInteger(input.fileSize) || input.fileSize <= 0) {
+      return { success: false, status: 400, error: 'fileSize must be a positive integer' };
+    }
+
+    if (input.fileSize > runtimeConfig.uploadSessionMaxBytes) {
+      return {
+        success: false,
+        status: 400,
+        error: `File size exceeds the ${Math.floor(runtimeConfig.uploadSessionMaxBytes / 1024 / 1024)}MB upload limit`
+      };
+    }
+
+    if (!FileService.isAllowedMimeType(input.mimeType)) {
+      return { success: false, status: 400, error: `File type ${input.mimeType} not allowed` };
+    }
+
+    const checksum = input.checksum?.toLowerCase();
+    if (!checksum || !SHA256_PATTERN.test(checksum)) {
+      return { success: false, status: 400, error: 'checksum must be the hex SHA-256 of the complete file' };
+    }
+
+    const upload = await prisma.fileUpload.create({
+      data: {
+        ownerHealthId: input.ownerHealthId,
+        recordId: input.recordId || null,
+        filename: `file-${Date.now()}-${crypto.randomBytes(8).toString('hex')}`,
+        originalName: FileService.sanitizeFilename(input.filename),
+        mimeType: normalizeMimeType(input.mimeType),
+        fileSize: input.fileSize,
+        checksum,
+        uploadToken: crypto.randomBytes(32).toString('hex'),
+        status: 'UPLOADING',
+        description: input.description || null,
+        tags: input.tags ?? Prisma.JsonNull,
+        expiresAt: this.sessionExpiry()
+      }
+    });
+
+    logger.info('Upload session initiated', { uploadId: upload.id, fileSize: upload.fileSize });
+    return { success: true, upload };
+  }
+
+  /**
+   * Load an owner's in-progress session, checking the upload token and expiry
+   */
+  private static async getActiveSession(uploadId: string, ownerHealthId: string, uploadToken?: string): Promise<SessionResult> {
+    const upload = await prisma.fileUpload.findFirst({
+      where: { id: uploadId, ownerHealthId }
+    });
+
+    if (!upload) {
+      return { success: false, status: 404, error: 'Upload session not found' };
+    }
+
+    if (upload.status !== 'UPLOADING') {
+      return { success: false, status: 409, error: `Upload session is ${upload.status.toLowerCase()}` };
+    }
+
+    if (uploadToken !== undefined) {
+      const expected = Buffer.from(upload.uploadToken || '');
+      const provided = Buffer.from(uploadToken);
+      if (expected.length === 0 || expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+        return { success: false, status: 403, error: 'Invalid upload token' };
+      }
+    }
+
+    if (upload.expiresAt && upload.expiresAt < new Date()) {
+      return { success: false, status: 410, error: 'Upload session has expired' };
+    }
+
+    return { success: true, upload };
+  }
+
+  static async getProgress(uploadId: string, ownerHealthId: string) {
+    const upload = await prisma.fileUpload.findFirst({
+      where: { id: uploadId, ownerHealthId },
+      include: { _count: { select: { chunks: true } } }
+    });
+
+    if (!upload) {
+      return null;
+    }
+
+    return {
+      uploadId: upload.id,
+      status: upload.status,
+      filename: upload.originalName,
+      fileSize: upload.fileSize,
+      bytesReceived: upload.bytesReceived,
+      nextOffset: upload.status === 'UPLOADING' ? upload.bytesReceived : null,
+      chunkCount: upload._count.chunks,
+      maxChunkBytes: runtimeConfig.uploadChunkMaxBytes,
+      expiresAt: upload.expiresAt
+    };
+  }
+
+  /**
+   * Store one chunk starting at `offset`. The body is streamed into blob
+   * storage and rejected if it exceeds the chunk limit or the declared size.
+   */
+  static async appendChunk(
+    uploadId: string,
+    ownerHealthId: string,
+    uploadToken: string,
+    offset: number,
+    body: Readable
+  ): Promise<SessionResult> {
+    const session = await this.getActiveSession(uploadId, ownerHealthId, uploadToken);
+    if (!session.success) {
+      return session;
+    }
+    const upload = session.upload!;
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return { success: false, status: 400, error: 'offset must be a non-negative integer' };
+    }
+
+    if (offset < upload.bytesReceived) {
+      // A retry of a chunk we already stored is acknowledged without rewriting it
+      const existing = await prisma.uploadChunk.findUnique({
+        where: { uploadId_offset: { uploadId, offset } }
+      });
+      if (existing) {
+        body.resume();
+        return { success: true, upload };
+      }
+      return { success: false, status: 409, error: 'Chunk offset does not match a stored chunk', expectedOffset: upload.bytesReceived };
+    }
+
+    if (offset > upload.bytesReceived) {
+      return { success: false, status: 409, error: 'Chunks must be uploaded in order', expectedOffset: upload.bytesReceived };
+    }
+
+    const maxBytes = Math.min(runtimeConfig.uploadChunkMaxBytes, upload.fileSize - offset);
+    let received = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > maxBytes) {
+          callback(new ChunkTooLargeError(`Chunk exceeds ${maxBytes} bytes`));
+          return;
+        }
+        callback(null, chunk);
+      }
+    });
+    body.on('error', error => limiter.destroy(error));
+
+    const key = storageService.generateKey();
+    let stored;
+    try {
+      stored = await storageService.put(key, body.pipe(limiter), 'application/octet-stream');
+    } catch (error) {
+      await storageService.delete(key).catch(() => undefined);
+      if (error instanceof ChunkTooLargeError) {
+        return { success: false, status: 413, error: error.message };
+      }
+      throw error;
+    }
+
+    if (stored.size === 0) {
+      await storageService.delete(key);
+      return { success: false, status: 400, error: 'Chunk is empty' };
+    }
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        // Only advance if no other chunk landed at this offset in the meantime
+        const advanced = await tx.fileUpload.updateMany({
+          where: { id: uploadId, status: 'UPLOADING', bytesReceived: offset, uploadToken: { not: null } },
+          data: { bytesReceived: offset + stored.size, expiresAt: this.sessionExpiry() }
+        });
+        if (advanced.count === 0) {
+          return null;
+        }
+
+        await tx.uploadChunk.create({
+          data: { uploadId, offset, size: stored.size, storageKey: key, checksum: stored.checksum }
+        });
+        return tx.fileUpload.findUnique({ where: { id: uploadId } });
+      });
+
+      if (!updated) {
+        await storageService.delete(key);
+        const current = await prisma.fileUpload.findUnique({ where: { id: uploadId } });
+        return { success: false, status: 409, error: 'Chunk offset is no longer current', expectedOffset: current?.bytesReceived };
+      }
+
+      return { success: true, upload: updated };
+    } catch (error) {
+      await storageService.delete(key).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Assemble the chunks into the final blob and verify its SHA-256
+   */
+  static async complete(uploadId: string, ownerHealthId: string, uploadToken: string): Promise<SessionResult> {
+    const session = await this.getActiveSession(uploadId, ownerHealthId, uploadToken);
+    if (!session.success) {
+      return session;
+    }
+    const upload = session.upload!;
+
+    if (upload.bytesReceived !== upload.fileSize) {
+      return {
+        success: false,
+        status: 409,
+        error: `Upload incomplete: received ${upload.bytesReceived} of ${upload.fileSize} bytes`,
+        expectedOffset: upload.bytesReceived
+      };
+    }
+
+    // Clearing the token claims the session, so a concurrent complete or chunk is refused
+    const claimed = await prisma.fileUpload.updateMany({
+      where: { id: uploadId, status: 'UPLOADING', uploadToken: upload.uploadToken },
+      data: { uploadToken: null }
+    });
+    if (claimed.count === 0) {
+      return { success: false, status: 409, error: 'Upload is already being completed' };
+    }
+
+    const chunks = await prisma.uploadChunk.findMany({
+      where: { uploadId },
+      orderBy: { offset: 'asc' }
+    });
+
+    const assembled = Readable.from((async function* () {
+      for (const chunk of chunks) {
+        yield* await storageService.getStream(chunk.storageKey);
+      }
+    })());
+
+    const key = storageService.generateKey();
+    let stored;
+    try {
+      stored = await storageService.put(key, assembled, upload.mimeType);
+    } catch (error) {
+      await storageService.delete(key).catch(() => undefined);
+      await this.discard(uploadId, 'FAILED');
+      throw error;
+    }
+
+    if (stored.size !== upload.fileSize || stored.checksum !== upload.checksum) {
+      await storageService.delete(key).catch(() => undefined);
+      await this.discard(uploadId, 'FAILED');
+      logger.warn('Upload checksum verification failed', { uploadId, expected: upload.checksum, actual: stored.checksum });
+      return { success: false, status: 422, error: 'Checksum mismatch: the assembled file does not match the declared SHA-256' };
+    }
+
+    const fileType = verifyFileType(stored.head, upload.mimeType, SystemSettingsService.getAllowedFileTypes());
+    if (!fileType.valid) {
+      await storageService.delete(key).catch(() => undefined);
+      await this.discard(uploadId, 'FAILED');
+      return { success: false, status: 400, error: fileType.error };
+    }
+
+    const completed = await prisma.fileUpload.update({
+      where: { id: uploadId },
+      data: {
+        status: 'COMPLETED',
+        mimeType: fileType.mimeType,
+        storageKey: key,
+        storageDriver: storageService.getDriverName(),
+        uploadedAt: new Date(),
+        expiresAt: null
+      }
+    });
+
+    await this.removeChunks(uploadId);
+
+    logger.info('Upload session completed', { uploadId, fileSize: completed.fileSize, chunks: chunks.length });
+    return { success: true, upload: completed };
+  }
+
+  static async abort(uploadId: string, ownerHealthId: string, uploadToken: string): Promise<SessionResult> {
+    const session = await this.getActiveSession(uploadId, ownerHealthId, uploadToken);
+    if (!session.success && session.status !== 410) {
+      return session;
+    }
+
+    await this.discard(uploadId, 'FAILED');
+    return { success: true };
+  }
+
+  /**
+   * Close a session and drop its chunks
+   */
+  static async discard(uploadId: string, status: 'FAILED' | 'EXPIRED'): Promise<void> {
+    await prisma.fileUpload.update({
+      where: { id: uploadId },
+      data: { status, uploadToken: null, expiresAt: null }
+    });
+    await this.removeChunks(uploadId);
+  }
+
+  private static async removeChunks(uploadId: string): Promise<void> {
+    const chunks = await prisma.uploadChunk.findMany({ where: { uploadId } });
+
+    for (const chunk of chunks) {
+      await storageService.delete(chunk.storageKey).catch(error =>
+        logger.warn('Failed to remove upload chunk from storage', { uploadId, key: chunk.storageKey, error })
+      );
+    }
+
+    await prisma.uploadChunk.deleteMany({ where: { uploadId } });
+  }
+}
+
+export default UploadSessionService;
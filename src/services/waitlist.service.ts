@@ -0,0 +1,407 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+import AvailabilityService from './availability.service';
+import NotificationService from './notification.service';
+
+export interface JoinWaitlistInput {
+  patientId: string;
+  doctorId: string;
+  preferredFrom: Date;
+  preferredTo: Date;
+  duration?: number;
+  reasonForVisit?: string;
+  appointmentType?: string;
+}
+
+export interface FreedSlot {
+  doctorId: string;
+  start: Date;
+  duration: number;
+  sourceAppointmentId: string;
+  // The patient who vacated the slot is never offered it back
+  excludePatientId?: string;
+}
+
+export interface ClaimResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  appointment?: Prisma.AppointmentGetPayload<{}>;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Per-doctor appointment waitlist.
+ *
+ * When a slot is freed (cancellation or rejection) it is offered to the oldest
+ * waiting entry whose preferred range covers it. The offer holds for
+ * WAITLIST_CLAIM_MINUTES; if it is declined or lapses, the same slot falls
+ * through to the next entry that has not been offered it yet.
+ */
+export class WaitlistService {
+  static async joinWaitlist(input: JoinWaitlistInput) {
+    return prisma.appointmentWaitlistEntry.create({
+      data: {
+        patientId: input.patientId,
+        doctorId: input.doctorId,
+        preferredFrom: input.preferredFrom,
+        preferredTo: input.preferredTo,
+        duration: input.duration ?? 30,
+        reasonForVisit: input.reasonForVisit,
+        appointmentType: input.appointmentType
+      }
+    });
+  }
+
+  static async getPatientEntries(patientId: string) {
+    return prisma.appointmentWaitlistEntry.findMany({
+      where: { patientId },
+      include: {
+        // Offers past their deadline are lapsed by the scheduler job; hide them until then
+        offers: {
+          where: { status: 'PENDING', expiresAt: { gt: new Date() } },
+          orderBy: { createdAt: 'desc' }
+        },
+        doctor: {
+          select: {
+            healthId: true,
+            healthProfile: { select: { firstName: true, lastName: true, displayName: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  static async getDoctorQueue(doctorId: string) {
+    return prisma.appointmentWaitlistEntry.findMany({
+      where: { doctorId, status: { in: ['WAITING', 'OFFERED'] } },
+      include: {
+        patient: {
+          select: {
+            healthId: true,
+            healthProfile: { select: { firstName: true, lastName: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Leave the waitlist; any pending offer is released to the next patient
+   */
+  static async leaveWaitlist(patientId: string, entryId: string): Promise<boolean> {
+    const entry = await prisma.appointmentWaitlistEntry.findFirst({
+      where: { id: entryId, patientId, status: { in: ['WAITING', 'OFFERED'] } },
+      include: { offers: { where: { status: 'PENDING' } } }
+    });
+
+    if (!entry) {
+      return false;
+    }
+
+    await prisma.$transaction([
+      prisma.waitlistOffer.updateMany({
+        where: { entryId, status: 'PENDING' },
+        data: { status: 'DECLINED', respondedAt: new Date() }
+      }),
+      prisma.appointmentWaitlistEntry.update({
+        where: { id: entryId },
+        data: { status: 'CANCELLED' }
+      })
+    ]);
+
+    for (const offer of entry.offers) {
+      await this.offerToNext(offer);
+    }
+
+    return true;
+  }
+
+  /**
+   * Offer a freed slot to the next eligible waitlisted patient.
+   * Returns the created offer, or null when nobody is eligible or the slot is no longer free.
+   */
+  static async offerSlot(slot: FreedSlot) {
+    try {
+      if (slot.start <= new Date()) {
+        return null;
+      }
+
+      const slotEnd = new Date(slot.start.getTime() + slot.duration * MINUTE_MS);
+
+      const conflicting = await AvailabilityService.findConflictingAppointment(
+        slot.doctorId,
+        slot.start,
+        slot.duration
+      );
+      if (conflicting) {
+        return null;
+      }
+
+      // Patients who were already offered this exact slot are skipped
+      const previousOffers = await prisma.waitlistOffer.findMany({
+        where: { doctorId: slot.doctorId, slotStart: slot.start },
+        select: { entryId: true }
+      });
+
+      const candidates = await prisma.appointmentWaitlistEntry.findMany({
+        where: {
+          doctorId: slot.doctorId,
+          status: 'WAITING',
+          preferredFrom: { lte: slot.start },
+          preferredTo: { gte: slotEnd },
+          duration: { lte: slot.duration },
+          id: { notIn: previousOffers.map(offer => offer.entryId) },
+          ...(slot.excludePatientId && { patientId: { not: slot.excludePatientId } })
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      for (const candidate of candidates) {
+        const expiresAt = new Date(Date.now() + runtimeConfig.waitlistClaimMinutes * MINUTE_MS);
+
+        const offer = await prisma.$transaction(async (tx) => {
+          // Guard against the entry being offered another slot concurrently
+          const claimed = await tx.appointmentWaitlistEntry.updateMany({
+            where: { id: candidate.id, status: 'WAITING' },
+            data: { status: 'OFFERED' }
+          });
+          if (claimed.count === 0) {
+            return null;
+          }
+
+          return tx.waitlistOffer.create({
+            data: {
+              entryId: candidate.id,
+              doctorId: slot.doctorId,
+              slotStart: slot.start,
+              duration: slot.duration,
+              sourceAppointmentId: slot.sourceAppointmentId,
+              excludePatientId: slot.excludePatientId,
+              expiresAt
+            }
+          });
+        });
+
+        if (!offer) {
+          continue;
+        }
+
+        await NotificationService.createNotification({
+          appointmentId: slot.sourceAppointmentId,
+          recipientId: candidate.patientId,
+          type: 'WAITLIST_SLOT_OFFERED',
+          message: `An appointment slot on ${slot.start.toLocaleString()} is now available. Claim it before ${expiresAt.toLocaleString()} or it will be offered to the next patient.`
+        }, true);
+
+        logger.info('Waitlist slot offered', {
+          offerId: offer.id,
+          entryId: candidate.id,
+          doctorId: slot.doctorId,
+          slotStart: slot.start
+        });
+
+        return offer;
+      }
+
+      return null;
+    } catch (error) {
+      // Backfill is best-effort and must never fail the cancellation that triggered it
+      logger.error('Error offering waitlist slot', { error, doctorId: slot.doctorId, slotStart: slot.start });
+      return null;
+    }
+  }
+
+  /**
+   * Offer the slot freed by a cancelled or rejected appointment
+   */
+  static async backfillFromAppointment(appointment: {
+    id: string;
+    doctorId: string;
+    patientId: string;
+    requestedTime: Date;
+    duration: number | null;
+  }) {
+    return this.offerSlot({
+      doctorId: appointment.doctorId,
+      start: appointment.requestedTime,
+      duration: appointment.duration || 30,
+      sourceAppointmentId: appointment.id,
+      excludePatientId: appointment.patientId
+    });
+  }
+
+  private static async offerToNext(offer: {
+    doctorId: string;
+    slotStart: Date;
+    duration: number;
+    sourceAppointmentId: string;
+    excludePatientId: string | null;
+  }) {
+    return this.offerSlot({
+      doctorId: offer.doctorId,
+      start: offer.slotStart,
+      duration: offer.duration,
+      sourceAppointmentId: offer.sourceAppointmentId,
+      excludePatientId: offer.excludePatientId ?? undefined
+    });
+  }
+
+  /**
+   * Claim a pending offer: books the slot for the waitlisted patient
+   */
+  static async claimOffer(patientId: string, offerId: string): Promise<ClaimResult> {
+    const offer = await prisma.waitlistOffer.findUnique({
+      where: { id: offerId },
+      include: { entry: true }
+    });
+
+    if (!offer || offer.entry.patientId !== patientId) {
+      return { success: false, status: 404, error: 'Waitlist offer not found' };
+    }
+
+    if (offer.status !== 'PENDING') {
+      return { success: false, status: 400, error: `Offer is no longer available (${offer.status})` };
+    }
+
+    if (offer.expiresAt <= new Date()) {
+      await this.expireOffer(offer);
+      return { success: false, status: 410, error: 'Offer has expired' };
+    }
+
+    const conflicting = await AvailabilityService.findConflictingAppointment(
+      offer.doctorId,
+      offer.slotStart,
+      offer.entry.duration
+    );
+    if (conflicting) {
+      await this.expireOffer(offer);
+      return { success: false, status: 409, error: 'Slot has already been booked' };
+    }
+
+    const appointment = await prisma.$transaction(async (tx) => {
+      const updated = await tx.waitlistOffer.updateMany({
+        where: { id: offerId, status: 'PENDING' },
+        data: { status: 'CLAIMED', respondedAt: new Date() }
+      });
+      if (updated.count === 0) {
+        return null;
+      }
+
+      const created = await tx.appointment.create({
+        data: {
+          patientId,
+          doctorId: offer.doctorId,
+          requestedTime: offer.slotStart,
+          duration: offer.entry.duration,
+          reasonForVisit: offer.entry.reasonForVisit,
+          appointmentType: offer.entry.appointmentType ?? 'consultation',
+          status: 'PENDING'
+        }
+      });
+
+      await tx.appointmentWaitlistEntry.update({
+        where: { id: offer.entryId },
+        data: { status: 'BOOKED', bookedAppointmentId: created.id }
+      });
+
+      return created;
+    });
+
+    if (!appointment) {
+      return { success: false, status: 400, error: 'Offer is no longer available' };
+    }
+
+    logger.info('Waitlist offer claimed', { offerId, appointmentId: appointment.id });
+    return { success: true, appointment };
+  }
+
+  /**
+   * Decline a pending offer and pass the slot on
+   */
+  static async declineOffer(patientId: string, offerId: string): Promise<boolean> {
+    const offer = await prisma.waitlistOffer.findUnique({
+      where: { id: offerId },
+      include: { entry: true }
+    });
+
+    if (!offer || offer.entry.patientId !== patientId || offer.status !== 'PENDING') {
+      return false;
+    }
+
+    await prisma.$transaction([
+      prisma.waitlistOffer.update({
+        where: { id: offerId },
+        data: { status: 'DECLINED', respondedAt: new Date() }
+      }),
+      prisma.appointmentWaitlistEntry.updateMany({
+        where: { id: offer.entryId, status: 'OFFERED' },
+        data: { status: 'WAITING' }
+      })
+    ]);
+
+    await this.offerToNext(offer);
+    return true;
+  }
+
+  private static async expireOffer(offer: {
+    id: string;
+    entryId: string;
+    doctorId: string;
+    slotStart: Date;
+    duration: number;
+    sourceAppointmentId: string;
+    excludePatientId: string | null;
+  }) {
+    const expired = await prisma.waitlistOffer.updateMany({
+      where: { id: offer.id, status: 'PENDING' },
+      data: { status: 'EXPIRED' }
+    });
+
+    if (expired.count === 0) {
+      return;
+    }
+
+    await prisma.appointmentWaitlistEntry.updateMany({
+      where: { id: offer.entryId, status: 'OFFERED' },
+      data: { status: 'WAITING' }
+    });
+
+    await this.offerToNext(offer);
+  }
+
+  /**
+   * Lapse unclaimed offers (falling through to the next patient) and close
+   * entries whose preferred range has passed.
+   * Run by the waitlist.process-expired-offers job; errors propagate so the
+   * run is recorded as failed and retried.
+   */
+  static async processExpiredOffers(): Promise<{ expiredOffers: number; expiredEntries: number }> {
+    const now = new Date();
+    const lapsed = await prisma.waitlistOffer.findMany({
+      where: { status: 'PENDING', expiresAt: { lte: now } }
+    });
+
+    for (const offer of lapsed) {
+      await this.expireOffer(offer);
+    }
+
+    const entries = await prisma.appointmentWaitlistEntry.updateMany({
+      where: { status: 'WAITING', preferredTo: { lte: now } },
+      data: { status: 'EXPIRED' }
+    });
+
+    if (lapsed.length > 0 || entries.count > 0) {
+      logger.info('Processed waitlist expiry', { expiredOffers: lapsed.length, expiredEntries: entries.count });
+    }
+
+    return { expiredOffers: lapsed.length, expiredEntries: entries.count };
+  }
+}
+
+export default WaitlistService;
@@ -0,0 +1,351 @@
+import {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  RegistrationResponseJSON,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse
+} from '@simplewebauthn/server';
+import prisma from '../utils/prisma';
+import logger from '../utils/logger';
+import runtimeConfig from '../config/runtime-config';
+import NotificationService from './notification.service';
+
+type Ceremony = 'registration' | 'authentication';
+
+export interface PasskeyResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  userId?: string;
+  credential?: PasskeySummary;
+}
+
+export interface PasskeySummary {
+  id: string;
+  deviceName: string;
+  deviceType: string;
+  backedUp: boolean;
+  transports: string[];
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+const summarySelect = {
+  id: true,
+  deviceName: true,
+  deviceType: true,
+  backedUp: true,
+  transports: true,
+  lastUsedAt: true,
+  createdAt: true
+} as const;
+
+// The challenge we issued is echoed back inside clientDataJSON
+const readChallenge = (response: { response?: { clientDataJSON?: string } }): string | null => {
+  try {
+    const clientData = JSON.parse(Buffer.from(response.response!.clientDataJSON!, 'base64url').toString('utf8'));
+    return typeof clientData.challenge === 'string' ? clientData.challenge : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Passkeys (WebAuthn) for passwordless login and as a second factor.
+ * Challenges are stored server-side and can only be used once.
+ */
+export class WebAuthnService {
+  private static async storeChallenge(ceremony: Ceremony, challenge: string, userId: string | null): Promise<void> {
+    const now = new Date();
+
+    await prisma.webAuthnChallenge.deleteMany({ where: { expiresAt: { lt: now } } });
+    await prisma.webAuthnChallenge.create({
+      data: {
+        challenge,
+        ceremony,
+        userId,
+        expiresAt: new Date(now.getTime() + runtimeConfig.webauthnChallengeExpirySeconds * 1000)
+      }
+    });
+  }
+
+  /**
+   * Claim the challenge a response was signed over. Returns null when it was
+   * never issued for this ceremony and user, has expired or was already used.
+   */
+  private static async consumeChallenge(
+    ceremony: Ceremony,
+    response: { response?: { clientDataJSON?: string } },
+    userId: string | null
+  ): Promise<string | null> {
+    const challenge = readChallenge(response);
+    if (!challenge) {
+      return null;
+    }
+
+    const claimed = await prisma.webAuthnChallenge.deleteMany({
+      where: { challenge, ceremony, userId, expiresAt: { gt: new Date() } }
+    });
+
+    return claimed.count === 1 ? challenge : null;
+  }
+
+  static async listCredentials(userId: string): Promise<PasskeySummary[]> {
+    return prisma.webAuthnCredential.findMany({
+      where: { userId },
+      select: summarySelect,
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Whether the user has passkeys, and whether their settings make a passkey
+   * the only accepted second factor
+   */
+  static async getLoginRequirement(userId: string) {
+    const [count, settings] = await Promise.all([
+      prisma.webAuthnCredential.count({ where: { userId } }),
+      prisma.securitySettings.findUnique({ where: { userId }, select: { requireBiometric: true } })
+    ]);
+
+    return {
+      registered: count > 0,
+      required: count > 0 && Boolean(settings?.requireBiometric)
+    };
+  }
+
+  static async registrationOptions(user: { healthId: string; email: string | null }) {
+    const existing = await prisma.webAuthnCredential.findMany({
+      where: { userId: user.healthId },
+      select: { credentialId: true, transports: true }
+    });
+
+    const options = await generateRegistrationOptions({
+      rpName: runtimeConfig.webauthnRpName,
+      rpID: runtimeConfig.webauthnRpId,
+      userID: Buffer.from(user.healthId, 'utf8'),
+      userName: user.email || user.healthId,
+      userDisplayName: user.email || user.healthId,
+      timeout: runtimeConfig.webauthnChallengeExpirySeconds * 1000,
+      attestationType: 'none',
+      excludeCredentials: existing.map(credential => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[]
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred'
+      }
+    });
+
+    await this.storeChallenge('registration', options.challenge, user.healthId);
+    return options;
+  }
+
+  static async register(userId: string, response: RegistrationResponseJSON, deviceName: string): Promise<PasskeyResult> {
+    const expectedChallenge = await this.consumeChallenge('registration', response, userId);
+    if (!expectedChallenge) {
+      return { success: false, status: 400, error: 'Registration challenge expired or already used' };
+    }
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: runtimeConfig.webauthnOrigins,
+        expectedRPID: runtimeConfig.webauthnRpId,
+        requireUserVerification: false
+      });
+    } catch (error) {
+      logger.warn('Passkey registration rejected', { userId, error: (error as Error).message });
+      return { success: false, status: 400, error: 'Passkey could not be verified' };
+    }
+
+    if (!verification.verified) {
+      return { success: false, status: 400, error: 'Passkey could not be verified' };
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp, aaguid } = verification.registrationInfo;
+
+    const duplicate = await prisma.webAuthnCredential.findUnique({ where: { credentialId: credential.id } });
+    if (duplicate) {
+      return { success: false, status: 409, error: 'This passkey is already registered' };
+    }
+
+    const created = await prisma.webAuthnCredential.create({
+      data: {
+        userId,
+        credentialId: credential.id,
+        publicKey: Buffer.from(credential.publicKey),
+        counter: BigInt(credential.counter),
+        transports: credential.transports ?? [],
+        deviceName,
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        aaguid
+      },
+      select: summarySelect
+    });
+
+    await NotificationService.notify({
+      recipientId: userId,
+      category: 'SECURITY',
+      priority: 'HIGH',
+      title: 'New passkey added',
+      message: `A passkey named "${deviceName}" can now be used to sign in to your CuraNet account. If this wasn't you, remove it from your security settings.`,
+      resourceType: 'WebAuthnCredential',
+      resourceId: created.id
+    });
+
+    logger.info('Passkey registered', { userId, passkeyId: created.id });
+    return { success: true, credential: created };
+  }
+
+  /**
+   * Options for an assertion. With a userId the browser is limited to that
+   * user's passkeys (second factor); without one any discoverable passkey for
+   * this site can answer (passwordless login).
+   */
+  static async authenticationOptions(userId: string | null, userVerification: 'required' | 'preferred') {
+    const allowCredentials = userId
+      ? await prisma.webAuthnCredential.findMany({
+          where: { userId },
+          select: { credentialId: true, transports: true }
+        })
+      : [];
+
+    const options = await generateAuthenticationOptions({
+      rpID: runtimeConfig.webauthnRpId,
+      timeout: runtimeConfig.webauthnChallengeExpirySeconds * 1000,
+      userVerification,
+      allowCredentials: allowCredentials.map(credential => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[]
+      }))
+    });
+
+    await this.storeChallenge('authentication', options.challenge, userId);
+    return options;
+  }
+
+  static async authenticate(params: {
+    response: AuthenticationResponseJSON;
+    userId: string | null;
+    requireUserVerification: boolean;
+  }): Promise<PasskeyResult> {
+    const expectedChallenge = await this.consumeChallenge('authentication', params.response, params.userId);
+    if (!expectedChallenge) {
+      return { success: false, status: 401, error: 'Passkey challenge expired or already used' };
+    }
+
+    const stored = await prisma.webAuthnCredential.findUnique({ where: { credentialId: params.response.id } });
+    if (!stored || (params.userId && stored.userId !== params.userId)) {
+      return { success: false, status: 401, error: 'Passkey not recognised' };
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response: params.response,
+        expectedChallenge,
+        expectedOrigin: runtimeConfig.webauthnOrigins,
+        expectedRPID: runtimeConfig.webauthnRpId,
+        requireUserVerification: params.requireUserVerification,
+        credential: {
+          id: stored.credentialId,
+          publicKey: new Uint8Array(stored.publicKey),
+          counter: Number(stored.counter),
+          transports: stored.transports as AuthenticatorTransportFuture[]
+        }
+      });
+    } catch (error) {
+      logger.warn('Passkey assertion rejected', { passkeyId: stored.id, error: (error as Error).message });
+      return { success: false, status: 401, error: 'Passkey could not be verified' };
+    }
+
+    if (!verification.verified) {
+      return { success: false, status: 401, error: 'Passkey could not be verified' };
+    }
+
+    await prisma.webAuthnCredential.update({
+      where: { id: stored.id },
+      data: {
+        counter: BigInt(verification.authenticationInfo.newCounter),
+        backedUp: verification.authenticationInfo.credentialBackedUp,
+        lastUsedAt: new Date()
+      }
+    });
+
+    return { success: true, userId: stored.userId };
+  }
+
+  static async rename(userId: string, passkeyId: string, deviceName: string): Promise<PasskeyResult> {
+    const updated = await prisma.webAuthnCredential.updateMany({
+      where: { id: passkeyId, userId },
+      data: { deviceName }
+    });
+
+    if (updated.count === 0) {
+      return { success: false, status: 404, error: 'Passkey not found' };
+    }
+
+    const credential = await prisma.webAuthnCredential.findUnique({ where: { id: passkeyId }, select: summarySelect });
+    return { success: true, credential: credential! };
+  }
+
+  /**
+   * Removing the last passkey also switches off requireBiometric so the user
+   * is not locked out
+   */
+  static async remove(userId: string, passkeyId: string): Promise<PasskeyResult> {
+    const credential = await prisma.webAuthnCredential.findFirst({
+      where: { id: passkeyId, userId },
+      select: summarySelect
+    });
+
+    if (!credential) {
+      return { success: false, status: 404, error: 'Passkey not found' };
+    }
+
+    await prisma.webAuthnCredential.delete({ where: { id: passkeyId } });
+
+    const remaining = await prisma.webAuthnCredential.count({ where: { userId } });
+    if (remaining === 0) {
+      await prisma.securitySettings.updateMany({
+        where: { userId, requireBiometric: true },
+        data: { requireBiometric: false }
+      });
+    }
+
+    await NotificationService.notify({
+      recipientId: userId,
+      category: 'SECURITY',
+      title: 'Passkey removed',
+      message: `The passkey "${credential.deviceName}" can no longer be used to sign in to your CuraNet account.`
+    });
+
+    return { success: true, credential };
+  }
+
+  static async setRequired(userId: string, required: boolean): Promise<PasskeyResult> {
+    if (required) {
+      const count = await prisma.webAuthnCredential.count({ where: { userId } });
+      if (count === 0) {
+        return { success: false, status: 400, error: 'Register a passkey before requiring one' };
+      }
+    }
+
+    await prisma.securitySettings.upsert({
+      where: { userId },
+      create: { userId, requireBiometric: required },
+      update: { requireBiometric: required }
+    });
+
+    return { success: true };
+  }
+}
+
+export default WebAuthnService;
@@ -13,6 +13,8 @@ declare namespace NodeJS {
     JWT_SECRET?: string;
     JWT_REFRESH_SECRET?: string;
     PASSWORD_PEPPER?: string;
+    FILE_LINK_SECRET?: string;
+    TOTP_ENCRYPTION_KEY?: string;
     
     // CORS & URLs
     CORS_ORIGIN?: string;
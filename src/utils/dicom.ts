@@ -0,0 +1,272 @@
+/**
+ * Minimal DICOM Part 10 header reader. Walks the data set up to the end of
+ * group 0020 and extracts the identifiers needed to index an instance into
+ * study/series/instance; pixel data is never read.
+ */
+
+export interface DicomMetadata {
+  transferSyntaxUid: string | null;
+  sopClassUid: string | null;
+  sopInstanceUid: string;
+  studyInstanceUid: string;
+  seriesInstanceUid: string;
+  modality: string | null;
+  bodyPartExamined: string | null;
+  studyDate: Date | null;
+  studyDescription: string | null;
+  seriesDescription: string | null;
+  seriesNumber: number | null;
+  instanceNumber: number | null;
+  accessionNumber: string | null;
+  patientId: string | null;
+  patientName: string | null;
+}
+
+export class DicomParseError extends Error {}
+
+// Raised when the buffer ends mid-element; a header cut off after the tags we need is still usable
+class TruncatedError extends DicomParseError {}
+
+const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+const EXPLICIT_VR_BIG_ENDIAN = '1.2.840.10008.1.2.2';
+const DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1.99';
+
+// VRs whose explicit encoding has two reserved bytes and a 32-bit length
+const LONG_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+const UNDEFINED_LENGTH = 0xffffffff;
+
+const ITEM = 0xfffee000;
+const ITEM_DELIMITER = 0xfffee00d;
+const SEQUENCE_DELIMITER = 0xfffee0dd;
+
+const TAGS = {
+  transferSyntaxUid: 0x00020010,
+  sopClassUid: 0x00080016,
+  sopInstanceUid: 0x00080018,
+  studyDate: 0x00080020,
+  accessionNumber: 0x00080050,
+  modality: 0x00080060,
+  studyDescription: 0x00081030,
+  seriesDescription: 0x0008103e,
+  patientName: 0x00100010,
+  patientId: 0x00100020,
+  bodyPartExamined: 0x00180015,
+  studyInstanceUid: 0x0020000d,
+  seriesInstanceUid: 0x0020000e,
+  seriesNumber: 0x00200011,
+  instanceNumber: 0x00200013
+};
+const LAST_TAG_OF_INTEREST = 0x0020ffff;
+
+interface Encoding {
+  explicit: boolean;
+  littleEndian: boolean;
+}
+
+class Reader {
+  constructor(private readonly buffer: Buffer, public offset: number) {}
+
+  get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  ensure(bytes: number): void {
+    if (this.remaining < bytes) {
+      throw new TruncatedError('DICOM header is truncated');
+    }
+  }
+
+  uint16(littleEndian: boolean): number {
+    this.ensure(2);
+    const value = littleEndian ? this.buffer.readUInt16LE(this.offset) : this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(littleEndian: boolean): number {
+    this.ensure(4);
+    const value = littleEndian ? this.buffer.readUInt32LE(this.offset) : this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  text(length: number): string {
+    this.ensure(length);
+    const value = this.buffer.toString('latin1', this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  skip(length: number): void {
+    this.ensure(length);
+    this.offset += length;
+  }
+}
+
+interface ElementHeader {
+  tag: number;
+  vr: string | null;
+  length: number;
+}
+
+const readElementHeader = (reader: Reader, encoding: Encoding): ElementHeader => {
+  const group = reader.uint16(encoding.littleEndian);
+  const element = reader.uint16(encoding.littleEndian);
+  const tag = ((group << 16) | element) >>> 0;
+
+  // Item and delimiter tags never carry a VR
+  if (group === 0xfffe || !encoding.explicit) {
+    return { tag, vr: null, length: reader.uint32(encoding.littleEndian) };
+  }
+
+  const vr = reader.text(2);
+  if (LONG_VRS.has(vr)) {
+    reader.skip(2);
+    return { tag, vr, length: reader.uint32(encoding.littleEndian) };
+  }
+  return { tag, vr, length: reader.uint16(encoding.littleEndian) };
+};
+
+/**
+ * Skip an element of undefined length: a sequence of items or encapsulated
+ * data, ended by a sequence delimiter
+ */
+const skipUndefinedLength = (reader: Reader, encoding: Encoding): void => {
+  for (;;) {
+    const header = readElementHeader(reader, encoding);
+
+    if (header.tag === SEQUENCE_DELIMITER) {
+      return;
+    }
+
+    if (header.tag !== ITEM) {
+      throw new DicomParseError('Malformed DICOM sequence');
+    }
+
+    if (header.length !== UNDEFINED_LENGTH) {
+      reader.skip(header.length);
+      continue;
+    }
+
+    // Item of undefined length: walk its elements until the item delimiter
+    for (;;) {
+      const inner = readElementHeader(reader, encoding);
+      if (inner.tag === ITEM_DELIMITER) {
+        break;
+      }
+      if (inner.length === UNDEFINED_LENGTH) {
+        skipUndefinedLength(reader, encoding);
+      } else {
+        reader.skip(inner.length);
+      }
+    }
+  }
+};
+
+const cleanText = (value: string | undefined): string | null => {
+  const trimmed = value?.replace(/[\0\s]+$/, '').trim();
+  return trimmed ? trimmed : null;
+};
+
+const parseInteger = (value: string | undefined): number | null => {
+  const parsed = Number.parseInt(cleanText(value) ?? '', 10);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// DA values are YYYYMMDD (older files may use YYYY.MM.DD)
+const parseDate = (value: string | undefined): Date | null => {
+  const match = cleanText(value)?.replace(/\./g, '').match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parse the header of a DICOM Part 10 file. `buffer` only needs to hold the
+ * start of the file up to the end of group 0020.
+ */
+export const parseDicomHeader = (buffer: Buffer): DicomMetadata => {
+  if (buffer.length < 132 || buffer.toString('latin1', 128, 132) !== 'DICM') {
+    throw new DicomParseError('Not a DICOM Part 10 file');
+  }
+
+  const values = new Map<number, string>();
+  const wanted = new Set(Object.values(TAGS));
+  const reader = new Reader(buffer, 132);
+
+  // File meta information is always explicit VR little endian
+  let encoding: Encoding = { explicit: true, littleEndian: true };
+  let inMetaGroup = true;
+  let truncated = false;
+
+  while (reader.remaining > 0) {
+    try {
+      const start = reader.offset;
+      const group = reader.uint16(true);
+      reader.offset = start;
+
+      if (inMetaGroup && group !== 0x0002) {
+        inMetaGroup = false;
+        const transferSyntax = cleanText(values.get(TAGS.transferSyntaxUid));
+        if (transferSyntax === DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN) {
+          throw new DicomParseError('Deflated DICOM transfer syntax is not supported');
+        }
+        encoding = {
+          explicit: transferSyntax !== IMPLICIT_VR_LITTLE_ENDIAN,
+          littleEndian: transferSyntax !== EXPLICIT_VR_BIG_ENDIAN
+        };
+      }
+
+      const header = readElementHeader(reader, encoding);
+
+      if (header.tag > LAST_TAG_OF_INTEREST) {
+        break;
+      }
+
+      if (header.length === UNDEFINED_LENGTH) {
+        skipUndefinedLength(reader, encoding);
+      } else if (wanted.has(header.tag) && header.vr !== 'SQ') {
+        values.set(header.tag, reader.text(header.length));
+      } else {
+        reader.skip(header.length);
+      }
+    } catch (error) {
+      if (error instanceof TruncatedError) {
+        truncated = true;
+        break;
+      }
+      throw error;
+    }
+  }
+
+  const sopInstanceUid = cleanText(values.get(TAGS.sopInstanceUid));
+  const studyInstanceUid = cleanText(values.get(TAGS.studyInstanceUid));
+  const seriesInstanceUid = cleanText(values.get(TAGS.seriesInstanceUid));
+
+  if (!sopInstanceUid || !studyInstanceUid || !seriesInstanceUid) {
+    throw new DicomParseError(truncated
+      ? 'DICOM header is truncated or larger than the supported size'
+      : 'DICOM file is missing study, series or SOP instance UID');
+  }
+
+  return {
+    transferSyntaxUid: cleanText(values.get(TAGS.transferSyntaxUid)),
+    sopClassUid: cleanText(values.get(TAGS.sopClassUid)),
+    sopInstanceUid,
+    studyInstanceUid,
+    seriesInstanceUid,
+    modality: cleanText(values.get(TAGS.modality))?.toUpperCase() ?? null,
+    bodyPartExamined: cleanText(values.get(TAGS.bodyPartExamined))?.toUpperCase() ?? null,
+    studyDate: parseDate(values.get(TAGS.studyDate)),
+    studyDescription: cleanText(values.get(TAGS.studyDescription)),
+    seriesDescription: cleanText(values.get(TAGS.seriesDescription)),
+    seriesNumber: parseInteger(values.get(TAGS.seriesNumber)),
+    instanceNumber: parseInteger(values.get(TAGS.instanceNumber)),
+    accessionNumber: cleanText(values.get(TAGS.accessionNumber)),
+    patientId: cleanText(values.get(TAGS.patientId)),
+    // PN components are separated by carets: Family^Given^Middle
+    patientName: cleanText(values.get(TAGS.patientName))?.split('^').filter(Boolean).join(' ') ?? null
+  };
+};
@@ -0,0 +1,127 @@
+/**
+ * Content-based file type detection. Uploads are identified from their
+ * leading bytes rather than the client-declared MIME type, which is only used
+ * to pick between formats that share a container (e.g. .doc vs .xls).
+ */
+
+// Bytes of the file needed to identify every supported format (DICOM's magic sits at offset 128)
+export const SNIFF_BYTES = 4100;
+
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png',
+  'application/x-pdf': 'application/pdf',
+  'application/dicom+json': 'application/dicom',
+  'text/x-markdown': 'text/markdown',
+  'application/csv': 'text/csv'
+};
+
+// Formats that share a container and can only be told apart by their internal structure
+const OLE2_TYPES = ['application/msword', 'application/vnd.ms-excel'];
+const OOXML_TYPES = [
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+const TEXT_TYPES = ['text/plain', 'text/csv', 'text/markdown'];
+
+/**
+ * Every type the sniffer can verify; the admin allow-list must be a subset
+ */
+export const SUPPORTED_FILE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/tiff',
+  'application/pdf',
+  'application/dicom',
+  ...OLE2_TYPES,
+  ...OOXML_TYPES,
+  ...TEXT_TYPES
+];
+
+export const normalizeMimeType = (mimeType: string): string => {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] ?? base;
+};
+
+const startsWith = (head: Buffer, signature: number[] | string, offset = 0): boolean => {
+  const bytes = typeof signature === 'string' ? Buffer.from(signature, 'latin1') : Buffer.from(signature);
+  return head.length >= offset + bytes.length && head.subarray(offset, offset + bytes.length).equals(bytes);
+};
+
+/**
+ * Text files have no signature, so accept content that is valid UTF-8 with no
+ * NUL bytes. The sample may end mid-character, which is tolerated.
+ */
+const looksLikeText = (head: Buffer): boolean => {
+  if (head.length === 0 || head.includes(0)) {
+    return false;
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(head);
+    return true;
+  } catch {
+    // Retry without a possibly truncated trailing multi-byte sequence
+    for (let trim = 1; trim <= 3 && trim < head.length; trim++) {
+      try {
+        new TextDecoder('utf-8', { fatal: true }).decode(head.subarray(0, head.length - trim));
+        return true;
+      } catch {
+        continue;
+      }
+    }
+    return false;
+  }
+};
+
+/**
+ * Identify the format family from magic bytes. Container formats return every
+ * type they may hold; unrecognised binary content returns an empty list.
+ */
+export const detectFileTypes = (head: Buffer): string[] => {
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return ['image/jpeg'];
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return ['image/png'];
+  if (startsWith(head, 'GIF87a') || startsWith(head, 'GIF89a')) return ['image/gif'];
+  if (startsWith(head, 'RIFF') && startsWith(head, 'WEBP', 8)) return ['image/webp'];
+  if (startsWith(head, [0x49, 0x49, 0x2a, 0x00]) || startsWith(head, [0x4d, 0x4d, 0x00, 0x2a])) return ['image/tiff'];
+  if (startsWith(head, '%PDF-')) return ['application/pdf'];
+  if (startsWith(head, 'DICM', 128)) return ['application/dicom'];
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return OLE2_TYPES;
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) return OOXML_TYPES;
+  if (looksLikeText(head)) return TEXT_TYPES;
+  return [];
+};
+
+export interface FileTypeCheck {
+  valid: boolean;
+  // Type to record for the file; the declared type when the content confirms it
+  mimeType?: string;
+  error?: string;
+}
+
+/**
+ * Check that a file's content matches its declared type and that the type is allowed
+ */
+export const verifyFileType = (head: Buffer, declaredMimeType: string, allowedTypes: string[]): FileTypeCheck => {
+  const declared = normalizeMimeType(declaredMimeType);
+  const allowed = allowedTypes.map(normalizeMimeType);
+  const detected = detectFileTypes(head);
+
+  if (detected.length === 0) {
+    return { valid: false, error: 'File content does not match any allowed file type' };
+  }
+
+  const mimeType = detected.includes(declared) ? declared : detected[0];
+  if (!allowed.includes(mimeType)) {
+    return { valid: false, error: `File type ${mimeType} not allowed` };
+  }
+
+  if (!detected.includes(declared)) {
+    return { valid: false, error: `File content is ${mimeType} but was declared as ${declared}` };
+  }
+
+  return { valid: true, mimeType };
+};
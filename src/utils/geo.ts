@@ -0,0 +1,57 @@
+import { Request } from 'express';
+import runtimeConfig from '../config/runtime-config';
+
+export interface RequestLocation {
+  label: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const readCoordinate = (value: string | undefined, limit: number): number | null => {
+  if (!value) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : null;
+};
+
+/**
+ * Approximate client location from the edge proxy's geolocation headers.
+ * Clients can forge these, so they are only read when TRUST_GEO_HEADERS is
+ * set; returns null otherwise or when the proxy sent nothing.
+ */
+export const getRequestLocation = (req: Request): RequestLocation | null => {
+  if (!runtimeConfig.trustGeoHeaders) {
+    return null;
+  }
+
+  const latitude = readCoordinate(req.get('cf-iplatitude'), 90);
+  const longitude = readCoordinate(req.get('cf-iplongitude'), 180);
+  const label = [req.get('cf-ipcity'), req.get('cf-ipcountry')].filter(Boolean).join(', ') || null;
+
+  const hasCoordinates = latitude !== null && longitude !== null;
+
+  if (!label && !hasCoordinates) {
+    return null;
+  }
+
+  return hasCoordinates ? { label, latitude, longitude } : { label, latitude: null, longitude: null };
+};
+
+/**
+ * Great-circle (haversine) distance between two points in kilometres
+ */
+export const distanceKm = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
@@ -0,0 +1,108 @@
+import net from 'net';
+
+// Per-user IP allow/deny rules. A rule is a single address or a CIDR block,
+// IPv4 or IPv6 (e.g. "203.0.113.7", "10.0.0.0/8", "2001:db8::/32").
+
+export type IpAccessDecision = 'allowed' | 'blocked' | 'not_allowlisted';
+
+const parseRule = (rule: string): { address: string; prefix: number | null; family: 'ipv4' | 'ipv6' } | null => {
+  const [address, prefixRaw, extra] = rule.trim().split('/');
+  const version = net.isIP(address);
+  if (!version || extra !== undefined) {
+    return null;
+  }
+
+  const family = version === 4 ? 'ipv4' : 'ipv6';
+  if (prefixRaw === undefined) {
+    return { address, prefix: null, family };
+  }
+
+  const prefix = Number(prefixRaw);
+  const maxPrefix = version === 4 ? 32 : 128;
+  if (!/^\d+$/.test(prefixRaw) || prefix > maxPrefix) {
+    return null;
+  }
+
+  return { address, prefix, family };
+};
+
+export const isValidIpRule = (rule: string): boolean => parseRule(rule) !== null;
+
+const buildList = (rules: string[]): net.BlockList => {
+  const list = new net.BlockList();
+
+  for (const rule of rules) {
+    const parsed = parseRule(rule);
+    if (!parsed) {
+      continue;
+    }
+    if (parsed.prefix === null) {
+      list.addAddress(parsed.address, parsed.family);
+    } else {
+      list.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return list;
+};
+
+export const matchesIpRule = (ip: string, rules: string[]): boolean => {
+  const version = net.isIP(ip);
+  if (!version || rules.length === 0) {
+    return false;
+  }
+
+  // IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) match IPv4 rules too
+  return buildList(rules).check(ip, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Deny rules win over allow rules. An empty allow list allows every address
+ * that is not denied; an unknown client address only passes when there is
+ * no allow list.
+ */
+export const evaluateIpAccess = (
+  ip: string | undefined,
+  rules: { allowedIpAddresses: string[]; blockedIpAddresses: string[] }
+): IpAccessDecision => {
+  if (ip && matchesIpRule(ip, rules.blockedIpAddresses)) {
+    return 'blocked';
+  }
+
+  if (rules.allowedIpAddresses.length > 0 && !(ip && matchesIpRule(ip, rules.allowedIpAddresses))) {
+    return 'not_allowlisted';
+  }
+
+  return 'allowed';
+};
+
+/**
+ * The network an address belongs to, for "seen from here before" checks:
+ * the /24 for IPv4 (including IPv4-mapped IPv6) and the /48 for IPv6.
+ * Returns null for anything that is not an IP address.
+ */
+export const ipNetworkPrefix = (ip: string | undefined): string | null => {
+  if (!ip) {
+    return null;
+  }
+
+  const address = ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+  const version = net.isIP(address);
+
+  if (version === 4) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+
+  if (version === 6 && !address.includes('.')) {
+    const [head, tail] = address.toLowerCase().split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+    return `${groups.slice(0, 3).map(group => parseInt(group, 16).toString(16)).join(':')}::/48`;
+  }
+
+  return null;
+};
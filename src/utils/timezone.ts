@@ -0,0 +1,115 @@
+/**
+ * Timezone helpers built on Intl so wall-clock schedules ("09:00 in Asia/Kolkata")
+ * can be turned into UTC instants without an external date library.
+ */
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const TIME_PATTERN = /^([01]?[0-9]|2[0-3]):([0-5][0-9])$/;
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parse "HH:mm" into minutes after midnight, or null when malformed
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+};
+
+const getZonedParts = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+/**
+ * Offset of a timezone from UTC at the given instant, in milliseconds
+ */
+export const getTimezoneOffsetMs = (date: Date, timezone: string): number => {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+/**
+ * Calendar date of an instant as seen in the given timezone
+ */
+export const toLocalDate = (date: Date, timezone: string): LocalDate => {
+  const p = getZonedParts(date, timezone);
+  return { year: p.year, month: p.month, day: p.day };
+};
+
+/**
+ * Minutes after local midnight of an instant as seen in the given timezone
+ */
+export const toLocalMinutes = (date: Date, timezone: string): number => {
+  const p = getZonedParts(date, timezone);
+  return p.hour * 60 + p.minute;
+};
+
+/**
+ * Day of week (0 = Sunday) of a local calendar date
+ */
+export const dayOfWeek = (local: LocalDate): number =>
+  new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+
+export const addDays = (local: LocalDate, days: number): LocalDate => {
+  const d = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+};
+
+export const compareLocalDates = (a: LocalDate, b: LocalDate): number =>
+  Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+
+/**
+ * UTC instant for a wall-clock time on a local date in the given timezone.
+ * The offset is re-evaluated at the candidate instant so DST transitions resolve correctly.
+ */
+export const zonedTimeToUtc = (local: LocalDate, minutesAfterMidnight: number, timezone: string): Date => {
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, 0, minutesAfterMidnight);
+  let candidate = wallClock - getTimezoneOffsetMs(new Date(wallClock), timezone);
+  candidate = wallClock - getTimezoneOffsetMs(new Date(candidate), timezone);
+  return new Date(candidate);
+};
+
+export default {
+  isValidTimezone,
+  parseTimeOfDay,
+  getTimezoneOffsetMs,
+  toLocalDate,
+  toLocalMinutes,
+  dayOfWeek,
+  addDays,
+  compareLocalDates,
+  zonedTimeToUtc
+};
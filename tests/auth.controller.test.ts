@@ -0,0 +1,83 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { UserSession } from '@prisma/client';
+import LoginLockoutService from '../src/services/login-lockout.service';
+import SessionService, { DEFAULT_SESSION_POLICY } from '../src/services/session.service';
+import { login, refresh } from '../src/controllers/auth.controller';
+
+const mockFindRefreshToken = jest.fn();
+const mockCreateRefreshToken = jest.fn();
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => ({
+    refreshToken: { findFirst: (...args: unknown[]) => mockFindRefreshToken(...args) },
+    $transaction: (work: (tx: unknown) => Promise<unknown>) => work({
+      refreshToken: { update: jest.fn(), create: (...args: unknown[]) => mockCreateRefreshToken(...args) }
+    })
+  }))
+}));
+
+jest.mock('../src/services/login-lockout.service', () => ({
+  __esModule: true,
+  default: { check: jest.fn(), recordFailure: jest.fn(), recentFailures: jest.fn(), clearAccount: jest.fn() }
+}));
+
+const app = express();
+app.use(express.json());
+app.post('/login', login);
+app.post('/refresh', refresh);
+
+describe('login', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it.each([
+    ['email', { email: { $ne: null }, password: 'secret' }],
+    ['phone', { phone: ['+15550100'], password: 'secret' }],
+    ['password', { email: 'patient@example.com', password: { length: 8 } }]
+  ])('rejects a non-string %s before touching the lockout counters', async (_field, body) => {
+    const response = await request(app).post('/login').send(body);
+
+    expect(response.status).toBe(400);
+    expect(LoginLockoutService.check).not.toHaveBeenCalled();
+  });
+
+  it('answers 429 with Retry-After while the account is locked', async () => {
+    (LoginLockoutService.check as jest.Mock).mockResolvedValue({ locked: true, retryAfterSeconds: 120 });
+
+    const response = await request(app).post('/login').send({ email: 'Patient@Example.com ', password: 'secret' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers['retry-after']).toBe('120');
+    expect(LoginLockoutService.check).toHaveBeenCalledWith(expect.objectContaining({ account: 'patient@example.com' }));
+  });
+});
+
+describe('refresh', () => {
+  const storedToken = {
+    id: 'refresh-1',
+    userId: 'user-1',
+    deviceFingerprint: 'device-1',
+    user: { healthId: 'user-1', email: 'patient@example.com', role: 'patient', status: 'active' }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(SessionService, 'getPolicy').mockResolvedValue(DEFAULT_SESSION_POLICY);
+    jest.spyOn(SessionService, 'extend').mockResolvedValue();
+  });
+
+  it('opens a session for a refresh token issued before sessions were tracked', async () => {
+    mockFindRefreshToken.mockResolvedValue({ ...storedToken, sessionId: null, session: null });
+    const start = jest.spyOn(SessionService, 'start')
+      .mockResolvedValue({ id: 'session-1', sessionToken: 'session-token-1' } as UserSession);
+
+    const response = await request(app).post('/refresh').send({ refreshToken: 'legacy-token' });
+
+    expect(response.status).toBe(200);
+    expect(start).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', deviceId: 'device-1' }));
+    expect(mockCreateRefreshToken).toHaveBeenCalledWith({ data: expect.objectContaining({ sessionId: 'session-1' }) });
+    expect(jwt.decode(response.body.accessToken)).toEqual(expect.objectContaining({ sid: 'session-token-1' }));
+  });
+});
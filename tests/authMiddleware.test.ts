@@ -0,0 +1,84 @@
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { UserSession } from '@prisma/client';
+import TokenRevocationService from '../src/services/token-revocation.service';
+import SessionService from '../src/services/session.service';
+import { authenticateToken, optionalAuth } from '../src/middlewares/authMiddleware';
+
+const mockFindUser = jest.fn();
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  // Resolved lazily: modules build their clients before this file's constants exist
+  PrismaClient: jest.fn(() => ({ user: { findUnique: (...args: unknown[]) => mockFindUser(...args) } }))
+}));
+jest.mock('../src/services/token-revocation.service', () => ({
+  __esModule: true,
+  default: { isRevoked: jest.fn() }
+}));
+
+const isRevoked = TokenRevocationService.isRevoked as jest.Mock;
+const checkSession = jest.spyOn(SessionService, 'check');
+
+const sign = (payload: object) =>
+  jwt.sign({ sub: 'user-1', role: 'patient', status: 'active', sid: 'session-token-1', ...payload }, process.env.JWT_SECRET!, { expiresIn: 60 });
+
+const app = express();
+app.get('/private', authenticateToken, (req: Request, res: Response) => res.json({ tokenId: req.user?.tokenId }));
+app.get('/public', optionalAuth, (req: Request, res: Response) => res.json({ user: req.user?.healthId ?? null }));
+
+describe('authenticateToken', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    isRevoked.mockResolvedValue(false);
+    mockFindUser.mockResolvedValue({
+      healthId: 'user-1',
+      email: 'user@example.com',
+      role: 'patient',
+      status: 'active',
+      securitySettings: null
+    });
+    checkSession.mockResolvedValue({ valid: true, locked: false, session: { id: 'session-1' } as UserSession });
+  });
+
+  it('accepts a token whose jti has not been revoked', async () => {
+    const response = await request(app).get('/private').set('Authorization', `Bearer ${sign({ jti: 'token-1' })}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ tokenId: 'token-1' });
+    expect(isRevoked).toHaveBeenCalledWith('token-1');
+  });
+
+  it('rejects a revoked token', async () => {
+    isRevoked.mockResolvedValue(true);
+
+    const response = await request(app).get('/private').set('Authorization', `Bearer ${sign({ jti: 'token-1' })}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Token has been revoked');
+    expect(mockFindUser).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token without a jti, since it could never be revoked', async () => {
+    const response = await request(app).get('/private').set('Authorization', `Bearer ${sign({})}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Invalid token');
+    expect(mockFindUser).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token issued before sessions were tracked, so the client refreshes into one', async () => {
+    const response = await request(app).get('/private').set('Authorization', `Bearer ${sign({ jti: 'token-1', sid: undefined })}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Session has ended');
+    expect(checkSession).not.toHaveBeenCalled();
+  });
+
+  it('treats a jti-less token as anonymous on optional routes', async () => {
+    const response = await request(app).get('/public').set('Authorization', `Bearer ${sign({})}`);
+
+    expect(response.body).toEqual({ user: null });
+  });
+});
@@ -0,0 +1,49 @@
+import prisma from '../src/utils/prisma';
+import ConsentCatalogService from '../src/services/consent-catalog.service';
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    consentPurpose: { findFirst: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+const findFirst = (prisma as unknown as { consentPurpose: { findFirst: jest.Mock } }).consentPurpose.findFirst;
+
+const purpose = (code: string, name: string) => ({
+  id: `purpose_${code}`,
+  code,
+  name,
+  isActive: true,
+  defaultScopes: ['READ_BASIC', 'READ_MEDICAL', 'READ_LAB'],
+  defaultDurationDays: null
+});
+
+describe('ConsentCatalogService.resolveRequestTerms', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('files free text outside the catalog under "other" and keeps the wording', async () => {
+    findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(purpose('other', 'Other'));
+
+    const result = await ConsentCatalogService.resolveRequestTerms({ purpose: ' Follow-up physio ' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ purposeText: 'Follow-up physio', scope: ['READ_BASIC'] });
+    expect(result.data!.purpose.code).toBe('other');
+  });
+
+  it('asks only for READ_BASIC when no scope or template is given', async () => {
+    findFirst.mockResolvedValueOnce(purpose('treatment', 'Treatment'));
+
+    const result = await ConsentCatalogService.resolveRequestTerms({ purpose: 'Treatment' });
+
+    expect(result.data).toMatchObject({ purposeText: 'Treatment', scope: ['READ_BASIC'] });
+  });
+
+  it('rejects a purpose that is not text', async () => {
+    const result = await ConsentCatalogService.resolveRequestTerms({ purpose: { code: 'treatment' } });
+
+    expect(result).toMatchObject({ success: false, status: 400 });
+    expect(findFirst).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import ConsentPolicyService from '../src/services/consent-policy.service';
+
+const observations = [
+  { id: 'vitals', value: { value: 120 } },
+  { id: 'lab', value: { category: 'laboratory', value: 5.4 } },
+  { id: 'imaging', value: { category: 'IMAGING', finding: 'clear' } }
+];
+
+const ids = (items: { id: string }[]) => items.map(item => item.id);
+
+describe('ConsentPolicyService.filterObservations', () => {
+  it('keeps only the categories a READ_MEDICAL consent covers', () => {
+    expect(ids(ConsentPolicyService.filterObservations(observations, ['READ_MEDICAL']))).toEqual(['vitals']);
+  });
+
+  it('needs READ_LAB and READ_RADIOLOGY for lab and imaging results', () => {
+    expect(ids(ConsentPolicyService.filterObservations(observations, ['READ_LAB']))).toEqual(['lab']);
+    expect(ids(ConsentPolicyService.filterObservations(observations, ['READ_MEDICAL', 'READ_RADIOLOGY']))).toEqual(['vitals', 'imaging']);
+  });
+
+  it('returns nothing clinical to a READ_BASIC consent', () => {
+    expect(ConsentPolicyService.filterObservations(observations, ['READ_BASIC'])).toEqual([]);
+  });
+
+  it('leaves unrestricted access untouched', () => {
+    expect(ConsentPolicyService.filterObservations(observations, undefined)).toBe(observations);
+  });
+});
+
+describe('ConsentPolicyService.filterAttachments', () => {
+  const files = [
+    { id: 'scan', mimeType: 'application/dicom', tags: [] },
+    { id: 'report', mimeType: 'application/pdf', tags: ['Lab-results'] },
+    { id: 'letter', mimeType: 'application/pdf', tags: null }
+  ];
+
+  it('matches each file to the scope for its kind', () => {
+    expect(ids(ConsentPolicyService.filterAttachments(files, ['READ_RADIOLOGY']))).toEqual(['scan']);
+    expect(ids(ConsentPolicyService.filterAttachments(files, ['READ_LAB']))).toEqual(['report']);
+    expect(ids(ConsentPolicyService.filterAttachments(files, ['READ_MEDICAL']))).toEqual(['letter']);
+  });
+});
+
+describe('ConsentPolicyService scope checks', () => {
+  it('lets any clinical read scope imply READ_BASIC but nothing wider', () => {
+    expect(ConsentPolicyService.covers(['READ_LAB'], ['READ_BASIC'])).toBe(true);
+    expect(ConsentPolicyService.covers(['READ_BASIC'], ['READ_MEDICAL'])).toBe(false);
+  });
+
+  it('opens observations for any clinical read scope but encounters only for READ_MEDICAL', () => {
+    expect(ConsentPolicyService.allows(['READ_LAB'], 'observation', 'read')).toBe(true);
+    expect(ConsentPolicyService.allows(['READ_LAB'], 'encounter', 'read')).toBe(false);
+  });
+
+  it('does not let a read-only radiology consent file studies', () => {
+    expect(ConsentPolicyService.allows(['READ_RADIOLOGY'], 'imaging_study', 'write')).toBe(false);
+    expect(ConsentPolicyService.allows(['WRITE_NOTES'], 'imaging_study', 'write')).toBe(true);
+  });
+});
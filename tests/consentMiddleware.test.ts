@@ -0,0 +1,104 @@
+import express, { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import AuditService from '../src/services/audit.service';
+import { requireConsentAndLog } from '../src/middlewares/consentMiddleware';
+
+jest.mock('../src/services/audit.service', () => ({
+  __esModule: true,
+  default: {
+    verifyConsent: jest.fn(),
+    logRecordAccess: jest.fn(),
+    logAction: jest.fn()
+  }
+}));
+
+const verifyConsent = AuditService.verifyConsent as jest.Mock;
+
+const logRecordAccess = AuditService.logRecordAccess as jest.Mock;
+
+type ConsentedRequest = Request & { consentScopes?: string[]; consentPatientId?: string };
+type Delegation = {
+  id: string;
+  patientId: string;
+  scope: 'VIEW_RECORDS';
+  actor: { healthId: string; email: string | null; role: string };
+};
+
+const buildApp = (user: { healthId: string; role: string }, delegation?: Delegation) => {
+  const app = express();
+  app.use(express.json());
+  app.use((req: Request & { delegation?: Delegation }, _res: Response, next: NextFunction) => {
+    req.user = { ...user, email: null, status: 'active', tokenId: 'token-1' };
+    req.delegation = delegation;
+    next();
+  });
+  app.post('/encounters/list', ...requireConsentAndLog('encounter', 'RECORD_READ'), (req: ConsentedRequest, res: Response) => {
+    res.json({ patientId: req.consentPatientId, scopes: req.consentScopes ?? null });
+  });
+  return app;
+};
+
+describe('requireConsentAndLog', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('binds a patient reading their own records to themselves', async () => {
+    const response = await request(buildApp({ healthId: 'patient-1', role: 'patient' })).post('/encounters/list').send({});
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ patientId: 'patient-1', scopes: null });
+    expect(verifyConsent).not.toHaveBeenCalled();
+  });
+
+  it('records a caregiver acting for the patient as the actor of the read', async () => {
+    const delegation: Delegation = {
+      id: 'delegation-1',
+      patientId: 'patient-1',
+      scope: 'VIEW_RECORDS',
+      actor: { healthId: 'caregiver-1', email: null, role: 'patient' }
+    };
+
+    const response = await request(buildApp({ healthId: 'patient-1', role: 'patient' }, delegation))
+      .post('/encounters/list')
+      .send({});
+
+    expect(response.status).toBe(200);
+    expect(logRecordAccess).toHaveBeenCalledWith(
+      'caregiver-1',
+      'patient',
+      'RECORD_READ',
+      'patient-1',
+      'batch-operation',
+      'encounter',
+      'self-access',
+      expect.anything(),
+      undefined,
+      { delegationId: 'delegation-1', onBehalfOf: 'patient-1' }
+    );
+  });
+
+  it('passes the consented patient and granted scopes to the handler', async () => {
+    verifyConsent.mockResolvedValue({ hasConsent: true, consentId: 'consent-1', scopes: ['READ_MEDICAL'] });
+
+    const response = await request(buildApp({ healthId: 'doctor-1', role: 'doctor' }))
+      .post('/encounters/list')
+      .send({ patientId: 'patient-1' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ patientId: 'patient-1', scopes: ['READ_MEDICAL'] });
+    expect(verifyConsent).toHaveBeenCalledWith('doctor-1', 'patient-1', { resource: 'encounter', action: 'read' });
+  });
+
+  it('stops a provider without consent before the handler runs', async () => {
+    verifyConsent.mockResolvedValue({ hasConsent: false, error: 'No active consent found' });
+
+    const response = await request(buildApp({ healthId: 'doctor-1', role: 'doctor' }))
+      .post('/encounters/list')
+      .send({ patientId: 'patient-2' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.requiredScope).toEqual(['READ_MEDICAL']);
+    expect(AuditService.logRecordAccess).toHaveBeenCalledWith(
+      'doctor-1', 'doctor', 'RECORD_ACCESS_DENIED', 'patient-2', 'consent-check', 'access_control', undefined, expect.anything(), undefined
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { DicomParseError, parseDicomHeader } from '../src/utils/dicom';
+
+const EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+
+// Explicit VR little endian element; short VRs use a 16-bit length
+const element = (group: number, elementNo: number, vr: string, value: Buffer | string, length?: number): Buffer => {
+  const body = typeof value === 'string' ? Buffer.from(value.length % 2 ? `${value}\0` : value, 'latin1') : value;
+  const long = ['OB', 'OW', 'SQ', 'UN', 'UT'].includes(vr);
+  const header = Buffer.alloc(long ? 12 : 8);
+  header.writeUInt16LE(group, 0);
+  header.writeUInt16LE(elementNo, 2);
+  header.write(vr, 4, 'latin1');
+  if (long) {
+    header.writeUInt32LE(length ?? body.length, 8);
+  } else {
+    header.writeUInt16LE(length ?? body.length, 6);
+  }
+  return Buffer.concat([header, body]);
+};
+
+const preamble = (): Buffer => Buffer.concat([Buffer.alloc(128), Buffer.from('DICM', 'latin1')]);
+
+const identifiers = (): Buffer[] => [
+  element(0x0008, 0x0018, 'UI', '1.2.3.4.5.6'),
+  element(0x0008, 0x0060, 'CS', 'ct'),
+  element(0x0010, 0x0010, 'PN', 'Doe^Jane'),
+  element(0x0020, 0x000d, 'UI', '1.2.3.4'),
+  element(0x0020, 0x000e, 'UI', '1.2.3.4.5')
+];
+
+const file = (...elements: Buffer[]): Buffer =>
+  Buffer.concat([preamble(), element(0x0002, 0x0010, 'UI', EXPLICIT_VR_LITTLE_ENDIAN), ...elements]);
+
+describe('parseDicomHeader', () => {
+  it('extracts the identifiers needed for indexing', () => {
+    const metadata = parseDicomHeader(file(...identifiers()));
+
+    expect(metadata).toMatchObject({
+      transferSyntaxUid: EXPLICIT_VR_LITTLE_ENDIAN,
+      sopInstanceUid: '1.2.3.4.5.6',
+      studyInstanceUid: '1.2.3.4',
+      seriesInstanceUid: '1.2.3.4.5',
+      modality: 'CT',
+      patientName: 'Doe Jane'
+    });
+  });
+
+  it('rejects files without the DICM marker', () => {
+    expect(() => parseDicomHeader(Buffer.alloc(200))).toThrow('Not a DICOM Part 10 file');
+  });
+
+  it('rejects an element whose length runs past the end of the buffer', () => {
+    const buffer = file(
+      element(0x0008, 0x0018, 'UI', '1.2.3.4.5.6'),
+      element(0x0008, 0x1030, 'LO', 'short', 0xfff0)
+    );
+
+    expect(() => parseDicomHeader(buffer)).toThrow('DICOM header is truncated or larger than the supported size');
+  });
+
+  it('does not read past the buffer for a 32-bit length near the limit', () => {
+    const buffer = file(element(0x0008, 0x0018, 'UI', '1.2.3.4.5.6'), element(0x0009, 0x0010, 'UN', Buffer.alloc(4), 0xfffffff0));
+
+    expect(() => parseDicomHeader(buffer)).toThrow(DicomParseError);
+  });
+
+  it('keeps what it read when the buffer is cut off after the identifiers', () => {
+    const buffer = file(...identifiers(), element(0x0020, 0x0013, 'IS', '7').subarray(0, 5));
+
+    expect(parseDicomHeader(buffer).sopInstanceUid).toBe('1.2.3.4.5.6');
+  });
+
+  it('rejects a sequence holding something other than items', () => {
+    const bogusItem = Buffer.alloc(8);
+    bogusItem.writeUInt16LE(0x0008, 0);
+    bogusItem.writeUInt16LE(0x0018, 2);
+    const buffer = file(element(0x0008, 0x1110, 'SQ', bogusItem, 0xffffffff), ...identifiers());
+
+    expect(() => parseDicomHeader(buffer)).toThrow('Malformed DICOM sequence');
+  });
+});
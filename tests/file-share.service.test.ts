@@ -0,0 +1,105 @@
+import { FileUpload } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import FileShareService from '../src/services/file-share.service';
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    fileShareLink: { create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() }
+  }
+}));
+
+const fileShareLink = (prisma as unknown as {
+  fileShareLink: { create: jest.Mock; findUnique: jest.Mock; updateMany: jest.Mock };
+}).fileShareLink;
+
+const file = { id: 'file-1', status: 'COMPLETED', scanStatus: 'CLEAN' } as FileUpload;
+
+const issueToken = async (expiresInSeconds = 3600, singleUse = false): Promise<string> => {
+  fileShareLink.create.mockImplementation(({ data }) => Promise.resolve({ id: 'link-1', ...data }));
+  const result = await FileShareService.createLink(file, 'owner-1', { expiresInSeconds, singleUse });
+  fileShareLink.findUnique.mockResolvedValue({
+    id: 'link-1',
+    revokedAt: null,
+    singleUse,
+    useCount: 0,
+    expiresAt: result.link!.expiresAt,
+    file
+  });
+  return result.token!;
+};
+
+describe('FileShareService.redeem', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.FILE_LINK_SECRET = 'test-link-secret';
+    fileShareLink.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('redeems a freshly issued link', async () => {
+    const token = await issueToken();
+
+    const result = await FileShareService.redeem(token);
+
+    expect(result).toMatchObject({ success: true, file });
+    expect(fileShareLink.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a token with a tampered signature without a lookup', async () => {
+    const token = await issueToken();
+    const tampered = token.slice(0, -2) + (token.endsWith('AA') ? 'BB' : 'AA');
+
+    expect(await FileShareService.redeem(tampered)).toMatchObject({ success: false, status: 404 });
+    expect(fileShareLink.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token whose expiry was pushed out', async () => {
+    const token = await issueToken();
+    const [linkId, expiry, signature] = token.split('.');
+
+    const result = await FileShareService.redeem(`${linkId}.${Number(expiry) + 86400}.${signature}`);
+
+    expect(result).toMatchObject({ success: false, status: 404 });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await issueToken();
+    process.env.FILE_LINK_SECRET = 'rotated-secret';
+
+    expect(await FileShareService.redeem(token)).toMatchObject({ success: false, status: 404 });
+  });
+
+  it('rejects an expired link before touching the database', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T12:00:00Z') });
+    try {
+      const token = await issueToken(60);
+      jest.setSystemTime(new Date('2026-10-18T12:05:00Z'));
+
+      expect(await FileShareService.redeem(token)).toMatchObject({ success: false, status: 410 });
+      expect(fileShareLink.findUnique).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects a revoked link', async () => {
+    const token = await issueToken();
+    const link = await fileShareLink.findUnique();
+    fileShareLink.findUnique.mockResolvedValue({ ...link, revokedAt: new Date() });
+
+    expect(await FileShareService.redeem(token)).toMatchObject({ success: false, status: 410 });
+    expect(fileShareLink.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('lets only one request claim a single-use link', async () => {
+    const token = await issueToken(3600, true);
+    fileShareLink.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const [first, second] = await Promise.all([FileShareService.redeem(token), FileShareService.redeem(token)]);
+
+    expect([first.success, second.success].sort()).toEqual([false, true]);
+    expect(fileShareLink.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ id: 'link-1', useCount: 0 })
+    }));
+  });
+});
@@ -0,0 +1,103 @@
+import { Readable } from 'stream';
+import prisma from '../src/utils/prisma';
+import malwareScanner from '../src/services/malware-scanner.service';
+import ImagingService from '../src/services/imaging.service';
+import FileService from '../src/services/file.service';
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    fileUpload: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    user: { findUnique: jest.fn() }
+  }
+}));
+jest.mock('../src/services/malware-scanner.service', () => ({
+  __esModule: true,
+  default: { scan: jest.fn(), getScannerName: () => 'clamav' }
+}));
+jest.mock('../src/services/imaging.service', () => ({
+  __esModule: true,
+  default: { ingestFile: jest.fn() }
+}));
+jest.mock('../src/services/storage.service', () => ({
+  __esModule: true,
+  default: { getStream: jest.fn(async () => Readable.from([Buffer.from('blob')])) }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  fileUpload: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+  user: { findUnique: jest.Mock };
+};
+const scan = malwareScanner.scan as jest.Mock;
+
+const pendingFile = (scanAttempts: number) => ({
+  id: 'file-1',
+  status: 'COMPLETED',
+  scanStatus: 'PENDING',
+  scanAttempts,
+  storageKey: 'blob-1',
+  mimeType: 'application/pdf'
+});
+
+describe('FileService.scanFile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    scan.mockRejectedValue(new Error('ClamAV scan failed: INSTREAM size limit exceeded'));
+  });
+
+  it('backs a failing file off instead of retrying it on the next run', async () => {
+    mockedPrisma.fileUpload.findUnique.mockResolvedValue(pendingFile(1));
+    const before = Date.now();
+
+    const outcome = await FileService.scanFile('file-1');
+
+    expect(outcome).toMatchObject({ scanStatus: 'PENDING', error: 'ClamAV scan failed: INSTREAM size limit exceeded' });
+    const { data } = mockedPrisma.fileUpload.update.mock.calls[0][0];
+    expect(data).toMatchObject({ scanStatus: 'PENDING', scanAttempts: 2 });
+    expect(data.nextScanAt.getTime()).toBeGreaterThanOrEqual(before + 2 * 60 * 1000);
+  });
+
+  it('gives up with FAILED once the attempts run out', async () => {
+    mockedPrisma.fileUpload.findUnique.mockResolvedValue(pendingFile(4));
+
+    const outcome = await FileService.scanFile('file-1');
+
+    expect(outcome.scanStatus).toBe('FAILED');
+    expect(mockedPrisma.fileUpload.update).toHaveBeenCalledWith({
+      where: { id: 'file-1' },
+      data: expect.objectContaining({ scanStatus: 'FAILED', scanAttempts: 5, nextScanAt: null })
+    });
+  });
+
+  it('indexes a DICOM upload under its stored target once it scans clean', async () => {
+    const file = { ...pendingFile(3), mimeType: 'application/dicom', ownerHealthId: 'doctor-1', ingestPatientId: 'patient-1', ingestEncounterId: null };
+    mockedPrisma.fileUpload.findUnique.mockResolvedValue(file);
+    mockedPrisma.fileUpload.update.mockResolvedValue({ ...file, scanStatus: 'CLEAN' });
+    mockedPrisma.user.findUnique.mockResolvedValue({ role: 'doctor' });
+    scan.mockResolvedValue({ clean: true });
+    (ImagingService.ingestFile as jest.Mock).mockResolvedValue({ success: true });
+
+    const outcome = await FileService.scanFile('file-1');
+
+    expect(outcome.scanStatus).toBe('CLEAN');
+    expect(ImagingService.ingestFile).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'file-1', scanStatus: 'CLEAN' }),
+      { actorId: 'doctor-1', actorRole: 'doctor', patientId: 'patient-1', encounterId: undefined }
+    );
+  });
+});
+
+describe('FileService.scanPendingFiles', () => {
+  it('leaves files whose retry is not due yet out of the batch', async () => {
+    mockedPrisma.fileUpload.findMany.mockResolvedValue([]);
+
+    await FileService.scanPendingFiles();
+
+    expect(mockedPrisma.fileUpload.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        scanStatus: 'PENDING',
+        OR: [{ nextScanAt: null }, { nextScanAt: { lte: expect.any(Date) } }]
+      })
+    }));
+  });
+});
@@ -0,0 +1,53 @@
+import { FileUpload } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import AuditService from '../src/services/audit.service';
+import ImagingService from '../src/services/imaging.service';
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    encounter: { findUnique: jest.fn() },
+    imagingInstance: { findUnique: jest.fn() }
+  }
+}));
+jest.mock('../src/services/audit.service', () => ({
+  __esModule: true,
+  default: { verifyConsent: jest.fn() }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  imagingInstance: { findUnique: jest.Mock };
+};
+const verifyConsent = AuditService.verifyConsent as jest.Mock;
+
+const dicomUpload = (overrides: Partial<FileUpload> = {}): FileUpload => ({
+  id: 'file-1',
+  mimeType: 'application/dicom',
+  status: 'COMPLETED',
+  scanStatus: 'CLEAN',
+  ownerHealthId: 'doctor-1',
+  ...overrides
+} as FileUpload);
+
+describe('ImagingService.ingestFile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.imagingInstance.findUnique.mockResolvedValue(null);
+  });
+
+  it.each(['PENDING', 'INFECTED', 'FAILED'] as const)('refuses a file whose scan is %s without reading it', async scanStatus => {
+    const result = await ImagingService.ingestFile(dicomUpload({ scanStatus }), { actorId: 'doctor-1', actorRole: 'doctor', patientId: 'patient-1' });
+
+    expect(result).toMatchObject({ success: false, status: 409 });
+    expect(mockedPrisma.imagingInstance.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('asks for a write scope before filing a study for another patient', async () => {
+    verifyConsent.mockResolvedValue({ hasConsent: false });
+
+    const result = await ImagingService.ingestFile(dicomUpload(), { actorId: 'doctor-1', actorRole: 'doctor', patientId: 'patient-1' });
+
+    expect(verifyConsent).toHaveBeenCalledWith('doctor-1', 'patient-1', { resource: 'imaging_study', action: 'write' });
+    expect(result).toMatchObject({ success: false, status: 403 });
+  });
+});
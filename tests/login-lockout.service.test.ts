@@ -0,0 +1,102 @@
+import prisma from '../src/utils/prisma';
+import runtimeConfig from '../src/config/runtime-config';
+import LoginLockoutService from '../src/services/login-lockout.service';
+
+type Entry = {
+  id: string;
+  scope: string;
+  key: string;
+  failedCount: number;
+  windowStartedAt: Date;
+  lastFailedAt: Date;
+  lockedUntil: Date | null;
+};
+
+// Just enough of the loginLockout table for the service's queries
+const mockEntries = new Map<string, Entry>();
+
+jest.mock('../src/utils/prisma', () => {
+  const matches = (entry: Entry, keys: { scope: string; key: string }[]) =>
+    keys.some(({ scope, key }) => entry.scope === scope && entry.key === key);
+
+  return {
+    __esModule: true,
+    default: {
+      loginLockout: {
+        findMany: jest.fn(async ({ where }) => [...mockEntries.values()].filter(entry => matches(entry, where.OR))),
+        upsert: jest.fn(async ({ where, create }) => {
+          const id = `${where.scope_key.scope}:${where.scope_key.key}`;
+          const entry = mockEntries.get(id);
+          if (entry) {
+            entry.failedCount++;
+            entry.lastFailedAt = create.lastFailedAt;
+            return { ...entry };
+          }
+          const created = { id, lockedUntil: null, ...create };
+          mockEntries.set(id, created);
+          return { ...created };
+        }),
+        update: jest.fn(async ({ where, data }) => Object.assign(mockEntries.get(where.id)!, data)),
+        deleteMany: jest.fn(async ({ where }) => {
+          const id = `${where.scope}:${where.key}`;
+          return { count: mockEntries.delete(id) ? 1 : 0 };
+        })
+      }
+    }
+  };
+});
+
+const target = { ip: '203.0.113.7', account: 'Patient@Example.com' };
+
+const fail = async (times: number, failTarget = target) => {
+  for (let i = 0; i < times; i++) {
+    await LoginLockoutService.recordFailure(failTarget);
+  }
+};
+
+describe('LoginLockoutService', () => {
+  beforeEach(() => {
+    mockEntries.clear();
+    jest.clearAllMocks();
+  });
+
+  it('locks the account once it reaches MAX_LOGIN_ATTEMPTS', async () => {
+    await fail(runtimeConfig.maxLoginAttempts - 1);
+    expect((await LoginLockoutService.check(target)).locked).toBe(false);
+
+    await fail(1);
+    const status = await LoginLockoutService.check(target);
+
+    expect(status.locked).toBe(true);
+    expect(status.retryAfterSeconds).toBeGreaterThan(0);
+    expect(status.retryAfterSeconds).toBeLessThanOrEqual(runtimeConfig.loginAttemptLockoutMinutes * 60);
+  });
+
+  it('keys accounts case-insensitively', async () => {
+    await fail(runtimeConfig.maxLoginAttempts);
+
+    expect((await LoginLockoutService.check({ account: 'patient@example.com' })).locked).toBe(true);
+  });
+
+  it('does not lock the IP at the per-account limit', async () => {
+    await fail(runtimeConfig.maxLoginAttempts);
+
+    expect((await LoginLockoutService.check({ ip: target.ip, account: 'someone-else@example.com' })).locked).toBe(false);
+  });
+
+  it('locks the IP across accounts at MAX_LOGIN_ATTEMPTS_PER_IP', async () => {
+    for (let i = 0; i < runtimeConfig.maxLoginAttemptsPerIp; i++) {
+      await LoginLockoutService.recordFailure({ ip: target.ip, account: `user-${i}@example.com` });
+    }
+
+    expect((await LoginLockoutService.check({ ip: target.ip, account: 'fresh@example.com' })).locked).toBe(true);
+  });
+
+  it('clears the account counter after a successful sign-in', async () => {
+    await fail(runtimeConfig.maxLoginAttempts - 1);
+    await LoginLockoutService.clearAccount(target.account);
+
+    expect(await LoginLockoutService.recentFailures({ account: target.account })).toBe(0);
+    expect(prisma.loginLockout.deleteMany).toHaveBeenCalledWith({ where: { scope: 'ACCOUNT', key: 'patient@example.com' } });
+  });
+});
@@ -0,0 +1,61 @@
+import prisma from '../src/utils/prisma';
+import LoginLockoutService from '../src/services/login-lockout.service';
+import { LoginRiskService } from '../src/services/login-risk.service';
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    userSession: { findMany: jest.fn() },
+    securitySettings: { findUnique: jest.fn() },
+    refreshToken: { findMany: jest.fn() }
+  }
+}));
+
+const findSessions = prisma.userSession.findMany as jest.Mock;
+
+const pastSession = (overrides: { isTrusted?: boolean } = {}) => ({
+  deviceId: 'device-1',
+  ipAddress: '203.0.113.10',
+  isTrusted: false,
+  latitude: null,
+  longitude: null,
+  createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+  ...overrides
+});
+
+describe('LoginRiskService.evaluate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.securitySettings.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.refreshToken.findMany as jest.Mock).mockResolvedValue([]);
+    jest.spyOn(LoginLockoutService, 'recentFailures').mockResolvedValue(0);
+  });
+
+  it('flags an unfamiliar network from a known device', async () => {
+    findSessions.mockResolvedValue([pastSession()]);
+
+    const risk = await LoginRiskService.evaluate({
+      userId: 'user-1',
+      deviceId: 'device-1',
+      ipAddress: '198.51.100.7',
+      location: null
+    });
+
+    expect(risk.signals).toEqual(['new_ip_range']);
+    expect(risk.trustedDevice).toBe(false);
+  });
+
+  it('still flags an unfamiliar network when the fingerprint belongs to a trusted device', async () => {
+    findSessions.mockResolvedValue([pastSession({ isTrusted: true })]);
+
+    const risk = await LoginRiskService.evaluate({
+      userId: 'user-1',
+      deviceId: 'device-1',
+      ipAddress: '198.51.100.7',
+      location: null
+    });
+
+    expect(risk.signals).toEqual(['new_ip_range']);
+    expect(risk.trustedDevice).toBe(true);
+  });
+});
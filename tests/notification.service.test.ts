@@ -0,0 +1,60 @@
+import prisma from '../src/utils/prisma';
+import NotificationService from '../src/services/notification.service';
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    notification: { updateMany: jest.fn() },
+    notificationDelivery: { updateMany: jest.fn() },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations))
+  }
+}));
+
+jest.mock('../src/services/email.service', () => ({
+  sendNotificationEmail: jest.fn(),
+  sendNotificationDigestEmail: jest.fn()
+}));
+
+jest.mock('../src/services/sms.service', () => ({
+  __esModule: true,
+  default: { send: jest.fn() }
+}));
+
+const updateNotifications = prisma.notification.updateMany as jest.Mock;
+const updateDeliveries = prisma.notificationDelivery.updateMany as jest.Mock;
+
+describe('NotificationService read tracking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    updateNotifications.mockResolvedValue({ count: 2 });
+    updateDeliveries.mockResolvedValue({ count: 1 });
+  });
+
+  it('drops unclaimed external deliveries for the notifications marked read', async () => {
+    const count = await NotificationService.markRead('user-1', ['n-1', 'n-2']);
+
+    expect(count).toBe(2);
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(updateDeliveries).toHaveBeenCalledWith({
+      where: {
+        notification: { id: { in: ['n-1', 'n-2'] }, recipientId: 'user-1' },
+        channel: { in: ['EMAIL', 'SMS'] },
+        status: { in: ['PENDING', 'DEFERRED'] }
+      },
+      data: { status: 'SKIPPED' }
+    });
+  });
+
+  it('drops every unclaimed external delivery when the whole inbox is read', async () => {
+    await NotificationService.markAllRead('user-1');
+
+    expect(updateDeliveries).toHaveBeenCalledWith({
+      where: {
+        notification: { recipientId: 'user-1' },
+        channel: { in: ['EMAIL', 'SMS'] },
+        status: { in: ['PENDING', 'DEFERRED'] }
+      },
+      data: { status: 'SKIPPED' }
+    });
+  });
+});
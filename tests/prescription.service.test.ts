@@ -0,0 +1,108 @@
+import prisma from '../src/utils/prisma';
+import { PrescriptionService } from '../src/services/prescription.service';
+
+const tx = {
+  prescription: { findUnique: jest.fn(), update: jest.fn() },
+  prescriptionItem: { updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+  prescriptionDispensation: { create: jest.fn() }
+};
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn((run: (client: unknown) => Promise<unknown>) => run(tx))
+  }
+}));
+
+const item = (overrides: Partial<{ fillsDispensed: number; refillsRemaining: number; partialFillOpen: boolean }> = {}) => ({
+  id: 'item-1',
+  medicationName: 'Amoxicillin',
+  fillsDispensed: 0,
+  refillsRemaining: 1,
+  partialFillOpen: false,
+  ...overrides
+});
+
+const activePrescription = (items: ReturnType<typeof item>[]) => ({
+  id: 'rx-1',
+  status: 'ACTIVE',
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  items
+});
+
+describe('PrescriptionService.dispense', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx.prescriptionDispensation.create.mockImplementation(async ({ data }) => ({ id: 'dispensation-1', ...data }));
+    tx.prescription.update.mockImplementation(async ({ data }) => ({ id: 'rx-1', ...data }));
+  });
+
+  it('records the first fill as the original supply without consuming a refill', async () => {
+    tx.prescription.findUnique.mockResolvedValue(activePrescription([item()]));
+    tx.prescriptionItem.updateMany.mockResolvedValue({ count: 1 });
+    tx.prescriptionItem.findUniqueOrThrow.mockResolvedValue(item({ fillsDispensed: 1 }));
+
+    const result = await PrescriptionService.dispense('rx-1', 'pharmacy-1', [{ itemId: 'item-1' }]);
+
+    expect(result.success).toBe(true);
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(tx.prescriptionItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item-1', fillsDispensed: 0, partialFillOpen: false },
+      data: { partialFillOpen: false, fillsDispensed: { increment: 1 } }
+    });
+    expect(tx.prescriptionDispensation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ itemId: 'item-1', pharmacyId: 'pharmacy-1', isRefill: false, isPartial: false })
+    });
+    expect(tx.prescription.update).toHaveBeenCalledWith(expect.objectContaining({ data: {} }));
+  });
+
+  it('consumes a refill and completes the prescription once nothing is left', async () => {
+    tx.prescription.findUnique.mockResolvedValue(activePrescription([item({ fillsDispensed: 1 })]));
+    tx.prescriptionItem.updateMany.mockResolvedValue({ count: 1 });
+    tx.prescriptionItem.findUniqueOrThrow.mockResolvedValue(item({ fillsDispensed: 2, refillsRemaining: 0 }));
+
+    const result = await PrescriptionService.dispense('rx-1', 'pharmacy-1', [{ itemId: 'item-1' }]);
+
+    expect(result.success).toBe(true);
+    expect(tx.prescriptionItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item-1', fillsDispensed: 1, partialFillOpen: false, refillsRemaining: { gt: 0 } },
+      data: { partialFillOpen: false, fillsDispensed: { increment: 1 }, refillsRemaining: { decrement: 1 } }
+    });
+    expect(tx.prescriptionDispensation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ isRefill: true })
+    });
+    expect(tx.prescription.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'COMPLETED' })
+    }));
+  });
+
+  it('rejects a refill when none remain before writing anything', async () => {
+    tx.prescription.findUnique.mockResolvedValue(activePrescription([item({ fillsDispensed: 1, refillsRemaining: 0 })]));
+
+    const result = await PrescriptionService.dispense('rx-1', 'pharmacy-1', [{ itemId: 'item-1' }]);
+
+    expect(result).toEqual({ success: false, error: 'No refills remaining for Amoxicillin' });
+    expect(tx.prescriptionItem.updateMany).not.toHaveBeenCalled();
+    expect(tx.prescriptionDispensation.create).not.toHaveBeenCalled();
+  });
+
+  it('rolls back and reports a conflict when another dispense changed the item first', async () => {
+    tx.prescription.findUnique.mockResolvedValue(activePrescription([item({ fillsDispensed: 1 })]));
+    tx.prescriptionItem.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await PrescriptionService.dispense('rx-1', 'pharmacy-1', [{ itemId: 'item-1' }]);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Amoxicillin was dispensed by another request, please reload and try again'
+    });
+    expect(tx.prescriptionDispensation.create).not.toHaveBeenCalled();
+    expect(tx.prescription.update).not.toHaveBeenCalled();
+  });
+
+  it('rethrows errors that are not dispense conflicts', async () => {
+    tx.prescription.findUnique.mockRejectedValue(new Error('connection lost'));
+
+    await expect(PrescriptionService.dispense('rx-1', 'pharmacy-1', [{ itemId: 'item-1' }])).rejects.toThrow('connection lost');
+  });
+});
@@ -0,0 +1,49 @@
+import prisma from '../src/utils/prisma';
+import ReferenceRangeService from '../src/services/reference-range.service';
+
+const mockTx = {
+  referenceRange: { updateMany: jest.fn(), deleteMany: jest.fn() },
+  unitConversion: { deleteMany: jest.fn() },
+  observationDefinition: { update: jest.fn() }
+};
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    observationDefinition: { findUnique: jest.fn() },
+    $transaction: jest.fn((work: (tx: unknown) => Promise<unknown>) => work(mockTx))
+  }
+}));
+
+const mockedPrisma = prisma as unknown as { observationDefinition: { findUnique: jest.Mock } };
+
+describe('ReferenceRangeService.updateDefinition', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.observationDefinition.findUnique.mockResolvedValue({
+      id: 'def-1',
+      code: 'glucose',
+      components: [],
+      ranges: [{ id: 'range-1', component: null, normalLow: 70, normalHigh: 100 }],
+      unitConversions: []
+    });
+    mockTx.observationDefinition.update.mockResolvedValue({ id: 'def-1', code: 'glucose' });
+  });
+
+  it('retires replaced ranges so stored evaluations keep their range ids', async () => {
+    const result = await ReferenceRangeService.updateDefinition('def-1', { ranges: [{ normalLow: 72, normalHigh: 99 }] });
+
+    expect(result.success).toBe(true);
+    expect(mockTx.referenceRange.deleteMany).not.toHaveBeenCalled();
+    expect(mockTx.referenceRange.updateMany).toHaveBeenCalledWith({
+      where: { definitionId: 'def-1', isActive: true },
+      data: { isActive: false }
+    });
+  });
+
+  it('leaves ranges alone when none are supplied', async () => {
+    await ReferenceRangeService.updateDefinition('def-1', { displayName: 'Fasting glucose' });
+
+    expect(mockTx.referenceRange.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+import express, { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import argon2 from 'argon2';
+import LoginLockoutService from '../src/services/login-lockout.service';
+import SessionService from '../src/services/session.service';
+import TwoFactorService from '../src/services/two-factor.service';
+import { disableTwoFactor, unlockSession } from '../src/controllers/security.controller';
+
+const mockFindUser = jest.fn();
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => ({ user: { findUnique: (...args: unknown[]) => mockFindUser(...args) } }))
+}));
+jest.mock('argon2', () => ({ __esModule: true, default: { verify: jest.fn() } }));
+jest.mock('../src/services/login-lockout.service', () => ({
+  __esModule: true,
+  default: { check: jest.fn(), recordFailure: jest.fn(), clearAccount: jest.fn() }
+}));
+jest.mock('../src/services/session.service', () => ({
+  __esModule: true,
+  default: { unlock: jest.fn() }
+}));
+jest.mock('../src/services/two-factor.service', () => ({
+  __esModule: true,
+  default: { verifyCode: jest.fn(), disable: jest.fn() }
+}));
+jest.mock('../src/services/audit.service', () => ({
+  __esModule: true,
+  default: { logAction: jest.fn() }
+}));
+
+const lockout = LoginLockoutService as jest.Mocked<typeof LoginLockoutService>;
+const verify = argon2.verify as jest.Mock;
+const twoFactor = TwoFactorService as jest.Mocked<typeof TwoFactorService>;
+
+const app = express();
+app.use(express.json());
+app.use((req: Request, _res: Response, next: NextFunction) => {
+  const user = { healthId: 'user-1', email: null, role: 'patient', status: 'active', tokenId: 'token-1', sessionId: 'session-1' };
+  req.user = user;
+  next();
+});
+app.post('/unlock', unlockSession);
+app.post('/2fa/disable', disableTwoFactor);
+
+describe('unlockSession', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lockout.check.mockResolvedValue({ locked: false, retryAfterSeconds: 0 });
+    mockFindUser.mockResolvedValue({ passwordHash: 'hash' });
+  });
+
+  it('counts a wrong password against the unlock lockout', async () => {
+    verify.mockResolvedValue(false);
+
+    const response = await request(app).post('/unlock').send({ password: 'wrong' });
+
+    expect(response.status).toBe(401);
+    expect(lockout.recordFailure).toHaveBeenCalledWith(expect.objectContaining({ account: 'unlock:user-1' }));
+    expect(SessionService.unlock).not.toHaveBeenCalled();
+  });
+
+  it('refuses to check passwords while locked out', async () => {
+    lockout.check.mockResolvedValue({ locked: true, retryAfterSeconds: 300 });
+
+    const response = await request(app).post('/unlock').send({ password: 'right' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers['retry-after']).toBe('300');
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it('unlocks and resets the counter on the right password', async () => {
+    verify.mockResolvedValue(true);
+
+    const response = await request(app).post('/unlock').send({ password: 'right' });
+
+    expect(response.status).toBe(200);
+    expect(lockout.clearAccount).toHaveBeenCalledWith('unlock:user-1');
+    expect(SessionService.unlock).toHaveBeenCalledWith('session-1');
+  });
+});
+
+describe('disableTwoFactor', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lockout.check.mockResolvedValue({ locked: false, retryAfterSeconds: 0 });
+    mockFindUser.mockResolvedValue({ healthId: 'user-1', passwordHash: 'hash' });
+    verify.mockResolvedValue(true);
+  });
+
+  it('counts a wrong password against its own lockout', async () => {
+    verify.mockResolvedValue(false);
+
+    const response = await request(app).post('/2fa/disable').send({ password: 'wrong', code: '123456' });
+
+    expect(response.status).toBe(401);
+    expect(lockout.recordFailure).toHaveBeenCalledWith(expect.objectContaining({ account: 'disable-2fa:user-1' }));
+    expect(twoFactor.verifyCode).not.toHaveBeenCalled();
+  });
+
+  it('counts a wrong code against the sign-in code lockout', async () => {
+    twoFactor.verifyCode.mockResolvedValue({ success: false, status: 401, error: 'Invalid verification code' });
+
+    const response = await request(app).post('/2fa/disable').send({ password: 'right', code: '000000' });
+
+    expect(response.status).toBe(401);
+    expect(lockout.recordFailure).toHaveBeenCalledWith(expect.objectContaining({ account: 'mfa:user-1' }));
+    expect(twoFactor.disable).not.toHaveBeenCalled();
+  });
+
+  it('refuses to check either factor while locked out', async () => {
+    lockout.check.mockResolvedValueOnce({ locked: false, retryAfterSeconds: 0 })
+      .mockResolvedValueOnce({ locked: true, retryAfterSeconds: 120 });
+
+    const response = await request(app).post('/2fa/disable').send({ password: 'right', code: '123456' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers['retry-after']).toBe('120');
+    expect(verify).not.toHaveBeenCalled();
+    expect(twoFactor.verifyCode).not.toHaveBeenCalled();
+  });
+
+  it('disables two-factor and resets both counters', async () => {
+    twoFactor.verifyCode.mockResolvedValue({ success: true, method: 'totp' });
+
+    const response = await request(app).post('/2fa/disable').send({ password: 'right', code: '123456' });
+
+    expect(response.status).toBe(200);
+    expect(lockout.clearAccount).toHaveBeenCalledWith('disable-2fa:user-1');
+    expect(lockout.clearAccount).toHaveBeenCalledWith('mfa:user-1');
+    expect(twoFactor.disable).toHaveBeenCalledWith('user-1');
+  });
+});
@@ -0,0 +1,11 @@
+import path from 'path';
+import dotenv from 'dotenv';
+
+// The example settings satisfy runtime-config; tests never reach a database or
+// mail server since every Prisma call they make is mocked
+dotenv.config({ path: path.resolve(__dirname, '../.env.example'), quiet: true });
+
+process.env.NODE_ENV = 'test';
+process.env.LOG_LEVEL = 'error';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.DATABASE_URL = 'postgresql://test@localhost:5432/test';
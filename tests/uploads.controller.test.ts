@@ -0,0 +1,83 @@
+import express, { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { Readable } from 'stream';
+import prisma from '../src/utils/prisma';
+import AuditService from '../src/services/audit.service';
+import FileService from '../src/services/file.service';
+import { UploadsController } from '../src/controllers/uploads.controller';
+
+jest.mock('../src/utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    fileUpload: { findUnique: jest.fn() },
+    fileAccess: { create: jest.fn() }
+  }
+}));
+jest.mock('../src/services/audit.service', () => ({
+  __esModule: true,
+  default: { verifyConsent: jest.fn(), logAction: jest.fn() }
+}));
+jest.mock('../src/services/file.service', () => ({
+  __esModule: true,
+  default: { supportsThumbnail: jest.fn(() => true), generateThumbnail: jest.fn(async () => 'thumb-1') }
+}));
+jest.mock('../src/services/storage.service', () => ({
+  __esModule: true,
+  default: { getStream: jest.fn(async () => Readable.from([Buffer.from('webp')])) }
+}));
+
+const mockedPrisma = prisma as unknown as { fileUpload: { findUnique: jest.Mock } };
+const verifyConsent = AuditService.verifyConsent as jest.Mock;
+
+const viewer = { healthId: 'doctor-1', email: null, role: 'doctor', status: 'active', tokenId: 'token-1' };
+const app = express();
+app.use((req: Request, _res: Response, next: NextFunction) => {
+  req.user = viewer;
+  next();
+});
+app.get('/file/:fileId/thumbnail', UploadsController.getThumbnail);
+
+const labReport = {
+  id: 'file-1',
+  ownerHealthId: 'patient-1',
+  recordId: 'record-1',
+  mimeType: 'application/pdf',
+  tags: ['lab-report'],
+  status: 'COMPLETED',
+  scanStatus: 'CLEAN'
+};
+
+describe('UploadsController.getThumbnail', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.fileUpload.findUnique.mockResolvedValue(labReport);
+  });
+
+  it('serves a preview to a doctor whose consent covers the attachment', async () => {
+    verifyConsent.mockResolvedValue({ hasConsent: true, scopes: ['READ_LAB'] });
+
+    const response = await request(app).get('/file/file-1/thumbnail');
+
+    expect(response.status).toBe(200);
+    expect(verifyConsent).toHaveBeenCalledWith('doctor-1', 'patient-1', ['READ_LAB']);
+    expect(FileService.generateThumbnail).toHaveBeenCalled();
+  });
+
+  it('answers as if the file did not exist without a covering consent', async () => {
+    verifyConsent.mockResolvedValue({ hasConsent: false });
+
+    const response = await request(app).get('/file/file-1/thumbnail');
+
+    expect(response.status).toBe(404);
+    expect(FileService.generateThumbnail).not.toHaveBeenCalled();
+  });
+
+  it('keeps files outside any record private to their owner', async () => {
+    mockedPrisma.fileUpload.findUnique.mockResolvedValue({ ...labReport, recordId: null });
+
+    const response = await request(app).get('/file/file-1/thumbnail');
+
+    expect(response.status).toBe(404);
+    expect(verifyConsent).not.toHaveBeenCalled();
+  });
+});